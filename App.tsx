@@ -1,30 +1,85 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import FinanceAdvisor from './components/FinanceAdvisor';
 import ChatBot from './components/ChatBot';
 import InvestmentPredictor from './components/InvestmentPredictor';
+import WatchlistPanel from './components/WatchlistPanel';
+import SettingsPanel from './components/SettingsPanel';
+import type { Report } from './types';
+import { useI18n } from './i18n/I18nProvider';
+import { SUPPORTED_LANGUAGES } from './i18n/languages';
+import { useCurrency } from './currency/CurrencyProvider';
+import { useWatchlist } from './watchlist/WatchlistProvider';
+import { CACHE_TTLS, loadCacheTtl, saveCacheTtl } from './services/responseCache';
 
 function App() {
+  const { t, language, setLanguage } = useI18n();
+  const { baseCurrency, setBaseCurrency, currencies } = useCurrency();
+  const { unreadCount } = useWatchlist();
+  const [cacheTtl, setCacheTtl] = useState(loadCacheTtl);
+  const [adviceReport, setAdviceReport] = useState<Report | null>(null);
+  const [predictionReport, setPredictionReport] = useState<Report | null>(null);
+  const handleAdviceReport = useCallback((report: Report | null) => setAdviceReport(report), []);
+  const handlePredictionReport = useCallback((report: Report | null) => setPredictionReport(report), []);
+
+  // Results currently on screen, offered to the chat as context.
+  const availableContexts = [adviceReport, predictionReport].filter((r): r is Report => r !== null);
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col">
       <header className="bg-gray-800 shadow-md p-4">
         <div className="container mx-auto flex items-center justify-between">
             <h1 className="text-2xl md:text-3xl font-bold text-emerald-400 flex items-center gap-3">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C6.486 2 2 6.486 2 12s4.486 10 10 10 10-4.486 10-10S17.514 2 12 2zm0 18c-4.411 0-8-3.589-8-8s3.589-8 8-8 8 3.589 8 8-3.589 8-8 8z"></path><path d="M13 7h-2v5.414l3.293 3.293 1.414-1.414L13 11.586z"></path></svg>
-                <span>Finance Advisor</span>
+                <span>{t('app.title')}</span>
             </h1>
+            <div className="flex items-center gap-4">
+                <a href="#watchlist" className="relative text-sm text-gray-300 hover:text-white">
+                    {t('watch.title')}
+                    {unreadCount > 0 && (
+                        <span className="absolute -top-2 -right-4 min-w-5 px-1 rounded-full bg-emerald-500 text-xs text-white text-center" aria-label={t('watch.unread', { count: unreadCount })}>{unreadCount}</span>
+                    )}
+                </a>
+                <a href="#settings" className="text-sm text-gray-300 hover:text-white">{t('settings.title')}</a>
+                <label className="flex items-center gap-2 text-sm text-gray-300" title={t('cache.ttlHint')}>
+                    <span>{t('cache.ttl')}</span>
+                    <select value={cacheTtl} onChange={e => { setCacheTtl(Number(e.target.value)); saveCacheTtl(Number(e.target.value)); }} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 p-2">
+                        {CACHE_TTLS.map(minutes => (
+                            <option key={minutes} value={minutes}>
+                                {minutes === 0 ? t('cache.ttl.off') : minutes < 60 ? t('cache.ttl.minutes', { count: minutes }) : t('cache.ttl.hours', { count: minutes / 60 })}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <span>{t('app.currency')}</span>
+                    <select value={baseCurrency} onChange={e => setBaseCurrency(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 p-2">
+                        {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <span>{t('app.language')}</span>
+                    <select value={language.name} onChange={e => setLanguage(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 p-2">
+                        {SUPPORTED_LANGUAGES.map(option => <option key={option.name} value={option.name}>{option.nativeName}</option>)}
+                    </select>
+                </label>
+            </div>
         </div>
       </header>
 
       <main className="container mx-auto p-4 md:p-8 flex-grow">
-        <FinanceAdvisor />
+        <FinanceAdvisor onReportChange={handleAdviceReport} />
+        <div className="my-12 border-t border-gray-700"></div>
+        <InvestmentPredictor onReportChange={handlePredictionReport} />
+        <div className="my-12 border-t border-gray-700"></div>
+        <WatchlistPanel />
         <div className="my-12 border-t border-gray-700"></div>
-        <InvestmentPredictor />
+        <SettingsPanel />
       </main>
 
-      <ChatBot />
+      <ChatBot availableContexts={availableContexts} />
 
       <footer className="bg-gray-800 text-center p-4 mt-8">
-        <p className="text-gray-400 text-sm">Created by Aniket patil</p>
+        <p className="text-gray-400 text-sm">{t('app.footer', { name: 'Aniket patil' })}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,92 @@
+import React from 'react';
+import type { RiskTolerance } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { ALLOCATION_CLASSES, AllocationShare, classifyPortfolio, planRebalance, Position, TARGET_ALLOCATIONS, UNCLASSIFIED } from '../utils/allocation';
+import { holdingLabel } from '../utils/portfolio';
+import DonutChart from './DonutChart';
+
+interface AllocationPanelProps {
+    positions: Position[];
+    risk: RiskTolerance;
+    currency: string;
+}
+
+/**
+ * The portfolio as a whole: what it holds by asset class, sector, market cap
+ * and geography, and the trades that would bring it to the risk profile's
+ * target. Calculated locally from the positions' current values.
+ */
+const AllocationPanel: React.FC<AllocationPanelProps> = ({ positions, risk, currency }) => {
+    const { t, formatCurrency, formatPercent } = useI18n();
+    const breakdown = classifyPortfolio(positions);
+    const trades = planRebalance(positions, risk);
+    const targets = TARGET_ALLOCATIONS[risk];
+    const money = (value: number) => formatCurrency(Math.round(value), currency);
+    const classLabel = (key: string) => t(`allocation.class.${key}` as MessageKey);
+    const riskLabel = t(`risk.${risk}` as MessageKey);
+
+    const currentSlices = ALLOCATION_CLASSES.map(c => ({ label: classLabel(c), value: breakdown.assetClass.find(s => s.key === c)?.value ?? 0 }));
+    const targetSlices = ALLOCATION_CLASSES.map(c => ({ label: classLabel(c), value: targets[c] }));
+    const labelled = (items: AllocationShare[], label: (key: string) => string) =>
+        items.map(s => ({ label: s.key === UNCLASSIFIED ? t('allocation.unclassified') : label(s.key), value: s.value }));
+    const hasUnclassified = [...breakdown.sector, ...breakdown.marketCap].some(s => s.key === UNCLASSIFIED);
+
+    return (
+        <div className="mt-8 bg-gray-800/50 rounded-lg p-4 sm:p-6">
+            <h4 className="text-xl font-bold text-emerald-300 mb-1">{t('allocation.title')}</h4>
+            <p className="text-sm text-gray-400 mb-4">{t('allocation.subtitle', { risk: riskLabel, total: money(breakdown.total) })}</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                <DonutChart title={t('allocation.current')} slices={currentSlices} formatShare={formatPercent} />
+                <DonutChart title={t('allocation.target', { risk: riskLabel })} slices={targetSlices} formatShare={formatPercent} />
+            </div>
+
+            <h5 className="text-lg font-semibold text-gray-200 mb-2">{t('allocation.rebalance')}</h5>
+            {trades.length === 0 ? (
+                <p className="text-sm text-gray-300 mb-6">{t('allocation.balanced')}</p>
+            ) : (
+                <div className="overflow-x-auto mb-6">
+                    <table className="w-full text-sm text-right text-gray-300 tabular-nums">
+                        <thead className="text-xs uppercase text-gray-400">
+                            <tr>
+                                <th className="p-2 text-left">{t('allocation.assetClass')}</th>
+                                <th className="p-2">{t('allocation.currentValue')}</th>
+                                <th className="p-2">{t('allocation.targetValue')}</th>
+                                <th className="p-2">{t('allocation.action')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {trades.map(trade => (
+                                <tr key={trade.assetClass} className="border-t border-gray-700 align-top">
+                                    <td className="p-2 text-left">{classLabel(trade.assetClass)}</td>
+                                    <td className="p-2">{money(trade.current)}</td>
+                                    <td className="p-2">{money(trade.target)}</td>
+                                    <td className="p-2">
+                                        <span className={trade.amount > 0 ? 'text-green-400' : 'text-red-400'}>
+                                            {t(trade.amount > 0 ? 'allocation.buy' : 'allocation.sell', { amount: money(Math.abs(trade.amount)) })}
+                                        </span>
+                                        {trade.fromHoldings.map(({ holding, amount }) => (
+                                            <span key={holding.id} className="block text-xs text-gray-400">{holdingLabel(holding)}: {money(Math.abs(amount))}</span>
+                                        ))}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <DonutChart title={t('allocation.bySector')} slices={labelled(breakdown.sector, key => key)} formatShare={formatPercent} />
+                <DonutChart title={t('allocation.byMarketCap')} slices={labelled(breakdown.marketCap, key => t(`marketCap.${key}` as MessageKey))} formatShare={formatPercent} />
+                <DonutChart title={t('allocation.byGeography')} slices={labelled(breakdown.geography, key => t(`geography.${key}` as MessageKey))} formatShare={formatPercent} />
+            </div>
+            {hasUnclassified && <p className="text-xs text-gray-400 mt-3">{t('allocation.unclassifiedHint')}</p>}
+
+            <p className="text-xs text-gray-500 mt-4 italic">{t('allocation.disclaimer')}</p>
+        </div>
+    );
+};
+
+export default AllocationPanel;
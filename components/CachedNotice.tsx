@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CachedNoticeProps {
+    cachedAt: number;
+    onRefresh: () => void;
+    disabled?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+/** Says a result was reused from the response cache, with a way to ask again. */
+const CachedNotice: React.FC<CachedNoticeProps> = ({ cachedAt, onRefresh, disabled }) => {
+    const { t } = useI18n();
+    const [now, setNow] = useState(Date.now);
+
+    // Keeps the age current while the result stays on screen.
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), MINUTE);
+        return () => clearInterval(timer);
+    }, []);
+
+    const minutes = Math.floor((now - cachedAt) / MINUTE);
+    return (
+        <div className="flex flex-wrap items-center gap-3 bg-gray-800/50 text-sm text-gray-300 rounded-lg px-4 py-2 mb-4">
+            <span>{minutes < 1 ? t('cache.cachedJustNow') : t('cache.cachedAgo', { minutes })}</span>
+            <button type="button" onClick={onRefresh} disabled={disabled} title={t('cache.refreshHint')} className="text-emerald-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+                {t('cache.refresh')}
+            </button>
+        </div>
+    );
+};
+
+export default CachedNotice;
@@ -1,16 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../types';
-import { getChatResponse } from '../services/geminiService';
-import { ChatIcon, CloseIcon, SendIcon } from './icons/Icons';
+import type { ChatMessage, Conversation, Report } from '../types';
+import { streamChatResponse } from '../services/advisorService';
+import { createConversation, deleteConversation, listConversations, saveConversation, titleFromMessage, UNTITLED } from '../services/conversationService';
+import { useSpeechPlayback } from '../hooks/useSpeechPlayback';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import type { PlaybackSection } from '../services/playbackEngine';
+import { errorMessageKey } from '../utils/errorMessage';
+import { toSpeechText } from '../utils/markdown';
+import { useI18n } from '../i18n/I18nProvider';
+import { detectLanguage, LanguageInfo } from '../i18n/languages';
+import { ChatIcon, CloseIcon, SendIcon, SpeakerIcon, StopIcon } from './icons/Icons';
+import ConversationBar from './ConversationBar';
+import MarkdownMessage from './MarkdownMessage';
+import PlaybackControls from './PlaybackControls';
+import MicButton from './MicButton';
+import TranscriptReview from './TranscriptReview';
 
-const ChatBot: React.FC = () => {
+// Replies follow the user's language, so pick the TTS language per line from its script.
+const speechSectionsFor = (text: string, messageIndex: number, preferred: LanguageInfo): PlaybackSection[] =>
+    toSpeechText(text)
+        .split('\n')
+        .map((line, i) => ({ id: `${messageIndex}-${i}`, text: line, language: detectLanguage(line, preferred).name }));
+
+const ChatBot: React.FC<{ availableContexts: Report[] }> = ({ availableContexts }) => {
+    const { language, t } = useI18n();
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<ChatMessage[]>([
-        { sender: 'bot', text: "Hello! How can I help you today?" }
-    ]);
+    const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation(t('chat.greeting'))]);
+    const [activeId, setActiveId] = useState(() => conversations[0].id);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const playback = useSpeechPlayback(language.name);
+    const voice = useVoiceInput(language.name);
+
+    const active = conversations.find(c => c.id === activeId) || conversations[0];
+    const messages = active.messages;
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -18,45 +43,126 @@ const ChatBot: React.FC = () => {
 
     useEffect(scrollToBottom, [messages, isOpen]);
 
-    const handleSend = async () => {
-        if (input.trim() === '' || isLoading) return;
+    useEffect(() => {
+        listConversations()
+            .then(stored => {
+                if (stored.length === 0) return;
+                setConversations(stored);
+                setActiveId(stored[0].id);
+            })
+            .catch(err => console.error("Error loading conversations:", err));
+    }, []);
+
+    // Abort any reply still streaming when the widget unmounts.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const replaceConversation = (conversation: Conversation, persist = true) => {
+        setConversations(prev => prev.map(c => (c.id === conversation.id ? conversation : c)));
+        if (persist) {
+            saveConversation(conversation).catch(err => console.error("Error saving conversation:", err));
+        }
+    };
+
+    const handleCreate = () => {
+        const conversation = createConversation(t('chat.greeting'));
+        setConversations(prev => [conversation, ...prev]);
+        setActiveId(conversation.id);
+    };
+
+    const handleDelete = async () => {
+        const title = active.title === UNTITLED ? t('chat.untitled') : active.title;
+        if (!window.confirm(t('chat.deleteConfirm', { title }))) return;
+        await deleteConversation(active.id).catch(err => console.error("Error deleting conversation:", err));
+        const remaining = conversations.filter(c => c.id !== active.id);
+        const next = remaining.length > 0 ? remaining : [createConversation(t('chat.greeting'))];
+        setConversations(next);
+        setActiveId(next[0].id);
+    };
+
+    const handleSend = async (text = input) => {
+        if (text.trim() === '' || isLoading) return;
         
-        const userMessage: ChatMessage = { sender: 'user', text: input };
-        setMessages(prev => [...prev, userMessage]);
-        setInput('');
+        const userMessage: ChatMessage = { sender: 'user', text };
+        const base: Conversation = {
+            ...active,
+            title: active.title === UNTITLED ? titleFromMessage(text) : active.title,
+            messages: [...active.messages, userMessage],
+            updatedAt: Date.now(),
+        };
+        const withReply = (reply: ChatMessage): Conversation => ({ ...base, messages: [...base.messages, reply] });
+
+        replaceConversation(base);
+        if (text === input) setInput('');
         setIsLoading(true);
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let reply = '';
+
         try {
-            const botResponseText = await getChatResponse(input);
-            const botMessage: ChatMessage = { sender: 'bot', text: botResponseText };
-            setMessages(prev => [...prev, botMessage]);
+            const request = { history: active.messages, message: userMessage.text, context: active.context };
+            for await (const chunk of streamChatResponse(request, controller.signal)) {
+                reply += chunk;
+                replaceConversation(withReply({ sender: 'bot', text: reply }), false);
+            }
+            replaceConversation(withReply({ sender: 'bot', text: reply, interrupted: controller.signal.aborted || undefined }));
         } catch (error) {
-            const errorMessage: ChatMessage = { sender: 'bot', text: "Sorry, I'm having trouble connecting. Please try again." };
-            setMessages(prev => [...prev, errorMessage]);
+            replaceConversation(withReply(reply
+                ? { sender: 'bot', text: reply, interrupted: true }
+                : { sender: 'bot', text: t(errorMessageKey(error, 'chat.connectionError') ?? 'chat.connectionError') }));
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
 
+    const isReading = (messageIndex: number) => playback.currentSectionId?.startsWith(`${messageIndex}-`) ?? false;
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
     return (
         <>
             {isOpen ? (
-                <div className="fixed bottom-4 right-4 sm:bottom-8 sm:right-8 w-[calc(100%-2rem)] max-w-md h-[70vh] max-h-[500px] bg-gray-800 rounded-lg shadow-2xl flex flex-col z-50 animate-fade-in-up">
+                <div className="fixed bottom-4 right-4 sm:bottom-8 sm:right-8 w-[calc(100%-2rem)] max-w-md h-[75vh] max-h-[600px] bg-gray-800 rounded-lg shadow-2xl flex flex-col z-50 animate-fade-in-up">
                     <div className="flex justify-between items-center p-4 bg-gray-700 rounded-t-lg">
-                        <h3 className="font-bold text-lg text-emerald-300">AI Assistant</h3>
-                        <button onClick={() => setIsOpen(false)} className="text-gray-300 hover:text-white">
+                        <h3 className="font-bold text-lg text-emerald-300">{t('chat.title')}</h3>
+                        <button onClick={() => { playback.stop(); setIsOpen(false); }} className="text-gray-300 hover:text-white">
                            <CloseIcon />
                         </button>
                     </div>
+                    <ConversationBar
+                        conversations={conversations}
+                        active={active}
+                        availableContexts={availableContexts}
+                        disabled={isLoading}
+                        onSelect={id => { playback.stop(); setActiveId(id); }}
+                        onCreate={handleCreate}
+                        onRename={title => replaceConversation({ ...active, title, updatedAt: Date.now() })}
+                        onDelete={handleDelete}
+                        onAttach={context => replaceConversation({ ...active, context, updatedAt: Date.now() })}
+                    />
                     <div className="flex-1 p-4 overflow-y-auto">
                         {messages.map((msg, index) => (
                             <div key={index} className={`flex mb-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                <div className={`rounded-lg px-4 py-2 max-w-[80%] ${msg.sender === 'user' ? 'bg-emerald-600 text-white' : 'bg-gray-600 text-gray-200'}`}>
-                                    {msg.text}
+                                <div className={`rounded-lg px-4 py-2 max-w-[85%] ${msg.sender === 'user' ? 'bg-emerald-600 text-white whitespace-pre-wrap' : 'bg-gray-600 text-gray-200'} ${isReading(index) ? 'ring-2 ring-emerald-400' : ''}`}>
+                                    {msg.sender === 'bot' ? <MarkdownMessage text={msg.text} /> : msg.text}
+                                    {msg.interrupted && <span className="block text-xs text-gray-400 italic mt-1">{t('chat.stopped')}</span>}
+                                    {msg.sender === 'bot' && !(isLoading && index === messages.length - 1) && (
+                                        <button
+                                            onClick={() => playback.play(speechSectionsFor(msg.text, index, language))}
+                                            className="mt-1 text-gray-400 hover:text-white"
+                                            title={t('chat.readAloud')}
+                                            aria-label={t('chat.readAloud')}
+                                        >
+                                            <SpeakerIcon />
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         ))}
-                        {isLoading && (
+                        {isLoading && messages[messages.length - 1].sender === 'user' && (
                              <div className="flex justify-start">
                                 <div className="rounded-lg px-4 py-2 bg-gray-600 text-gray-200">
                                     <span className="animate-pulse">...</span>
@@ -65,20 +171,33 @@ const ChatBot: React.FC = () => {
                         )}
                         <div ref={messagesEndRef} />
                     </div>
-                    <div className="p-4 bg-gray-700 rounded-b-lg">
+                    {(playback.status !== 'idle' || playback.error) && (
+                        <div className="px-4 py-2 bg-gray-700 border-b border-gray-600">
+                            <PlaybackControls playback={playback} sections={playback.sections} />
+                        </div>
+                    )}
+                    <div className="p-4 bg-gray-700 rounded-b-lg space-y-2">
+                        <TranscriptReview voice={voice} confirmLabel={t('chat.send')} onConfirm={text => handleSend(text)} />
                         <div className="flex items-center">
+                            <MicButton voice={voice} disabled={isLoading} className="rounded-l-lg" />
                             <input
                                 type="text"
                                 value={input}
                                 onChange={(e) => setInput(e.target.value)}
                                 onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-                                placeholder="Ask me anything..."
-                                className="flex-1 bg-gray-600 border border-gray-500 rounded-l-lg p-2 focus:outline-none focus:ring-2 focus:ring-emerald-500 text-gray-200"
+                                placeholder={t('chat.placeholder')}
+                                className="flex-1 bg-gray-600 border border-gray-500 p-2 focus:outline-none focus:ring-2 focus:ring-emerald-500 text-gray-200"
                                 disabled={isLoading}
                             />
-                            <button onClick={handleSend} disabled={isLoading} className="bg-emerald-600 hover:bg-emerald-700 text-white p-2 rounded-r-lg disabled:bg-gray-500">
-                                <SendIcon />
-                            </button>
+                            {isLoading ? (
+                                <button onClick={handleStop} title={t('chat.stopGenerating')} className="bg-red-600 hover:bg-red-700 text-white p-2 rounded-r-lg">
+                                    <StopIcon />
+                                </button>
+                            ) : (
+                                <button onClick={() => handleSend()} title={t('chat.send')} className="bg-emerald-600 hover:bg-emerald-700 text-white p-2 rounded-r-lg">
+                                    <SendIcon />
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
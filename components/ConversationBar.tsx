@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { Conversation, Report } from '../types';
+import { UNTITLED } from '../services/conversationService';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ConversationBarProps {
+    conversations: Conversation[];
+    active: Conversation;
+    availableContexts: Report[];
+    disabled: boolean;
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onRename: (title: string) => void;
+    onDelete: () => void;
+    onAttach: (context: Report | null) => void;
+}
+
+const controlClass = 'bg-gray-600 border border-gray-500 text-gray-200 text-xs rounded p-1 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+const ConversationBar: React.FC<ConversationBarProps> = ({
+    conversations, active, availableContexts, disabled, onSelect, onCreate, onRename, onDelete, onAttach,
+}) => {
+    const { t, formatDateTime } = useI18n();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const titleOf = (conversation: Conversation) => (conversation.title === UNTITLED ? t('chat.untitled') : conversation.title);
+
+    const contextLabel = (report: Report) =>
+        t(report.kind === 'advice' ? 'chat.contextAdvice' : 'chat.contextPrediction', { date: formatDateTime(report.createdAt) });
+
+    const startRename = () => {
+        setDraftTitle(titleOf(active));
+        setIsRenaming(true);
+    };
+
+    const commitRename = () => {
+        if (draftTitle.trim()) onRename(draftTitle.trim());
+        setIsRenaming(false);
+    };
+
+    // The attached result may be older than what's on screen now; keep it selectable.
+    const contexts = active.context && !availableContexts.some(c => c.createdAt === active.context!.createdAt)
+        ? [active.context, ...availableContexts]
+        : availableContexts;
+
+    return (
+        <div className="px-4 py-2 bg-gray-700/60 border-t border-gray-600 space-y-2">
+            <div className="flex items-center gap-2">
+                {isRenaming ? (
+                    <input
+                        autoFocus
+                        aria-label={t('chat.conversationName')}
+                        value={draftTitle}
+                        onChange={e => setDraftTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setIsRenaming(false);
+                        }}
+                        className={`${controlClass} flex-1`}
+                    />
+                ) : (
+                    <select aria-label={t('chat.conversation')} value={active.id} onChange={e => onSelect(e.target.value)} disabled={disabled} className={`${controlClass} flex-1 min-w-0`}>
+                        {conversations.map(c => <option key={c.id} value={c.id}>{titleOf(c)}</option>)}
+                    </select>
+                )}
+                <button onClick={onCreate} disabled={disabled} className="text-xs text-emerald-300 hover:text-emerald-200 disabled:opacity-50">{t('chat.new')}</button>
+                <button onClick={startRename} disabled={disabled || isRenaming} className="text-xs text-gray-300 hover:text-white disabled:opacity-50">{t('chat.rename')}</button>
+                <button onClick={onDelete} disabled={disabled} className="text-xs text-gray-300 hover:text-red-400 disabled:opacity-50">{t('common.delete')}</button>
+            </div>
+            {contexts.length > 0 && (
+                <select
+                    aria-label={t('chat.attach')}
+                    value={active.context ? String(active.context.createdAt) : ''}
+                    onChange={e => onAttach(contexts.find(c => String(c.createdAt) === e.target.value) || null)}
+                    disabled={disabled}
+                    className={`${controlClass} w-full`}
+                >
+                    <option value="">{t('chat.noContext')}</option>
+                    {contexts.map(c => <option key={c.createdAt} value={c.createdAt}>{t('chat.discuss', { label: contextLabel(c) })}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+export default ConversationBar;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CHART_COLORS } from './MiniChart';
+
+const SIZE = 160;
+const RADIUS = 60;
+const STROKE = 24;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+export interface DonutSlice {
+    label: string;
+    value: number;
+}
+
+/**
+ * Shares of a whole as a ring. Colours follow slice order, so two charts fed
+ * the same labels in the same order can be compared side by side.
+ */
+const DonutChart: React.FC<{ title: string; slices: DonutSlice[]; formatShare: (share: number) => string }> = ({ title, slices, formatShare }) => {
+    const total = slices.reduce((sum, slice) => sum + Math.max(0, slice.value), 0);
+    let offset = 0;
+
+    return (
+        <figure className="bg-gray-700/60 rounded p-2">
+            <figcaption className="text-xs font-semibold text-gray-200 mb-1">{title}</figcaption>
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-40 h-40 mx-auto" role="img" aria-label={title}>
+                <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" stroke="#374151" strokeWidth={STROKE} />
+                {total > 0 && slices.map((slice, index) => {
+                    if (slice.value <= 0) return null;
+                    const length = (slice.value / total) * CIRCUMFERENCE;
+                    const arc = (
+                        <circle
+                            key={slice.label}
+                            cx={SIZE / 2}
+                            cy={SIZE / 2}
+                            r={RADIUS}
+                            fill="none"
+                            stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                            strokeWidth={STROKE}
+                            strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+                            strokeDashoffset={-offset}
+                            transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}
+                        >
+                            <title>{`${slice.label}: ${formatShare(slice.value / total)}`}</title>
+                        </circle>
+                    );
+                    offset += length;
+                    return arc;
+                })}
+            </svg>
+            <ul className="mt-2 space-y-1 text-xs text-gray-300">
+                {slices.map((slice, index) => (
+                    <li key={slice.label} className="flex items-center gap-2">
+                        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: CHART_COLORS[index % CHART_COLORS.length] }} />
+                        <span className="flex-grow">{slice.label}</span>
+                        <span className="tabular-nums">{formatShare(total > 0 ? Math.max(0, slice.value) / total : 0)}</span>
+                    </li>
+                ))}
+            </ul>
+        </figure>
+    );
+};
+
+export default DonutChart;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useCurrency } from '../currency/CurrencyProvider';
+import { useI18n } from '../i18n/I18nProvider';
+import { isCurrencyCode, RATE_PIVOT } from '../utils/currency';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded p-1.5 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+const parseRate = (text: string): number | null => {
+    const rate = Number(text);
+    return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+// Commits on blur so a half-typed value doesn't remove the currency.
+const RateInput: React.FC<{ code: string; rate: number; onCommit: (rate: number) => void }> = ({ code, rate, onCommit }) => {
+    const [draft, setDraft] = useState(String(rate));
+    const commit = () => {
+        const parsed = parseRate(draft);
+        if (parsed === null) {
+            setDraft(String(rate));
+        } else if (parsed !== rate) {
+            onCommit(parsed);
+        }
+    };
+    return (
+        <input
+            type="number"
+            min="0"
+            step="any"
+            aria-label={code}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => e.key === 'Enter' && commit()}
+            className={`${inputClass} w-28 tabular-nums`}
+        />
+    );
+};
+
+/** Lets the user keep the local rate table current; conversions never fetch live rates. */
+const ExchangeRateEditor: React.FC = () => {
+    const { t, formatDateTime } = useI18n();
+    const { baseCurrency, exchangeRates, setRate, resetRates } = useCurrency();
+    const [isOpen, setIsOpen] = useState(false);
+    const [newCode, setNewCode] = useState('');
+    const [newRate, setNewRate] = useState('');
+
+    const codes = Object.keys(exchangeRates.rates).sort();
+    const canAdd = isCurrencyCode(newCode) && newCode !== RATE_PIVOT && !codes.includes(newCode) && parseRate(newRate) !== null;
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        setRate(newCode, parseRate(newRate));
+        setNewCode('');
+        setNewRate('');
+    };
+
+    return (
+        <div className="mb-4">
+            <button type="button" onClick={() => setIsOpen(prev => !prev)} className="text-sm text-emerald-400 hover:underline">
+                {isOpen ? t('rates.hide') : t('rates.show')}
+            </button>
+            {isOpen && (
+                <div className="mt-3 bg-gray-800/50 rounded-lg p-4 space-y-3 text-sm text-gray-300">
+                    <p className="text-xs text-gray-400">{t('rates.hint', { currency: baseCurrency })}</p>
+                    <ul className="space-y-2">
+                        {codes.map(code => (
+                            <li key={`${code}-${exchangeRates.rates[code]}`} className="flex items-center gap-2">
+                                <span className="w-16">1 {code} =</span>
+                                <RateInput code={code} rate={exchangeRates.rates[code]} onCommit={rate => setRate(code, rate)} />
+                                <span>{RATE_PIVOT}</span>
+                                <button type="button" onClick={() => setRate(code, null)} className="ml-auto text-gray-400 hover:text-red-400">{t('common.delete')}</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-700">
+                        <input
+                            type="text"
+                            maxLength={3}
+                            aria-label={t('rates.code')}
+                            placeholder="EUR"
+                            value={newCode}
+                            onChange={e => setNewCode(e.target.value.toUpperCase())}
+                            className={`${inputClass} w-16`}
+                        />
+                        <span>=</span>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            aria-label={t('rates.rate')}
+                            value={newRate}
+                            onChange={e => setNewRate(e.target.value)}
+                            className={`${inputClass} w-28`}
+                        />
+                        <span>{RATE_PIVOT}</span>
+                        <button type="button" onClick={handleAdd} disabled={!canAdd} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{t('rates.add')}</button>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{exchangeRates.updatedAt !== null ? t('rates.updated', { date: formatDateTime(exchangeRates.updatedAt) }) : t('rates.defaults')}</span>
+                        <button type="button" onClick={resetRates} className="text-gray-400 hover:text-white">{t('rates.reset')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExchangeRateEditor;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import type { Report } from '../types';
+import { getTextToSpeechAudio } from '../services/advisorService';
+import type { PlaybackSection } from '../services/playbackEngine';
+import { decode } from '../utils/audio';
+import { downloadFile, printReport, reportFileName, toJson, toMarkdown } from '../utils/reportExport';
+import { encodeWav } from '../utils/wav';
+import { useI18n } from '../i18n/I18nProvider';
+
+const buttonClass = 'px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-wait';
+
+const AudioBriefingButton: React.FC<{ report: Report; sections: PlaybackSection[] }> = ({ report, sections }) => {
+    const [isBuilding, setIsBuilding] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const { t } = useI18n();
+
+    const handleDownload = async () => {
+        setIsBuilding(true);
+        setFailed(false);
+        try {
+            // Sections already read aloud come from the TTS cache.
+            const chunks = await Promise.all(sections.map(section =>
+                getTextToSpeechAudio(section.text, section.language ?? report.inputs.language)));
+            downloadFile(reportFileName(report, 'wav'), encodeWav(chunks.map(decode)), 'audio/wav');
+        } catch (err) {
+            console.error("Error building audio briefing:", err);
+            setFailed(true);
+        } finally {
+            setIsBuilding(false);
+        }
+    };
+
+    return (
+        <button type="button" onClick={handleDownload} disabled={isBuilding || sections.length === 0} className={buttonClass} title={failed ? t('export.audioFailed') : t('export.audioHint')}>
+            {isBuilding ? t('export.audioBuilding') : failed ? t('export.audioRetry') : t('export.audio')}
+        </button>
+    );
+};
+
+const ExportMenu: React.FC<{ report: Report; speechSections?: PlaybackSection[] }> = ({ report, speechSections }) => {
+    const i18n = useI18n();
+    const { t } = i18n;
+    return (
+        <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-400">{t('export.label')}</span>
+            <button type="button" onClick={() => printReport(report, i18n)} className={buttonClass} title={t('export.pdfHint')}>{t('export.print')}</button>
+            <button type="button" onClick={() => downloadFile(reportFileName(report, 'md'), toMarkdown(report, i18n), 'text/markdown;charset=utf-8')} className={buttonClass}>Markdown</button>
+            <button type="button" onClick={() => downloadFile(reportFileName(report, 'json'), toJson(report), 'application/json')} className={buttonClass}>JSON</button>
+            {speechSections && <AudioBriefingButton report={report} sections={speechSections} />}
+        </div>
+    );
+};
+
+export default ExportMenu;
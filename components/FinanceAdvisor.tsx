@@ -1,133 +1,182 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { getFinancialAdvice, getTextToSpeechAudio } from '../services/geminiService';
-import type { FinancialAdvice, Recommendation, GroundingChunk } from '../types';
-import { decode, decodeAudioData } from '../utils/audio';
-import { LoadingIcon, SpeakerIcon, StopIcon, UpTrendIcon, DownTrendIcon, StableTrendIcon } from './icons/Icons';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { extractAdviceInputs, getFinancialAdvice, RequestOptions } from '../services/advisorService';
+import { saveHistoryEntry } from '../services/historyService';
+import { recommendationWatchItem } from '../services/watchlistService';
+import { loadRiskProfile, saveRiskProfile } from '../services/riskProfileService';
+import type { PlaybackSection } from '../services/playbackEngine';
+import { useSpeechPlayback } from '../hooks/useSpeechPlayback';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import type { FinancialAdvice, PartialFinancialAdvice, Recommendation, GroundingChunk, ValidationIssue, HistoryEntry, Report, RiskProfile } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { useCurrency } from '../currency/CurrencyProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { errorMessageKey } from '../utils/errorMessage';
+import { allocationFromRecommendations } from '../utils/simulation';
+import { LoadingIcon, UpTrendIcon, DownTrendIcon, StableTrendIcon } from './icons/Icons';
+import PartialParseNotice from './PartialParseNotice';
+import HistoryPanel from './HistoryPanel';
+import ExportMenu from './ExportMenu';
+import PlaybackControls from './PlaybackControls';
+import ProjectionPanel from './ProjectionPanel';
+import SimulationPanel from './SimulationPanel';
+import MicButton from './MicButton';
+import TranscriptReview from './TranscriptReview';
+import RiskQuestionnaire from './RiskQuestionnaire';
+import WatchButton from './WatchButton';
+import CachedNotice from './CachedNotice';
 
-const FinanceAdvisor: React.FC = () => {
+const FinanceAdvisor: React.FC<{ onReportChange?: (report: Report | null) => void }> = ({ onReportChange }) => {
     const [investmentAmount, setInvestmentAmount] = useState(5000);
-    const [riskTolerance, setRiskTolerance] = useState('Medium');
+    const [riskProfile, setRiskProfile] = useState<RiskProfile | null>(loadRiskProfile);
+    // Follows the questionnaire, unless voice input or a history run sets it.
+    const [riskTolerance, setRiskTolerance] = useState<string>(() => riskProfile?.tolerance ?? 'Medium');
+    const [isQuestionnaireOpen, setIsQuestionnaireOpen] = useState(false);
     const [investmentHorizon, setInvestmentHorizon] = useState(5);
-    const [language, setLanguage] = useState('English');
     const [advice, setAdvice] = useState<FinancialAdvice | null>(null);
+    // What has streamed in of the advice being generated.
+    const [partialAdvice, setPartialAdvice] = useState<PartialFinancialAdvice | null>(null);
     const [sources, setSources] = useState<GroundingChunk[]>([]);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const [isSpeaking, setIsSpeaking] = useState(false);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-    const audioQueueRef = useRef<string[]>([]);
-    const isStoppedManuallyRef = useRef<boolean>(false);
-
-    const playNextInQueue = useCallback(async () => {
-        if (isStoppedManuallyRef.current || audioQueueRef.current.length === 0) {
-            setIsSpeaking(false);
-            isStoppedManuallyRef.current = false;
-            return;
-        }
-
-        const text = audioQueueRef.current.shift();
-        if (!text) return;
+    // Message keys rather than text, so they follow a language switch.
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const [report, setReport] = useState<Report | null>(null);
+    // When the shown advice was reused from the response cache.
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
-        try {
-            const audioData = await getTextToSpeechAudio(text, language);
-            
-            if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const context = audioContextRef.current;
-            
-            if (context.state === 'suspended') {
-                await context.resume();
-            }
-            
-            const decodedBytes = decode(audioData);
-            const audioBuffer = await decodeAudioData(decodedBytes, context, 24000, 1);
-            
-            const source = context.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(context.destination);
-            source.onended = () => {
-                audioSourceRef.current = null;
-                playNextInQueue(); // Automatically play the next chunk
-            };
-            source.start();
-            audioSourceRef.current = source;
-        } catch (err) {
-            setError('Failed to generate or play audio for a segment.');
-            setIsSpeaking(false);
-        }
-    }, [language]);
-
-
-    const stopPlayback = useCallback(() => {
-        isStoppedManuallyRef.current = true;
-        audioQueueRef.current = [];
-        if (audioSourceRef.current) {
-            audioSourceRef.current.onended = null; // Prevent onended from triggering next playback
-            audioSourceRef.current.stop();
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
-        }
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-             audioContextRef.current.suspend();
-        }
-        setIsSpeaking(false);
-    }, []);
-    
-    const handleSpeak = async () => {
-        if (!advice) return;
-        if (isSpeaking) {
-            stopPlayback();
-            return;
-        }
+    const [voiceFillNote, setVoiceFillNote] = useState<{ key: MessageKey; fields?: MessageKey[] } | null>(null);
+    const [isVoiceFilling, setIsVoiceFilling] = useState(false);
 
-        setError(null);
-        setIsSpeaking(true);
-        isStoppedManuallyRef.current = false;
-        
-        // Create logical chunks of text for smoother streaming
-        const textChunks = [
-            advice.summary,
-            ...advice.recommendations.map(r => `${r.category}: ${r.name}. ${r.rationale}`)
-        ];
-        
-        audioQueueRef.current = textChunks;
-        playNextInQueue();
-    };
+    const { t, language, setLanguage, formatCurrency } = useI18n();
+    const { baseCurrency, setBaseCurrency, currencies, toBase } = useCurrency();
+    // A run opened from history is read in the language it was generated in.
+    const playback = useSpeechPlayback(report?.inputs.language ?? language.name);
+    const voice = useVoiceInput(language.name);
+    const speechSections = useMemo<PlaybackSection[]>(() => advice ? [
+        { id: 'summary', text: advice.summary },
+        ...advice.recommendations.map((r, index) => ({ id: `rec-${index}`, text: `${r.category}: ${r.name}. ${r.rationale}` })),
+    ] : [], [advice]);
 
-    // Cleanup on unmount
     useEffect(() => {
-        return () => {
-            stopPlayback();
-        }
-    }, [stopPlayback]);
+        onReportChange?.(report);
+    }, [report, onReportChange]);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // Leaving the tab mid-request stops it rather than paying for an answer no one sees.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const requestAdvice = async (options?: RequestOptions) => {
         setIsLoading(true);
         setError(null);
         setAdvice(null);
+        setPartialAdvice(null);
         setSources([]);
-        stopPlayback();
+        setIssues([]);
+        setReport(null);
+        setCachedAt(null);
+        playback.stop();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         try {
-            const { advice: newAdvice, sources: newSources } = await getFinancialAdvice(investmentAmount, riskTolerance, investmentHorizon, language);
+            const { advice: newAdvice, sources: newSources, issues: newIssues, cachedAt: newCachedAt } = await getFinancialAdvice(investmentAmount, baseCurrency, riskTolerance, investmentHorizon, language.name, riskProfile ?? undefined, {
+                ...options,
+                signal: controller.signal,
+                onProgress: setPartialAdvice,
+            });
             setAdvice(newAdvice);
             setSources(newSources);
+            setIssues(newIssues);
+            setCachedAt(newCachedAt);
+            const run: Report = {
+                kind: 'advice',
+                createdAt: Date.now(),
+                inputs: { investmentAmount, currency: baseCurrency, riskTolerance, investmentHorizon, language: language.name, ...(riskProfile && { riskProfile }) },
+                result: newAdvice,
+                sources: newSources,
+            };
+            setReport(run);
+            // A cached answer is already in history from the run that produced it.
+            if (newCachedAt !== null) return;
+            saveHistoryEntry(run)
+                .then(() => setHistoryVersion(v => v + 1))
+                .catch(err => console.error("Error saving advice history:", err));
         } catch (err) {
-            setError('An error occurred while fetching financial advice. Please try again.');
+            setError(errorMessageKey(err, 'advisor.error'));
         } finally {
+            abortControllerRef.current = null;
+            setPartialAdvice(null);
             setIsLoading(false);
         }
     };
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        requestAdvice();
+    };
+
+    const handleVoiceFill = async (transcript: string) => {
+        setIsVoiceFilling(true);
+        setVoiceFillNote(null);
+        try {
+            const inputs = await extractAdviceInputs(transcript);
+            const filled: MessageKey[] = [];
+            if (inputs.investmentAmount !== undefined) {
+                setInvestmentAmount(inputs.investmentAmount);
+                filled.push('advisor.field.amount');
+            }
+            if (inputs.currency !== undefined && currencies.includes(inputs.currency)) {
+                setBaseCurrency(inputs.currency);
+                filled.push('advisor.field.currency');
+            }
+            if (inputs.riskTolerance !== undefined) {
+                setRiskTolerance(inputs.riskTolerance);
+                filled.push('advisor.field.risk');
+            }
+            if (inputs.investmentHorizon !== undefined) {
+                setInvestmentHorizon(inputs.investmentHorizon);
+                filled.push('advisor.field.horizon');
+            }
+            if (inputs.language !== undefined) {
+                setLanguage(inputs.language);
+                filled.push('advisor.field.language');
+            }
+            setVoiceFillNote(filled.length > 0 ? { key: 'advisor.voiceFilled', fields: filled } : { key: 'advisor.voiceNothingFound' });
+        } catch (err) {
+            setVoiceFillNote({ key: 'advisor.voiceFailed' });
+        } finally {
+            setIsVoiceFilling(false);
+        }
+    };
+
+    const handleProfileComplete = (profile: RiskProfile) => {
+        saveRiskProfile(profile);
+        setRiskProfile(profile);
+        setRiskTolerance(profile.tolerance);
+        setIsQuestionnaireOpen(false);
+    };
+
+    const handleOpenHistory = (entry: HistoryEntry) => {
+        if (entry.kind !== 'advice') return;
+        playback.stop();
+        // Shown in today's base currency; kept as saved if there is no rate for it.
+        setInvestmentAmount(toBase(entry.inputs.investmentAmount, entry.inputs.currency) ?? entry.inputs.investmentAmount);
+        setRiskTolerance(entry.inputs.riskTolerance);
+        setInvestmentHorizon(entry.inputs.investmentHorizon);
+        setAdvice(entry.result);
+        setSources(entry.sources);
+        setIssues([]);
+        setError(null);
+        setCachedAt(null);
+        setReport(entry);
+    };
+
     const PredictionDisplay: React.FC<{ prediction: 'Up' | 'Down' | 'Stable' }> = ({ prediction }) => {
         const predictionStyles = {
-            Up: { icon: <UpTrendIcon />, color: 'text-green-400', text: 'Upward Trend' },
-            Down: { icon: <DownTrendIcon />, color: 'text-red-400', text: 'Downward Trend' },
-            Stable: { icon: <StableTrendIcon />, color: 'text-yellow-400', text: 'Stable Trend' },
+            Up: { icon: <UpTrendIcon />, color: 'text-green-400', text: t('trend.Up') },
+            Down: { icon: <DownTrendIcon />, color: 'text-red-400', text: t('trend.Down') },
+            Stable: { icon: <StableTrendIcon />, color: 'text-yellow-400', text: t('trend.Stable') },
         };
         const style = predictionStyles[prediction] || predictionStyles.Stable;
         return (
@@ -138,7 +187,7 @@ const FinanceAdvisor: React.FC = () => {
         );
     };
 
-    const RecommendationCard: React.FC<{ item: Recommendation }> = ({ item }) => {
+    const RecommendationCard: React.FC<{ item: Recommendation; isReading: boolean }> = ({ item, isReading }) => {
         const confidenceColor = {
             High: 'text-green-400',
             Medium: 'text-yellow-400',
@@ -146,18 +195,21 @@ const FinanceAdvisor: React.FC = () => {
         }[item.confidence];
     
         return (
-            <div className="bg-gray-800 rounded-lg p-6 shadow-lg transform hover:scale-105 transition-transform duration-300 flex flex-col">
-                <h3 className="text-xl font-bold text-emerald-400 mb-2">{item.name}</h3>
+            <div className={`bg-gray-800 rounded-lg p-6 shadow-lg transform hover:scale-105 transition-transform duration-300 flex flex-col ${isReading ? 'ring-2 ring-emerald-400' : ''}`}>
+                <div className="flex justify-between items-start gap-2 mb-2">
+                    <h3 className="text-xl font-bold text-emerald-400">{item.name}</h3>
+                    <WatchButton item={recommendationWatchItem(item, report?.inputs.language ?? language.name)} />
+                </div>
                 <p className="text-sm font-semibold text-gray-400 mb-4">{item.category}</p>
                 <p className="text-gray-300 mb-4 flex-grow">{item.rationale}</p>
                 <div className="mt-auto space-y-3">
                     <div className="flex justify-between items-center">
-                        <span className="font-semibold text-gray-400">Prediction:</span>
+                        <span className="font-semibold text-gray-400">{t('common.prediction')}</span>
                         <PredictionDisplay prediction={item.prediction} />
                     </div>
                     <div className="flex justify-between items-center">
-                         <span className="font-semibold text-gray-400">Confidence:</span>
-                        <span className={confidenceColor}>{item.confidence}</span>
+                         <span className="font-semibold text-gray-400">{t('common.confidence')}</span>
+                        <span className={confidenceColor}>{t(`confidence.${item.confidence}` as MessageKey)}</span>
                     </div>
                 </div>
             </div>
@@ -166,65 +218,121 @@ const FinanceAdvisor: React.FC = () => {
 
     return (
         <div className="bg-gray-900 p-4 sm:p-6 md:p-8 rounded-xl shadow-2xl border border-gray-700">
-            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">Personalized Financial Plan</h2>
-            <p className="text-center text-gray-400 mb-8">Enter your criteria to receive AI-powered investment suggestions.</p>
+            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">{t('advisor.title')}</h2>
+            <p className="text-center text-gray-400 mb-8">{t('advisor.subtitle')}</p>
+
+            <div className="mb-6 space-y-2">
+                <div className="flex items-center gap-3">
+                    <MicButton voice={voice} disabled={isLoading || isVoiceFilling} className="rounded-full" />
+                    <span className="text-sm text-gray-400">
+                        {isVoiceFilling ? t('advisor.voiceFilling') : voice.status === 'recording'
+                            ? t('advisor.voiceListening')
+                            : t('advisor.voiceHint')}
+                    </span>
+                </div>
+                <TranscriptReview voice={voice} confirmLabel={t('advisor.voiceConfirm')} onConfirm={handleVoiceFill} />
+                {voiceFillNote && (
+                    <p className="text-sm text-emerald-300">
+                        {t(voiceFillNote.key, { fields: (voiceFillNote.fields ?? []).map(field => t(field)).join(', ') })}
+                    </p>
+                )}
+            </div>
             
-            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8 items-end">
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 items-start">
                 <div>
-                    <label htmlFor="amount" className="block mb-2 text-sm font-medium text-gray-300">Investment Amount ($)</label>
+                    <label htmlFor="amount" className="block mb-2 text-sm font-medium text-gray-300">{t('advisor.amount', { currency: baseCurrency })}</label>
                     <input type="number" id="amount" value={investmentAmount} onChange={e => setInvestmentAmount(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" />
+                    <p className="mt-1 text-xs text-gray-400 tabular-nums">{formatCurrency(investmentAmount, baseCurrency)}</p>
                 </div>
                 <div>
-                    <label htmlFor="risk" className="block mb-2 text-sm font-medium text-gray-300">Risk Tolerance</label>
-                    <select id="risk" value={riskTolerance} onChange={e => setRiskTolerance(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5">
-                        <option>Low</option>
-                        <option>Medium</option>
-                        <option>High</option>
-                    </select>
+                    <span className="block mb-2 text-sm font-medium text-gray-300">{t('advisor.risk')}</span>
+                    <div className="bg-gray-700 border border-gray-600 rounded-lg p-2.5 text-sm">
+                        <p className="text-white font-semibold">{t(`risk.${riskTolerance}` as MessageKey)}</p>
+                        <p className="text-xs text-gray-400">
+                            {riskProfile
+                                ? t('advisor.riskProfile', { score: riskProfile.score, tolerance: t(`risk.${riskProfile.tolerance}` as MessageKey) })
+                                : t('advisor.riskNoProfile')}
+                        </p>
+                        {!isQuestionnaireOpen && (
+                            <button type="button" onClick={() => setIsQuestionnaireOpen(true)} className="mt-1 text-xs text-emerald-400 hover:underline">
+                                {riskProfile ? t('advisor.riskRetake') : t('advisor.riskTake')}
+                            </button>
+                        )}
+                    </div>
                 </div>
                 <div>
-                    <label htmlFor="horizon" className="block mb-2 text-sm font-medium text-gray-300">Horizon (Years)</label>
+                    <label htmlFor="horizon" className="block mb-2 text-sm font-medium text-gray-300">{t('advisor.horizon')}</label>
                     <input type="number" id="horizon" value={investmentHorizon} onChange={e => setInvestmentHorizon(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5" />
                 </div>
-                 <div>
-                    <label htmlFor="language" className="block mb-2 text-sm font-medium text-gray-300">Language</label>
-                    <select id="language" value={language} onChange={e => setLanguage(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5">
-                        <option>English</option>
-                        <option>Hindi</option>
-                        <option>Marathi</option>
-                    </select>
-                </div>
-                <div className="lg:col-span-4 text-center">
+                {isQuestionnaireOpen && (
+                    <RiskQuestionnaire
+                        initialAnswers={riskProfile?.answers}
+                        onComplete={handleProfileComplete}
+                        onCancel={() => setIsQuestionnaireOpen(false)}
+                    />
+                )}
+                <div className="md:col-span-3 text-center">
                     <button type="submit" disabled={isLoading} className="text-white bg-emerald-600 hover:bg-emerald-700 focus:ring-4 focus:outline-none focus:ring-emerald-800 font-medium rounded-lg text-lg px-8 py-3 text-center w-full md:w-auto transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center mx-auto">
-                        {isLoading ? <><LoadingIcon /> Generating Plan...</> : 'Get Advice'}
+                        {isLoading ? <><LoadingIcon /> {t('advisor.submitting')}</> : t('advisor.submit')}
                     </button>
                 </div>
             </form>
 
-            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg text-center">{error}</div>}
+            <HistoryPanel kind="advice" refreshKey={historyVersion} onOpen={handleOpenHistory} />
+
+            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg text-center">{t(error)}</div>}
+
+            {isLoading && partialAdvice && (
+                <div className="mt-8 animate-fade-in">
+                    <h3 className="text-2xl font-bold text-emerald-300 mb-4">{t('advisor.resultTitle')}</h3>
+                    {partialAdvice.summary && <p className="bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8">{partialAdvice.summary}</p>}
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        {partialAdvice.recommendations.map(item => <RecommendationCard key={item.name} item={item} isReading={false} />)}
+                    </div>
+                </div>
+            )}
 
             {isLoading && <div className="text-center my-8">
-                <p className="text-lg text-emerald-400">Analyzing market data with AI...</p>
-                <p className="text-gray-400">This may take a moment for complex queries.</p>
+                <p className="text-lg text-emerald-400">{t('advisor.loading')}</p>
+                <p className="text-gray-400">{t('advisor.loadingHint')}</p>
+                <button type="button" onClick={() => abortControllerRef.current?.abort()} className="mt-4 text-sm text-gray-300 border border-gray-600 hover:bg-gray-700 rounded-lg px-4 py-2 transition-colors">
+                    {t('common.cancel')}
+                </button>
             </div>}
             
             {advice && (
                 <div className="mt-8 animate-fade-in">
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="text-2xl font-bold text-emerald-300">Your AI-Generated Strategy</h3>
-                        <button onClick={handleSpeak} disabled={!advice} className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                            {isSpeaking ? <><StopIcon /> Stop</> : <><SpeakerIcon /> Speak</>}
-                        </button>
+                        <h3 className="text-2xl font-bold text-emerald-300">{t('advisor.resultTitle')}</h3>
+                        <div className="flex flex-wrap items-center gap-3">
+                            {report && <ExportMenu report={report} speechSections={speechSections} />}
+                            <PlaybackControls playback={playback} sections={speechSections} />
+                        </div>
                     </div>
-                    <p className="bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8">{advice.summary}</p>
+                    {cachedAt !== null && <CachedNotice cachedAt={cachedAt} onRefresh={() => requestAdvice({ forceRefresh: true })} disabled={isLoading} />}
+                    <PartialParseNotice issues={issues} />
+                    <p className={`bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8 ${playback.currentSectionId === 'summary' ? 'ring-2 ring-emerald-400' : ''}`}>{advice.summary}</p>
                     
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                        {advice.recommendations.map(item => <RecommendationCard key={item.name} item={item} />)}
+                        {advice.recommendations.map((item, index) => <RecommendationCard key={item.name} item={item} isReading={playback.currentSectionId === `rec-${index}`} />)}
                     </div>
 
+                    {report?.kind === 'advice' && (
+                        <>
+                            <ProjectionPanel key={report.createdAt} inputs={report.inputs} />
+                            <SimulationPanel
+                                key={`simulation-${report.createdAt}`}
+                                allocation={allocationFromRecommendations(report.result.recommendations)}
+                                initialValue={report.inputs.investmentAmount}
+                                currency={report.inputs.currency}
+                                defaultYears={report.inputs.investmentHorizon}
+                            />
+                        </>
+                    )}
+
                     {sources.length > 0 && (
                         <div className="mt-8">
-                            <h4 className="text-lg font-semibold text-gray-400 mb-2">Sources:</h4>
+                            <h4 className="text-lg font-semibold text-gray-400 mb-2">{t('common.sources')}</h4>
                             <ul className="list-disc list-inside text-sm">
                                 {/* FIX: Check for source.web.uri as it can be optional. Also provide a fallback for title. */}
                                 {sources.map((source, index) => source.web?.uri && (
@@ -235,7 +343,7 @@ const FinanceAdvisor: React.FC = () => {
                             </ul>
                         </div>
                     )}
-                    <p className="text-xs text-gray-500 mt-6 text-center italic">Disclaimer: This is AI-generated information and not professional financial advice. Always do your own research.</p>
+                    <p className="text-xs text-gray-500 mt-6 text-center italic">{t('advisor.disclaimer')}</p>
                 </div>
             )}
         </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { Confidence, HistoryEntry, TrendPrediction } from '../types';
+import { diffRuns, ItemChange } from '../utils/historyDiff';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+
+type ComparableItem = { name: string; confidence: Confidence; prediction: TrendPrediction };
+
+const itemsOf = (entry: HistoryEntry): ComparableItem[] =>
+    entry.kind === 'advice' ? entry.result.recommendations : entry.result.portfolioAnalysis;
+
+const statusStyles: Record<ItemChange<ComparableItem>['status'], { label: MessageKey; color: string }> = {
+    added: { label: 'history.status.added', color: 'text-green-400' },
+    removed: { label: 'history.status.removed', color: 'text-red-400' },
+    changed: { label: 'history.status.changed', color: 'text-yellow-300' },
+    unchanged: { label: 'history.status.unchanged', color: 'text-gray-500' },
+};
+
+const HistoryDiffView: React.FC<{ before: HistoryEntry; after: HistoryEntry }> = ({ before, after }) => {
+    const { t, formatDateTime } = useI18n();
+    const changes = diffRuns(itemsOf(before), itemsOf(after));
+
+    const describe = (item: ComparableItem | undefined) =>
+        (item ? `${t(`trend.${item.prediction}`)} · ${t(`confidence.${item.confidence}`)}` : '—');
+
+    return (
+        <div className="mt-4">
+            <h4 className="text-md font-semibold text-gray-300 mb-2">
+                {formatDateTime(before.createdAt)} → {formatDateTime(after.createdAt)}
+            </h4>
+            <table className="w-full text-sm text-left text-gray-300">
+                <thead className="text-xs uppercase text-gray-400">
+                    <tr>
+                        <th className="p-2">{t('history.item')}</th>
+                        <th className="p-2">{t('history.before')}</th>
+                        <th className="p-2">{t('history.after')}</th>
+                        <th className="p-2">{t('history.status')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {changes.map((change, index) => {
+                        const previous = change.status === 'added' ? undefined : change.before;
+                        const next = change.status === 'removed' ? undefined : change.after;
+                        const style = statusStyles[change.status];
+                        return (
+                            <tr key={index} className="border-t border-gray-700">
+                                <td className="p-2">{(next || previous)?.name}</td>
+                                <td className="p-2">{describe(previous)}</td>
+                                <td className={`p-2 ${change.status === 'changed' ? 'font-semibold text-yellow-200' : ''}`}>{describe(next)}</td>
+                                <td className={`p-2 ${style.color}`}>
+                                    {t(style.label)}
+                                    {change.status === 'changed' && <span className="text-xs text-gray-400"> ({change.fields.map(field => t(`history.field.${field}`)).join(', ')})</span>}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default HistoryDiffView;
@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { deleteHistoryEntry, listHistory } from '../services/historyService';
+import { holdingLabel } from '../utils/portfolio';
+import { I18n, useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import HistoryDiffView from './HistoryDiffView';
+
+interface HistoryPanelProps {
+    kind: HistoryEntry['kind'];
+    // Bumped by the parent after saving a run so the list reloads.
+    refreshKey: number;
+    onOpen: (entry: HistoryEntry) => void;
+}
+
+export const describeInputs = (entry: HistoryEntry, { t, formatCurrency, formatNumber }: I18n): string => {
+    if (entry.kind === 'advice') {
+        const { investmentAmount, currency, riskTolerance, investmentHorizon, language } = entry.inputs;
+        return t('history.adviceInputs', {
+            amount: formatCurrency(investmentAmount, currency),
+            risk: t(`risk.${riskTolerance}` as MessageKey),
+            years: formatNumber(investmentHorizon),
+            language,
+        });
+    }
+    const names = entry.inputs.holdings.map(holdingLabel);
+    const shown = names.slice(0, 3).join(', ');
+    return `${names.length > 3 ? t('history.more', { names: shown, count: names.length - 3 }) : shown} · ${entry.inputs.language}`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ kind, refreshKey, onOpen }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    const load = useCallback(async () => {
+        try {
+            setEntries(await listHistory(kind));
+            setError(null);
+        } catch (err) {
+            setError('history.unavailable');
+        }
+    }, [kind]);
+
+    useEffect(() => {
+        if (isOpen) load();
+    }, [isOpen, refreshKey, load]);
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            if (prev.includes(id)) return prev.filter(s => s !== id);
+            // Keep at most two runs selected; the oldest selection drops off.
+            return [...prev, id].slice(-2);
+        });
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteHistoryEntry(id);
+        } catch (err) {
+            setError('history.unavailable');
+            return;
+        }
+        setSelected(prev => prev.filter(s => s !== id));
+        load();
+    };
+
+    const compared = entries
+        .filter(entry => selected.includes(entry.id))
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    return (
+        <div className="mb-8">
+            <button type="button" onClick={() => setIsOpen(prev => !prev)} className="text-sm text-emerald-400 hover:underline">
+                {isOpen ? t('history.hide') : t('history.show')}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 bg-gray-800/50 rounded-lg p-4">
+                    {error && <p className="text-sm text-red-400">{t(error)}</p>}
+                    {!error && entries.length === 0 && <p className="text-sm text-gray-400">{t('history.empty')}</p>}
+                    {entries.length > 0 && (
+                        <>
+                            <p className="text-xs text-gray-500 mb-2">{t('history.compareHint')}</p>
+                            <ul className="divide-y divide-gray-700 max-h-64 overflow-y-auto">
+                                {entries.map(entry => (
+                                    <li key={entry.id} className="flex items-center gap-3 py-2 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            aria-label={t('history.selectForComparison')}
+                                            checked={selected.includes(entry.id)}
+                                            onChange={() => toggleSelected(entry.id)}
+                                            className="accent-emerald-500"
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-gray-200">{i18n.formatDateTime(entry.createdAt)}</p>
+                                            <p className="text-gray-400 truncate">{describeInputs(entry, i18n)}</p>
+                                        </div>
+                                        <button type="button" onClick={() => onOpen(entry)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors">{t('common.open')}</button>
+                                        <button type="button" onClick={() => handleDelete(entry.id)} className="px-3 py-1 text-gray-400 hover:text-red-400">{t('common.delete')}</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    {compared.length === 2 && <HistoryDiffView before={compared[0]} after={compared[1]} />}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HistoryPanel;
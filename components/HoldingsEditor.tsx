@@ -0,0 +1,108 @@
+import React from 'react';
+import { ASSET_CLASSES, GEOGRAPHIES, MARKET_CAPS } from '../types';
+import type { AssetClass, Geography, Holding, MarketCap } from '../types';
+import { createEmptyHolding, HoldingErrors } from '../utils/portfolio';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { CloseIcon } from './icons/Icons';
+
+interface HoldingsEditorProps {
+    holdings: Holding[];
+    onChange: (holdings: Holding[]) => void;
+    errors: Record<string, HoldingErrors>;
+}
+
+const inputClass = 'bg-gray-700 border text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2';
+
+const HoldingsEditor: React.FC<HoldingsEditorProps> = ({ holdings, onChange, errors }) => {
+    const { t } = useI18n();
+
+    const updateHolding = <K extends keyof Holding>(id: string, field: K, value: Holding[K]) => {
+        onChange(holdings.map(h => (h.id === id ? { ...h, [field]: value } : h)));
+    };
+
+    const addRow = () => {
+        const lastCurrency = holdings[holdings.length - 1]?.currency;
+        onChange([...holdings, createEmptyHolding(lastCurrency)]);
+    };
+
+    const removeRow = (id: string) => {
+        onChange(holdings.filter(h => h.id !== id));
+    };
+
+    const cell = (id: string, field: keyof Holding, input: React.ReactElement) => {
+        const message = errors[id]?.[field];
+        return (
+            <td className="p-1 align-top">
+                {input}
+                {message && <p className="text-xs text-red-400 mt-1">{t(message)}</p>}
+            </td>
+        );
+    };
+
+    const borderFor = (id: string, field: keyof Holding) => (errors[id]?.[field] ? 'border-red-500' : 'border-gray-600');
+
+    return (
+        <div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-300">
+                    <thead className="text-xs uppercase text-gray-400">
+                        <tr>
+                            <th className="p-1">{t('holding.symbol')}</th>
+                            <th className="p-1">{t('holding.name')}</th>
+                            <th className="p-1">{t('holding.assetClass')}</th>
+                            <th className="p-1">{t('holding.quantity')}</th>
+                            <th className="p-1">{t('holding.averageCost')}</th>
+                            <th className="p-1">{t('holding.currency')}</th>
+                            <th className="p-1">{t('holding.purchaseDate')}</th>
+                            <th className="p-1">{t('holding.sector')}</th>
+                            <th className="p-1">{t('holding.marketCap')}</th>
+                            <th className="p-1">{t('holding.geography')}</th>
+                            <th className="p-1"><span className="sr-only">{t('holding.remove')}</span></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {holdings.map(h => (
+                            <tr key={h.id}>
+                                {cell(h.id, 'symbol', <input type="text" aria-label={t('holding.symbol')} value={h.symbol} onChange={e => updateHolding(h.id, 'symbol', e.target.value.toUpperCase())} placeholder="TSLA" className={`${inputClass} ${borderFor(h.id, 'symbol')}`} />)}
+                                {cell(h.id, 'name', <input type="text" aria-label={t('holding.name')} value={h.name} onChange={e => updateHolding(h.id, 'name', e.target.value)} placeholder="Nifty 50 Index Fund" className={`${inputClass} ${borderFor(h.id, 'name')}`} />)}
+                                {cell(h.id, 'assetClass', (
+                                    <select aria-label={t('holding.assetClass')} value={h.assetClass} onChange={e => updateHolding(h.id, 'assetClass', e.target.value as AssetClass)} className={`${inputClass} ${borderFor(h.id, 'assetClass')}`}>
+                                        {ASSET_CLASSES.map(assetClass => <option key={assetClass} value={assetClass}>{t(`assetClass.${assetClass}` as MessageKey)}</option>)}
+                                    </select>
+                                ))}
+                                {cell(h.id, 'quantity', <input type="number" aria-label={t('holding.quantity')} min="0" step="any" value={h.quantity} onChange={e => updateHolding(h.id, 'quantity', Number(e.target.value))} className={`${inputClass} ${borderFor(h.id, 'quantity')}`} />)}
+                                {cell(h.id, 'averageCost', <input type="number" aria-label={t('holding.averageCost')} min="0" step="any" value={h.averageCost} onChange={e => updateHolding(h.id, 'averageCost', Number(e.target.value))} className={`${inputClass} ${borderFor(h.id, 'averageCost')}`} />)}
+                                {cell(h.id, 'currency', <input type="text" aria-label={t('holding.currency')} maxLength={3} value={h.currency} onChange={e => updateHolding(h.id, 'currency', e.target.value.toUpperCase())} className={`${inputClass} w-20 ${borderFor(h.id, 'currency')}`} />)}
+                                {cell(h.id, 'purchaseDate', <input type="date" aria-label={t('holding.purchaseDate')} value={h.purchaseDate} onChange={e => updateHolding(h.id, 'purchaseDate', e.target.value)} className={`${inputClass} ${borderFor(h.id, 'purchaseDate')}`} />)}
+                                {cell(h.id, 'sector', <input type="text" aria-label={t('holding.sector')} value={h.sector ?? ''} onChange={e => updateHolding(h.id, 'sector', e.target.value || undefined)} placeholder="IT" className={`${inputClass} ${borderFor(h.id, 'sector')}`} />)}
+                                {cell(h.id, 'marketCap', (
+                                    <select aria-label={t('holding.marketCap')} value={h.marketCap ?? ''} onChange={e => updateHolding(h.id, 'marketCap', (e.target.value || undefined) as MarketCap | undefined)} className={`${inputClass} ${borderFor(h.id, 'marketCap')}`}>
+                                        <option value="">—</option>
+                                        {MARKET_CAPS.map(cap => <option key={cap} value={cap}>{t(`marketCap.${cap}`)}</option>)}
+                                    </select>
+                                ))}
+                                {cell(h.id, 'geography', (
+                                    <select aria-label={t('holding.geography')} value={h.geography ?? ''} onChange={e => updateHolding(h.id, 'geography', (e.target.value || undefined) as Geography | undefined)} className={`${inputClass} ${borderFor(h.id, 'geography')}`}>
+                                        <option value="">{t('holding.geographyAuto')}</option>
+                                        {GEOGRAPHIES.map(geography => <option key={geography} value={geography}>{t(`geography.${geography}`)}</option>)}
+                                    </select>
+                                ))}
+                                <td className="p-1 align-top">
+                                    <button type="button" onClick={() => removeRow(h.id)} disabled={holdings.length === 1} title={t('holding.remove')} className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed">
+                                        <CloseIcon />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <button type="button" onClick={addRow} className="mt-3 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors">
+                {t('holding.add')}
+            </button>
+        </div>
+    );
+};
+
+export default HoldingsEditor;
@@ -0,0 +1,162 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ASSET_CLASSES } from '../types';
+import type { AssetClass, Holding } from '../types';
+import {
+    BrokerLayout,
+    ColumnMapping,
+    detectLayout,
+    guessColumnMapping,
+    IMPORT_FIELDS,
+    ImportDefaults,
+    importWithLayout,
+    importWithMapping,
+    parseCsv,
+} from '../utils/holdingsImport';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+
+interface HoldingsImportProps {
+    onImport: (holdings: Holding[], mode: 'replace' | 'append') => void;
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2';
+
+const HoldingsImport: React.FC<HoldingsImportProps> = ({ onImport }) => {
+    const { t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [detected, setDetected] = useState<{ layout: BrokerLayout; headerRow: number } | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [defaults, setDefaults] = useState<ImportDefaults>({ assetClass: 'Stock', currency: 'INR' });
+    const [readError, setReadError] = useState<MessageKey | null>(null);
+
+    const headers = detected ? rows[detected.headerRow] : rows[0] || [];
+
+    const result = useMemo(() => {
+        if (rows.length === 0) return null;
+        if (detected) return importWithLayout(rows, detected.layout, detected.headerRow, defaults);
+        return importWithMapping(rows, mapping, defaults);
+    }, [rows, detected, mapping, defaults]);
+
+    const reset = () => {
+        setFileName(null);
+        setRows([]);
+        setDetected(null);
+        setMapping({});
+        setReadError(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setReadError(null);
+        try {
+            const parsed = parseCsv(await file.text());
+            if (parsed.length < 2) {
+                setReadError('import.noRows');
+                return;
+            }
+            const layout = detectLayout(parsed);
+            setFileName(file.name);
+            setRows(parsed);
+            setDetected(layout);
+            setMapping(layout ? {} : guessColumnMapping(parsed[0]));
+        } catch (err) {
+            setReadError('import.readError');
+        }
+    };
+
+    const handleImport = (mode: 'replace' | 'append') => {
+        if (!result || result.holdings.length === 0) return;
+        onImport(result.holdings, mode);
+        reset();
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 mb-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="holdings_file" className="text-sm font-medium text-gray-300">{t('import.label')}</label>
+                <input
+                    ref={fileInputRef}
+                    id="holdings_file"
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv"
+                    onChange={handleFile}
+                    className="text-sm text-gray-400 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+                />
+                <span className="text-xs text-gray-500">{t('import.privacy')}</span>
+            </div>
+
+            {readError && <p className="text-sm text-red-400 mt-3">{t(readError)}</p>}
+
+            {fileName && result && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-300">
+                        <strong>{fileName}</strong>: {detected ? <span className="text-emerald-400">{t('import.detected', { layout: detected.layout.label })}</span> : t('import.mapColumns')}.
+                    </p>
+
+                    {!detected && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {IMPORT_FIELDS.map(field => (
+                                <div key={field}>
+                                    <label htmlFor={`map_${field}`} className="block mb-1 text-xs text-gray-400">{t(`holding.${field}`)}</label>
+                                    <select
+                                        id={`map_${field}`}
+                                        value={mapping[field] ?? ''}
+                                        onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                                        className={selectClass}
+                                    >
+                                        <option value="">{t('import.notInFile')}</option>
+                                        {headers.map((header, index) => <option key={index} value={index}>{header || t('import.column', { index: index + 1 })}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3 max-w-md">
+                        <div>
+                            <label htmlFor="import_asset_class" className="block mb-1 text-xs text-gray-400">{t('import.defaultAssetClass')}</label>
+                            <select id="import_asset_class" value={defaults.assetClass} onChange={e => setDefaults(prev => ({ ...prev, assetClass: e.target.value as AssetClass }))} className={selectClass}>
+                                {ASSET_CLASSES.map(assetClass => <option key={assetClass} value={assetClass}>{t(`assetClass.${assetClass}`)}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="import_currency" className="block mb-1 text-xs text-gray-400">{t('import.defaultCurrency')}</label>
+                            <input id="import_currency" type="text" maxLength={3} value={defaults.currency} onChange={e => setDefaults(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))} className={selectClass} />
+                        </div>
+                    </div>
+
+                    <p className="text-sm text-gray-300">
+                        {t('import.ready', { count: result.holdings.length })}
+                        {result.rejected.length > 0 && <span className="text-yellow-300">{t('import.rejected', { count: result.rejected.length })}</span>}.
+                    </p>
+
+                    {result.rejected.length > 0 && (
+                        <ul className="text-xs text-yellow-200/80 max-h-32 overflow-y-auto space-y-1 bg-gray-900/60 rounded p-2">
+                            {result.rejected.map(row => (
+                                <li key={row.line}>{t('import.line', { line: row.line })} {t(row.reason, row.params)} <span className="text-gray-500">{row.raw.join(', ')}</span></li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="flex flex-wrap gap-3">
+                        <button type="button" onClick={() => handleImport('replace')} disabled={result.holdings.length === 0} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg text-sm transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                            {t('import.replace')}
+                        </button>
+                        <button type="button" onClick={() => handleImport('append')} disabled={result.holdings.length === 0} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                            {t('import.append')}
+                        </button>
+                        <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-400 hover:text-white">
+                            {t('common.cancel')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HoldingsImport;
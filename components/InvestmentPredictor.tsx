@@ -1,135 +1,154 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { getInvestmentPrediction, getTextToSpeechAudio } from '../services/geminiService';
-import type { PortfolioPrediction, PortfolioAnalysisItem, GroundingChunk } from '../types';
-import { decode, decodeAudioData } from '../utils/audio';
-import { LoadingIcon, SpeakerIcon, StopIcon, PredictionIcon, UpTrendIcon, DownTrendIcon, StableTrendIcon } from './icons/Icons';
-
-const InvestmentPredictor: React.FC = () => {
-    const [portfolio, setPortfolio] = useState('');
-    const [language, setLanguage] = useState('English');
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { getInvestmentPrediction, RequestOptions } from '../services/advisorService';
+import { saveHistoryEntry } from '../services/historyService';
+import { analysisWatchItem } from '../services/watchlistService';
+import { loadRiskProfile } from '../services/riskProfileService';
+import type { PlaybackSection } from '../services/playbackEngine';
+import { useSpeechPlayback } from '../hooks/useSpeechPlayback';
+import type { PortfolioPrediction, PartialPortfolioPrediction, GroundingChunk, ValidationIssue, Holding, HoldingAnalysis, HistoryEntry, Report, RiskTolerance } from '../types';
+import { RISK_TOLERANCES } from '../types';
+import { errorMessageKey } from '../utils/errorMessage';
+import { createEmptyHolding, HoldingErrors, joinAnalysisWithHoldings, portfolioTotal, unconvertedCurrencies, validateHolding } from '../utils/portfolio';
+import { useI18n } from '../i18n/I18nProvider';
+import { useCurrency } from '../currency/CurrencyProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { allocationFromHoldings } from '../utils/simulation';
+import { classifyPortfolio, describeAllocation, planRebalance, positionsAtCost, positionsFromAnalysis } from '../utils/allocation';
+import { LoadingIcon, PredictionIcon, UpTrendIcon, DownTrendIcon, StableTrendIcon } from './icons/Icons';
+import PartialParseNotice from './PartialParseNotice';
+import HoldingsEditor from './HoldingsEditor';
+import HoldingsImport from './HoldingsImport';
+import ExchangeRateEditor from './ExchangeRateEditor';
+import HistoryPanel from './HistoryPanel';
+import ExportMenu from './ExportMenu';
+import PlaybackControls from './PlaybackControls';
+import SimulationPanel from './SimulationPanel';
+import AllocationPanel from './AllocationPanel';
+import TaxPanel from './TaxPanel';
+import WatchButton from './WatchButton';
+import CachedNotice from './CachedNotice';
+
+const InvestmentPredictor: React.FC<{ onReportChange?: (report: Report | null) => void }> = ({ onReportChange }) => {
+    const [holdings, setHoldings] = useState<Holding[]>(() => [createEmptyHolding()]);
+    const [holdingErrors, setHoldingErrors] = useState<Record<string, HoldingErrors>>({});
+    const [riskTolerance, setRiskTolerance] = useState<RiskTolerance>(() => loadRiskProfile()?.tolerance ?? 'Medium');
+    const [analysedHoldings, setAnalysedHoldings] = useState<Holding[]>([]);
     const [prediction, setPrediction] = useState<PortfolioPrediction | null>(null);
+    // What has streamed in of the prediction being generated.
+    const [partialPrediction, setPartialPrediction] = useState<PartialPortfolioPrediction | null>(null);
     const [sources, setSources] = useState<GroundingChunk[]>([]);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const [isSpeaking, setIsSpeaking] = useState(false);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-    const audioQueueRef = useRef<string[]>([]);
-    const isStoppedManuallyRef = useRef<boolean>(false);
-
-    const playNextInQueue = useCallback(async () => {
-        if (isStoppedManuallyRef.current || audioQueueRef.current.length === 0) {
-            setIsSpeaking(false);
-            isStoppedManuallyRef.current = false;
-            return;
-        }
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const [report, setReport] = useState<Report | null>(null);
+    // When the shown prediction was reused from the response cache.
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
-        const text = audioQueueRef.current.shift();
-        if (!text) return;
+    const { t, language, formatCurrency, formatNumber, formatPercent } = useI18n();
+    const { baseCurrency, toBase } = useCurrency();
+    const playback = useSpeechPlayback(report?.inputs.language ?? language.name);
+    const speechSections = useMemo<PlaybackSection[]>(() => prediction ? [
+        { id: 'summary', text: t('predictor.speechSummary', { summary: prediction.overallSummary }) },
+        ...prediction.portfolioAnalysis.map((item, index) => ({
+            id: `item-${index}`,
+            text: t('predictor.speechItem', { name: item.name, analysis: item.currentAnalysis, outlook: item.futureOutlook }),
+        })),
+    ] : [], [prediction, t]);
 
-        try {
-            const audioData = await getTextToSpeechAudio(text, language);
-            
-            if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-                audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const context = audioContextRef.current;
-            
-            if (context.state === 'suspended') {
-                await context.resume();
-            }
-            
-            const decodedBytes = decode(audioData);
-            const audioBuffer = await decodeAudioData(decodedBytes, context, 24000, 1);
-            
-            const source = context.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(context.destination);
-            source.onended = () => {
-                audioSourceRef.current = null;
-                playNextInQueue();
-            };
-            source.start();
-            audioSourceRef.current = source;
-        } catch (err) {
-            setError('Failed to generate or play audio for a segment.');
-            setIsSpeaking(false);
-        }
-    }, [language]);
-
-
-    const stopPlayback = useCallback(() => {
-        isStoppedManuallyRef.current = true;
-        audioQueueRef.current = [];
-        if (audioSourceRef.current) {
-            audioSourceRef.current.onended = null;
-            audioSourceRef.current.stop();
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
-        }
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-            audioContextRef.current.suspend();
-        }
-        setIsSpeaking(false);
-    }, []);
+    useEffect(() => {
+        onReportChange?.(report);
+    }, [report, onReportChange]);
 
-    const handleSpeak = async () => {
-        if (!prediction) return;
-        if (isSpeaking) {
-            stopPlayback();
-            return;
-        }
 
-        setError(null);
-        setIsSpeaking(true);
-        isStoppedManuallyRef.current = false;
-        
-        const textChunks = [
-            `Here is the overall summary of your portfolio prediction: ${prediction.overallSummary}`,
-            ...prediction.portfolioAnalysis.map(item => `${item.name}. Analysis: ${item.currentAnalysis}. Outlook: ${item.futureOutlook}`)
-        ];
-
-        audioQueueRef.current = textChunks;
-        playNextInQueue();
+    const handleImport = (imported: Holding[], mode: 'replace' | 'append') => {
+        setHoldingErrors({});
+        setHoldings(prev => {
+            if (mode === 'replace') return imported;
+            // Drop the untouched placeholder row so it doesn't fail validation.
+            const kept = prev.filter(h => h.symbol.trim() || h.name.trim());
+            return [...kept, ...imported];
+        });
     };
 
-    // Cleanup on unmount
-    useEffect(() => {
-        return () => {
-            stopPlayback();
-        }
-    }, [stopPlayback]);
+    // Leaving the tab mid-request stops it rather than paying for an answer no one sees.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
-
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!portfolio.trim()) {
-            setError("Portfolio cannot be empty.");
+    const requestPrediction = async (options?: RequestOptions) => {
+        const errors: Record<string, HoldingErrors> = {};
+        for (const holding of holdings) {
+            const rowErrors = validateHolding(holding);
+            if (Object.keys(rowErrors).length > 0) {
+                errors[holding.id] = rowErrors;
+            }
+        }
+        setHoldingErrors(errors);
+        if (Object.keys(errors).length > 0) {
+            setError('predictor.fixHoldings');
             return;
         }
         setIsLoading(true);
         setError(null);
         setPrediction(null);
+        setPartialPrediction(null);
+        setAnalysedHoldings(holdings);
         setSources([]);
-        stopPlayback();
+        setIssues([]);
+        setReport(null);
+        setCachedAt(null);
+        playback.stop();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        // Computed at cost because current prices only arrive with the prediction.
+        const positions = positionsAtCost(holdings, toBase);
+        const allocation = positions.length > 0
+            ? describeAllocation(classifyPortfolio(positions), planRebalance(positions, riskTolerance), riskTolerance, baseCurrency)
+            : undefined;
 
         try {
-            const { prediction: newPrediction, sources: newSources } = await getInvestmentPrediction(portfolio, language);
+            const { prediction: newPrediction, sources: newSources, issues: newIssues, cachedAt: newCachedAt } = await getInvestmentPrediction(holdings, language.name, allocation, {
+                ...options,
+                signal: controller.signal,
+                onProgress: setPartialPrediction,
+            });
             setPrediction(newPrediction);
             setSources(newSources);
+            setIssues(newIssues);
+            setCachedAt(newCachedAt);
+            const run: Report = {
+                kind: 'prediction',
+                createdAt: Date.now(),
+                inputs: { holdings, language: language.name, riskTolerance },
+                result: newPrediction,
+                sources: newSources,
+            };
+            setReport(run);
+            // A cached answer is already in history from the run that produced it.
+            if (newCachedAt !== null) return;
+            saveHistoryEntry(run)
+                .then(() => setHistoryVersion(v => v + 1))
+                .catch(err => console.error("Error saving prediction history:", err));
         } catch (err) {
-            setError('An error occurred while fetching the prediction. Please try again.');
+            setError(errorMessageKey(err, 'predictor.error'));
         } finally {
+            abortControllerRef.current = null;
+            setPartialPrediction(null);
             setIsLoading(false);
         }
     };
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        requestPrediction();
+    };
+
     const PredictionDisplay: React.FC<{ prediction: 'Up' | 'Down' | 'Stable' }> = ({ prediction }) => {
         const predictionStyles = {
-            Up: { icon: <UpTrendIcon />, color: 'text-green-400', text: 'Upward Trend' },
-            Down: { icon: <DownTrendIcon />, color: 'text-red-400', text: 'Downward Trend' },
-            Stable: { icon: <StableTrendIcon />, color: 'text-yellow-400', text: 'Stable Trend' },
+            Up: { icon: <UpTrendIcon />, color: 'text-green-400', text: t('trend.Up') },
+            Down: { icon: <DownTrendIcon />, color: 'text-red-400', text: t('trend.Down') },
+            Stable: { icon: <StableTrendIcon />, color: 'text-yellow-400', text: t('trend.Stable') },
         };
         const style = predictionStyles[prediction] || predictionStyles.Stable;
         return (
@@ -140,7 +159,63 @@ const InvestmentPredictor: React.FC = () => {
         );
     };
 
-    const PredictionCard: React.FC<{ item: PortfolioAnalysisItem }> = ({ item }) => {
+    const handleOpenHistory = (entry: HistoryEntry) => {
+        if (entry.kind !== 'prediction') return;
+        playback.stop();
+        setHoldings(entry.inputs.holdings);
+        setHoldingErrors({});
+        setRiskTolerance(entry.inputs.riskTolerance ?? 'Medium');
+        setAnalysedHoldings(entry.inputs.holdings);
+        setPrediction(entry.result);
+        setSources(entry.sources);
+        setIssues([]);
+        setError(null);
+        setCachedAt(null);
+        setReport(entry);
+    };
+
+    const analysisRows = useMemo(
+        () => (prediction ? joinAnalysisWithHoldings(prediction.portfolioAnalysis, analysedHoldings, toBase) : []),
+        [prediction, analysedHoldings, toBase]
+    );
+    // Weights need every position's value, so they wait for the complete answer.
+    const partialRows = useMemo(
+        () => (partialPrediction ? joinAnalysisWithHoldings(partialPrediction.portfolioAnalysis, analysedHoldings, toBase).map(row => ({ ...row, weight: null })) : []),
+        [partialPrediction, analysedHoldings, toBase]
+    );
+    const missingRates = unconvertedCurrencies(analysisRows);
+    const positions = useMemo(() => positionsFromAnalysis(analysisRows), [analysisRows]);
+
+    const PositionMetrics: React.FC<{ row: HoldingAnalysis }> = ({ row }) => {
+        if (!row.holding || row.marketValue === null) return null;
+        const currency = row.holding.currency;
+        const gainColor = row.unrealizedGain === null ? 'text-gray-400' : row.unrealizedGain >= 0 ? 'text-green-400' : 'text-red-400';
+        return (
+            <div className="grid grid-cols-3 gap-2 text-center bg-gray-900/60 rounded-lg p-3 mb-4 text-sm">
+                <div>
+                    <p className="text-gray-400 text-xs">{t('predictor.positionValue')}</p>
+                    <p className="font-semibold text-gray-200">{formatCurrency(row.marketValue, currency)}</p>
+                    {currency !== baseCurrency && row.reportingValue !== null && (
+                        <p className="text-xs text-gray-400">{t('predictor.converted', { value: formatCurrency(row.reportingValue, baseCurrency) })}</p>
+                    )}
+                </div>
+                <div>
+                    <p className="text-gray-400 text-xs">{t('predictor.weight')}</p>
+                    <p className="font-semibold text-gray-200">{row.weight !== null ? formatPercent(row.weight) : '—'}</p>
+                </div>
+                <div>
+                    <p className="text-gray-400 text-xs">{t('predictor.unrealizedGain')}</p>
+                    <p className={`font-semibold ${gainColor}`}>
+                        {row.unrealizedGain !== null ? formatCurrency(row.unrealizedGain, currency) : '—'}
+                        {row.unrealizedGainPercent !== null && <span className="block text-xs">{formatPercent(row.unrealizedGainPercent)}</span>}
+                    </p>
+                </div>
+            </div>
+        );
+    };
+
+    const PredictionCard: React.FC<{ row: HoldingAnalysis; isReading: boolean }> = ({ row, isReading }) => {
+        const { item } = row;
         const confidenceColor = {
             High: 'text-green-400',
             Medium: 'text-yellow-400',
@@ -148,20 +223,30 @@ const InvestmentPredictor: React.FC = () => {
         }[item.confidence];
     
         return (
-            <div className="bg-gray-800 rounded-lg p-6 shadow-lg flex flex-col">
-                <h3 className="text-xl font-bold text-emerald-400 mb-2">{item.name}</h3>
+            <div className={`bg-gray-800 rounded-lg p-6 shadow-lg flex flex-col ${isReading ? 'ring-2 ring-emerald-400' : ''}`}>
+                <div className="flex justify-between items-start gap-2 mb-2">
+                    <h3 className="text-xl font-bold text-emerald-400">{item.name}</h3>
+                    <WatchButton item={analysisWatchItem(item, row.holding, report?.inputs.language ?? language.name)} />
+                </div>
+                {row.holding && (
+                    <p className="text-sm text-gray-400 mb-3">
+                        {t(`assetClass.${row.holding.assetClass}` as MessageKey)} · {formatNumber(row.holding.quantity)} @ {formatCurrency(row.holding.averageCost, row.holding.currency)}
+                        {item.currentPrice !== undefined && <> · {t('predictor.now', { price: formatCurrency(item.currentPrice, row.holding.currency) })}</>}
+                    </p>
+                )}
+                <PositionMetrics row={row} />
                 <div className="flex-grow space-y-3">
-                    <p className="text-gray-300"><strong className="text-gray-400 block">Analysis:</strong> {item.currentAnalysis}</p>
-                    <p className="text-gray-300"><strong className="text-gray-400 block">Outlook:</strong> {item.futureOutlook}</p>
+                    <p className="text-gray-300"><strong className="text-gray-400 block">{t('predictor.analysis')}</strong> {item.currentAnalysis}</p>
+                    <p className="text-gray-300"><strong className="text-gray-400 block">{t('predictor.outlook')}</strong> {item.futureOutlook}</p>
                 </div>
                 <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
                     <div className="flex justify-between items-center">
-                        <span className="font-semibold text-gray-400">Prediction:</span>
+                        <span className="font-semibold text-gray-400">{t('common.prediction')}</span>
                         <PredictionDisplay prediction={item.prediction} />
                     </div>
                      <div className="flex justify-between items-center">
-                        <span className="font-semibold text-gray-400">Confidence:</span>
-                        <span className={confidenceColor}>{item.confidence}</span>
+                        <span className="font-semibold text-gray-400">{t('common.confidence')}</span>
+                        <span className={confidenceColor}>{t(`confidence.${item.confidence}` as MessageKey)}</span>
                     </div>
                 </div>
             </div>
@@ -170,60 +255,93 @@ const InvestmentPredictor: React.FC = () => {
 
     return (
         <div className="bg-gray-900 p-4 sm:p-6 md:p-8 rounded-xl shadow-2xl border border-gray-700">
-            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">Investment Portfolio Prediction</h2>
-            <p className="text-center text-gray-400 mb-8">Enter your current investments (e.g., AAPL stock, Vanguard S&P 500) for an AI-powered analysis.</p>
+            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">{t('predictor.title')}</h2>
+            <p className="text-center text-gray-400 mb-8">{t('predictor.subtitle')}</p>
             
             <form onSubmit={handleSubmit} className="flex flex-col gap-4 mb-8">
                 <div>
-                    <label htmlFor="portfolio" className="block mb-2 text-sm font-medium text-gray-300">Your Investments (one per line)</label>
-                    <textarea 
-                        id="portfolio" 
-                        rows={4}
-                        value={portfolio} 
-                        onChange={e => setPortfolio(e.target.value)} 
-                        placeholder="e.g.&#10;Tesla Inc. (TSLA) Stock&#10;Nifty 50 Index Fund SIP&#10;Bitcoin"
-                        className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5"
-                    />
+                    <span className="block mb-2 text-sm font-medium text-gray-300">{t('predictor.holdings')}</span>
+                    <HoldingsImport onImport={handleImport} />
+                    <ExchangeRateEditor />
+                    <HoldingsEditor holdings={holdings} onChange={setHoldings} errors={holdingErrors} />
                 </div>
-                 <div>
-                    <label htmlFor="pred_language" className="block mb-2 text-sm font-medium text-gray-300">Language</label>
-                    <select id="pred_language" value={language} onChange={e => setLanguage(e.target.value)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5">
-                        <option>English</option>
-                        <option>Hindi</option>
-                        <option>Marathi</option>
+                <div className="md:w-1/3">
+                    <label htmlFor="predictor_risk" className="block mb-2 text-sm font-medium text-gray-300">{t('predictor.risk')}</label>
+                    <select id="predictor_risk" value={riskTolerance} onChange={e => setRiskTolerance(e.target.value as RiskTolerance)} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2.5">
+                        {RISK_TOLERANCES.map(risk => <option key={risk} value={risk}>{t(`risk.${risk}`)}</option>)}
                     </select>
                 </div>
                 <div className="text-center">
                     <button type="submit" disabled={isLoading} className="text-white bg-emerald-600 hover:bg-emerald-700 focus:ring-4 focus:outline-none focus:ring-emerald-800 font-medium rounded-lg text-lg px-8 py-3 text-center w-full md:w-auto transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center mx-auto">
-                        {isLoading ? <><LoadingIcon /> Analyzing...</> : <><PredictionIcon /> Analyze & Predict</>}
+                        {isLoading ? <><LoadingIcon /> {t('predictor.submitting')}</> : <><PredictionIcon /> {t('predictor.submit')}</>}
                     </button>
                 </div>
             </form>
 
-            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg text-center my-4">{error}</div>}
+            <HistoryPanel kind="prediction" refreshKey={historyVersion} onOpen={handleOpenHistory} />
+
+            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg text-center my-4">{t(error)}</div>}
+
+            {isLoading && partialPrediction && (
+                <div className="mt-8 animate-fade-in">
+                    <h3 className="text-2xl font-bold text-emerald-300 mb-4">{t('predictor.resultTitle')}</h3>
+                    {partialPrediction.overallSummary && (
+                        <p className="bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8"><strong>{t('predictor.overallSummary')}</strong> {partialPrediction.overallSummary}</p>
+                    )}
+                    <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+                        {partialRows.map((row, index) => <PredictionCard key={row.holding?.id ?? `${row.item.name}-${index}`} row={row} isReading={false} />)}
+                    </div>
+                </div>
+            )}
 
             {isLoading && <div className="text-center my-8">
-                <p className="text-lg text-emerald-400">Consulting market data with AI...</p>
-                <p className="text-gray-400">This may take a moment for complex analysis.</p>
+                <p className="text-lg text-emerald-400">{t('predictor.loading')}</p>
+                <p className="text-gray-400">{t('predictor.loadingHint')}</p>
+                <button type="button" onClick={() => abortControllerRef.current?.abort()} className="mt-4 text-sm text-gray-300 border border-gray-600 hover:bg-gray-700 rounded-lg px-4 py-2 transition-colors">
+                    {t('common.cancel')}
+                </button>
             </div>}
             
             {prediction && (
                 <div className="mt-8 animate-fade-in">
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="text-2xl font-bold text-emerald-300">Prediction Results</h3>
-                         <button onClick={handleSpeak} disabled={!prediction} className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                            {isSpeaking ? <><StopIcon /> Stop</> : <><SpeakerIcon /> Speak</>}
-                        </button>
+                        <h3 className="text-2xl font-bold text-emerald-300">{t('predictor.resultTitle')}</h3>
+                        <div className="flex flex-wrap items-center gap-3">
+                            {report && <ExportMenu report={report} speechSections={speechSections} />}
+                            <PlaybackControls playback={playback} sections={speechSections} />
+                        </div>
                     </div>
-                    <p className="bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8"><strong>Overall Summary:</strong> {prediction.overallSummary}</p>
+                    {cachedAt !== null && <CachedNotice cachedAt={cachedAt} onRefresh={() => requestPrediction({ forceRefresh: true })} disabled={isLoading} />}
+                    <PartialParseNotice issues={issues} />
+                    {analysisRows.some(row => row.reportingValue !== null) && (
+                        <p className="text-lg text-gray-200 mb-2">
+                            {t('predictor.total', { currency: baseCurrency })}: <strong className="text-emerald-300">{formatCurrency(portfolioTotal(analysisRows), baseCurrency)}</strong>
+                        </p>
+                    )}
+                    {missingRates.length > 0 && <p className="text-sm text-yellow-300 mb-4">{t('predictor.missingRates', { currencies: missingRates.join(', ') })}</p>}
+                    <p className={`bg-gray-800/50 p-4 rounded-lg text-gray-300 mb-8 ${playback.currentSectionId === 'summary' ? 'ring-2 ring-emerald-400' : ''}`}><strong>{t('predictor.overallSummary')}</strong> {prediction.overallSummary}</p>
                     
                     <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                        {prediction.portfolioAnalysis.map(item => <PredictionCard key={item.name} item={item} />)}
+                        {analysisRows.map((row, index) => <PredictionCard key={row.holding?.id ?? `${row.item.name}-${index}`} row={row} isReading={playback.currentSectionId === `item-${index}`} />)}
                     </div>
 
+                    {positions.length > 0 && <AllocationPanel positions={positions} risk={riskTolerance} currency={baseCurrency} />}
+
+                    {analysisRows.some(row => row.holding) && <TaxPanel rows={analysisRows} positions={positions} risk={riskTolerance} />}
+
+                    {portfolioTotal(analysisRows) > 0 && (
+                        <SimulationPanel
+                            key={`${report?.createdAt}-${baseCurrency}`}
+                            allocation={allocationFromHoldings(analysisRows)}
+                            initialValue={portfolioTotal(analysisRows)}
+                            currency={baseCurrency}
+                            defaultYears={5}
+                        />
+                    )}
+
                     {sources.length > 0 && (
                         <div className="mt-8">
-                            <h4 className="text-lg font-semibold text-gray-400 mb-2">Sources:</h4>
+                            <h4 className="text-lg font-semibold text-gray-400 mb-2">{t('common.sources')}</h4>
                             <ul className="list-disc list-inside text-sm">
                                 {sources.map((source, index) => source.web?.uri && (
                                     <li key={index} className="mb-1">
@@ -233,7 +351,7 @@ const InvestmentPredictor: React.FC = () => {
                             </ul>
                         </div>
                     )}
-                     <p className="text-xs text-gray-500 mt-6 text-center italic">Disclaimer: This is AI-generated information and not professional financial advice. Predictions are not guaranteed. Always do your own research.</p>
+                     <p className="text-xs text-gray-500 mt-6 text-center italic">{t('predictor.disclaimer')}</p>
                 </div>
             )}
         </div>
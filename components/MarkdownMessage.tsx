@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { Block, Inline, parseMarkdown } from '../utils/markdown';
+import MiniChart from './MiniChart';
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+    nodes.map((node, index) => {
+        switch (node.type) {
+            case 'text':
+                return <React.Fragment key={index}>{node.text}</React.Fragment>;
+            case 'number':
+                return <span key={index} className="font-semibold text-emerald-200 tabular-nums">{node.text}</span>;
+            case 'code':
+                return <code key={index} className="bg-gray-800 rounded px-1 text-xs">{node.text}</code>;
+            case 'strong':
+                return <strong key={index} className="text-white">{renderInline(node.children)}</strong>;
+            case 'em':
+                return <em key={index}>{renderInline(node.children)}</em>;
+            case 'link':
+                return <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-emerald-300 underline hover:text-emerald-200">{renderInline(node.children)}</a>;
+        }
+    });
+
+const alignClass = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const renderBlock = (block: Block, index: number): React.ReactNode => {
+    switch (block.type) {
+        case 'heading':
+            return <p key={index} className={`font-bold text-emerald-300 ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>{renderInline(block.children)}</p>;
+        case 'paragraph':
+            return <p key={index}>{renderInline(block.children)}</p>;
+        case 'blockquote':
+            return <blockquote key={index} className="border-l-2 border-gray-400 pl-2 text-gray-300 italic">{renderInline(block.children)}</blockquote>;
+        case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+                <ListTag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+                    {block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)}
+                </ListTag>
+            );
+        }
+        case 'table':
+            return (
+                <div key={index} className="overflow-x-auto">
+                    <table className="text-xs border-collapse w-full">
+                        <thead>
+                            <tr>
+                                {block.header.map((cell, c) => (
+                                    <th key={c} className={`border border-gray-500 px-2 py-1 bg-gray-700 ${alignClass[block.align[c] || 'left']}`}>{renderInline(cell)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, r) => (
+                                <tr key={r}>
+                                    {row.map((cell, c) => (
+                                        <td key={c} className={`border border-gray-500 px-2 py-1 ${alignClass[block.align[c] || 'left']}`}>{renderInline(cell)}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'code':
+            return <pre key={index} className="bg-gray-800 rounded p-2 text-xs overflow-x-auto"><code>{block.text}</code></pre>;
+        case 'chart':
+            return <MiniChart key={index} spec={block.spec} />;
+        case 'rule':
+            return <hr key={index} className="border-gray-500" />;
+    }
+};
+
+const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    return <div className="space-y-2 break-words">{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownMessage;
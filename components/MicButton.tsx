@@ -0,0 +1,26 @@
+import React from 'react';
+import type { VoiceInput } from '../hooks/useVoiceInput';
+import { useI18n } from '../i18n/I18nProvider';
+import { LoadingIcon, MicIcon, StopIcon } from './icons/Icons';
+
+const MicButton: React.FC<{ voice: VoiceInput; disabled?: boolean; className?: string }> = ({ voice, disabled, className = '' }) => {
+    const { t } = useI18n();
+    if (voice.status === 'transcribing') {
+        return <span className={`flex items-center ${className}`} title={t('voice.transcribing')}><LoadingIcon /></span>;
+    }
+    const recording = voice.status === 'recording';
+    return (
+        <button
+            type="button"
+            onClick={recording ? voice.stop : voice.start}
+            disabled={disabled || voice.status === 'review'}
+            className={`${recording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-gray-600 hover:bg-gray-500'} text-white p-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+            title={recording ? t('voice.stop') : t('voice.start')}
+            aria-label={recording ? t('voice.stop') : t('voice.start')}
+        >
+            {recording ? <StopIcon /> : <MicIcon />}
+        </button>
+    );
+};
+
+export default MicButton;
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { ChartSpec } from '../utils/markdown';
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 8, bottom: 28, left: 44 };
+export const CHART_COLORS = ['#34d399', '#60a5fa', '#fbbf24', '#f87171', '#a78bfa', '#f472b6'];
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+const MiniChart: React.FC<{ spec: ChartSpec }> = ({ spec }) => {
+    const values = spec.series.flatMap(s => s.values);
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const range = max - min || 1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const y = (value: number) => PADDING.top + plotHeight - ((value - min) / range) * plotHeight;
+    const slot = plotWidth / spec.labels.length;
+    const xCenter = (index: number) => PADDING.left + slot * index + slot / 2;
+
+    // Show at most ~8 x-axis labels so they don't overlap.
+    const labelStep = Math.ceil(spec.labels.length / 8);
+    const ticks = [min, min + range / 2, max];
+
+    return (
+        <figure className="my-2 bg-gray-700/60 rounded p-2">
+            {spec.title && <figcaption className="text-xs font-semibold text-gray-200 mb-1">{spec.title}</figcaption>}
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={spec.title || `${spec.type} chart`}>
+                {ticks.map((tick, index) => (
+                    <g key={index}>
+                        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#4b5563" strokeDasharray={tick === 0 ? undefined : '2 3'} />
+                        <text x={PADDING.left - 4} y={y(tick) + 3} textAnchor="end" fontSize="9" fill="#9ca3af">{compact.format(tick)}</text>
+                    </g>
+                ))}
+                {spec.labels.map((label, index) => index % labelStep === 0 && (
+                    <text key={index} x={xCenter(index)} y={HEIGHT - PADDING.bottom + 12} textAnchor="middle" fontSize="9" fill="#9ca3af">
+                        {label.length > 8 ? `${label.slice(0, 7)}…` : label}
+                    </text>
+                ))}
+                {spec.type === 'bar'
+                    ? spec.series.map((series, s) => {
+                        const barWidth = (slot * 0.8) / spec.series.length;
+                        return series.values.map((value, index) => {
+                            const x = PADDING.left + slot * index + slot * 0.1 + barWidth * s;
+                            return (
+                                <rect key={`${s}-${index}`} x={x} width={Math.max(barWidth - 1, 1)} y={Math.min(y(value), y(0))} height={Math.abs(y(value) - y(0))} fill={CHART_COLORS[s % CHART_COLORS.length]}>
+                                    <title>{`${series.name} · ${spec.labels[index]}: ${value}`}</title>
+                                </rect>
+                            );
+                        });
+                    })
+                    : spec.series.map((series, s) => (
+                        <polyline
+                            key={s}
+                            fill="none"
+                            stroke={CHART_COLORS[s % CHART_COLORS.length]}
+                            strokeWidth="2"
+                            points={series.values.map((value, index) => `${xCenter(index)},${y(value)}`).join(' ')}
+                        />
+                    ))}
+            </svg>
+            {spec.series.length > 1 && (
+                <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-300">
+                    {spec.series.map((series, s) => (
+                        <span key={s} className="flex items-center gap-1">
+                            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: CHART_COLORS[s % CHART_COLORS.length] }} />
+                            {series.name}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </figure>
+    );
+};
+
+export default MiniChart;
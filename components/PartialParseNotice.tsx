@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import type { ValidationIssue } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+const PartialParseNotice: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => {
+    const [showDetails, setShowDetails] = useState(false);
+    const { t } = useI18n();
+    if (issues.length === 0) return null;
+
+    const droppedCount = issues.filter(issue => issue.action === 'dropped').length;
+
+    return (
+        <div className="text-yellow-300 bg-yellow-900/40 border border-yellow-700 p-4 rounded-lg mb-6 text-sm">
+            <div className="flex justify-between items-center gap-4">
+                <p>
+                    <strong>{t('parse.partial')}</strong> {t('parse.partialDetail')}
+                    {' '}{droppedCount > 0 ? t('parse.dropped', { count: droppedCount }) : t('parse.adjusted')}
+                </p>
+                <button onClick={() => setShowDetails(prev => !prev)} className="shrink-0 underline hover:text-yellow-100">
+                    {showDetails ? t('parse.hideDetails') : t('parse.showDetails')}
+                </button>
+            </div>
+            {showDetails && (
+                <ul className="list-disc list-inside mt-3 space-y-1 text-yellow-200/80">
+                    {issues.map((issue, index) => (
+                        <li key={index}><code>{issue.path}</code> {issue.action}: {issue.detail}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PartialParseNotice;
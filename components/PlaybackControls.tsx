@@ -0,0 +1,54 @@
+import React from 'react';
+import type { SpeechPlayback } from '../hooks/useSpeechPlayback';
+import { PLAYBACK_RATES, PlaybackSection } from '../services/playbackEngine';
+import { useI18n } from '../i18n/I18nProvider';
+import { LoadingIcon, NextIcon, PauseIcon, PlayIcon, PreviousIcon, SpeakerIcon, StopIcon } from './icons/Icons';
+
+const buttonClass = 'flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const PlaybackControls: React.FC<{ playback: SpeechPlayback; sections: PlaybackSection[] }> = ({ playback, sections }) => {
+    const { status, currentIndex, rate, error } = playback;
+    const active = status !== 'idle';
+    const { t } = useI18n();
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {!active ? (
+                <button onClick={() => playback.play(sections)} disabled={sections.length === 0} className={buttonClass}>
+                    <SpeakerIcon /> {t('playback.speak')}
+                </button>
+            ) : (
+                <>
+                    <button onClick={playback.previous} disabled={currentIndex <= 0} className={buttonClass} title={t('playback.previous')} aria-label={t('playback.previous')}>
+                        <PreviousIcon />
+                    </button>
+                    {status === 'loading' ? (
+                        <span className={buttonClass}><LoadingIcon /></span>
+                    ) : status === 'paused' ? (
+                        <button onClick={playback.resume} className={buttonClass} title={t('playback.resume')} aria-label={t('playback.resume')}><PlayIcon /></button>
+                    ) : (
+                        <button onClick={playback.pause} className={buttonClass} title={t('playback.pause')} aria-label={t('playback.pause')}><PauseIcon /></button>
+                    )}
+                    <button onClick={playback.next} disabled={currentIndex >= playback.sections.length - 1} className={buttonClass} title={t('playback.next')} aria-label={t('playback.next')}>
+                        <NextIcon />
+                    </button>
+                    <button onClick={playback.stop} className={buttonClass}>
+                        <StopIcon /> {t('playback.stop')}
+                    </button>
+                    <span className="text-sm text-gray-400 tabular-nums">{currentIndex + 1} / {playback.sections.length}</span>
+                </>
+            )}
+            <select
+                value={rate}
+                onChange={e => playback.setRate(Number(e.target.value))}
+                className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg p-2"
+                aria-label={t('playback.speed')}
+            >
+                {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+            </select>
+            {error && <span className="text-sm text-red-400">{t('playback.failed')}</span>}
+        </div>
+    );
+};
+
+export default PlaybackControls;
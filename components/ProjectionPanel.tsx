@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { AdviceInputs, RiskTolerance } from '../types';
+import { RISK_TOLERANCES } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import type { ChartSpec } from '../utils/markdown';
+import { Goal, GOALS, projectInvestment, requiredMonthlySip, RISK_ASSUMPTIONS } from '../utils/projection';
+import MiniChart from './MiniChart';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2';
+const labelClass = 'block mb-1 text-xs font-medium text-gray-400';
+
+const toPercent = (ratio: number) => Math.round(ratio * 1000) / 10;
+
+const assumptionsFor = (risk: string) =>
+    RISK_ASSUMPTIONS[(RISK_TOLERANCES as readonly string[]).includes(risk) ? risk as RiskTolerance : 'Medium'];
+
+/**
+ * Turns the plan's amount and horizon into numbers: growth with an optional
+ * monthly SIP, and the SIP needed for a goal. Calculated locally, not by the AI.
+ */
+const ProjectionPanel: React.FC<{ inputs: AdviceInputs }> = ({ inputs }) => {
+    const { t, formatCurrency } = useI18n();
+    const defaults = assumptionsFor(inputs.riskTolerance);
+    const [monthlySip, setMonthlySip] = useState(0);
+    const [returnPercent, setReturnPercent] = useState(toPercent(defaults.annualReturn));
+    const [inflationPercent, setInflationPercent] = useState(toPercent(defaults.inflation));
+    const [goal, setGoal] = useState<Goal | ''>('');
+    const [target, setTarget] = useState(0);
+
+    const base = {
+        lumpSum: inputs.investmentAmount,
+        years: inputs.investmentHorizon,
+        annualReturn: returnPercent / 100,
+        inflation: inflationPercent / 100,
+    };
+    const projection = projectInvestment({ ...base, monthlySip });
+    const requiredSip = goal && target > 0 ? requiredMonthlySip(target, base) : null;
+    const money = (value: number) => formatCurrency(Math.round(value), inputs.currency);
+
+    const chart: ChartSpec = {
+        type: 'line',
+        title: t('projection.chartTitle'),
+        labels: projection.schedule.map(row => String(row.year)),
+        series: [
+            { name: t('projection.invested'), values: projection.schedule.map(row => Math.round(row.invested)) },
+            { name: t('projection.value'), values: projection.schedule.map(row => Math.round(row.value)) },
+            { name: t('projection.realValue'), values: projection.schedule.map(row => Math.round(row.realValue)) },
+        ],
+    };
+
+    return (
+        <div className="mt-8 bg-gray-800/50 rounded-lg p-4 sm:p-6">
+            <h4 className="text-xl font-bold text-emerald-300 mb-1">{t('projection.title')}</h4>
+            <p className="text-sm text-gray-400 mb-4">
+                {t('projection.subtitle', { amount: money(inputs.investmentAmount), years: inputs.investmentHorizon })}
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <div>
+                    <label htmlFor="projection_sip" className={labelClass}>{t('projection.monthlySip', { currency: inputs.currency })}</label>
+                    <input id="projection_sip" type="number" min="0" value={monthlySip} onChange={e => setMonthlySip(Math.max(0, Number(e.target.value)))} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="projection_return" className={labelClass}>{t('projection.return')}</label>
+                    <input id="projection_return" type="number" step="0.5" value={returnPercent} onChange={e => setReturnPercent(Number(e.target.value))} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="projection_inflation" className={labelClass}>{t('projection.inflation')}</label>
+                    <input id="projection_inflation" type="number" step="0.5" value={inflationPercent} onChange={e => setInflationPercent(Number(e.target.value))} className={inputClass} />
+                </div>
+            </div>
+
+            {projection.schedule.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('projection.noYears')}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 text-center">
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('projection.invested')}</p>
+                            <p className="text-lg font-semibold text-gray-200 tabular-nums">{money(projection.invested)}</p>
+                        </div>
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('projection.value')}</p>
+                            <p className="text-lg font-semibold text-emerald-300 tabular-nums">{money(projection.futureValue)}</p>
+                        </div>
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('projection.realValue')}</p>
+                            <p className="text-lg font-semibold text-gray-200 tabular-nums">{money(projection.realValue)}</p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                        <MiniChart spec={chart} />
+                        <div className="max-h-64 overflow-y-auto">
+                            <table className="w-full text-sm text-right text-gray-300 tabular-nums">
+                                <thead className="text-xs uppercase text-gray-400 sticky top-0 bg-gray-800">
+                                    <tr>
+                                        <th className="p-2 text-left">{t('projection.year')}</th>
+                                        <th className="p-2">{t('projection.invested')}</th>
+                                        <th className="p-2">{t('projection.value')}</th>
+                                        <th className="p-2">{t('projection.realValue')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {projection.schedule.map(row => (
+                                        <tr key={row.year} className="border-t border-gray-700">
+                                            <td className="p-2 text-left">{row.year}</td>
+                                            <td className="p-2">{money(row.invested)}</td>
+                                            <td className="p-2">{money(row.value)}</td>
+                                            <td className="p-2">{money(row.realValue)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end pt-4 border-t border-gray-700">
+                <div>
+                    <label htmlFor="projection_goal" className={labelClass}>{t('projection.goal')}</label>
+                    <select id="projection_goal" value={goal} onChange={e => setGoal(e.target.value as Goal | '')} className={inputClass}>
+                        <option value="">{t('projection.noGoal')}</option>
+                        {GOALS.map(option => <option key={option} value={option}>{t(`projection.goal.${option}`)}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="projection_target" className={labelClass}>{t('projection.target', { currency: inputs.currency })}</label>
+                    <input id="projection_target" type="number" min="0" value={target} onChange={e => setTarget(Math.max(0, Number(e.target.value)))} disabled={!goal} className={`${inputClass} disabled:opacity-50`} />
+                </div>
+                <p className="text-sm text-gray-300">
+                    {requiredSip === null
+                        ? (goal ? t('projection.targetHint') : null)
+                        : requiredSip === 0
+                            ? t('projection.lumpSumEnough')
+                            : t('projection.requiredSip', { amount: money(requiredSip) })}
+                </p>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-4 italic">{t('projection.disclaimer')}</p>
+        </div>
+    );
+};
+
+export default ProjectionPanel;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import type { RiskProfile, RiskQuestionId } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { createRiskProfile, isComplete, MAX_POINTS, RISK_QUESTIONS, scoreRiskAnswers } from '../utils/riskProfile';
+
+interface RiskQuestionnaireProps {
+    initialAnswers?: Record<RiskQuestionId, string>;
+    onComplete: (profile: RiskProfile) => void;
+    onCancel: () => void;
+}
+
+const totalWeight = RISK_QUESTIONS.reduce((sum, q) => sum + q.weight, 0);
+
+/** One question per step, then the score with what each answer contributed. */
+const RiskQuestionnaire: React.FC<RiskQuestionnaireProps> = ({ initialAnswers, onComplete, onCancel }) => {
+    const { t } = useI18n();
+    const [answers, setAnswers] = useState<Partial<Record<RiskQuestionId, string>>>(initialAnswers ?? {});
+    const [step, setStep] = useState(0);
+
+    const question = RISK_QUESTIONS[step];
+    const optionLabel = (id: RiskQuestionId, option: string) => t(`riskQuiz.${id}.${option}` as MessageKey);
+    const result = !question && isComplete(answers) ? scoreRiskAnswers(answers) : null;
+
+    return (
+        <div className="md:col-span-3 bg-gray-800/50 rounded-lg p-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h4 className="text-lg font-bold text-emerald-300">{t('riskQuiz.title')}</h4>
+                <span className="text-xs text-gray-400">{t('riskQuiz.step', { step: Math.min(step + 1, RISK_QUESTIONS.length), total: RISK_QUESTIONS.length })}</span>
+            </div>
+
+            {question && (
+                <fieldset>
+                    <legend className="text-gray-200 mb-3">{t(`riskQuiz.q.${question.id}` as MessageKey)}</legend>
+                    <div className="space-y-2">
+                        {question.options.map(option => (
+                            <label key={option.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/60 hover:bg-gray-700 cursor-pointer text-sm text-gray-200">
+                                <input
+                                    type="radio"
+                                    name={`risk_${question.id}`}
+                                    value={option.id}
+                                    checked={answers[question.id] === option.id}
+                                    onChange={() => setAnswers(prev => ({ ...prev, [question.id]: option.id }))}
+                                    className="accent-emerald-500"
+                                />
+                                {optionLabel(question.id, option.id)}
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+            )}
+
+            {result && (
+                <div>
+                    <p className="text-2xl font-semibold text-gray-100 mb-1">
+                        {t('riskQuiz.result', { tolerance: t(`risk.${result.tolerance}`), score: result.score })}
+                    </p>
+                    {result.caps.map(cap => <p key={cap} className="text-sm text-yellow-300">{t(`riskQuiz.cap.${cap}`, { tolerance: t(`risk.${result.scoreTolerance}`) })}</p>)}
+                    <h5 className="text-sm font-semibold text-gray-400 mt-4 mb-2">{t('riskQuiz.breakdown')}</h5>
+                    <ul className="space-y-2 text-sm">
+                        {result.lines.map(line => {
+                            const max = (MAX_POINTS * line.weight * 100) / totalWeight;
+                            const points = Math.round(line.share * 100);
+                            return (
+                                <li key={line.question}>
+                                    <div className="flex justify-between text-gray-300">
+                                        <span>{t(`riskQuiz.short.${line.question}` as MessageKey)}: {optionLabel(line.question, line.option)}</span>
+                                        <span className="tabular-nums">{t('riskQuiz.points', { points, max: Math.round(max) })}</span>
+                                    </div>
+                                    <div className="h-1.5 bg-gray-700 rounded">
+                                        <div className="h-1.5 bg-emerald-500 rounded" style={{ width: `${(line.share * 100 * 100) / max}%` }} />
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-3 mt-6">
+                <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-400 hover:text-white">{t('common.cancel')}</button>
+                <button type="button" onClick={() => setStep(prev => prev - 1)} disabled={step === 0} className="ml-auto px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                    {t('riskQuiz.back')}
+                </button>
+                {question ? (
+                    <button type="button" onClick={() => setStep(prev => prev + 1)} disabled={!answers[question.id]} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg text-sm text-white transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                        {t('riskQuiz.next')}
+                    </button>
+                ) : (
+                    <button type="button" onClick={() => isComplete(answers) && onComplete(createRiskProfile(answers))} className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg text-sm text-white transition-colors">
+                        {t('riskQuiz.save')}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RiskQuestionnaire;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { SUPPORTED_LANGUAGES } from '../i18n/languages';
+import { AdvisorSettings, MODEL_FEATURES, MODEL_MODES, ModelFeature } from '../types';
+import {
+    DEFAULT_SETTINGS, estimateUsage, loadSettings, saveSettings, THINKING_BUDGET_MAX, THINKING_BUDGET_MIN, validateSettings,
+} from '../services/settingsService';
+import { TTS_VOICES, voiceForLanguage } from '../services/voices';
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 p-2';
+
+/** Model, thinking, search and voice choices; saved in this browser and sent with every request. */
+const SettingsPanel: React.FC = () => {
+    const { t, formatCurrency, formatNumber } = useI18n();
+    const [settings, setSettings] = useState<AdvisorSettings>(loadSettings);
+
+    const update = (changes: Partial<AdvisorSettings>) => {
+        const next = validateSettings({ ...settings, ...changes });
+        setSettings(next);
+        saveSettings(next);
+    };
+
+    const estimateText = (feature: ModelFeature) => {
+        const { costUsd, seconds: [min, max] } = estimateUsage(settings, feature);
+        const cost = costUsd < 0.01 ? t('settings.costUnder', { cost: formatCurrency(0.01, 'USD') }) : formatCurrency(costUsd, 'USD');
+        const time = max >= 120
+            ? t('settings.minutes', { min: Math.max(1, Math.round(min / 60)), max: Math.round(max / 60) })
+            : t('settings.seconds', { min, max });
+        return t('settings.estimate', { cost, time });
+    };
+
+    return (
+        <section id="settings" className="bg-gray-900 p-4 sm:p-6 md:p-8 rounded-xl shadow-2xl border border-gray-700">
+            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">{t('settings.title')}</h2>
+            <p className="text-center text-gray-400 mb-8">{t('settings.subtitle')}</p>
+
+            <h3 className="text-lg font-semibold text-gray-300 mb-3">{t('settings.models')}</h3>
+            <div className="overflow-x-auto mb-2">
+                <table className="w-full text-sm text-left text-gray-300">
+                    <tbody>
+                        {MODEL_FEATURES.map(feature => (
+                            <tr key={feature} className="border-t border-gray-700">
+                                <td className="p-2">{t(`settings.feature.${feature}` as MessageKey)}</td>
+                                <td className="p-2">
+                                    <select
+                                        value={settings.models[feature]}
+                                        onChange={e => update({ models: { ...settings.models, [feature]: e.target.value } })}
+                                        aria-label={t(`settings.feature.${feature}` as MessageKey)}
+                                        className={selectClass}
+                                    >
+                                        {MODEL_MODES.map(mode => <option key={mode} value={mode}>{t(`settings.mode.${mode}` as MessageKey)}</option>)}
+                                    </select>
+                                </td>
+                                <td className="p-2 text-gray-400 whitespace-nowrap">{estimateText(feature)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 mb-8">{t('settings.estimateNote')}</p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                <label className="flex items-start gap-3 text-sm text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={settings.searchGrounding}
+                        onChange={e => update({ searchGrounding: e.target.checked })}
+                        className="mt-1 accent-emerald-500"
+                    />
+                    <span>
+                        <span className="block font-medium">{t('settings.search')}</span>
+                        <span className="block text-xs text-gray-400">{t('settings.searchHint')}</span>
+                    </span>
+                </label>
+                <div>
+                    <label htmlFor="thinking_budget" className="block text-sm font-medium text-gray-300">
+                        {t('settings.thinkingBudget')}: {t('settings.tokens', { count: formatNumber(settings.thinkingBudget) })}
+                    </label>
+                    <input
+                        id="thinking_budget"
+                        type="range"
+                        min={THINKING_BUDGET_MIN}
+                        max={THINKING_BUDGET_MAX}
+                        step={THINKING_BUDGET_MIN}
+                        value={settings.thinkingBudget}
+                        onChange={e => update({ thinkingBudget: Number(e.target.value) })}
+                        className="w-full accent-emerald-500"
+                    />
+                    <p className="text-xs text-gray-400">{t('settings.thinkingBudgetHint')}</p>
+                </div>
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-300 mb-3">{t('settings.voices')}</h3>
+            <div className="flex flex-wrap gap-4 mb-8">
+                {SUPPORTED_LANGUAGES.map(language => (
+                    <label key={language.name} className="flex items-center gap-2 text-sm text-gray-300">
+                        <span>{language.nativeName}</span>
+                        <select
+                            value={voiceForLanguage(language.name, settings.voices)}
+                            onChange={e => update({ voices: { ...settings.voices, [language.name]: e.target.value } })}
+                            className={selectClass}
+                        >
+                            {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            <button type="button" onClick={() => update(DEFAULT_SETTINGS)} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors">
+                {t('settings.reset')}
+            </button>
+        </section>
+    );
+};
+
+export default SettingsPanel;
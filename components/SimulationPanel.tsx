@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { simulate } from '../services/simulationService';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import type { ChartSpec } from '../utils/markdown';
+import type { AllocationSlice, SimulationResult } from '../utils/simulation';
+import { LoadingIcon } from './icons/Icons';
+import MiniChart from './MiniChart';
+
+const PATH_COUNTS = [1000, 5000, 10000];
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2';
+const labelClass = 'block mb-1 text-xs font-medium text-gray-400';
+
+interface SimulationPanelProps {
+    allocation: AllocationSlice[];
+    initialValue: number;
+    currency: string;
+    defaultYears: number;
+}
+
+/** Spread of possible outcomes for an allocation, simulated from a seed so a run can be repeated. */
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ allocation, initialValue, currency, defaultYears }) => {
+    const { t, formatCurrency, formatPercent } = useI18n();
+    const [years, setYears] = useState(Math.max(1, Math.floor(defaultYears)));
+    const [paths, setPaths] = useState(PATH_COUNTS[1]);
+    const [seed, setSeed] = useState(1);
+    const [goal, setGoal] = useState(0);
+    const [result, setResult] = useState<SimulationResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleRun = async () => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        setFailed(false);
+        try {
+            setResult(await simulate({ allocation, initialValue, years, paths, seed, goal }, controller.signal));
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error("Error running simulation:", err);
+            setFailed(true);
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsRunning(false);
+            }
+        }
+    };
+
+    const money = (value: number) => formatCurrency(Math.round(value), currency);
+    const horizon = result?.bands[result.bands.length - 1];
+
+    const bandChart: ChartSpec | null = result && {
+        type: 'line',
+        title: t('simulation.bandsTitle'),
+        labels: result.bands.map(band => String(band.year)),
+        series: [
+            { name: 'P10', values: result.bands.map(band => Math.round(band.p10)) },
+            { name: 'P50', values: result.bands.map(band => Math.round(band.p50)) },
+            { name: 'P90', values: result.bands.map(band => Math.round(band.p90)) },
+        ],
+    };
+    const drawdownChart: ChartSpec | null = result && {
+        type: 'bar',
+        title: t('simulation.drawdownTitle'),
+        labels: result.drawdownHistogram.map((_, index) => `${index * 10}–${index * 10 + 10}%`),
+        series: [{ name: t('simulation.paths'), values: result.drawdownHistogram.map(share => Math.round(share * 1000) / 10) }],
+    };
+
+    return (
+        <div className="mt-8 bg-gray-800/50 rounded-lg p-4 sm:p-6">
+            <h4 className="text-xl font-bold text-emerald-300 mb-1">{t('simulation.title')}</h4>
+            <p className="text-sm text-gray-400 mb-4">
+                {t('simulation.allocation', {
+                    amount: money(initialValue),
+                    allocation: allocation.map(slice => `${t(`assetClass.${slice.assetClass}` as MessageKey)} ${formatPercent(slice.weight)}`).join(' · '),
+                })}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end mb-6">
+                <div>
+                    <label htmlFor="simulation_years" className={labelClass}>{t('simulation.years')}</label>
+                    <input id="simulation_years" type="number" min="1" max="50" value={years} onChange={e => setYears(Math.min(50, Math.max(1, Math.floor(Number(e.target.value)))))} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="simulation_paths" className={labelClass}>{t('simulation.paths')}</label>
+                    <select id="simulation_paths" value={paths} onChange={e => setPaths(Number(e.target.value))} className={inputClass}>
+                        {PATH_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="simulation_seed" className={labelClass}>{t('simulation.seed')}</label>
+                    <input id="simulation_seed" type="number" value={seed} onChange={e => setSeed(Math.floor(Number(e.target.value)))} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="simulation_goal" className={labelClass}>{t('simulation.goal', { currency })}</label>
+                    <input id="simulation_goal" type="number" min="0" value={goal} onChange={e => setGoal(Math.max(0, Number(e.target.value)))} className={inputClass} />
+                </div>
+                <button type="button" onClick={handleRun} disabled={isRunning || allocation.length === 0 || initialValue <= 0} className="flex items-center justify-center gap-2 text-white bg-emerald-600 hover:bg-emerald-700 font-medium rounded-lg px-4 py-2 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+                    {isRunning ? <><LoadingIcon /> {t('simulation.running')}</> : t('simulation.run')}
+                </button>
+            </div>
+
+            {failed && <p className="text-sm text-red-400 mb-4">{t('simulation.failed')}</p>}
+
+            {result && horizon && bandChart && drawdownChart && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center">
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('simulation.median', { years: horizon.year })}</p>
+                            <p className="text-lg font-semibold text-emerald-300 tabular-nums">{money(horizon.p50)}</p>
+                        </div>
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('simulation.range')}</p>
+                            <p className="text-sm font-semibold text-gray-200 tabular-nums">{money(horizon.p10)} – {money(horizon.p90)}</p>
+                        </div>
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('simulation.goalProbability')}</p>
+                            <p className="text-lg font-semibold text-gray-200 tabular-nums">{result.goalProbability !== null ? formatPercent(result.goalProbability) : '—'}</p>
+                        </div>
+                        <div className="bg-gray-900/60 rounded-lg p-3">
+                            <p className="text-xs text-gray-400">{t('simulation.drawdown')}</p>
+                            <p className="text-lg font-semibold text-red-300 tabular-nums">{formatPercent(result.maxDrawdown.p50)}</p>
+                            <p className="text-xs text-gray-400">{t('simulation.drawdownBad', { value: formatPercent(result.maxDrawdown.p90) })}</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <MiniChart spec={bandChart} />
+                        <MiniChart spec={drawdownChart} />
+                    </div>
+                </>
+            )}
+
+            <p className="text-xs text-gray-500 mt-4 italic">{t('simulation.disclaimer')}</p>
+        </div>
+    );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import type { HoldingAnalysis, RiskTolerance } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { useCurrency } from '../currency/CurrencyProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { loadTaxRules, resetTaxRules, saveTaxRules } from '../services/taxRuleService';
+import { planRebalance, Position } from '../utils/allocation';
+import { convertAmount } from '../utils/currency';
+import { holdingLabel } from '../utils/portfolio';
+import { estimateTax, findHarvestCandidates, SaleLot, TaxRuleTable, unusedEquityExemption } from '../utils/tax';
+import TaxRuleEditor from './TaxRuleEditor';
+
+const SLAB_RATES = [0, 0.05, 0.1, 0.15, 0.2, 0.3];
+
+type Scenario = 'all' | 'rebalance';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full p-2';
+const labelClass = 'block mb-1 text-xs font-medium text-gray-400';
+
+interface TaxPanelProps {
+    rows: HoldingAnalysis[];
+    positions: Position[];
+    risk: RiskTolerance;
+}
+
+/**
+ * Indian capital gains tax on a hypothetical sale of the analysed holdings,
+ * at their current prices, using the editable local rule tables. Amounts are
+ * always in rupees whatever the base currency.
+ */
+const TaxPanel: React.FC<TaxPanelProps> = ({ rows, positions, risk }) => {
+    const { t, formatCurrency, formatNumber, formatPercent } = useI18n();
+    const { exchangeRates } = useCurrency();
+    const [tables, setTables] = useState<TaxRuleTable[]>(loadTaxRules);
+    const [scenario, setScenario] = useState<Scenario>('all');
+    const [saleDate, setSaleDate] = useState(() => new Date().toISOString().slice(0, 10));
+    const [slabRate, setSlabRate] = useState(0.3);
+
+    const handleTablesChange = (next: TaxRuleTable[]) => {
+        setTables(next);
+        saveTaxRules(next);
+    };
+
+    const priced = useMemo(() => rows.flatMap(row => (row.holding
+        ? [{ holding: row.holding, price: row.item.currentPrice ?? row.holding.averageCost }]
+        : [])), [rows]);
+
+    const sales = useMemo((): SaleLot[] => {
+        const priceOf = (id: string) => priced.find(p => p.holding.id === id)?.price;
+        if (scenario === 'all') {
+            return priced.map(({ holding, price }) => ({ holding, quantity: holding.quantity, salePrice: price }));
+        }
+        return planRebalance(positions, risk).flatMap(trade => trade.fromHoldings.flatMap(({ holding, amount }) => {
+            const position = positions.find(p => p.holding.id === holding.id);
+            const price = priceOf(holding.id);
+            if (!position || price === undefined) return [];
+            return [{ holding, quantity: holding.quantity * Math.min(1, Math.abs(amount) / position.value), salePrice: price }];
+        }));
+    }, [scenario, priced, positions, risk]);
+
+    const options = { saleDate, slabRate, toRupees: (amount: number, currency: string) => convertAmount(amount, currency, 'INR', exchangeRates) };
+    const estimate = estimateTax(sales, tables, options);
+    const harvest = findHarvestCandidates(priced, sales, tables, options);
+    const unusedExemption = unusedEquityExemption(estimate);
+    const rupees = (value: number) => formatCurrency(Math.round(value), 'INR');
+
+    const stats: { label: MessageKey; value: number; accent?: boolean }[] = [
+        { label: 'tax.shortTerm', value: estimate.shortTermGains },
+        { label: 'tax.longTerm', value: estimate.longTermGains },
+        { label: 'tax.exemption', value: estimate.exemptionUsed },
+        { label: 'tax.setOff', value: estimate.lossesSetOff },
+        { label: 'tax.total', value: estimate.tax, accent: true },
+    ];
+
+    return (
+        <div className="mt-8 bg-gray-800/50 rounded-lg p-4 sm:p-6">
+            <h4 className="text-xl font-bold text-emerald-300 mb-1">{t('tax.title')}</h4>
+            <p className="text-sm text-gray-400 mb-4">{t('tax.subtitle')}</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                <div>
+                    <label htmlFor="tax_scenario" className={labelClass}>{t('tax.scenario')}</label>
+                    <select id="tax_scenario" value={scenario} onChange={e => setScenario(e.target.value as Scenario)} className={inputClass}>
+                        <option value="all">{t('tax.scenario.all')}</option>
+                        <option value="rebalance">{t('tax.scenario.rebalance')}</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="tax_date" className={labelClass}>{t('tax.saleDate')}</label>
+                    <input id="tax_date" type="date" value={saleDate} onChange={e => e.target.value && setSaleDate(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="tax_slab" className={labelClass}>{t('tax.slabRate')}</label>
+                    <select id="tax_slab" value={slabRate} onChange={e => setSlabRate(Number(e.target.value))} className={inputClass}>
+                        {SLAB_RATES.map(rate => <option key={rate} value={rate}>{formatPercent(rate)}</option>)}
+                    </select>
+                </div>
+            </div>
+            <p className="text-xs text-gray-400 mb-2">{t('tax.rules', { version: estimate.table.version })}</p>
+            <TaxRuleEditor tables={tables} onChange={handleTablesChange} onReset={() => setTables(resetTaxRules())} />
+
+            {estimate.lots.length === 0 ? (
+                <p className="text-sm text-gray-300 mb-4">{t('tax.nothingSold')}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6 text-center">
+                        {stats.map(stat => (
+                            <div key={stat.label} className="bg-gray-900/60 rounded-lg p-3">
+                                <p className="text-xs text-gray-400">{t(stat.label)}</p>
+                                <p className={`text-lg font-semibold tabular-nums ${stat.accent ? 'text-emerald-300' : 'text-gray-200'}`}>{rupees(stat.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {estimate.lossesCarried > 0 && <p className="text-sm text-gray-300 mb-4">{t('tax.carried', { amount: rupees(estimate.lossesCarried) })}</p>}
+
+                    <div className="overflow-x-auto mb-6">
+                        <table className="w-full text-sm text-right text-gray-300 tabular-nums">
+                            <thead className="text-xs uppercase text-gray-400">
+                                <tr>
+                                    <th className="p-2 text-left">{t('tax.holding')}</th>
+                                    <th className="p-2 text-left">{t('tax.category')}</th>
+                                    <th className="p-2 text-left">{t('tax.term')}</th>
+                                    <th className="p-2">{t('holding.quantity')}</th>
+                                    <th className="p-2">{t('tax.gain')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {estimate.lots.map(lot => (
+                                    <tr key={lot.holding.id} className="border-t border-gray-700">
+                                        <td className="p-2 text-left">{holdingLabel(lot.holding)}</td>
+                                        <td className="p-2 text-left">{t(`tax.category.${lot.category}`)}</td>
+                                        <td className="p-2 text-left">
+                                            {t(`tax.term.${lot.term}`)}
+                                            {lot.unknownDate && <span className="block text-xs text-yellow-300">{t('tax.unknownDate')}</span>}
+                                        </td>
+                                        <td className="p-2">{formatNumber(lot.quantity)}</td>
+                                        <td className={`p-2 ${lot.gain >= 0 ? 'text-green-400' : 'text-red-400'}`}>{rupees(lot.gain)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+            {estimate.skipped.length > 0 && (
+                <p className="text-sm text-yellow-300 mb-4">{t('tax.skipped', { holdings: estimate.skipped.map(holdingLabel).join(', ') })}</p>
+            )}
+
+            <h5 className="text-lg font-semibold text-gray-200 mb-2">{t('tax.harvestTitle')}</h5>
+            {harvest.length === 0 ? (
+                <p className="text-sm text-gray-300">{t('tax.harvestNone')}</p>
+            ) : (
+                <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                    {harvest.map(candidate => (
+                        <li key={candidate.holding.id}>
+                            {t('tax.harvestItem', {
+                                holding: holdingLabel(candidate.holding),
+                                term: t(`tax.term.${candidate.term}`),
+                                loss: rupees(candidate.loss),
+                                saved: rupees(candidate.taxSaved),
+                            })}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {unusedExemption > 0 && <p className="text-sm text-gray-300 mt-2">{t('tax.unusedExemption', { amount: rupees(unusedExemption) })}</p>}
+
+            <p className="text-xs text-gray-500 mt-4 italic">{t('tax.disclaimer')}</p>
+        </div>
+    );
+};
+
+export default TaxPanel;
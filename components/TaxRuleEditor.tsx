@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import { TAX_CATEGORIES, TaxCategory, TaxRule, TaxRuleTable } from '../utils/tax';
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded p-1.5 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+interface RuleInputProps {
+    label: string;
+    value: number | null;
+    /** Shown value per stored unit, e.g. 100 to edit a fraction as a percentage. */
+    scale?: number;
+    /** Whether clearing the field stores null rather than being undone. */
+    allowBlank?: boolean;
+    onCommit: (value: number | null) => void;
+}
+
+// Commits on blur, like the exchange rate inputs, so partial entries aren't saved.
+const RuleInput: React.FC<RuleInputProps> = ({ label, value, scale = 1, allowBlank = false, onCommit }) => {
+    const shown = value === null ? '' : String(Math.round(value * scale * 10000) / 10000);
+    const [draft, setDraft] = useState(shown);
+    const commit = () => {
+        if (draft.trim() === '') {
+            if (allowBlank && value !== null) onCommit(null);
+            else setDraft(shown);
+            return;
+        }
+        const parsed = Number(draft);
+        if (!Number.isFinite(parsed) || parsed < 0 || (scale === 100 && parsed > 100)) {
+            setDraft(shown);
+        } else if (parsed / scale !== value) {
+            onCommit(parsed / scale);
+        }
+    };
+    return (
+        <input
+            type="number"
+            min="0"
+            step="any"
+            aria-label={label}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => e.key === 'Enter' && commit()}
+            className={`${inputClass} w-24 tabular-nums`}
+        />
+    );
+};
+
+interface TaxRuleEditorProps {
+    tables: TaxRuleTable[];
+    onChange: (tables: TaxRuleTable[]) => void;
+    onReset: () => void;
+}
+
+/** Edits the local rule tables; a new budget's rules are added as a copy of an existing set. */
+const TaxRuleEditor: React.FC<TaxRuleEditorProps> = ({ tables, onChange, onReset }) => {
+    const { t } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    const [selected, setSelected] = useState(tables.length - 1);
+    const [newVersion, setNewVersion] = useState('');
+    const [newEffectiveFrom, setNewEffectiveFrom] = useState('');
+
+    const index = Math.min(selected, tables.length - 1);
+    const table = tables[index];
+    const canAdd = newVersion.trim() !== '' && /^\d{4}-\d{2}-\d{2}$/.test(newEffectiveFrom) && !tables.some(existing => existing.version === newVersion.trim());
+
+    const replaceTable = (next: TaxRuleTable) => onChange(tables.map((existing, i) => (i === index ? next : existing)));
+    const updateRule = <K extends keyof TaxRule>(category: TaxCategory, field: K, value: TaxRule[K]) =>
+        replaceTable({ ...table, rules: { ...table.rules, [category]: { ...table.rules[category], [field]: value } } });
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        onChange([...tables, { ...structuredClone(table), version: newVersion.trim(), effectiveFrom: newEffectiveFrom }]);
+        setSelected(tables.length);
+        setNewVersion('');
+        setNewEffectiveFrom('');
+    };
+
+    const handleDelete = () => {
+        onChange(tables.filter((_, i) => i !== index));
+        setSelected(Math.max(0, index - 1));
+    };
+
+    return (
+        <div className="mb-4">
+            <button type="button" onClick={() => setIsOpen(prev => !prev)} className="text-sm text-emerald-400 hover:underline">
+                {isOpen ? t('taxRules.hide') : t('taxRules.show')}
+            </button>
+            {isOpen && table && (
+                <div className="mt-3 bg-gray-900/60 rounded-lg p-4 space-y-3 text-sm text-gray-300">
+                    <p className="text-xs text-gray-400">{t('taxRules.hint')}</p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <select aria-label={t('taxRules.version')} value={index} onChange={e => setSelected(Number(e.target.value))} className={inputClass}>
+                            {tables.map((existing, i) => <option key={existing.version} value={i}>{existing.version}</option>)}
+                        </select>
+                        <span className="text-xs text-gray-400">{t('taxRules.effectiveFrom', { date: table.effectiveFrom })}</span>
+                        <label className="flex items-center gap-2 text-xs">
+                            {t('taxRules.cess')}
+                            <RuleInput key={`${table.version}-cess-${table.cess}`} label={t('taxRules.cess')} value={table.cess} scale={100} onCommit={value => replaceTable({ ...table, cess: value ?? 0 })} />
+                        </label>
+                        <button type="button" onClick={handleDelete} disabled={tables.length === 1} className="ml-auto text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed">{t('taxRules.delete')}</button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="text-xs uppercase text-gray-400">
+                                <tr>
+                                    <th className="p-1">{t('tax.category')}</th>
+                                    <th className="p-1">{t('taxRules.longTermAfter')}</th>
+                                    <th className="p-1">{t('taxRules.shortTermRate')}</th>
+                                    <th className="p-1">{t('taxRules.longTermRate')}</th>
+                                    <th className="p-1">{t('taxRules.exemption')}</th>
+                                    <th className="p-1">{t('taxRules.setOff')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {TAX_CATEGORIES.map(category => {
+                                    const rule = table.rules[category];
+                                    const keyFor = (field: keyof TaxRule) => `${table.version}-${category}-${field}-${rule[field]}`;
+                                    return (
+                                        <tr key={category} className="border-t border-gray-700">
+                                            <td className="p-1">{t(`tax.category.${category}`)}</td>
+                                            <td className="p-1"><RuleInput key={keyFor('longTermAfterMonths')} label={t('taxRules.longTermAfter')} value={rule.longTermAfterMonths} allowBlank onCommit={value => updateRule(category, 'longTermAfterMonths', value === null ? null : Math.round(value))} /></td>
+                                            <td className="p-1"><RuleInput key={keyFor('shortTermRate')} label={t('taxRules.shortTermRate')} value={rule.shortTermRate} scale={100} allowBlank onCommit={value => updateRule(category, 'shortTermRate', value)} /></td>
+                                            <td className="p-1"><RuleInput key={keyFor('longTermRate')} label={t('taxRules.longTermRate')} value={rule.longTermRate} scale={100} allowBlank onCommit={value => updateRule(category, 'longTermRate', value)} /></td>
+                                            <td className="p-1"><RuleInput key={keyFor('longTermExemption')} label={t('taxRules.exemption')} value={rule.longTermExemption} onCommit={value => updateRule(category, 'longTermExemption', value ?? 0)} /></td>
+                                            <td className="p-1">
+                                                <input type="checkbox" aria-label={t('taxRules.setOff')} checked={rule.setOffAllowed} onChange={e => updateRule(category, 'setOffAllowed', e.target.checked)} className="accent-emerald-500" />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-700">
+                        <input type="text" aria-label={t('taxRules.newVersion')} placeholder={t('taxRules.newVersion')} value={newVersion} onChange={e => setNewVersion(e.target.value)} className={`${inputClass} w-48`} />
+                        <input type="date" aria-label={t('taxRules.newEffectiveFrom')} value={newEffectiveFrom} onChange={e => setNewEffectiveFrom(e.target.value)} className={inputClass} />
+                        <button type="button" onClick={handleAdd} disabled={!canAdd} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{t('taxRules.add')}</button>
+                        <button type="button" onClick={onReset} className="ml-auto text-xs text-gray-400 hover:text-white">{t('taxRules.reset')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaxRuleEditor;
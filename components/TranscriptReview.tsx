@@ -0,0 +1,34 @@
+import React from 'react';
+import type { VoiceInput } from '../hooks/useVoiceInput';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+
+/** Shows what was heard so it can be corrected before it is used. */
+const TranscriptReview: React.FC<{ voice: VoiceInput; confirmLabel: string; onConfirm: (text: string) => void }> = ({ voice, confirmLabel, onConfirm }) => {
+    const { t } = useI18n();
+    if (voice.status !== 'review') {
+        return voice.error ? <p className="text-sm text-red-400">{t(`voice.error.${voice.error}` as MessageKey)}</p> : null;
+    }
+    const handleConfirm = () => {
+        const text = voice.transcript.trim();
+        voice.reset();
+        if (text) onConfirm(text);
+    };
+    return (
+        <div className="bg-gray-800 border border-gray-600 rounded-lg p-3 space-y-2">
+            <label className="block text-xs text-gray-400">{t('voice.heard')}</label>
+            <textarea
+                value={voice.transcript}
+                onChange={e => voice.setTranscript(e.target.value)}
+                rows={2}
+                className="w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={voice.reset} className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 rounded">{t('voice.discard')}</button>
+                <button type="button" onClick={handleConfirm} className="px-3 py-1 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded">{confirmLabel}</button>
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptReview;
@@ -0,0 +1,24 @@
+import React from 'react';
+import type { WatchItem } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { useWatchlist } from '../watchlist/WatchlistProvider';
+
+/** Pins a result to the watchlist, or unpins it. */
+const WatchButton: React.FC<{ item: WatchItem }> = ({ item }) => {
+    const { t } = useI18n();
+    const { isWatched, toggle } = useWatchlist();
+    const watched = isWatched(item.id);
+    return (
+        <button
+            type="button"
+            onClick={() => toggle(item)}
+            aria-pressed={watched}
+            title={watched ? t('watch.unpin') : t('watch.pin')}
+            className={`shrink-0 text-xs px-2 py-1 rounded-full border transition-colors ${watched ? 'border-emerald-400 text-emerald-300 bg-emerald-900/40' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+        >
+            {watched ? t('watch.watching') : t('watch.pin')}
+        </button>
+    );
+};
+
+export default WatchButton;
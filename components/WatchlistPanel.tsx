@@ -0,0 +1,112 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { WATCH_INTERVALS } from '../services/watchlistService';
+import { useWatchlist } from '../watchlist/WatchlistProvider';
+
+const INTERVAL_LABELS: Record<number, MessageKey> = {
+    0: 'watch.interval.off',
+    1: 'watch.interval.hour',
+    6: 'watch.interval.sixHours',
+    24: 'watch.interval.day',
+    168: 'watch.interval.week',
+};
+
+const buttonClass = 'px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/** Pinned items with their latest outlook, the check schedule and the alert history. */
+const WatchlistPanel: React.FC = () => {
+    const { t, formatDateTime } = useI18n();
+    const watchlist = useWatchlist();
+    const { items, alerts, unreadCount, intervalHours, isChecking, lastError, notifications } = watchlist;
+
+    const valueLabel = (field: 'prediction' | 'confidence', value: string) =>
+        t(`${field === 'prediction' ? 'trend' : 'confidence'}.${value}` as MessageKey);
+
+    return (
+        <section id="watchlist" className="bg-gray-900 p-4 sm:p-6 md:p-8 rounded-xl shadow-2xl border border-gray-700">
+            <h2 className="text-3xl font-bold text-center mb-2 text-emerald-300">{t('watch.title')}</h2>
+            <p className="text-center text-gray-400 mb-8">{t('watch.subtitle')}</p>
+
+            <div className="flex flex-wrap items-end gap-4 mb-6">
+                <div>
+                    <label htmlFor="watch_interval" className="block mb-1 text-xs font-medium text-gray-400">{t('watch.interval')}</label>
+                    <select id="watch_interval" value={intervalHours} onChange={e => watchlist.setIntervalHours(Number(e.target.value))} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 p-2">
+                        {WATCH_INTERVALS.map(hours => <option key={hours} value={hours}>{t(INTERVAL_LABELS[hours])}</option>)}
+                    </select>
+                </div>
+                <button type="button" onClick={watchlist.checkNow} disabled={isChecking || items.length === 0} className={buttonClass}>
+                    {isChecking ? t('watch.checking') : t('watch.checkNow')}
+                </button>
+                {notifications === 'default' && (
+                    <button type="button" onClick={watchlist.enableNotifications} className={buttonClass}>{t('watch.enableNotifications')}</button>
+                )}
+                {notifications === 'denied' && <span className="text-xs text-gray-400">{t('watch.notificationsDenied')}</span>}
+                {notifications === 'unsupported' && <span className="text-xs text-gray-400">{t('watch.notificationsUnsupported')}</span>}
+            </div>
+
+            {lastError && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg text-center mb-6">{t(lastError)}</div>}
+
+            {items.length === 0 ? (
+                <p className="text-sm text-gray-300 mb-6">{t('watch.empty')}</p>
+            ) : (
+                <div className="overflow-x-auto mb-8">
+                    <table className="w-full text-sm text-left text-gray-300">
+                        <thead className="text-xs uppercase text-gray-400">
+                            <tr>
+                                <th className="p-2">{t('watch.item')}</th>
+                                <th className="p-2">{t('common.prediction')}</th>
+                                <th className="p-2">{t('common.confidence')}</th>
+                                <th className="p-2">{t('watch.lastChecked')}</th>
+                                <th className="p-2"><span className="sr-only">{t('watch.unpin')}</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {items.map(item => (
+                                <tr key={item.id} className="border-t border-gray-700 align-top">
+                                    <td className="p-2">
+                                        <span className="block text-gray-100">{item.name}</span>
+                                        <span className="block text-xs text-gray-400">{item.category} · {item.language}</span>
+                                        <span className="block text-xs text-gray-400 mt-1">{item.note}</span>
+                                    </td>
+                                    <td className="p-2">{valueLabel('prediction', item.prediction)}</td>
+                                    <td className="p-2">{valueLabel('confidence', item.confidence)}</td>
+                                    <td className="p-2 text-xs text-gray-400">{item.lastCheckedAt ? formatDateTime(item.lastCheckedAt) : t('watch.never')}</td>
+                                    <td className="p-2 text-right">
+                                        <button type="button" onClick={() => watchlist.remove(item.id)} className="text-gray-400 hover:text-red-400">{t('watch.unpin')}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+                <h3 className="text-xl font-bold text-emerald-300">{t('watch.alerts')}</h3>
+                <div className="flex gap-3">
+                    <button type="button" onClick={watchlist.markAllRead} disabled={unreadCount === 0} className={buttonClass}>{t('watch.markRead')}</button>
+                    <button type="button" onClick={watchlist.clearAlerts} disabled={alerts.length === 0} className={buttonClass}>{t('watch.clearAlerts')}</button>
+                </div>
+            </div>
+            {alerts.length === 0 ? (
+                <p className="text-sm text-gray-300">{t('watch.noAlerts')}</p>
+            ) : (
+                <ul className="space-y-2 text-sm">
+                    {alerts.map(alert => (
+                        <li key={alert.id} className={`rounded-lg p-3 ${alert.read ? 'bg-gray-800/50 text-gray-400' : 'bg-gray-800 text-gray-200 border-l-4 border-emerald-400'}`}>
+                            <span className="font-semibold">{alert.itemName}</span>: {t(`watch.change.${alert.field}`, {
+                                from: valueLabel(alert.field, alert.from),
+                                to: valueLabel(alert.field, alert.to),
+                            })}
+                            <span className="block text-xs text-gray-500">{formatDateTime(alert.createdAt)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <p className="text-xs text-gray-500 mt-6 italic">{t('watch.backgroundNote')}</p>
+        </section>
+    );
+};
+
+export default WatchlistPanel;
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { loadExchangeRates, resetExchangeRates, saveExchangeRates } from '../services/exchangeRateService';
+import { convertAmount, currenciesIn, ExchangeRateTable, isCurrencyCode, RATE_PIVOT } from '../utils/currency';
+
+const STORAGE_KEY = 'finance-advisor.base-currency';
+
+export interface CurrencySettings {
+    /** Currency the advice amount is entered in and portfolio totals are reported in. */
+    baseCurrency: string;
+    setBaseCurrency: (code: string) => void;
+    /** Currencies the user can pick as base: the pivot plus everything in the rate table. */
+    currencies: string[];
+    exchangeRates: ExchangeRateTable;
+    /** Sets units of RATE_PIVOT per one unit of `code`; null removes the currency. */
+    setRate: (code: string, rate: number | null) => void;
+    resetRates: () => void;
+    /** Converts into the base currency; null when either rate is missing. */
+    toBase: (amount: number, from: string) => number | null;
+}
+
+const CurrencyContext = createContext<CurrencySettings | null>(null);
+
+const readStoredCurrency = (): string => {
+    try {
+        return localStorage.getItem(STORAGE_KEY) || RATE_PIVOT;
+    } catch {
+        return RATE_PIVOT;
+    }
+};
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(loadExchangeRates);
+    const [storedCurrency, setStoredCurrency] = useState(readStoredCurrency);
+
+    const currencies = useMemo(() => currenciesIn(exchangeRates), [exchangeRates]);
+    // A base whose rate was removed would make every conversion fail.
+    const baseCurrency = currencies.includes(storedCurrency) ? storedCurrency : RATE_PIVOT;
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, baseCurrency);
+        } catch {
+            // Storage may be disabled; the choice then lasts for this visit only.
+        }
+    }, [baseCurrency]);
+
+    const value = useMemo<CurrencySettings>(() => ({
+        baseCurrency,
+        setBaseCurrency: code => setStoredCurrency(code),
+        currencies,
+        exchangeRates,
+        setRate: (code, rate) => {
+            if (!isCurrencyCode(code) || code === RATE_PIVOT) return;
+            setExchangeRates(prev => {
+                const rates = { ...prev.rates };
+                if (rate !== null && Number.isFinite(rate) && rate > 0) {
+                    rates[code] = rate;
+                } else {
+                    delete rates[code];
+                }
+                const next = { rates, updatedAt: Date.now() };
+                saveExchangeRates(next);
+                return next;
+            });
+        },
+        resetRates: () => setExchangeRates(resetExchangeRates()),
+        toBase: (amount, from) => convertAmount(amount, from, baseCurrency, exchangeRates),
+    }), [baseCurrency, currencies, exchangeRates]);
+
+    return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
+
+export const useCurrency = (): CurrencySettings => {
+    const context = useContext(CurrencyContext);
+    if (!context) throw new Error('useCurrency must be used inside <CurrencyProvider>.');
+    return context;
+};
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { getTextToSpeechAudio } from '../services/advisorService';
+import { createPlaybackEngine, PlaybackEngine, PlaybackSection, PlaybackState } from '../services/playbackEngine';
+
+export interface SpeechPlayback extends PlaybackState {
+    /** Id of the section being read, for highlighting; null when idle. */
+    currentSectionId: string | null;
+    play(sections: PlaybackSection[], startIndex?: number): void;
+    pause(): void;
+    resume(): void;
+    stop(): void;
+    next(): void;
+    previous(): void;
+    setRate(rate: number): void;
+}
+
+/** One playback engine per component, speaking in the given language. */
+export const useSpeechPlayback = (language: string): SpeechPlayback => {
+    const languageRef = useRef(language);
+    languageRef.current = language;
+
+    const engineRef = useRef<PlaybackEngine | null>(null);
+    if (!engineRef.current) {
+        engineRef.current = createPlaybackEngine(section =>
+            getTextToSpeechAudio(section.text, section.language ?? languageRef.current));
+    }
+    const engine = engineRef.current;
+    const state = useSyncExternalStore(engine.subscribe, engine.getState);
+
+    // Audio already fetched is in the old language, so start over.
+    useEffect(() => {
+        engine.stop();
+    }, [engine, language]);
+
+    useEffect(() => () => engine.dispose(), [engine]);
+
+    return {
+        ...state,
+        currentSectionId: state.currentIndex === -1 ? null : state.sections[state.currentIndex]?.id ?? null,
+        play: engine.play,
+        pause: engine.pause,
+        resume: engine.resume,
+        stop: engine.stop,
+        next: engine.next,
+        previous: engine.previous,
+        setRate: engine.setRate,
+    };
+};
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { transcribeAudio } from '../services/advisorService';
+import { blobToBase64, recordingToWav } from '../utils/audio';
+
+export type VoiceInputStatus = 'idle' | 'recording' | 'transcribing' | 'review';
+// Codes rather than text so the message follows the UI language (see voice.error.* keys).
+export type VoiceInputError = 'unsupported' | 'denied' | 'empty' | 'failed';
+
+// Whatever is recorded is converted to WAV before transcription, since Gemini
+// does not list webm (all Chrome can record) among its audio formats.
+const PREFERRED_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm'];
+
+const pickMimeType = () =>
+    PREFERRED_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records from the microphone and transcribes the result. The transcript is
+ * held for review so the caller can let the user correct it before using it.
+ */
+export const useVoiceInput = (languageHint?: string) => {
+    const [status, setStatus] = useState<VoiceInputStatus>('idle');
+    const [transcript, setTranscript] = useState('');
+    const [error, setError] = useState<VoiceInputError | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+
+    const releaseMicrophone = () => {
+        recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+    };
+
+    useEffect(() => () => {
+        if (recorderRef.current) {
+            recorderRef.current.onstop = null;
+            if (recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+        }
+        releaseMicrophone();
+    }, []);
+
+    const start = async () => {
+        setError(null);
+        if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined' || typeof OfflineAudioContext === 'undefined') {
+            setError('unsupported');
+            return;
+        }
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch {
+            setError('denied');
+            return;
+        }
+
+        const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = event => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = async () => {
+            releaseMicrophone();
+            setStatus('transcribing');
+            try {
+                const wav = await recordingToWav(new Blob(chunks, { type: recorder.mimeType }));
+                const text = await transcribeAudio({ data: await blobToBase64(wav), mimeType: wav.type }, languageHint);
+                if (!text) {
+                    setError('empty');
+                    setStatus('idle');
+                    return;
+                }
+                setTranscript(text);
+                setStatus('review');
+            } catch {
+                setError('failed');
+                setStatus('idle');
+            }
+        };
+        recorderRef.current = recorder;
+        recorder.start();
+        setStatus('recording');
+    };
+
+    const stop = () => {
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+
+    const reset = () => {
+        setTranscript('');
+        setStatus('idle');
+    };
+
+    return { status, transcript, setTranscript, error, start, stop, reset };
+};
+
+export type VoiceInput = ReturnType<typeof useVoiceInput>;
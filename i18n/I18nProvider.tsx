@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { formatCurrency, formatDateTime, formatNumber, formatPercent } from '../utils/format';
+import { DEFAULT_LANGUAGE, findLanguage, LanguageInfo } from './languages';
+import { createTranslator, Translate } from './translate';
+
+const STORAGE_KEY = 'finance-advisor.language';
+
+export interface I18n {
+    language: LanguageInfo;
+    setLanguage: (name: string) => void;
+    t: Translate;
+    formatCurrency: (value: number, currency: string) => string;
+    formatNumber: (value: number) => string;
+    formatPercent: (ratio: number) => string;
+    formatDateTime: (timestamp: number) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+const readStoredLanguage = (): LanguageInfo => {
+    try {
+        return findLanguage(localStorage.getItem(STORAGE_KEY) ?? '') ?? DEFAULT_LANGUAGE;
+    } catch {
+        return DEFAULT_LANGUAGE;
+    }
+};
+
+/** Holds the app-wide language: UI text, number formatting, prompts and speech all follow it. */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [language, setLanguageInfo] = useState<LanguageInfo>(readStoredLanguage);
+
+    useEffect(() => {
+        document.documentElement.lang = language.locale;
+        try {
+            localStorage.setItem(STORAGE_KEY, language.name);
+        } catch {
+            // Storage may be disabled; the choice then lasts for this visit only.
+        }
+    }, [language]);
+
+    const value = useMemo<I18n>(() => ({
+        language,
+        setLanguage: name => setLanguageInfo(findLanguage(name) ?? DEFAULT_LANGUAGE),
+        t: createTranslator(language.messages),
+        formatCurrency: (value, currency) => formatCurrency(value, currency, language.locale),
+        formatNumber: value => formatNumber(value, language.locale),
+        formatPercent: ratio => formatPercent(ratio, language.locale),
+        formatDateTime: timestamp => formatDateTime(timestamp, language.locale),
+    }), [language]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18n => {
+    const context = useContext(I18nContext);
+    if (!context) throw new Error('useI18n must be used inside <I18nProvider>.');
+    return context;
+};
@@ -0,0 +1,47 @@
+import { en, Messages } from './messages/en';
+import { hi } from './messages/hi';
+import { mr } from './messages/mr';
+
+export interface LanguageInfo {
+    /** English name; sent in prompts and stored with saved runs. */
+    name: string;
+    /** Shown in the language picker. */
+    nativeName: string;
+    /** BCP 47 locale for number, currency and date formatting. */
+    locale: string;
+    /** Gemini TTS voice used when reading text in this language aloud. */
+    voice: string;
+    /** Matches characters of the language's script, to tell which language a reply is in. */
+    script: RegExp;
+    /** Missing keys fall back to English, so a new catalog can start partial. */
+    messages: Partial<Messages>;
+}
+
+/**
+ * To add a language (e.g. Tamil, Gujarati or Bengali): create a catalog in
+ * messages/ typed as Partial<Messages> and add an entry here, e.g.
+ *   { name: 'Tamil', nativeName: 'தமிழ்', locale: 'ta-IN', voice: 'Kore', script: /[\u0B80-\u0BFF]/, messages: ta }
+ * Gujarati is /[\u0A80-\u0AFF]/ with gu-IN, Bengali /[\u0980-\u09FF]/ with bn-IN.
+ */
+export const SUPPORTED_LANGUAGES: LanguageInfo[] = [
+    { name: 'English', nativeName: 'English', locale: 'en-IN', voice: 'Zephyr', script: /[A-Za-z]/, messages: en },
+    { name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN', voice: 'Puck', script: /[\u0900-\u097F]/, messages: hi },
+    { name: 'Marathi', nativeName: 'मराठी', locale: 'mr-IN', voice: 'Kore', script: /[\u0900-\u097F]/, messages: mr },
+];
+
+export const DEFAULT_LANGUAGE = SUPPORTED_LANGUAGES[0];
+
+export const LANGUAGE_NAMES = SUPPORTED_LANGUAGES.map(language => language.name);
+
+export const findLanguage = (name: string): LanguageInfo | undefined =>
+    SUPPORTED_LANGUAGES.find(language => language.name.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Guesses the language of a piece of text from its script. Hindi and Marathi
+ * share Devanagari, so `preferred` wins whenever its script matches.
+ */
+export const detectLanguage = (text: string, preferred: LanguageInfo = DEFAULT_LANGUAGE): LanguageInfo => {
+    if (preferred !== DEFAULT_LANGUAGE && preferred.script.test(text)) return preferred;
+    // English last: replies in other languages often include Latin names and tickers.
+    return SUPPORTED_LANGUAGES.find(language => language !== DEFAULT_LANGUAGE && language.script.test(text)) ?? DEFAULT_LANGUAGE;
+};
@@ -0,0 +1,468 @@
+// Source catalog. Every other catalog is checked against these keys.
+// Placeholders in braces, e.g. {count}, are filled in by t().
+export const en = {
+    'app.title': 'Finance Advisor',
+    'app.language': 'Language',
+    'app.currency': 'Currency',
+    'app.footer': 'Created by {name}',
+
+    'common.prediction': 'Prediction:',
+    'common.confidence': 'Confidence:',
+    'common.sources': 'Sources:',
+    'common.cancel': 'Cancel',
+    'common.delete': 'Delete',
+    'common.open': 'Open',
+    'common.invalidResponse': 'The AI returned a response that could not be understood, even after asking it to correct itself. Please try again.',
+
+    'trend.Up': 'Upward Trend',
+    'trend.Down': 'Downward Trend',
+    'trend.Stable': 'Stable Trend',
+    'confidence.High': 'High',
+    'confidence.Medium': 'Medium',
+    'confidence.Low': 'Low',
+    'risk.Low': 'Low',
+    'risk.Medium': 'Medium',
+    'risk.High': 'High',
+
+    'advisor.title': 'Personalized Financial Plan',
+    'advisor.subtitle': 'Enter your criteria to receive AI-powered investment suggestions.',
+    'advisor.amount': 'Investment Amount ({currency})',
+    'advisor.risk': 'Risk Tolerance',
+    'advisor.riskProfile': 'Questionnaire: {score}/100, suggests {tolerance}',
+    'advisor.riskNoProfile': 'Medium assumed until you take the questionnaire.',
+    'advisor.riskTake': 'Take the risk questionnaire',
+    'advisor.riskRetake': 'Retake the questionnaire',
+    'advisor.horizon': 'Horizon (Years)',
+    'advisor.submit': 'Get Advice',
+    'advisor.submitting': 'Generating Plan...',
+    'advisor.loading': 'Analyzing market data with AI...',
+    'advisor.loadingHint': 'This may take a moment for complex queries.',
+    'advisor.resultTitle': 'Your AI-Generated Strategy',
+    'advisor.error': 'An error occurred while fetching financial advice. Please try again.',
+    'advisor.disclaimer': 'Disclaimer: This is AI-generated information and not professional financial advice. Always do your own research.',
+    'advisor.voiceHint': 'Or say it, e.g. "Invest 2 lakh for 10 years, medium risk, advice in Marathi".',
+    'advisor.voiceListening': 'Listening… press stop when done.',
+    'advisor.voiceFilling': 'Filling in the form…',
+    'advisor.voiceConfirm': 'Fill form',
+    'advisor.voiceFilled': 'Filled {fields} from what you said. Check the form, then press Get Advice.',
+    'advisor.voiceNothingFound': "Couldn't find an amount, risk level, horizon or language in that. Try again or type them in.",
+    'advisor.voiceFailed': "Couldn't understand that request. Please try again or type the details.",
+    'advisor.field.amount': 'amount',
+    'advisor.field.currency': 'currency',
+    'advisor.field.risk': 'risk tolerance',
+    'advisor.field.horizon': 'horizon',
+    'advisor.field.language': 'language',
+
+    'projection.title': 'Growth projection',
+    'projection.subtitle': '{amount} invested today for {years} years. Calculated on your device from the assumptions below, not by the AI.',
+    'projection.monthlySip': 'Monthly SIP ({currency})',
+    'projection.return': 'Expected return (% a year)',
+    'projection.inflation': 'Inflation (% a year)',
+    'projection.invested': 'Invested',
+    'projection.value': 'Projected value',
+    'projection.realValue': "In today's money",
+    'projection.year': 'Year',
+    'projection.chartTitle': 'Value by year',
+    'projection.noYears': 'Set a horizon of at least one year to see a projection.',
+    'projection.goal': 'Goal',
+    'projection.noGoal': 'No goal',
+    'projection.goal.retirement': 'Retirement',
+    'projection.goal.education': "Children's education",
+    'projection.goal.home': 'Buying a home',
+    'projection.target': "Target in today's money ({currency})",
+    'projection.targetHint': 'Enter a target amount to see the monthly SIP it needs.',
+    'projection.lumpSumEnough': 'The lump sum alone should reach this goal.',
+    'projection.requiredSip': 'Invest about {amount} a month to reach this goal.',
+    'projection.disclaimer': 'Projections assume a steady return every year. Real returns vary and are not guaranteed.',
+
+    'simulation.title': 'Range of outcomes',
+    'simulation.allocation': 'Simulates {amount} invested as {allocation}, using typical return and volatility for each asset class.',
+    'simulation.years': 'Years',
+    'simulation.paths': 'Paths',
+    'simulation.seed': 'Seed',
+    'simulation.goal': 'Goal ({currency})',
+    'simulation.run': 'Run simulation',
+    'simulation.running': 'Simulating…',
+    'simulation.failed': 'The simulation could not be run. Please try again.',
+    'simulation.median': 'Median after {years} years',
+    'simulation.range': '10th – 90th percentile',
+    'simulation.goalProbability': 'Chance of reaching goal',
+    'simulation.drawdown': 'Typical worst fall',
+    'simulation.drawdownBad': '1 in 10 paths: {value} or more',
+    'simulation.bandsTitle': 'Value by year (P10 / P50 / P90)',
+    'simulation.drawdownTitle': 'Worst fall from a peak (% of paths)',
+    'simulation.disclaimer': 'Simulated from assumed averages, not market forecasts. The same seed always gives the same result.',
+
+    'predictor.risk': 'Risk Tolerance (sets the target allocation)',
+    'allocation.title': 'Allocation & Rebalancing',
+    'allocation.subtitle': 'Portfolio of {total} compared with the target for {risk} risk.',
+    'allocation.current': 'Current allocation',
+    'allocation.target': 'Target for {risk} risk',
+    'allocation.rebalance': 'To rebalance',
+    'allocation.balanced': 'The portfolio is within 1% of its target in every asset class; no trades needed.',
+    'allocation.assetClass': 'Asset class',
+    'allocation.currentValue': 'Current',
+    'allocation.targetValue': 'Target',
+    'allocation.action': 'Action',
+    'allocation.buy': 'Buy {amount}',
+    'allocation.sell': 'Sell {amount}',
+    'allocation.bySector': 'Equity by sector',
+    'allocation.byMarketCap': 'Equity by market cap',
+    'allocation.byGeography': 'By geography',
+    'allocation.unclassified': 'Unclassified',
+    'allocation.unclassifiedHint': 'Add a sector and market cap to your holdings for a fuller breakdown.',
+    'allocation.disclaimer': 'Targets are general rules of thumb, not personal advice. Consider taxes and exit loads before selling.',
+    'allocation.class.Equity': 'Equity',
+    'allocation.class.Debt': 'Debt',
+    'allocation.class.Gold': 'Gold',
+    'allocation.class.Cash': 'Cash',
+    'allocation.class.Alternatives': 'Alternatives',
+    'tax.title': 'Capital Gains Tax Estimate',
+    'tax.subtitle': 'Estimated Indian tax on a hypothetical sale at current prices, in rupees.',
+    'tax.scenario': 'Scenario',
+    'tax.scenario.all': 'Sell everything',
+    'tax.scenario.rebalance': 'Sell to rebalance',
+    'tax.saleDate': 'Sale date',
+    'tax.slabRate': 'Your income-tax slab',
+    'tax.rules': 'Rules: {version}',
+    'tax.shortTerm': 'Short-term gains',
+    'tax.longTerm': 'Long-term gains',
+    'tax.exemption': 'Exemption used',
+    'tax.setOff': 'Losses set off',
+    'tax.total': 'Estimated tax (incl. cess)',
+    'tax.carried': '{amount} of losses would be left to carry forward.',
+    'tax.holding': 'Holding',
+    'tax.category': 'Type',
+    'tax.term': 'Term',
+    'tax.term.short': 'Short-term',
+    'tax.term.long': 'Long-term',
+    'tax.unknownDate': 'No purchase date; assumed short-term',
+    'tax.gain': 'Gain',
+    'tax.nothingSold': 'Nothing would be sold in this scenario.',
+    'tax.skipped': 'No rupee exchange rate for {holdings}; left out of the estimate.',
+    'tax.harvestTitle': 'Tax-loss harvesting',
+    'tax.harvestItem': '{holding}: booking its {term} loss of {loss} would save about {saved}',
+    'tax.harvestNone': 'No loss-making holding would reduce this tax.',
+    'tax.unusedExemption': 'You could still book {amount} of long-term equity gains tax-free this financial year.',
+    'tax.disclaimer': 'A simplified estimate for resident individuals that ignores surcharge, grandfathering and your other gains this year. Check with a tax adviser before selling.',
+    'tax.category.listedEquity': 'Indian equity',
+    'tax.category.foreignEquity': 'Foreign equity',
+    'tax.category.debt': 'Debt',
+    'tax.category.gold': 'Gold',
+    'tax.category.crypto': 'Crypto',
+    'tax.category.other': 'Other',
+    'taxRules.show': 'Edit tax rules',
+    'taxRules.hide': 'Hide tax rules',
+    'taxRules.hint': 'Update these each budget year. A blank rate means your slab rate; blank months means gains are never long-term. Enter debt funds as Bond.',
+    'taxRules.version': 'Rule set',
+    'taxRules.effectiveFrom': 'Applies to sales from {date}',
+    'taxRules.cess': 'Cess %',
+    'taxRules.longTermAfter': 'Long-term after (months)',
+    'taxRules.shortTermRate': 'Short-term rate %',
+    'taxRules.longTermRate': 'Long-term rate %',
+    'taxRules.exemption': 'Yearly exemption (₹)',
+    'taxRules.setOff': 'Set-off allowed',
+    'taxRules.newVersion': 'New rule set name',
+    'taxRules.newEffectiveFrom': 'Applies from',
+    'taxRules.add': 'Copy as new rule set',
+    'taxRules.delete': 'Delete rule set',
+    'taxRules.reset': 'Reset to built-in rules',
+    'riskQuiz.title': 'Risk questionnaire',
+    'riskQuiz.step': 'Question {step} of {total}',
+    'riskQuiz.back': 'Back',
+    'riskQuiz.next': 'Next',
+    'riskQuiz.save': 'Use this profile',
+    'riskQuiz.result': 'Your risk profile: {tolerance} ({score}/100)',
+    'riskQuiz.breakdown': 'How each answer counted',
+    'riskQuiz.points': '{points} of {max} points',
+    'riskQuiz.cap.wouldSellAll': 'Limited to Low because you would sell everything after a fall; the score alone suggests {tolerance}.',
+    'riskQuiz.cap.noEmergencyFund': 'Limited to Medium until you have an emergency fund; the score alone suggests {tolerance}.',
+    'riskQuiz.q.age': 'How old are you?',
+    'riskQuiz.q.incomeStability': 'How stable is your income?',
+    'riskQuiz.q.dependents': 'How many people depend on you financially?',
+    'riskQuiz.q.emergencyFund': 'How many months of expenses do you keep as an emergency fund?',
+    'riskQuiz.q.drawdownReaction': 'If your investments fell 20% in a month, what would you do?',
+    'riskQuiz.q.experience': 'What have you invested in before?',
+    'riskQuiz.short.age': 'Age',
+    'riskQuiz.short.incomeStability': 'Income',
+    'riskQuiz.short.dependents': 'Dependents',
+    'riskQuiz.short.emergencyFund': 'Emergency fund',
+    'riskQuiz.short.drawdownReaction': 'After a 20% fall',
+    'riskQuiz.short.experience': 'Experience',
+    'riskQuiz.age.under30': 'Under 30',
+    'riskQuiz.age.30to44': '30 to 44',
+    'riskQuiz.age.45to59': '45 to 59',
+    'riskQuiz.age.60plus': '60 or over',
+    'riskQuiz.incomeStability.veryStable': 'Very stable, e.g. a permanent salaried job',
+    'riskQuiz.incomeStability.stable': 'Mostly stable',
+    'riskQuiz.incomeStability.variable': 'Variable: business, freelance or commission',
+    'riskQuiz.incomeStability.none': 'No regular income',
+    'riskQuiz.dependents.none': 'None',
+    'riskQuiz.dependents.oneOrTwo': 'One or two',
+    'riskQuiz.dependents.threePlus': 'Three or more',
+    'riskQuiz.emergencyFund.sixPlus': 'Six months or more',
+    'riskQuiz.emergencyFund.threeToSix': 'Three to six months',
+    'riskQuiz.emergencyFund.underThree': 'Less than three months',
+    'riskQuiz.emergencyFund.none': 'None',
+    'riskQuiz.drawdownReaction.buyMore': 'Invest more while prices are low',
+    'riskQuiz.drawdownReaction.hold': 'Hold and wait',
+    'riskQuiz.drawdownReaction.sellSome': 'Sell some to limit losses',
+    'riskQuiz.drawdownReaction.sellAll': 'Sell everything',
+    'riskQuiz.experience.extensive': 'Stocks or equity funds for several years',
+    'riskQuiz.experience.some': 'Some mutual funds or stocks',
+    'riskQuiz.experience.depositsOnly': 'Only FDs and savings accounts',
+    'riskQuiz.experience.none': 'Nothing yet',
+    'watch.title': 'Watchlist',
+    'watch.subtitle': 'Pin recommendations or holdings and get alerted when their outlook changes.',
+    'watch.pin': 'Watch',
+    'watch.unpin': 'Remove',
+    'watch.watching': 'Watching',
+    'watch.interval': 'Re-check every',
+    'watch.interval.off': 'Paused',
+    'watch.interval.hour': 'Hour',
+    'watch.interval.sixHours': '6 hours',
+    'watch.interval.day': 'Day',
+    'watch.interval.week': 'Week',
+    'watch.checkNow': 'Check now',
+    'watch.checking': 'Checking...',
+    'watch.enableNotifications': 'Enable browser notifications',
+    'watch.notificationsDenied': 'Browser notifications are blocked; alerts appear here only.',
+    'watch.notificationsUnsupported': 'This browser cannot show notifications; alerts appear here only.',
+    'watch.empty': 'Nothing is watched yet. Use "Watch" on a recommendation or holding to pin it.',
+    'watch.item': 'Item',
+    'watch.lastChecked': 'Last checked',
+    'watch.never': 'Not yet',
+    'watch.alerts': 'Alert history',
+    'watch.markRead': 'Mark all read',
+    'watch.clearAlerts': 'Clear history',
+    'watch.noAlerts': 'No changes so far.',
+    'watch.unread': '{count} unread alerts',
+    'watch.change.prediction': 'prediction changed from {from} to {to}',
+    'watch.change.confidence': 'confidence changed from {from} to {to}',
+    'watch.notifyOne': 'Outlook changed for {name}',
+    'watch.notifyMany': 'Outlook changed for {count} watched items',
+    'watch.reminderTitle': 'Watchlist check due',
+    'watch.reminderBody': 'Open the advisor to re-check your watched investments.',
+    'watch.unavailable': 'The watchlist is unavailable in this browser.',
+    'watch.checkFailed': 'Could not re-check the watchlist. It will be tried again at the next interval.',
+    'watch.backgroundNote': 'Checks run while this page is open. Where the browser allows background sync, you are reminded to open it when a check is due.',
+    'cache.cachedAgo': 'Saved answer from {minutes} min ago',
+    'cache.cachedJustNow': 'Saved answer from moments ago',
+    'cache.refresh': 'Refresh',
+    'cache.refreshHint': 'Ask the AI again instead of reusing the saved answer',
+    'cache.ttl': 'Reuse answers',
+    'cache.ttlHint': 'How long an answer is reused when the same inputs are submitted again',
+    'cache.ttl.off': 'Never',
+    'cache.ttl.minutes': '{count} min',
+    'cache.ttl.hours': '{count} h',
+    'error.missingKey': 'The advisor server has no AI key set up, so it cannot answer yet. Ask whoever runs it to set GEMINI_API_KEY and restart it.',
+    'error.invalidKey': 'The AI service rejected the server\'s API key. Ask whoever runs the advisor server to check GEMINI_API_KEY.',
+    'error.rateLimited': 'The AI service is getting too many requests right now. Wait a minute, then try again.',
+    'error.safetyBlocked': 'The AI declined to answer this request for safety reasons. Try rephrasing it or changing the inputs.',
+    'error.timeout': 'The AI took too long to answer, even after trying again. Try again in a little while.',
+    'error.network': 'Could not reach the advisor server. Check your internet connection, then try again.',
+    'error.badRequest': 'The advisor server could not accept this request. Check the inputs, then try again.',
+    'settings.title': 'Settings',
+    'settings.subtitle': 'Choose how much time and money each AI request may take. Saved in this browser.',
+    'settings.models': 'Model per feature',
+    'settings.feature.advice': 'Financial advice',
+    'settings.feature.prediction': 'Portfolio prediction',
+    'settings.feature.watch': 'Watchlist checks',
+    'settings.feature.chat': 'Chat',
+    'settings.mode.fast': 'Fast (Gemini Flash)',
+    'settings.mode.thorough': 'Thorough (Gemini Pro)',
+    'settings.estimate': '≈ {cost} per request · {time}',
+    'settings.costUnder': 'under {cost}',
+    'settings.seconds': '{min}–{max} s',
+    'settings.minutes': '{min}–{max} min',
+    'settings.estimateNote': 'Rough estimates at list prices, for comparing settings; actual cost and time depend on the question and the answer.',
+    'settings.search': 'Search the web for current market data',
+    'settings.searchHint': 'Used by advice, predictions and watchlist checks. Slower and costs more, but answers reflect today\'s prices and news.',
+    'settings.thinkingBudget': 'Thinking budget',
+    'settings.tokens': '{count} tokens',
+    'settings.thinkingBudgetHint': 'How long the thorough model may reason before answering. Higher gives more careful answers but takes longer and costs more. Fast mode does not think.',
+    'settings.voices': 'Reading voices',
+    'settings.reset': 'Restore defaults',
+    'predictor.title': 'Investment Portfolio Prediction',
+    'predictor.subtitle': 'Enter your current holdings with quantities and what you paid for an AI-powered analysis.',
+    'predictor.holdings': 'Your Holdings',
+    'predictor.submit': 'Analyze & Predict',
+    'predictor.submitting': 'Analyzing...',
+    'predictor.loading': 'Consulting market data with AI...',
+    'predictor.loadingHint': 'This may take a moment for complex analysis.',
+    'predictor.resultTitle': 'Prediction Results',
+    'predictor.overallSummary': 'Overall Summary:',
+    'predictor.analysis': 'Analysis:',
+    'predictor.outlook': 'Outlook:',
+    'predictor.positionValue': 'Position Value',
+    'predictor.weight': 'Weight',
+    'predictor.unrealizedGain': 'Unrealized Gain',
+    'predictor.total': 'Portfolio value ({currency})',
+    'predictor.converted': '≈ {value}',
+    'predictor.missingRates': 'No exchange rate for {currencies}; those holdings are left out of the total and the weights.',
+    'predictor.now': 'now {price}',
+    'predictor.fixHoldings': 'Please fix the highlighted holdings before analyzing.',
+    'predictor.error': 'An error occurred while fetching the prediction. Please try again.',
+    'predictor.disclaimer': 'Disclaimer: This is AI-generated information and not professional financial advice. Predictions are not guaranteed. Always do your own research.',
+    'predictor.speechSummary': 'Here is the overall summary of your portfolio prediction: {summary}',
+    'predictor.speechItem': '{name}. Analysis: {analysis}. Outlook: {outlook}',
+
+    'holding.symbol': 'Symbol',
+    'holding.name': 'Name',
+    'holding.assetClass': 'Asset Class',
+    'holding.quantity': 'Quantity',
+    'holding.averageCost': 'Avg. Cost',
+    'holding.currency': 'Currency',
+    'holding.purchaseDate': 'Purchase Date',
+    'holding.remove': 'Remove holding',
+    'holding.add': '+ Add holding',
+    'holding.error.symbolOrName': 'Enter a symbol or a name.',
+    'holding.error.quantity': 'Quantity must be greater than 0.',
+    'holding.error.averageCost': 'Average cost cannot be negative.',
+    'holding.error.currency': 'Use a 3-letter currency code, e.g. INR.',
+    'holding.error.invalidDate': 'Enter a valid date.',
+    'holding.error.futureDate': 'Purchase date cannot be in the future.',
+
+    'holding.sector': 'Sector',
+    'holding.marketCap': 'Market Cap',
+    'holding.geography': 'Geography',
+    'holding.geographyAuto': 'From currency',
+    'marketCap.Large': 'Large cap',
+    'marketCap.Mid': 'Mid cap',
+    'marketCap.Small': 'Small cap',
+    'geography.India': 'India',
+    'geography.International': 'International',
+    'assetClass.Stock': 'Stock',
+    'assetClass.ETF': 'ETF',
+    'assetClass.Mutual Fund': 'Mutual Fund',
+    'assetClass.Bond': 'Bond',
+    'assetClass.Crypto': 'Crypto',
+    'assetClass.Gold': 'Gold',
+    'assetClass.Cash': 'Cash',
+    'assetClass.Other': 'Other',
+
+    'import.label': 'Import from CSV or broker export',
+    'import.privacy': 'Parsed in your browser; nothing is uploaded.',
+    'import.noRows': 'The file has no data rows.',
+    'import.readError': 'The file could not be read. Please upload a CSV export.',
+    'import.detected': 'detected {layout}',
+    'import.mapColumns': 'map the columns below',
+    'import.notInFile': '(not in file)',
+    'import.column': 'Column {index}',
+    'import.defaultAssetClass': 'Default asset class',
+    'import.defaultCurrency': 'Default currency',
+    'import.ready': '{count} holding(s) ready to import',
+    'import.rejected': ', {count} row(s) could not be understood',
+    'import.line': 'Line {line}:',
+    'import.reason.noName': 'No symbol or name.',
+    'import.reason.quantity': 'Quantity is missing or not a positive number.',
+    'import.reason.averageCost': 'Average cost is missing or not a number.',
+    'import.reason.layout': 'Row does not match the export layout.',
+    'import.reason.purchaseDate': 'Unrecognised purchase date "{value}".',
+    'import.replace': 'Replace holdings',
+    'import.append': 'Add to holdings',
+
+    'rates.show': 'Show exchange rates',
+    'rates.hide': 'Hide exchange rates',
+    'rates.hint': 'Used to convert holdings into {currency}. Stored in this browser; edit them to match current rates.',
+    'rates.code': 'Currency code',
+    'rates.rate': 'Rate',
+    'rates.add': 'Add currency',
+    'rates.updated': 'Last edited {date}',
+    'rates.defaults': 'Built-in approximate rates',
+    'rates.reset': 'Reset to defaults',
+
+    'history.show': 'Show history',
+    'history.hide': 'Hide history',
+    'history.unavailable': 'History is unavailable in this browser.',
+    'history.empty': 'No saved runs yet.',
+    'history.compareHint': 'Select two runs to compare them.',
+    'history.selectForComparison': 'Select for comparison',
+    'history.adviceInputs': '{amount} · {risk} risk · {years} yrs · {language}',
+    'history.more': '{names} +{count} more',
+    'history.item': 'Item',
+    'history.before': 'Before',
+    'history.after': 'After',
+    'history.status': 'Status',
+    'history.status.added': 'New',
+    'history.status.removed': 'Dropped',
+    'history.status.changed': 'Changed',
+    'history.status.unchanged': 'Same',
+    'history.field.prediction': 'prediction',
+    'history.field.confidence': 'confidence',
+
+    'parse.partial': 'Partially parsed:',
+    'parse.partialDetail': 'some of the AI response did not match the expected format.',
+    'parse.dropped': '{count} item(s) were left out.',
+    'parse.adjusted': 'A few values were adjusted.',
+    'parse.showDetails': 'Show details',
+    'parse.hideDetails': 'Hide details',
+
+    'export.label': 'Export:',
+    'export.pdfHint': 'Opens the print dialog; choose Save as PDF',
+    'export.print': 'Print / Save as PDF',
+    'export.generated': 'Generated {date}',
+    'export.parameters': 'Parameters',
+    'export.parameter': 'Parameter',
+    'export.value': 'Value',
+    'export.amount': 'Investment amount',
+    'export.riskScore': 'Risk score',
+    'export.horizon': 'Horizon',
+    'export.years': '{count} years',
+    'export.holdingCount': 'Holdings',
+    'export.holding': 'Holding',
+    'export.summary': 'Summary',
+    'export.recommendations': 'Recommendations',
+    'export.category': 'Category:',
+    'export.overallSummary': 'Overall Summary',
+    'export.analysis': 'Analysis',
+    'export.latestPrice': 'Latest price:',
+    'export.sources': 'Sources',
+    'export.audio': 'Audio',
+    'export.audioBuilding': 'Audio…',
+    'export.audioRetry': 'Audio (retry)',
+    'export.audioHint': 'Download the report read aloud as a WAV file',
+    'export.audioFailed': 'Could not generate the audio. Try again.',
+
+    'playback.speak': 'Speak',
+    'playback.stop': 'Stop',
+    'playback.pause': 'Pause',
+    'playback.resume': 'Resume',
+    'playback.previous': 'Previous section',
+    'playback.next': 'Next section',
+    'playback.speed': 'Playback speed',
+    'playback.failed': 'Failed to generate or play audio for a segment.',
+
+    'voice.start': 'Speak instead of typing',
+    'voice.stop': 'Stop recording',
+    'voice.transcribing': 'Transcribing…',
+    'voice.heard': 'I heard:',
+    'voice.discard': 'Discard',
+    'voice.error.unsupported': 'Voice input is not supported in this browser.',
+    'voice.error.denied': 'Microphone access was denied.',
+    'voice.error.empty': "Didn't catch that. Please try again.",
+    'voice.error.failed': 'Could not transcribe the recording. Please try again.',
+
+    'chat.title': 'AI Assistant',
+    'chat.greeting': 'Hello! How can I help you with your finances today?',
+    'chat.untitled': 'New conversation',
+    'chat.placeholder': 'Ask me anything...',
+    'chat.send': 'Send',
+    'chat.stopGenerating': 'Stop generating',
+    'chat.stopped': 'Stopped',
+    'chat.readAloud': 'Read aloud',
+    'chat.connectionError': "Sorry, I'm having trouble connecting. Please try again.",
+    'chat.conversation': 'Conversation',
+    'chat.conversationName': 'Conversation name',
+    'chat.new': 'New',
+    'chat.rename': 'Rename',
+    'chat.deleteConfirm': 'Delete "{title}"?',
+    'chat.attach': 'Attach result',
+    'chat.noContext': 'No result attached',
+    'chat.discuss': 'Discuss: {label}',
+    'chat.contextAdvice': 'Financial plan ({date})',
+    'chat.contextPrediction': 'Portfolio prediction ({date})',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,465 @@
+import type { Messages } from './en';
+
+export const hi: Messages = {
+    'app.title': 'वित्त सलाहकार',
+    'app.language': 'भाषा',
+    'app.currency': 'मुद्रा',
+    'app.footer': '{name} द्वारा निर्मित',
+
+    'common.prediction': 'अनुमान:',
+    'common.confidence': 'विश्वास स्तर:',
+    'common.sources': 'स्रोत:',
+    'common.cancel': 'रद्द करें',
+    'common.delete': 'हटाएँ',
+    'common.open': 'खोलें',
+    'common.invalidResponse': 'AI का जवाब समझा नहीं जा सका, सुधारने के लिए कहने के बाद भी। कृपया फिर से प्रयास करें।',
+
+    'trend.Up': 'बढ़ता रुझान',
+    'trend.Down': 'घटता रुझान',
+    'trend.Stable': 'स्थिर रुझान',
+    'confidence.High': 'उच्च',
+    'confidence.Medium': 'मध्यम',
+    'confidence.Low': 'कम',
+    'risk.Low': 'कम',
+    'risk.Medium': 'मध्यम',
+    'risk.High': 'उच्च',
+
+    'advisor.title': 'व्यक्तिगत वित्तीय योजना',
+    'advisor.subtitle': 'AI आधारित निवेश सुझाव पाने के लिए अपनी जानकारी दर्ज करें।',
+    'advisor.amount': 'निवेश राशि ({currency})',
+    'advisor.risk': 'जोखिम क्षमता',
+    'advisor.riskProfile': 'प्रश्नावली: {score}/100, सुझाव {tolerance}',
+    'advisor.riskNoProfile': 'प्रश्नावली भरने तक मध्यम माना गया है।',
+    'advisor.riskTake': 'जोखिम प्रश्नावली भरें',
+    'advisor.riskRetake': 'प्रश्नावली फिर से भरें',
+    'advisor.horizon': 'अवधि (वर्ष)',
+    'advisor.submit': 'सलाह पाएँ',
+    'advisor.submitting': 'योजना बन रही है...',
+    'advisor.loading': 'AI से बाज़ार डेटा का विश्लेषण हो रहा है...',
+    'advisor.loadingHint': 'जटिल प्रश्नों में थोड़ा समय लग सकता है।',
+    'advisor.resultTitle': 'आपकी AI द्वारा बनाई गई रणनीति',
+    'advisor.error': 'वित्तीय सलाह लाते समय त्रुटि हुई। कृपया फिर से प्रयास करें।',
+    'advisor.disclaimer': 'अस्वीकरण: यह AI द्वारा बनाई गई जानकारी है, पेशेवर वित्तीय सलाह नहीं। हमेशा स्वयं शोध करें।',
+    'advisor.voiceHint': 'या बोलकर बताएँ, जैसे "10 साल के लिए 2 लाख, मध्यम जोखिम, सलाह मराठी में"।',
+    'advisor.voiceListening': 'सुन रहे हैं… पूरा होने पर रोकें दबाएँ।',
+    'advisor.voiceFilling': 'फ़ॉर्म भरा जा रहा है…',
+    'advisor.voiceConfirm': 'फ़ॉर्म भरें',
+    'advisor.voiceFilled': 'आपकी बात से {fields} भरा गया। फ़ॉर्म जाँचें, फिर सलाह पाएँ दबाएँ।',
+    'advisor.voiceNothingFound': 'इसमें राशि, जोखिम स्तर, अवधि या भाषा नहीं मिली। फिर से बोलें या टाइप करें।',
+    'advisor.voiceFailed': 'अनुरोध समझ नहीं आया। कृपया फिर से प्रयास करें या विवरण टाइप करें।',
+    'advisor.field.amount': 'राशि',
+    'advisor.field.currency': 'मुद्रा',
+    'advisor.field.risk': 'जोखिम क्षमता',
+    'advisor.field.horizon': 'अवधि',
+    'advisor.field.language': 'भाषा',
+
+    'projection.title': 'वृद्धि अनुमान',
+    'projection.subtitle': 'आज {amount} का निवेश, {years} वर्षों के लिए। नीचे दी गई मान्यताओं से आपके डिवाइस पर गणना, AI द्वारा नहीं।',
+    'projection.monthlySip': 'मासिक SIP ({currency})',
+    'projection.return': 'अपेक्षित रिटर्न (% प्रति वर्ष)',
+    'projection.inflation': 'महंगाई (% प्रति वर्ष)',
+    'projection.invested': 'निवेश किया',
+    'projection.value': 'अनुमानित मूल्य',
+    'projection.realValue': 'आज के मूल्य में',
+    'projection.year': 'वर्ष',
+    'projection.chartTitle': 'वर्षवार मूल्य',
+    'projection.noYears': 'अनुमान देखने के लिए कम से कम एक वर्ष की अवधि चुनें।',
+    'projection.goal': 'लक्ष्य',
+    'projection.noGoal': 'कोई लक्ष्य नहीं',
+    'projection.goal.retirement': 'सेवानिवृत्ति',
+    'projection.goal.education': 'बच्चों की शिक्षा',
+    'projection.goal.home': 'घर ख़रीदना',
+    'projection.target': 'आज के मूल्य में लक्ष्य ({currency})',
+    'projection.targetHint': 'ज़रूरी मासिक SIP देखने के लिए लक्ष्य राशि दर्ज करें।',
+    'projection.lumpSumEnough': 'केवल एकमुश्त निवेश से यह लक्ष्य पूरा होना चाहिए।',
+    'projection.requiredSip': 'यह लक्ष्य पाने के लिए हर महीने लगभग {amount} निवेश करें।',
+    'projection.disclaimer': 'अनुमान हर साल एक जैसे रिटर्न पर आधारित हैं। वास्तविक रिटर्न बदलते हैं और इनकी गारंटी नहीं है।',
+
+    'simulation.title': 'संभावित परिणामों का दायरा',
+    'simulation.allocation': '{amount} को {allocation} में निवेश मानकर, हर एसेट श्रेणी के सामान्य रिटर्न और उतार-चढ़ाव से सिमुलेशन।',
+    'simulation.years': 'वर्ष',
+    'simulation.paths': 'पथ',
+    'simulation.seed': 'सीड',
+    'simulation.goal': 'लक्ष्य ({currency})',
+    'simulation.run': 'सिमुलेशन चलाएँ',
+    'simulation.running': 'सिमुलेशन चल रहा है…',
+    'simulation.failed': 'सिमुलेशन नहीं चल सका। कृपया फिर से प्रयास करें।',
+    'simulation.median': '{years} वर्ष बाद मध्य मान',
+    'simulation.range': '10वाँ – 90वाँ प्रतिशतक',
+    'simulation.goalProbability': 'लक्ष्य पाने की संभावना',
+    'simulation.drawdown': 'सामान्य सबसे बड़ी गिरावट',
+    'simulation.drawdownBad': '10 में 1 पथ: {value} या अधिक',
+    'simulation.bandsTitle': 'वर्षवार मूल्य (P10 / P50 / P90)',
+    'simulation.drawdownTitle': 'शिखर से सबसे बड़ी गिरावट (% पथ)',
+    'simulation.disclaimer': 'मान्य औसतों पर आधारित सिमुलेशन, बाज़ार का पूर्वानुमान नहीं। एक ही सीड से हमेशा एक ही परिणाम मिलता है।',
+
+    'predictor.risk': 'जोखिम सहनशीलता (लक्ष्य आवंटन तय करती है)',
+    'allocation.title': 'आवंटन और पुनर्संतुलन',
+    'allocation.subtitle': '{total} के पोर्टफोलियो की तुलना {risk} जोखिम के लक्ष्य से।',
+    'allocation.current': 'मौजूदा आवंटन',
+    'allocation.target': '{risk} जोखिम का लक्ष्य',
+    'allocation.rebalance': 'पुनर्संतुलन के लिए',
+    'allocation.balanced': 'हर एसेट क्लास में पोर्टफोलियो अपने लक्ष्य के 1% के भीतर है; किसी लेन-देन की ज़रूरत नहीं।',
+    'allocation.assetClass': 'एसेट क्लास',
+    'allocation.currentValue': 'मौजूदा',
+    'allocation.targetValue': 'लक्ष्य',
+    'allocation.action': 'कार्रवाई',
+    'allocation.buy': '{amount} खरीदें',
+    'allocation.sell': '{amount} बेचें',
+    'allocation.bySector': 'सेक्टर के अनुसार इक्विटी',
+    'allocation.byMarketCap': 'मार्केट कैप के अनुसार इक्विटी',
+    'allocation.byGeography': 'भौगोलिक क्षेत्र के अनुसार',
+    'allocation.unclassified': 'अवर्गीकृत',
+    'allocation.unclassifiedHint': 'पूरे विवरण के लिए अपनी होल्डिंग्स में सेक्टर और मार्केट कैप जोड़ें।',
+    'allocation.disclaimer': 'लक्ष्य सामान्य नियम हैं, व्यक्तिगत सलाह नहीं। बेचने से पहले कर और एग्ज़िट लोड पर विचार करें।',
+    'allocation.class.Equity': 'इक्विटी',
+    'allocation.class.Debt': 'डेट',
+    'allocation.class.Gold': 'सोना',
+    'allocation.class.Cash': 'नकद',
+    'allocation.class.Alternatives': 'वैकल्पिक',
+    'tax.title': 'पूंजीगत लाभ कर का अनुमान',
+    'tax.subtitle': 'मौजूदा कीमतों पर काल्पनिक बिक्री पर भारतीय कर का अनुमान, रुपये में।',
+    'tax.scenario': 'परिदृश्य',
+    'tax.scenario.all': 'सब कुछ बेचें',
+    'tax.scenario.rebalance': 'पुनर्संतुलन के लिए बेचें',
+    'tax.saleDate': 'बिक्री की तारीख',
+    'tax.slabRate': 'आपका आयकर स्लैब',
+    'tax.rules': 'नियम: {version}',
+    'tax.shortTerm': 'अल्पकालिक लाभ',
+    'tax.longTerm': 'दीर्घकालिक लाभ',
+    'tax.exemption': 'उपयोग की गई छूट',
+    'tax.setOff': 'समायोजित घाटा',
+    'tax.total': 'अनुमानित कर (सेस सहित)',
+    'tax.carried': '{amount} का घाटा आगे ले जाने के लिए बचेगा।',
+    'tax.holding': 'होल्डिंग',
+    'tax.category': 'प्रकार',
+    'tax.term': 'अवधि',
+    'tax.term.short': 'अल्पकालिक',
+    'tax.term.long': 'दीर्घकालिक',
+    'tax.unknownDate': 'खरीद की तारीख नहीं; अल्पकालिक माना गया',
+    'tax.gain': 'लाभ',
+    'tax.nothingSold': 'इस परिदृश्य में कुछ भी नहीं बिकेगा।',
+    'tax.skipped': '{holdings} के लिए रुपये की विनिमय दर नहीं; अनुमान से बाहर रखा गया।',
+    'tax.harvestTitle': 'टैक्स-लॉस हार्वेस्टिंग',
+    'tax.harvestItem': '{holding}: इसका {term} घाटा {loss} बुक करने से लगभग {saved} बचेंगे',
+    'tax.harvestNone': 'कोई भी घाटे वाली होल्डिंग यह कर कम नहीं करेगी।',
+    'tax.unusedExemption': 'इस वित्त वर्ष में आप अभी भी {amount} का दीर्घकालिक इक्विटी लाभ कर-मुक्त बुक कर सकते हैं।',
+    'tax.disclaimer': 'निवासी व्यक्तियों के लिए सरलीकृत अनुमान, जिसमें सरचार्ज, ग्रैंडफादरिंग और इस वर्ष के आपके अन्य लाभ शामिल नहीं हैं। बेचने से पहले कर सलाहकार से पूछें।',
+    'tax.category.listedEquity': 'भारतीय इक्विटी',
+    'tax.category.foreignEquity': 'विदेशी इक्विटी',
+    'tax.category.debt': 'डेट',
+    'tax.category.gold': 'सोना',
+    'tax.category.crypto': 'क्रिप्टो',
+    'tax.category.other': 'अन्य',
+    'taxRules.show': 'कर नियम संपादित करें',
+    'taxRules.hide': 'कर नियम छिपाएँ',
+    'taxRules.hint': 'हर बजट वर्ष में इन्हें अपडेट करें। खाली दर का अर्थ आपकी स्लैब दर है; खाली महीनों का अर्थ है कि लाभ कभी दीर्घकालिक नहीं होता। डेट फंड को बॉन्ड के रूप में दर्ज करें।',
+    'taxRules.version': 'नियम सेट',
+    'taxRules.effectiveFrom': '{date} से बिक्री पर लागू',
+    'taxRules.cess': 'सेस %',
+    'taxRules.longTermAfter': 'दीर्घकालिक (महीनों के बाद)',
+    'taxRules.shortTermRate': 'अल्पकालिक दर %',
+    'taxRules.longTermRate': 'दीर्घकालिक दर %',
+    'taxRules.exemption': 'वार्षिक छूट (₹)',
+    'taxRules.setOff': 'समायोजन की अनुमति',
+    'taxRules.newVersion': 'नए नियम सेट का नाम',
+    'taxRules.newEffectiveFrom': 'से लागू',
+    'taxRules.add': 'नए नियम सेट के रूप में कॉपी करें',
+    'taxRules.delete': 'नियम सेट हटाएँ',
+    'taxRules.reset': 'मूल नियमों पर रीसेट करें',
+    'riskQuiz.title': 'जोखिम प्रश्नावली',
+    'riskQuiz.step': 'प्रश्न {step} / {total}',
+    'riskQuiz.back': 'पीछे',
+    'riskQuiz.next': 'आगे',
+    'riskQuiz.save': 'यह प्रोफ़ाइल उपयोग करें',
+    'riskQuiz.result': 'आपकी जोखिम प्रोफ़ाइल: {tolerance} ({score}/100)',
+    'riskQuiz.breakdown': 'हर उत्तर का योगदान',
+    'riskQuiz.points': '{max} में से {points} अंक',
+    'riskQuiz.cap.wouldSellAll': 'निम्न तक सीमित, क्योंकि गिरावट के बाद आप सब कुछ बेच देंगे; केवल स्कोर {tolerance} सुझाता है।',
+    'riskQuiz.cap.noEmergencyFund': 'आपातकालीन निधि होने तक मध्यम तक सीमित; केवल स्कोर {tolerance} सुझाता है।',
+    'riskQuiz.q.age': 'आपकी उम्र क्या है?',
+    'riskQuiz.q.incomeStability': 'आपकी आय कितनी स्थिर है?',
+    'riskQuiz.q.dependents': 'कितने लोग आर्थिक रूप से आप पर निर्भर हैं?',
+    'riskQuiz.q.emergencyFund': 'आप कितने महीनों का खर्च आपातकालीन निधि के रूप में रखते हैं?',
+    'riskQuiz.q.drawdownReaction': 'अगर एक महीने में आपके निवेश 20% गिर जाएँ, तो आप क्या करेंगे?',
+    'riskQuiz.q.experience': 'आपने पहले किसमें निवेश किया है?',
+    'riskQuiz.short.age': 'उम्र',
+    'riskQuiz.short.incomeStability': 'आय',
+    'riskQuiz.short.dependents': 'आश्रित',
+    'riskQuiz.short.emergencyFund': 'आपातकालीन निधि',
+    'riskQuiz.short.drawdownReaction': '20% गिरावट के बाद',
+    'riskQuiz.short.experience': 'अनुभव',
+    'riskQuiz.age.under30': '30 से कम',
+    'riskQuiz.age.30to44': '30 से 44',
+    'riskQuiz.age.45to59': '45 से 59',
+    'riskQuiz.age.60plus': '60 या अधिक',
+    'riskQuiz.incomeStability.veryStable': 'बहुत स्थिर, जैसे स्थायी वेतनभोगी नौकरी',
+    'riskQuiz.incomeStability.stable': 'ज़्यादातर स्थिर',
+    'riskQuiz.incomeStability.variable': 'बदलती: व्यवसाय, फ्रीलांस या कमीशन',
+    'riskQuiz.incomeStability.none': 'कोई नियमित आय नहीं',
+    'riskQuiz.dependents.none': 'कोई नहीं',
+    'riskQuiz.dependents.oneOrTwo': 'एक या दो',
+    'riskQuiz.dependents.threePlus': 'तीन या अधिक',
+    'riskQuiz.emergencyFund.sixPlus': 'छह महीने या अधिक',
+    'riskQuiz.emergencyFund.threeToSix': 'तीन से छह महीने',
+    'riskQuiz.emergencyFund.underThree': 'तीन महीने से कम',
+    'riskQuiz.emergencyFund.none': 'कोई नहीं',
+    'riskQuiz.drawdownReaction.buyMore': 'कम कीमतों पर और निवेश करूँगा',
+    'riskQuiz.drawdownReaction.hold': 'रुककर इंतज़ार करूँगा',
+    'riskQuiz.drawdownReaction.sellSome': 'नुकसान सीमित करने के लिए कुछ बेचूँगा',
+    'riskQuiz.drawdownReaction.sellAll': 'सब कुछ बेच दूँगा',
+    'riskQuiz.experience.extensive': 'कई वर्षों से शेयर या इक्विटी फंड',
+    'riskQuiz.experience.some': 'कुछ म्यूचुअल फंड या शेयर',
+    'riskQuiz.experience.depositsOnly': 'केवल एफडी और बचत खाते',
+    'riskQuiz.experience.none': 'अभी तक कुछ नहीं',
+    'watch.title': 'वॉचलिस्ट',
+    'watch.subtitle': 'सुझाव या होल्डिंग पिन करें और उनका अनुमान बदलने पर सूचना पाएँ।',
+    'watch.pin': 'देखें',
+    'watch.unpin': 'हटाएँ',
+    'watch.watching': 'देख रहे हैं',
+    'watch.interval': 'दोबारा जाँचें हर',
+    'watch.interval.off': 'रुका हुआ',
+    'watch.interval.hour': 'घंटे',
+    'watch.interval.sixHours': '6 घंटे',
+    'watch.interval.day': 'दिन',
+    'watch.interval.week': 'सप्ताह',
+    'watch.checkNow': 'अभी जाँचें',
+    'watch.checking': 'जाँच हो रही है...',
+    'watch.enableNotifications': 'ब्राउज़र सूचनाएँ चालू करें',
+    'watch.notificationsDenied': 'ब्राउज़र सूचनाएँ बंद हैं; सूचनाएँ केवल यहाँ दिखेंगी।',
+    'watch.notificationsUnsupported': 'यह ब्राउज़र सूचनाएँ नहीं दिखा सकता; सूचनाएँ केवल यहाँ दिखेंगी।',
+    'watch.empty': 'अभी कुछ भी नहीं देखा जा रहा। किसी सुझाव या होल्डिंग पर "देखें" दबाकर उसे पिन करें।',
+    'watch.item': 'आइटम',
+    'watch.lastChecked': 'पिछली जाँच',
+    'watch.never': 'अभी नहीं',
+    'watch.alerts': 'सूचना इतिहास',
+    'watch.markRead': 'सभी को पढ़ा हुआ चिह्नित करें',
+    'watch.clearAlerts': 'इतिहास साफ़ करें',
+    'watch.noAlerts': 'अब तक कोई बदलाव नहीं।',
+    'watch.unread': '{count} अपठित सूचनाएँ',
+    'watch.change.prediction': 'अनुमान {from} से बदलकर {to} हुआ',
+    'watch.change.confidence': 'विश्वास {from} से बदलकर {to} हुआ',
+    'watch.notifyOne': '{name} का अनुमान बदला',
+    'watch.notifyMany': '{count} देखे जा रहे आइटम का अनुमान बदला',
+    'watch.reminderTitle': 'वॉचलिस्ट जाँच का समय',
+    'watch.reminderBody': 'देखे जा रहे निवेशों को दोबारा जाँचने के लिए सलाहकार खोलें।',
+    'watch.unavailable': 'इस ब्राउज़र में वॉचलिस्ट उपलब्ध नहीं है।',
+    'watch.checkFailed': 'वॉचलिस्ट दोबारा नहीं जाँची जा सकी। अगले अंतराल पर फिर कोशिश होगी।',
+    'watch.backgroundNote': 'जाँच तब चलती है जब यह पेज खुला हो। जहाँ ब्राउज़र बैकग्राउंड सिंक की अनुमति देता है, जाँच का समय होने पर इसे खोलने की याद दिलाई जाती है।',
+    'cache.cachedAgo': '{minutes} मिनट पहले का सहेजा गया उत्तर',
+    'cache.cachedJustNow': 'अभी-अभी सहेजा गया उत्तर',
+    'cache.refresh': 'ताज़ा करें',
+    'cache.refreshHint': 'सहेजे गए उत्तर के बजाय AI से फिर पूछें',
+    'cache.ttl': 'उत्तर दोबारा उपयोग करें',
+    'cache.ttlHint': 'वही इनपुट दोबारा भेजने पर उत्तर कितनी देर तक दोबारा उपयोग हो',
+    'cache.ttl.off': 'कभी नहीं',
+    'cache.ttl.minutes': '{count} मिनट',
+    'cache.ttl.hours': '{count} घंटे',
+    'error.missingKey': 'सलाहकार सर्वर पर AI कुंजी सेट नहीं है, इसलिए अभी उत्तर नहीं मिल सकता। सर्वर चलाने वाले से GEMINI_API_KEY सेट करके उसे फिर से चालू करने को कहें।',
+    'error.invalidKey': 'AI सेवा ने सर्वर की API कुंजी अस्वीकार कर दी। सलाहकार सर्वर चलाने वाले से GEMINI_API_KEY जाँचने को कहें।',
+    'error.rateLimited': 'AI सेवा पर अभी बहुत अधिक अनुरोध आ रहे हैं। एक मिनट रुककर फिर से प्रयास करें।',
+    'error.safetyBlocked': 'AI ने सुरक्षा कारणों से इस अनुरोध का उत्तर नहीं दिया। इसे दूसरे शब्दों में लिखें या इनपुट बदलकर देखें।',
+    'error.timeout': 'दोबारा प्रयास करने के बाद भी AI ने उत्तर देने में बहुत समय लिया। थोड़ी देर बाद फिर से प्रयास करें।',
+    'error.network': 'सलाहकार सर्वर तक नहीं पहुँच सके। अपना इंटरनेट कनेक्शन जाँचें, फिर से प्रयास करें।',
+    'error.badRequest': 'सलाहकार सर्वर यह अनुरोध स्वीकार नहीं कर सका। इनपुट जाँचें, फिर से प्रयास करें।',
+    'settings.title': 'सेटिंग्स',
+    'settings.subtitle': 'चुनें कि हर AI अनुरोध कितना समय और पैसा ले सकता है। इसी ब्राउज़र में सहेजा जाता है।',
+    'settings.models': 'हर सुविधा के लिए मॉडल',
+    'settings.feature.advice': 'वित्तीय सलाह',
+    'settings.feature.prediction': 'पोर्टफोलियो पूर्वानुमान',
+    'settings.feature.watch': 'वॉचलिस्ट जाँच',
+    'settings.feature.chat': 'चैट',
+    'settings.mode.fast': 'तेज़ (Gemini Flash)',
+    'settings.mode.thorough': 'गहन (Gemini Pro)',
+    'settings.estimate': '≈ {cost} प्रति अनुरोध · {time}',
+    'settings.costUnder': '{cost} से कम',
+    'settings.seconds': '{min}–{max} सेकंड',
+    'settings.minutes': '{min}–{max} मिनट',
+    'settings.estimateNote': 'सूची मूल्यों पर मोटे अनुमान, सेटिंग्स की तुलना के लिए; वास्तविक लागत और समय प्रश्न और उत्तर पर निर्भर करते हैं।',
+    'settings.search': 'ताज़ा बाज़ार डेटा के लिए वेब खोजें',
+    'settings.searchHint': 'सलाह, पूर्वानुमान और वॉचलिस्ट जाँच में उपयोग होता है। धीमा और महँगा है, पर उत्तर आज के भाव और खबरों पर आधारित होते हैं।',
+    'settings.thinkingBudget': 'सोचने का बजट',
+    'settings.tokens': '{count} टोकन',
+    'settings.thinkingBudgetHint': 'गहन मॉडल उत्तर देने से पहले कितनी देर सोच सकता है। अधिक बजट से उत्तर अधिक सावधानी से बनते हैं, पर समय और लागत बढ़ती है। तेज़ मोड सोचता नहीं है।',
+    'settings.voices': 'पढ़ने की आवाज़ें',
+    'settings.reset': 'डिफ़ॉल्ट बहाल करें',
+    'predictor.title': 'निवेश पोर्टफ़ोलियो अनुमान',
+    'predictor.subtitle': 'AI विश्लेषण के लिए अपनी मौजूदा होल्डिंग्स, मात्रा और ख़रीद मूल्य दर्ज करें।',
+    'predictor.holdings': 'आपकी होल्डिंग्स',
+    'predictor.submit': 'विश्लेषण और अनुमान',
+    'predictor.submitting': 'विश्लेषण हो रहा है...',
+    'predictor.loading': 'AI से बाज़ार डेटा देखा जा रहा है...',
+    'predictor.loadingHint': 'जटिल विश्लेषण में थोड़ा समय लग सकता है।',
+    'predictor.resultTitle': 'अनुमान के परिणाम',
+    'predictor.overallSummary': 'समग्र सारांश:',
+    'predictor.analysis': 'विश्लेषण:',
+    'predictor.outlook': 'दृष्टिकोण:',
+    'predictor.positionValue': 'पोज़िशन मूल्य',
+    'predictor.weight': 'हिस्सा',
+    'predictor.unrealizedGain': 'अप्राप्त लाभ',
+    'predictor.total': 'पोर्टफ़ोलियो मूल्य ({currency})',
+    'predictor.converted': '≈ {value}',
+    'predictor.missingRates': '{currencies} की विनिमय दर नहीं है; वे होल्डिंग्स कुल मूल्य और हिस्से में शामिल नहीं हैं।',
+    'predictor.now': 'अभी {price}',
+    'predictor.fixHoldings': 'विश्लेषण से पहले चिह्नित होल्डिंग्स ठीक करें।',
+    'predictor.error': 'अनुमान लाते समय त्रुटि हुई। कृपया फिर से प्रयास करें।',
+    'predictor.disclaimer': 'अस्वीकरण: यह AI द्वारा बनाई गई जानकारी है, पेशेवर वित्तीय सलाह नहीं। अनुमानों की कोई गारंटी नहीं है। हमेशा स्वयं शोध करें।',
+    'predictor.speechSummary': 'आपके पोर्टफ़ोलियो अनुमान का समग्र सारांश: {summary}',
+    'predictor.speechItem': '{name}। विश्लेषण: {analysis}। दृष्टिकोण: {outlook}',
+
+    'holding.symbol': 'सिंबल',
+    'holding.name': 'नाम',
+    'holding.assetClass': 'एसेट श्रेणी',
+    'holding.quantity': 'मात्रा',
+    'holding.averageCost': 'औसत लागत',
+    'holding.currency': 'मुद्रा',
+    'holding.purchaseDate': 'ख़रीद तिथि',
+    'holding.remove': 'होल्डिंग हटाएँ',
+    'holding.add': '+ होल्डिंग जोड़ें',
+    'holding.error.symbolOrName': 'सिंबल या नाम दर्ज करें।',
+    'holding.error.quantity': 'मात्रा 0 से अधिक होनी चाहिए।',
+    'holding.error.averageCost': 'औसत लागत ऋणात्मक नहीं हो सकती।',
+    'holding.error.currency': '3 अक्षरों का मुद्रा कोड लिखें, जैसे INR।',
+    'holding.error.invalidDate': 'मान्य तिथि दर्ज करें।',
+    'holding.error.futureDate': 'ख़रीद तिथि भविष्य की नहीं हो सकती।',
+
+    'holding.sector': 'सेक्टर',
+    'holding.marketCap': 'मार्केट कैप',
+    'holding.geography': 'भौगोलिक क्षेत्र',
+    'holding.geographyAuto': 'मुद्रा से',
+    'marketCap.Large': 'लार्ज कैप',
+    'marketCap.Mid': 'मिड कैप',
+    'marketCap.Small': 'स्मॉल कैप',
+    'geography.India': 'भारत',
+    'geography.International': 'अंतरराष्ट्रीय',
+    'assetClass.Stock': 'शेयर',
+    'assetClass.ETF': 'ETF',
+    'assetClass.Mutual Fund': 'म्यूचुअल फ़ंड',
+    'assetClass.Bond': 'बॉन्ड',
+    'assetClass.Crypto': 'क्रिप्टो',
+    'assetClass.Gold': 'सोना',
+    'assetClass.Cash': 'नकद',
+    'assetClass.Other': 'अन्य',
+
+    'import.label': 'CSV या ब्रोकर एक्सपोर्ट से आयात करें',
+    'import.privacy': 'फ़ाइल आपके ब्राउज़र में ही पढ़ी जाती है; कुछ भी अपलोड नहीं होता।',
+    'import.noRows': 'फ़ाइल में कोई डेटा पंक्ति नहीं है।',
+    'import.readError': 'फ़ाइल पढ़ी नहीं जा सकी। कृपया CSV एक्सपोर्ट अपलोड करें।',
+    'import.detected': '{layout} पहचाना गया',
+    'import.mapColumns': 'नीचे कॉलम मिलाएँ',
+    'import.notInFile': '(फ़ाइल में नहीं)',
+    'import.column': 'कॉलम {index}',
+    'import.defaultAssetClass': 'डिफ़ॉल्ट एसेट श्रेणी',
+    'import.defaultCurrency': 'डिफ़ॉल्ट मुद्रा',
+    'import.ready': '{count} होल्डिंग आयात के लिए तैयार',
+    'import.rejected': ', {count} पंक्तियाँ समझी नहीं जा सकीं',
+    'import.line': 'पंक्ति {line}:',
+    'import.reason.noName': 'सिंबल या नाम नहीं है।',
+    'import.reason.quantity': 'मात्रा नहीं है या धनात्मक संख्या नहीं है।',
+    'import.reason.averageCost': 'औसत लागत नहीं है या संख्या नहीं है।',
+    'import.reason.layout': 'पंक्ति एक्सपोर्ट के ढाँचे से मेल नहीं खाती।',
+    'import.reason.purchaseDate': 'ख़रीद तिथि "{value}" समझ में नहीं आई।',
+    'import.replace': 'होल्डिंग्स बदलें',
+    'import.append': 'होल्डिंग्स में जोड़ें',
+
+    'rates.show': 'विनिमय दरें दिखाएँ',
+    'rates.hide': 'विनिमय दरें छिपाएँ',
+    'rates.hint': 'होल्डिंग्स को {currency} में बदलने के लिए। ये इसी ब्राउज़र में सहेजी जाती हैं; मौजूदा दरों के अनुसार बदलें।',
+    'rates.code': 'मुद्रा कोड',
+    'rates.rate': 'दर',
+    'rates.add': 'मुद्रा जोड़ें',
+    'rates.updated': 'पिछला बदलाव {date}',
+    'rates.defaults': 'अनुमानित डिफ़ॉल्ट दरें',
+    'rates.reset': 'डिफ़ॉल्ट पर लौटें',
+
+    'history.show': 'इतिहास दिखाएँ',
+    'history.hide': 'इतिहास छिपाएँ',
+    'history.unavailable': 'इस ब्राउज़र में इतिहास उपलब्ध नहीं है।',
+    'history.empty': 'अभी तक कोई सहेजा गया परिणाम नहीं।',
+    'history.compareHint': 'तुलना के लिए दो परिणाम चुनें।',
+    'history.selectForComparison': 'तुलना के लिए चुनें',
+    'history.adviceInputs': '{amount} · {risk} जोखिम · {years} वर्ष · {language}',
+    'history.more': '{names} +{count} और',
+    'history.item': 'मद',
+    'history.before': 'पहले',
+    'history.after': 'बाद में',
+    'history.status': 'स्थिति',
+    'history.status.added': 'नया',
+    'history.status.removed': 'हटाया गया',
+    'history.status.changed': 'बदला',
+    'history.status.unchanged': 'वही',
+    'history.field.prediction': 'अनुमान',
+    'history.field.confidence': 'विश्वास स्तर',
+
+    'parse.partial': 'आंशिक रूप से पढ़ा गया:',
+    'parse.partialDetail': 'AI के जवाब का कुछ हिस्सा अपेक्षित प्रारूप में नहीं था।',
+    'parse.dropped': '{count} मद छोड़ दिए गए।',
+    'parse.adjusted': 'कुछ मान ठीक किए गए।',
+    'parse.showDetails': 'विवरण दिखाएँ',
+    'parse.hideDetails': 'विवरण छिपाएँ',
+
+    'export.label': 'निर्यात:',
+    'export.pdfHint': 'प्रिंट विंडो खुलेगी; PDF के रूप में सहेजें चुनें',
+    'export.print': 'प्रिंट / PDF के रूप में सहेजें',
+    'export.generated': '{date} को बनाया गया',
+    'export.parameters': 'मापदंड',
+    'export.parameter': 'मापदंड',
+    'export.value': 'मान',
+    'export.amount': 'निवेश राशि',
+    'export.riskScore': 'जोखिम स्कोर',
+    'export.horizon': 'अवधि',
+    'export.years': '{count} वर्ष',
+    'export.holdingCount': 'होल्डिंग्स',
+    'export.holding': 'होल्डिंग',
+    'export.summary': 'सारांश',
+    'export.recommendations': 'सिफ़ारिशें',
+    'export.category': 'श्रेणी:',
+    'export.overallSummary': 'समग्र सारांश',
+    'export.analysis': 'विश्लेषण',
+    'export.latestPrice': 'नवीनतम मूल्य:',
+    'export.sources': 'स्रोत',
+    'export.audio': 'ऑडियो',
+    'export.audioBuilding': 'ऑडियो…',
+    'export.audioRetry': 'ऑडियो (फिर से)',
+    'export.audioHint': 'रिपोर्ट को पढ़कर सुनाई गई WAV फ़ाइल डाउनलोड करें',
+    'export.audioFailed': 'ऑडियो नहीं बन सका। फिर से प्रयास करें।',
+
+    'playback.speak': 'सुनें',
+    'playback.stop': 'रोकें',
+    'playback.pause': 'विराम',
+    'playback.resume': 'जारी रखें',
+    'playback.previous': 'पिछला भाग',
+    'playback.next': 'अगला भाग',
+    'playback.speed': 'चलाने की गति',
+    'playback.failed': 'किसी भाग का ऑडियो बनाने या चलाने में विफल।',
+
+    'voice.start': 'टाइप करने की जगह बोलें',
+    'voice.stop': 'रिकॉर्डिंग रोकें',
+    'voice.transcribing': 'लिखा जा रहा है…',
+    'voice.heard': 'मैंने सुना:',
+    'voice.discard': 'हटाएँ',
+    'voice.error.unsupported': 'इस ब्राउज़र में आवाज़ से इनपुट समर्थित नहीं है।',
+    'voice.error.denied': 'माइक्रोफ़ोन की अनुमति नहीं मिली।',
+    'voice.error.empty': 'कुछ सुनाई नहीं दिया। कृपया फिर से प्रयास करें।',
+    'voice.error.failed': 'रिकॉर्डिंग को लिखा नहीं जा सका। कृपया फिर से प्रयास करें।',
+
+    'chat.title': 'AI सहायक',
+    'chat.greeting': 'नमस्ते! आज मैं आपके वित्त में कैसे मदद कर सकता हूँ?',
+    'chat.untitled': 'नई बातचीत',
+    'chat.placeholder': 'कुछ भी पूछें...',
+    'chat.send': 'भेजें',
+    'chat.stopGenerating': 'जवाब रोकें',
+    'chat.stopped': 'रोका गया',
+    'chat.readAloud': 'पढ़कर सुनाएँ',
+    'chat.connectionError': 'माफ़ करें, कनेक्ट करने में दिक्कत हो रही है। कृपया फिर से प्रयास करें।',
+    'chat.conversation': 'बातचीत',
+    'chat.conversationName': 'बातचीत का नाम',
+    'chat.new': 'नई',
+    'chat.rename': 'नाम बदलें',
+    'chat.deleteConfirm': '"{title}" हटाएँ?',
+    'chat.attach': 'परिणाम जोड़ें',
+    'chat.noContext': 'कोई परिणाम नहीं जुड़ा',
+    'chat.discuss': 'चर्चा: {label}',
+    'chat.contextAdvice': 'वित्तीय योजना ({date})',
+    'chat.contextPrediction': 'पोर्टफ़ोलियो अनुमान ({date})',
+};
@@ -0,0 +1,465 @@
+import type { Messages } from './en';
+
+export const mr: Messages = {
+    'app.title': 'वित्त सल्लागार',
+    'app.language': 'भाषा',
+    'app.currency': 'चलन',
+    'app.footer': '{name} यांनी तयार केले',
+
+    'common.prediction': 'अंदाज:',
+    'common.confidence': 'विश्वास पातळी:',
+    'common.sources': 'स्रोत:',
+    'common.cancel': 'रद्द करा',
+    'common.delete': 'हटवा',
+    'common.open': 'उघडा',
+    'common.invalidResponse': 'AI चे उत्तर दुरुस्त करायला सांगूनही समजू शकले नाही. कृपया पुन्हा प्रयत्न करा.',
+
+    'trend.Up': 'वाढता कल',
+    'trend.Down': 'घसरता कल',
+    'trend.Stable': 'स्थिर कल',
+    'confidence.High': 'उच्च',
+    'confidence.Medium': 'मध्यम',
+    'confidence.Low': 'कमी',
+    'risk.Low': 'कमी',
+    'risk.Medium': 'मध्यम',
+    'risk.High': 'उच्च',
+
+    'advisor.title': 'वैयक्तिक आर्थिक योजना',
+    'advisor.subtitle': 'AI आधारित गुंतवणूक सूचना मिळवण्यासाठी तुमची माहिती भरा.',
+    'advisor.amount': 'गुंतवणूक रक्कम ({currency})',
+    'advisor.risk': 'जोखीम क्षमता',
+    'advisor.riskProfile': 'प्रश्नावली: {score}/100, सुचवते {tolerance}',
+    'advisor.riskNoProfile': 'प्रश्नावली भरेपर्यंत मध्यम मानले आहे.',
+    'advisor.riskTake': 'जोखीम प्रश्नावली भरा',
+    'advisor.riskRetake': 'प्रश्नावली पुन्हा भरा',
+    'advisor.horizon': 'कालावधी (वर्षे)',
+    'advisor.submit': 'सल्ला मिळवा',
+    'advisor.submitting': 'योजना तयार होत आहे...',
+    'advisor.loading': 'AI द्वारे बाजार माहितीचे विश्लेषण सुरू आहे...',
+    'advisor.loadingHint': 'गुंतागुंतीच्या प्रश्नांना थोडा वेळ लागू शकतो.',
+    'advisor.resultTitle': 'तुमची AI ने तयार केलेली रणनीती',
+    'advisor.error': 'आर्थिक सल्ला मिळवताना त्रुटी आली. कृपया पुन्हा प्रयत्न करा.',
+    'advisor.disclaimer': 'अस्वीकरण: ही AI ने तयार केलेली माहिती आहे, व्यावसायिक आर्थिक सल्ला नाही. नेहमी स्वतः अभ्यास करा.',
+    'advisor.voiceHint': 'किंवा बोलून सांगा, उदा. "10 वर्षांसाठी 2 लाख, मध्यम जोखीम, सल्ला हिंदीत".',
+    'advisor.voiceListening': 'ऐकत आहोत… झाल्यावर थांबवा दाबा.',
+    'advisor.voiceFilling': 'फॉर्म भरला जात आहे…',
+    'advisor.voiceConfirm': 'फॉर्म भरा',
+    'advisor.voiceFilled': 'तुमच्या बोलण्यातून {fields} भरले. फॉर्म तपासा, मग सल्ला मिळवा दाबा.',
+    'advisor.voiceNothingFound': 'त्यात रक्कम, जोखीम पातळी, कालावधी किंवा भाषा सापडली नाही. पुन्हा बोला किंवा टाइप करा.',
+    'advisor.voiceFailed': 'विनंती समजली नाही. कृपया पुन्हा प्रयत्न करा किंवा तपशील टाइप करा.',
+    'advisor.field.amount': 'रक्कम',
+    'advisor.field.currency': 'चलन',
+    'advisor.field.risk': 'जोखीम क्षमता',
+    'advisor.field.horizon': 'कालावधी',
+    'advisor.field.language': 'भाषा',
+
+    'projection.title': 'वाढीचा अंदाज',
+    'projection.subtitle': 'आज {amount} ची गुंतवणूक, {years} वर्षांसाठी. खालील गृहितकांवरून तुमच्या डिव्हाइसवर गणना, AI द्वारे नाही.',
+    'projection.monthlySip': 'मासिक SIP ({currency})',
+    'projection.return': 'अपेक्षित परतावा (% दरवर्षी)',
+    'projection.inflation': 'महागाई (% दरवर्षी)',
+    'projection.invested': 'गुंतवलेली रक्कम',
+    'projection.value': 'अंदाजित मूल्य',
+    'projection.realValue': 'आजच्या मूल्यात',
+    'projection.year': 'वर्ष',
+    'projection.chartTitle': 'वर्षनिहाय मूल्य',
+    'projection.noYears': 'अंदाज पाहण्यासाठी किमान एक वर्षाचा कालावधी निवडा.',
+    'projection.goal': 'उद्दिष्ट',
+    'projection.noGoal': 'उद्दिष्ट नाही',
+    'projection.goal.retirement': 'निवृत्ती',
+    'projection.goal.education': 'मुलांचे शिक्षण',
+    'projection.goal.home': 'घर खरेदी',
+    'projection.target': 'आजच्या मूल्यात उद्दिष्ट ({currency})',
+    'projection.targetHint': 'आवश्यक मासिक SIP पाहण्यासाठी उद्दिष्ट रक्कम भरा.',
+    'projection.lumpSumEnough': 'फक्त एकरकमी गुंतवणुकीतून हे उद्दिष्ट गाठले जावे.',
+    'projection.requiredSip': 'हे उद्दिष्ट गाठण्यासाठी दरमहा सुमारे {amount} गुंतवा.',
+    'projection.disclaimer': 'अंदाज दरवर्षी समान परताव्यावर आधारित आहेत. प्रत्यक्ष परतावा बदलतो आणि त्याची हमी नाही.',
+
+    'simulation.title': 'संभाव्य निकालांची व्याप्ती',
+    'simulation.allocation': '{amount} ची गुंतवणूक {allocation} अशी धरून, प्रत्येक मालमत्ता प्रकाराच्या सामान्य परतावा व चढ-उतारावरून सिम्युलेशन.',
+    'simulation.years': 'वर्षे',
+    'simulation.paths': 'मार्ग',
+    'simulation.seed': 'सीड',
+    'simulation.goal': 'उद्दिष्ट ({currency})',
+    'simulation.run': 'सिम्युलेशन चालवा',
+    'simulation.running': 'सिम्युलेशन सुरू आहे…',
+    'simulation.failed': 'सिम्युलेशन चालवता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+    'simulation.median': '{years} वर्षांनंतर मध्यम मूल्य',
+    'simulation.range': '10 वे – 90 वे पर्सेंटाइल',
+    'simulation.goalProbability': 'उद्दिष्ट गाठण्याची शक्यता',
+    'simulation.drawdown': 'सामान्य सर्वात मोठी घसरण',
+    'simulation.drawdownBad': '10 पैकी 1 मार्ग: {value} किंवा जास्त',
+    'simulation.bandsTitle': 'वर्षनिहाय मूल्य (P10 / P50 / P90)',
+    'simulation.drawdownTitle': 'शिखरापासून सर्वात मोठी घसरण (% मार्ग)',
+    'simulation.disclaimer': 'गृहित सरासरीवरून केलेले सिम्युलेशन, बाजाराचा अंदाज नाही. एकाच सीडवरून नेहमी तोच निकाल मिळतो.',
+
+    'predictor.risk': 'जोखीम सहनशीलता (लक्ष्य वाटप ठरवते)',
+    'allocation.title': 'वाटप आणि पुनर्संतुलन',
+    'allocation.subtitle': '{total} च्या पोर्टफोलिओची {risk} जोखमीच्या लक्ष्याशी तुलना.',
+    'allocation.current': 'सध्याचे वाटप',
+    'allocation.target': '{risk} जोखमीचे लक्ष्य',
+    'allocation.rebalance': 'पुनर्संतुलनासाठी',
+    'allocation.balanced': 'प्रत्येक मालमत्ता वर्गात पोर्टफोलिओ लक्ष्याच्या 1% आत आहे; व्यवहारांची गरज नाही.',
+    'allocation.assetClass': 'मालमत्ता वर्ग',
+    'allocation.currentValue': 'सध्याचे',
+    'allocation.targetValue': 'लक्ष्य',
+    'allocation.action': 'कृती',
+    'allocation.buy': '{amount} खरेदी करा',
+    'allocation.sell': '{amount} विका',
+    'allocation.bySector': 'क्षेत्रानुसार इक्विटी',
+    'allocation.byMarketCap': 'मार्केट कॅपनुसार इक्विटी',
+    'allocation.byGeography': 'भौगोलिक प्रदेशानुसार',
+    'allocation.unclassified': 'अवर्गीकृत',
+    'allocation.unclassifiedHint': 'पूर्ण तपशीलासाठी तुमच्या होल्डिंग्जमध्ये क्षेत्र आणि मार्केट कॅप जोडा.',
+    'allocation.disclaimer': 'लक्ष्ये सर्वसाधारण नियम आहेत, वैयक्तिक सल्ला नाही. विकण्यापूर्वी कर आणि एक्झिट लोडचा विचार करा.',
+    'allocation.class.Equity': 'इक्विटी',
+    'allocation.class.Debt': 'डेट',
+    'allocation.class.Gold': 'सोने',
+    'allocation.class.Cash': 'रोख',
+    'allocation.class.Alternatives': 'पर्यायी',
+    'tax.title': 'भांडवली नफा कराचा अंदाज',
+    'tax.subtitle': 'सध्याच्या किमतींवर काल्पनिक विक्रीवरील भारतीय कराचा अंदाज, रुपयांमध्ये.',
+    'tax.scenario': 'परिस्थिती',
+    'tax.scenario.all': 'सर्व विका',
+    'tax.scenario.rebalance': 'पुनर्संतुलनासाठी विका',
+    'tax.saleDate': 'विक्रीची तारीख',
+    'tax.slabRate': 'तुमचा आयकर स्लॅब',
+    'tax.rules': 'नियम: {version}',
+    'tax.shortTerm': 'अल्पकालीन नफा',
+    'tax.longTerm': 'दीर्घकालीन नफा',
+    'tax.exemption': 'वापरलेली सूट',
+    'tax.setOff': 'समायोजित तोटा',
+    'tax.total': 'अंदाजे कर (सेससह)',
+    'tax.carried': '{amount} चा तोटा पुढे नेण्यासाठी शिल्लक राहील.',
+    'tax.holding': 'होल्डिंग',
+    'tax.category': 'प्रकार',
+    'tax.term': 'कालावधी',
+    'tax.term.short': 'अल्पकालीन',
+    'tax.term.long': 'दीर्घकालीन',
+    'tax.unknownDate': 'खरेदीची तारीख नाही; अल्पकालीन मानले',
+    'tax.gain': 'नफा',
+    'tax.nothingSold': 'या परिस्थितीत काहीही विकले जाणार नाही.',
+    'tax.skipped': '{holdings} साठी रुपयाचा विनिमय दर नाही; अंदाजातून वगळले.',
+    'tax.harvestTitle': 'टॅक्स-लॉस हार्वेस्टिंग',
+    'tax.harvestItem': '{holding}: याचा {term} तोटा {loss} बुक केल्यास सुमारे {saved} वाचतील',
+    'tax.harvestNone': 'तोट्यातील कोणतेही होल्डिंग हा कर कमी करणार नाही.',
+    'tax.unusedExemption': 'या आर्थिक वर्षात तुम्ही अजूनही {amount} चा दीर्घकालीन इक्विटी नफा करमुक्त बुक करू शकता.',
+    'tax.disclaimer': 'निवासी व्यक्तींसाठी सोपा अंदाज; सरचार्ज, ग्रँडफादरिंग आणि या वर्षातील तुमचे इतर नफे विचारात घेतलेले नाहीत. विकण्यापूर्वी कर सल्लागाराला विचारा.',
+    'tax.category.listedEquity': 'भारतीय इक्विटी',
+    'tax.category.foreignEquity': 'परदेशी इक्विटी',
+    'tax.category.debt': 'डेट',
+    'tax.category.gold': 'सोने',
+    'tax.category.crypto': 'क्रिप्टो',
+    'tax.category.other': 'इतर',
+    'taxRules.show': 'कर नियम संपादित करा',
+    'taxRules.hide': 'कर नियम लपवा',
+    'taxRules.hint': 'प्रत्येक अर्थसंकल्पी वर्षी हे अद्ययावत करा. रिकामा दर म्हणजे तुमचा स्लॅब दर; रिकामे महिने म्हणजे नफा कधीच दीर्घकालीन होत नाही. डेट फंड बॉन्ड म्हणून नोंदवा.',
+    'taxRules.version': 'नियम संच',
+    'taxRules.effectiveFrom': '{date} पासूनच्या विक्रीला लागू',
+    'taxRules.cess': 'सेस %',
+    'taxRules.longTermAfter': 'दीर्घकालीन (महिन्यांनंतर)',
+    'taxRules.shortTermRate': 'अल्पकालीन दर %',
+    'taxRules.longTermRate': 'दीर्घकालीन दर %',
+    'taxRules.exemption': 'वार्षिक सूट (₹)',
+    'taxRules.setOff': 'समायोजनास परवानगी',
+    'taxRules.newVersion': 'नवीन नियम संचाचे नाव',
+    'taxRules.newEffectiveFrom': 'पासून लागू',
+    'taxRules.add': 'नवीन नियम संच म्हणून कॉपी करा',
+    'taxRules.delete': 'नियम संच हटवा',
+    'taxRules.reset': 'मूळ नियमांवर रीसेट करा',
+    'riskQuiz.title': 'जोखीम प्रश्नावली',
+    'riskQuiz.step': 'प्रश्न {step} / {total}',
+    'riskQuiz.back': 'मागे',
+    'riskQuiz.next': 'पुढे',
+    'riskQuiz.save': 'हे प्रोफाइल वापरा',
+    'riskQuiz.result': 'तुमचे जोखीम प्रोफाइल: {tolerance} ({score}/100)',
+    'riskQuiz.breakdown': 'प्रत्येक उत्तराचे योगदान',
+    'riskQuiz.points': '{max} पैकी {points} गुण',
+    'riskQuiz.cap.wouldSellAll': 'कमी पर्यंत मर्यादित, कारण घसरणीनंतर तुम्ही सर्व विकाल; केवळ गुण {tolerance} सुचवतात.',
+    'riskQuiz.cap.noEmergencyFund': 'आपत्कालीन निधी होईपर्यंत मध्यम पर्यंत मर्यादित; केवळ गुण {tolerance} सुचवतात.',
+    'riskQuiz.q.age': 'तुमचे वय किती आहे?',
+    'riskQuiz.q.incomeStability': 'तुमचे उत्पन्न किती स्थिर आहे?',
+    'riskQuiz.q.dependents': 'किती लोक आर्थिकदृष्ट्या तुमच्यावर अवलंबून आहेत?',
+    'riskQuiz.q.emergencyFund': 'तुम्ही किती महिन्यांचा खर्च आपत्कालीन निधी म्हणून ठेवता?',
+    'riskQuiz.q.drawdownReaction': 'एका महिन्यात तुमची गुंतवणूक 20% घसरली तर तुम्ही काय कराल?',
+    'riskQuiz.q.experience': 'तुम्ही आधी कशात गुंतवणूक केली आहे?',
+    'riskQuiz.short.age': 'वय',
+    'riskQuiz.short.incomeStability': 'उत्पन्न',
+    'riskQuiz.short.dependents': 'अवलंबित',
+    'riskQuiz.short.emergencyFund': 'आपत्कालीन निधी',
+    'riskQuiz.short.drawdownReaction': '20% घसरणीनंतर',
+    'riskQuiz.short.experience': 'अनुभव',
+    'riskQuiz.age.under30': '30 पेक्षा कमी',
+    'riskQuiz.age.30to44': '30 ते 44',
+    'riskQuiz.age.45to59': '45 ते 59',
+    'riskQuiz.age.60plus': '60 किंवा अधिक',
+    'riskQuiz.incomeStability.veryStable': 'अतिशय स्थिर, उदा. कायमस्वरूपी पगारी नोकरी',
+    'riskQuiz.incomeStability.stable': 'बहुतांश स्थिर',
+    'riskQuiz.incomeStability.variable': 'बदलते: व्यवसाय, फ्रीलान्स किंवा कमिशन',
+    'riskQuiz.incomeStability.none': 'नियमित उत्पन्न नाही',
+    'riskQuiz.dependents.none': 'कोणी नाही',
+    'riskQuiz.dependents.oneOrTwo': 'एक किंवा दोन',
+    'riskQuiz.dependents.threePlus': 'तीन किंवा अधिक',
+    'riskQuiz.emergencyFund.sixPlus': 'सहा महिने किंवा अधिक',
+    'riskQuiz.emergencyFund.threeToSix': 'तीन ते सहा महिने',
+    'riskQuiz.emergencyFund.underThree': 'तीन महिन्यांपेक्षा कमी',
+    'riskQuiz.emergencyFund.none': 'काहीही नाही',
+    'riskQuiz.drawdownReaction.buyMore': 'कमी किमतीत आणखी गुंतवणूक करेन',
+    'riskQuiz.drawdownReaction.hold': 'थांबून वाट पाहीन',
+    'riskQuiz.drawdownReaction.sellSome': 'तोटा मर्यादित करण्यासाठी काही विकेन',
+    'riskQuiz.drawdownReaction.sellAll': 'सर्व विकेन',
+    'riskQuiz.experience.extensive': 'अनेक वर्षांपासून शेअर्स किंवा इक्विटी फंड',
+    'riskQuiz.experience.some': 'काही म्युच्युअल फंड किंवा शेअर्स',
+    'riskQuiz.experience.depositsOnly': 'फक्त एफडी आणि बचत खाती',
+    'riskQuiz.experience.none': 'अजून काहीही नाही',
+    'watch.title': 'वॉचलिस्ट',
+    'watch.subtitle': 'शिफारसी किंवा होल्डिंग पिन करा आणि त्यांचा अंदाज बदलल्यावर सूचना मिळवा.',
+    'watch.pin': 'लक्ष ठेवा',
+    'watch.unpin': 'काढा',
+    'watch.watching': 'लक्ष ठेवत आहे',
+    'watch.interval': 'पुन्हा तपासा दर',
+    'watch.interval.off': 'थांबवले',
+    'watch.interval.hour': 'तास',
+    'watch.interval.sixHours': '6 तास',
+    'watch.interval.day': 'दिवस',
+    'watch.interval.week': 'आठवडा',
+    'watch.checkNow': 'आता तपासा',
+    'watch.checking': 'तपासत आहे...',
+    'watch.enableNotifications': 'ब्राउझर सूचना सुरू करा',
+    'watch.notificationsDenied': 'ब्राउझर सूचना बंद आहेत; सूचना फक्त इथे दिसतील.',
+    'watch.notificationsUnsupported': 'हा ब्राउझर सूचना दाखवू शकत नाही; सूचना फक्त इथे दिसतील.',
+    'watch.empty': 'अजून कशावरही लक्ष ठेवलेले नाही. शिफारस किंवा होल्डिंगवर "लक्ष ठेवा" वापरून ती पिन करा.',
+    'watch.item': 'आयटम',
+    'watch.lastChecked': 'शेवटची तपासणी',
+    'watch.never': 'अजून नाही',
+    'watch.alerts': 'सूचना इतिहास',
+    'watch.markRead': 'सर्व वाचले म्हणून चिन्हांकित करा',
+    'watch.clearAlerts': 'इतिहास साफ करा',
+    'watch.noAlerts': 'आतापर्यंत कोणताही बदल नाही.',
+    'watch.unread': '{count} न वाचलेल्या सूचना',
+    'watch.change.prediction': 'अंदाज {from} वरून {to} झाला',
+    'watch.change.confidence': 'विश्वास {from} वरून {to} झाला',
+    'watch.notifyOne': '{name} चा अंदाज बदलला',
+    'watch.notifyMany': '{count} आयटमचा अंदाज बदलला',
+    'watch.reminderTitle': 'वॉचलिस्ट तपासणीची वेळ',
+    'watch.reminderBody': 'लक्ष ठेवलेल्या गुंतवणुका पुन्हा तपासण्यासाठी सल्लागार उघडा.',
+    'watch.unavailable': 'या ब्राउझरमध्ये वॉचलिस्ट उपलब्ध नाही.',
+    'watch.checkFailed': 'वॉचलिस्ट पुन्हा तपासता आली नाही. पुढच्या अंतराने पुन्हा प्रयत्न होईल.',
+    'watch.backgroundNote': 'हे पान उघडे असताना तपासणी होते. जिथे ब्राउझर बॅकग्राउंड सिंकला परवानगी देतो, तिथे तपासणीची वेळ झाल्यावर ते उघडण्याची आठवण करून दिली जाते.',
+    'cache.cachedAgo': '{minutes} मिनिटांपूर्वीचे जतन केलेले उत्तर',
+    'cache.cachedJustNow': 'आत्ताच जतन केलेले उत्तर',
+    'cache.refresh': 'रिफ्रेश करा',
+    'cache.refreshHint': 'जतन केलेले उत्तर न वापरता AI ला पुन्हा विचारा',
+    'cache.ttl': 'उत्तरे पुन्हा वापरा',
+    'cache.ttlHint': 'तेच इनपुट पुन्हा पाठवल्यावर उत्तर किती वेळ पुन्हा वापरले जाते',
+    'cache.ttl.off': 'कधीच नाही',
+    'cache.ttl.minutes': '{count} मिनिटे',
+    'cache.ttl.hours': '{count} तास',
+    'error.missingKey': 'सल्लागार सर्व्हरवर AI की सेट केलेली नाही, त्यामुळे आत्ता उत्तर मिळू शकत नाही. सर्व्हर चालवणाऱ्यांना GEMINI_API_KEY सेट करून तो पुन्हा सुरू करण्यास सांगा.',
+    'error.invalidKey': 'AI सेवेने सर्व्हरची API की नाकारली. सल्लागार सर्व्हर चालवणाऱ्यांना GEMINI_API_KEY तपासण्यास सांगा.',
+    'error.rateLimited': 'AI सेवेकडे सध्या खूप विनंत्या येत आहेत. एक मिनिट थांबा, मग पुन्हा प्रयत्न करा.',
+    'error.safetyBlocked': 'सुरक्षेच्या कारणांमुळे AI ने या विनंतीला उत्तर दिले नाही. ती वेगळ्या शब्दांत लिहा किंवा इनपुट बदलून पाहा.',
+    'error.timeout': 'पुन्हा प्रयत्न करूनही AI ला उत्तर देण्यास खूप वेळ लागला. थोड्या वेळाने पुन्हा प्रयत्न करा.',
+    'error.network': 'सल्लागार सर्व्हरपर्यंत पोहोचता आले नाही. इंटरनेट कनेक्शन तपासा, मग पुन्हा प्रयत्न करा.',
+    'error.badRequest': 'सल्लागार सर्व्हर ही विनंती स्वीकारू शकला नाही. इनपुट तपासा, मग पुन्हा प्रयत्न करा.',
+    'settings.title': 'सेटिंग्ज',
+    'settings.subtitle': 'प्रत्येक AI विनंतीला किती वेळ आणि पैसे लागू शकतात ते निवडा. याच ब्राउझरमध्ये जतन होते.',
+    'settings.models': 'प्रत्येक सुविधेसाठी मॉडेल',
+    'settings.feature.advice': 'आर्थिक सल्ला',
+    'settings.feature.prediction': 'पोर्टफोलिओ अंदाज',
+    'settings.feature.watch': 'वॉचलिस्ट तपासणी',
+    'settings.feature.chat': 'चॅट',
+    'settings.mode.fast': 'जलद (Gemini Flash)',
+    'settings.mode.thorough': 'सखोल (Gemini Pro)',
+    'settings.estimate': '≈ {cost} प्रति विनंती · {time}',
+    'settings.costUnder': '{cost} पेक्षा कमी',
+    'settings.seconds': '{min}–{max} सेकंद',
+    'settings.minutes': '{min}–{max} मिनिटे',
+    'settings.estimateNote': 'सूची किमतींवरील ढोबळ अंदाज, सेटिंग्जची तुलना करण्यासाठी; प्रत्यक्ष खर्च आणि वेळ प्रश्न व उत्तरावर अवलंबून असतात.',
+    'settings.search': 'ताज्या बाजार माहितीसाठी वेबवर शोधा',
+    'settings.searchHint': 'सल्ला, अंदाज आणि वॉचलिस्ट तपासणीसाठी वापरले जाते. हळू आणि महाग, पण उत्तरे आजच्या भावांवर आणि बातम्यांवर आधारित असतात.',
+    'settings.thinkingBudget': 'विचार करण्याचे बजेट',
+    'settings.tokens': '{count} टोकन',
+    'settings.thinkingBudgetHint': 'सखोल मॉडेल उत्तर देण्यापूर्वी किती वेळ विचार करू शकते. जास्त बजेटने उत्तरे अधिक काळजीपूर्वक मिळतात, पण वेळ आणि खर्च वाढतो. जलद मोड विचार करत नाही.',
+    'settings.voices': 'वाचनासाठी आवाज',
+    'settings.reset': 'डीफॉल्ट पुनर्संचयित करा',
+    'predictor.title': 'गुंतवणूक पोर्टफोलिओ अंदाज',
+    'predictor.subtitle': 'AI विश्लेषणासाठी तुमची सध्याची होल्डिंग्स, संख्या आणि खरेदी किंमत भरा.',
+    'predictor.holdings': 'तुमची होल्डिंग्स',
+    'predictor.submit': 'विश्लेषण व अंदाज',
+    'predictor.submitting': 'विश्लेषण सुरू आहे...',
+    'predictor.loading': 'AI द्वारे बाजार माहिती तपासली जात आहे...',
+    'predictor.loadingHint': 'गुंतागुंतीच्या विश्लेषणाला थोडा वेळ लागू शकतो.',
+    'predictor.resultTitle': 'अंदाजाचे निकाल',
+    'predictor.overallSummary': 'एकूण सारांश:',
+    'predictor.analysis': 'विश्लेषण:',
+    'predictor.outlook': 'दृष्टिकोन:',
+    'predictor.positionValue': 'पोझिशन मूल्य',
+    'predictor.weight': 'वाटा',
+    'predictor.unrealizedGain': 'अप्राप्त नफा',
+    'predictor.total': 'पोर्टफोलिओ मूल्य ({currency})',
+    'predictor.converted': '≈ {value}',
+    'predictor.missingRates': '{currencies} चा विनिमय दर नाही; ती होल्डिंग्स एकूण मूल्य व वाट्यात धरलेली नाहीत.',
+    'predictor.now': 'आता {price}',
+    'predictor.fixHoldings': 'विश्लेषणापूर्वी चिन्हांकित होल्डिंग्स दुरुस्त करा.',
+    'predictor.error': 'अंदाज मिळवताना त्रुटी आली. कृपया पुन्हा प्रयत्न करा.',
+    'predictor.disclaimer': 'अस्वीकरण: ही AI ने तयार केलेली माहिती आहे, व्यावसायिक आर्थिक सल्ला नाही. अंदाजांची हमी नाही. नेहमी स्वतः अभ्यास करा.',
+    'predictor.speechSummary': 'तुमच्या पोर्टफोलिओ अंदाजाचा एकूण सारांश: {summary}',
+    'predictor.speechItem': '{name}. विश्लेषण: {analysis}. दृष्टिकोन: {outlook}',
+
+    'holding.symbol': 'सिम्बॉल',
+    'holding.name': 'नाव',
+    'holding.assetClass': 'मालमत्ता प्रकार',
+    'holding.quantity': 'संख्या',
+    'holding.averageCost': 'सरासरी किंमत',
+    'holding.currency': 'चलन',
+    'holding.purchaseDate': 'खरेदी तारीख',
+    'holding.remove': 'होल्डिंग काढा',
+    'holding.add': '+ होल्डिंग जोडा',
+    'holding.error.symbolOrName': 'सिम्बॉल किंवा नाव भरा.',
+    'holding.error.quantity': 'संख्या 0 पेक्षा जास्त असावी.',
+    'holding.error.averageCost': 'सरासरी किंमत ऋण असू शकत नाही.',
+    'holding.error.currency': '3 अक्षरी चलन कोड वापरा, उदा. INR.',
+    'holding.error.invalidDate': 'वैध तारीख भरा.',
+    'holding.error.futureDate': 'खरेदी तारीख भविष्यातील असू शकत नाही.',
+
+    'holding.sector': 'क्षेत्र',
+    'holding.marketCap': 'मार्केट कॅप',
+    'holding.geography': 'भौगोलिक प्रदेश',
+    'holding.geographyAuto': 'चलनावरून',
+    'marketCap.Large': 'लार्ज कॅप',
+    'marketCap.Mid': 'मिड कॅप',
+    'marketCap.Small': 'स्मॉल कॅप',
+    'geography.India': 'भारत',
+    'geography.International': 'आंतरराष्ट्रीय',
+    'assetClass.Stock': 'शेअर',
+    'assetClass.ETF': 'ETF',
+    'assetClass.Mutual Fund': 'म्युच्युअल फंड',
+    'assetClass.Bond': 'बाँड',
+    'assetClass.Crypto': 'क्रिप्टो',
+    'assetClass.Gold': 'सोने',
+    'assetClass.Cash': 'रोख',
+    'assetClass.Other': 'इतर',
+
+    'import.label': 'CSV किंवा ब्रोकर एक्सपोर्टमधून आयात करा',
+    'import.privacy': 'फाइल तुमच्या ब्राउझरमध्येच वाचली जाते; काहीही अपलोड होत नाही.',
+    'import.noRows': 'फाइलमध्ये एकही डेटा ओळ नाही.',
+    'import.readError': 'फाइल वाचता आली नाही. कृपया CSV एक्सपोर्ट अपलोड करा.',
+    'import.detected': '{layout} ओळखले',
+    'import.mapColumns': 'खालील कॉलम जुळवा',
+    'import.notInFile': '(फाइलमध्ये नाही)',
+    'import.column': 'कॉलम {index}',
+    'import.defaultAssetClass': 'डीफॉल्ट मालमत्ता प्रकार',
+    'import.defaultCurrency': 'डीफॉल्ट चलन',
+    'import.ready': '{count} होल्डिंग आयातासाठी तयार',
+    'import.rejected': ', {count} ओळी समजल्या नाहीत',
+    'import.line': 'ओळ {line}:',
+    'import.reason.noName': 'सिम्बॉल किंवा नाव नाही.',
+    'import.reason.quantity': 'संख्या नाही किंवा धन संख्या नाही.',
+    'import.reason.averageCost': 'सरासरी किंमत नाही किंवा संख्या नाही.',
+    'import.reason.layout': 'ओळ एक्सपोर्टच्या रचनेशी जुळत नाही.',
+    'import.reason.purchaseDate': 'खरेदी तारीख "{value}" समजली नाही.',
+    'import.replace': 'होल्डिंग्स बदला',
+    'import.append': 'होल्डिंग्समध्ये जोडा',
+
+    'rates.show': 'विनिमय दर दाखवा',
+    'rates.hide': 'विनिमय दर लपवा',
+    'rates.hint': 'होल्डिंग्स {currency} मध्ये बदलण्यासाठी. हे याच ब्राउझरमध्ये जतन होतात; सध्याच्या दरांप्रमाणे बदला.',
+    'rates.code': 'चलन कोड',
+    'rates.rate': 'दर',
+    'rates.add': 'चलन जोडा',
+    'rates.updated': 'शेवटचा बदल {date}',
+    'rates.defaults': 'अंदाजे डीफॉल्ट दर',
+    'rates.reset': 'डीफॉल्टवर परत जा',
+
+    'history.show': 'इतिहास दाखवा',
+    'history.hide': 'इतिहास लपवा',
+    'history.unavailable': 'या ब्राउझरमध्ये इतिहास उपलब्ध नाही.',
+    'history.empty': 'अजून एकही जतन केलेला निकाल नाही.',
+    'history.compareHint': 'तुलनेसाठी दोन निकाल निवडा.',
+    'history.selectForComparison': 'तुलनेसाठी निवडा',
+    'history.adviceInputs': '{amount} · {risk} जोखीम · {years} वर्षे · {language}',
+    'history.more': '{names} +{count} आणखी',
+    'history.item': 'बाब',
+    'history.before': 'आधी',
+    'history.after': 'नंतर',
+    'history.status': 'स्थिती',
+    'history.status.added': 'नवीन',
+    'history.status.removed': 'वगळले',
+    'history.status.changed': 'बदलले',
+    'history.status.unchanged': 'तसेच',
+    'history.field.prediction': 'अंदाज',
+    'history.field.confidence': 'विश्वास पातळी',
+
+    'parse.partial': 'अंशतः वाचले:',
+    'parse.partialDetail': 'AI च्या उत्तराचा काही भाग अपेक्षित स्वरूपात नव्हता.',
+    'parse.dropped': '{count} बाबी वगळल्या.',
+    'parse.adjusted': 'काही मूल्ये दुरुस्त केली.',
+    'parse.showDetails': 'तपशील दाखवा',
+    'parse.hideDetails': 'तपशील लपवा',
+
+    'export.label': 'निर्यात:',
+    'export.pdfHint': 'प्रिंट विंडो उघडेल; PDF म्हणून जतन करा निवडा',
+    'export.print': 'प्रिंट / PDF म्हणून जतन करा',
+    'export.generated': '{date} रोजी तयार केले',
+    'export.parameters': 'मापदंड',
+    'export.parameter': 'मापदंड',
+    'export.value': 'मूल्य',
+    'export.amount': 'गुंतवणूक रक्कम',
+    'export.riskScore': 'जोखीम गुण',
+    'export.horizon': 'कालावधी',
+    'export.years': '{count} वर्षे',
+    'export.holdingCount': 'होल्डिंग्ज',
+    'export.holding': 'होल्डिंग',
+    'export.summary': 'सारांश',
+    'export.recommendations': 'शिफारसी',
+    'export.category': 'श्रेणी:',
+    'export.overallSummary': 'एकूण सारांश',
+    'export.analysis': 'विश्लेषण',
+    'export.latestPrice': 'नवीनतम किंमत:',
+    'export.sources': 'स्रोत',
+    'export.audio': 'ऑडिओ',
+    'export.audioBuilding': 'ऑडिओ…',
+    'export.audioRetry': 'ऑडिओ (पुन्हा)',
+    'export.audioHint': 'अहवाल वाचून दाखवलेली WAV फाइल डाउनलोड करा',
+    'export.audioFailed': 'ऑडिओ तयार करता आला नाही. पुन्हा प्रयत्न करा.',
+
+    'playback.speak': 'ऐका',
+    'playback.stop': 'थांबवा',
+    'playback.pause': 'विराम',
+    'playback.resume': 'पुढे सुरू करा',
+    'playback.previous': 'मागील भाग',
+    'playback.next': 'पुढील भाग',
+    'playback.speed': 'प्लेबॅक वेग',
+    'playback.failed': 'एखाद्या भागाचा ऑडिओ तयार करण्यात किंवा वाजवण्यात अपयश.',
+
+    'voice.start': 'टाइप करण्याऐवजी बोला',
+    'voice.stop': 'रेकॉर्डिंग थांबवा',
+    'voice.transcribing': 'लिहून घेतले जात आहे…',
+    'voice.heard': 'मी ऐकले:',
+    'voice.discard': 'रद्द करा',
+    'voice.error.unsupported': 'या ब्राउझरमध्ये आवाजाने इनपुट देता येत नाही.',
+    'voice.error.denied': 'मायक्रोफोनची परवानगी नाकारली.',
+    'voice.error.empty': 'काही ऐकू आले नाही. कृपया पुन्हा प्रयत्न करा.',
+    'voice.error.failed': 'रेकॉर्डिंग लिहून घेता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+
+    'chat.title': 'AI सहाय्यक',
+    'chat.greeting': 'नमस्कार! आज मी तुमच्या आर्थिक बाबींमध्ये कशी मदत करू?',
+    'chat.untitled': 'नवीन संभाषण',
+    'chat.placeholder': 'काहीही विचारा...',
+    'chat.send': 'पाठवा',
+    'chat.stopGenerating': 'उत्तर थांबवा',
+    'chat.stopped': 'थांबवले',
+    'chat.readAloud': 'वाचून दाखवा',
+    'chat.connectionError': 'माफ करा, जोडणीत अडचण येत आहे. कृपया पुन्हा प्रयत्न करा.',
+    'chat.conversation': 'संभाषण',
+    'chat.conversationName': 'संभाषणाचे नाव',
+    'chat.new': 'नवीन',
+    'chat.rename': 'नाव बदला',
+    'chat.deleteConfirm': '"{title}" हटवायचे?',
+    'chat.attach': 'निकाल जोडा',
+    'chat.noContext': 'कोणताही निकाल जोडलेला नाही',
+    'chat.discuss': 'चर्चा: {label}',
+    'chat.contextAdvice': 'आर्थिक योजना ({date})',
+    'chat.contextPrediction': 'पोर्टफोलिओ अंदाज ({date})',
+};
@@ -0,0 +1,12 @@
+import { en, MessageKey, Messages } from './messages/en';
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+/** Looks a key up in `messages`, falling back to English, and fills {placeholders}. */
+export const createTranslator = (messages: Partial<Messages>): Translate => (key, params) => {
+    const template = messages[key] ?? en[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './i18n/I18nProvider';
+import { CurrencyProvider } from './currency/CurrencyProvider';
+import { WatchlistProvider } from './watchlist/WatchlistProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +14,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <CurrencyProvider>
+        <WatchlistProvider>
+          <App />
+        </WatchlistProvider>
+      </CurrencyProvider>
+    </I18nProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,51 @@
+// Watchlist service worker. The analysis needs the page (the provider code and
+// the model settings kept in localStorage, which a worker cannot read), so a
+// periodic sync asks an open tab to run the check and, when no tab is open,
+// shows a reminder instead. The reminder text is sent by the page in
+// the user's language and kept in the Cache API so it survives restarts.
+
+const SYNC_TAG = 'watchlist-check';
+const CONFIG_CACHE = 'watchlist-sw';
+const CONFIG_URL = 'watchlist-config';
+
+const DEFAULT_CONFIG = {
+    title: 'Watchlist check due',
+    body: 'Open the advisor to re-check your watched investments.',
+};
+
+const readConfig = async () => {
+    const cache = await caches.open(CONFIG_CACHE);
+    const response = await cache.match(CONFIG_URL);
+    return response ? { ...DEFAULT_CONFIG, ...(await response.json()) } : DEFAULT_CONFIG;
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', event => {
+    if (event.data?.type !== 'watchlist-config') return;
+    const { title, body } = event.data;
+    event.waitUntil(caches.open(CONFIG_CACHE).then(cache => cache.put(CONFIG_URL, new Response(JSON.stringify({ title, body })))));
+});
+
+self.addEventListener('periodicsync', event => {
+    if (event.tag !== SYNC_TAG) return;
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window' });
+        if (windows.length > 0) {
+            windows.forEach(client => client.postMessage({ type: SYNC_TAG }));
+            return;
+        }
+        const { title, body } = await readConfig();
+        await self.registration.showNotification(title, { body, tag: SYNC_TAG });
+    })());
+});
+
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (windows.length > 0) return windows[0].focus();
+        return self.clients.openWindow(self.registration.scope);
+    })());
+});
@@ -0,0 +1,279 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AdvisorSettings, ChatMessage, Holding, Report, RiskProfile, WatchItem } from '../types';
+import type { AdvisorProvider } from '../services/advisorProvider';
+import { ProxyError } from '../services/errors';
+import { validateSettings } from '../services/settingsService';
+import { isComplete } from '../utils/riskProfile';
+import {
+    AdviceRequestBody, AnalysisStreamLine, ChatRequestBody, ChatStreamLine, ExtractInputsRequestBody, PredictionRequestBody, PROXY_ROUTES,
+    TranscribeRequestBody, TtsRequestBody, WatchReviewRequestBody,
+} from '../services/proxyApi';
+import { errorBody, readJsonBody, sendError, sendJson } from './http';
+import { createRateLimiter, RateLimitOptions } from './rateLimiter';
+
+export interface ProxyServerOptions {
+    /** Path prefix of every route, e.g. '/api'. */
+    basePath: string;
+    rateLimit: RateLimitOptions;
+    /** Body limit for JSON routes; audio uploads get `audioBodyLimit`. */
+    bodyLimit: number;
+    audioBodyLimit: number;
+    /** Use the first X-Forwarded-For address as the client, when behind a trusted reverse proxy. */
+    trustProxy: boolean;
+    /** Origin allowed to call the server from another host; same-origin only when unset. */
+    corsOrigin?: string;
+}
+
+export const DEFAULT_OPTIONS: ProxyServerOptions = {
+    basePath: '/api',
+    rateLimit: { capacity: 30, refillPerMinute: 30 },
+    bodyLimit: 256 * 1024,
+    audioBodyLimit: 8 * 1024 * 1024,
+    trustProxy: false,
+};
+
+// Loose shape checks: enough to reject malformed calls before they cost a model
+// request. Nested objects are checked as far as the provider relies on them
+// (risk answers are scored, report dates formatted); their other fields are
+// treated as untrusted text.
+const check: (condition: unknown, message: string) => asserts condition = (condition, message) => {
+    if (!condition) throw new ProxyError('bad_request', message, 400);
+};
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isRecordArray = (value: unknown): value is Record<string, unknown>[] => Array.isArray(value) && value.every(isRecord);
+
+const isRiskProfile = (value: unknown): boolean =>
+    isRecord(value) && isRecord(value.answers) && isComplete(value.answers);
+
+const isReport = (value: unknown): boolean =>
+    isRecord(value) && isNumber(value.createdAt) && !Number.isNaN(new Date(value.createdAt).getTime())
+    && isRecord(value.inputs) && isRecord(value.result)
+    && (value.kind === 'advice' || (value.kind === 'prediction' && isRecordArray(value.inputs.holdings)));
+
+const asRecord = (body: unknown): Record<string, unknown> => {
+    check(isRecord(body), 'The request body must be a JSON object.');
+    return body;
+};
+
+const asChatRequest = (body: unknown): ChatRequestBody => {
+    const { message, history, context } = asRecord(body);
+    check(isText(message), '"message" must be a non-empty string.');
+    check(isRecordArray(history) && history.every(turn => typeof turn.text === 'string'), '"history" must be an array of messages.');
+    check(context === null || isReport(context), '"context" must be an advice or prediction report, or null.');
+    return { message, history: history as unknown as ChatMessage[], context: context as unknown as Report | null };
+};
+
+const asAdviceRequest = (body: unknown): AdviceRequestBody => {
+    const { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile } = asRecord(body);
+    check(isNumber(investmentAmount) && investmentAmount > 0, '"investmentAmount" must be a positive number.');
+    check(isText(currency), '"currency" must be a non-empty string.');
+    check(isText(riskTolerance), '"riskTolerance" must be a non-empty string.');
+    check(isNumber(investmentHorizon) && investmentHorizon > 0, '"investmentHorizon" must be a positive number.');
+    check(isText(language), '"language" must be a non-empty string.');
+    check(riskProfile === undefined || isRiskProfile(riskProfile), '"riskProfile" must have an answer to every question.');
+    return { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile: riskProfile as unknown as RiskProfile | undefined };
+};
+
+const asPredictionRequest = (body: unknown): PredictionRequestBody => {
+    const { holdings, language, allocation } = asRecord(body);
+    check(isRecordArray(holdings) && holdings.length > 0, '"holdings" must be a non-empty array of objects.');
+    check(isText(language), '"language" must be a non-empty string.');
+    check(allocation === undefined || typeof allocation === 'string', '"allocation" must be a string.');
+    return { holdings: holdings as unknown as Holding[], language, allocation: typeof allocation === 'string' ? allocation : undefined };
+};
+
+const asTtsRequest = (body: unknown): TtsRequestBody => {
+    const { text, language } = asRecord(body);
+    check(isText(text), '"text" must be a non-empty string.');
+    check(isText(language), '"language" must be a non-empty string.');
+    return { text, language };
+};
+
+const asTranscribeRequest = (body: unknown): TranscribeRequestBody => {
+    const { audio, languageHint } = asRecord(body);
+    check(isRecord(audio) && isText(audio.data) && isText(audio.mimeType), '"audio" must have "data" and "mimeType" strings.');
+    check(languageHint === undefined || typeof languageHint === 'string', '"languageHint" must be a string.');
+    return { audio: { data: audio.data, mimeType: audio.mimeType }, languageHint: typeof languageHint === 'string' ? languageHint : undefined };
+};
+
+const asExtractInputsRequest = (body: unknown): ExtractInputsRequestBody => {
+    const { transcript } = asRecord(body);
+    check(isText(transcript), '"transcript" must be a non-empty string.');
+    return { transcript };
+};
+
+const asWatchReviewRequest = (body: unknown): WatchReviewRequestBody => {
+    const { items, language } = asRecord(body);
+    check(isRecordArray(items) && items.length > 0 && items.every(item => isText(item.id)), '"items" must be a non-empty array of watched items.');
+    check(isText(language), '"language" must be a non-empty string.');
+    return { items: items as unknown as WatchItem[], language };
+};
+
+const NDJSON_HEADERS = { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' };
+
+/**
+ * Answers with a line per progress update and a final result line. The status
+ * is sent with the first line, so a failure before any progress still gets a
+ * plain error response; one after it is sent as a final error line.
+ */
+const streamAnalysis = async <P, R>(res: ServerResponse, run: (onProgress: (partial: P) => void) => Promise<R>): Promise<void> => {
+    const write = (line: AnalysisStreamLine<P, R>) => {
+        if (!res.headersSent) res.writeHead(200, NDJSON_HEADERS);
+        res.write(`${JSON.stringify(line)}\n`);
+    };
+    try {
+        write({ result: await run(partial => write({ partial })) });
+    } catch (error) {
+        if (!res.headersSent) throw error;
+        // Nobody is left to tell when the client went away.
+        if (res.destroyed) return;
+        console.error('Analysis stream failed:', error);
+        write(errorBody(error).body);
+    }
+    res.end();
+};
+
+type Handler = (body: unknown, res: ServerResponse, signal: AbortSignal, provider: AdvisorProvider) => Promise<void>;
+
+interface Route {
+    handler: Handler;
+    audio?: boolean;
+}
+
+const ROUTES = new Map<string, Route>(Object.entries({
+    [PROXY_ROUTES.advice]: {
+        handler: async (body, res, signal, provider) => {
+            const { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile } = asAdviceRequest(body);
+            sendJson(res, 200, await provider.getFinancialAdvice(investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile, signal));
+        },
+    },
+    [PROXY_ROUTES.adviceStream]: {
+        handler: async (body, res, signal, provider) => {
+            const { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile } = asAdviceRequest(body);
+            await streamAnalysis(res, onProgress =>
+                provider.getFinancialAdvice(investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile, signal, onProgress));
+        },
+    },
+    [PROXY_ROUTES.prediction]: {
+        handler: async (body, res, signal, provider) => {
+            const { holdings, language, allocation } = asPredictionRequest(body);
+            sendJson(res, 200, await provider.getInvestmentPrediction(holdings, language, allocation, signal));
+        },
+    },
+    [PROXY_ROUTES.predictionStream]: {
+        handler: async (body, res, signal, provider) => {
+            const { holdings, language, allocation } = asPredictionRequest(body);
+            await streamAnalysis(res, onProgress => provider.getInvestmentPrediction(holdings, language, allocation, signal, onProgress));
+        },
+    },
+    [PROXY_ROUTES.chat]: {
+        handler: async (body, res, signal, provider) => {
+            sendJson(res, 200, { reply: await provider.getChatResponse(asChatRequest(body), signal) });
+        },
+    },
+    [PROXY_ROUTES.chatStream]: {
+        // One JSON line per chunk; a failure after the first chunk is sent as a final error line.
+        handler: async (body, res, signal, provider) => {
+            const chat = asChatRequest(body);
+            const chunks = provider.streamChatResponse(chat, signal)[Symbol.asyncIterator]();
+            const first = await chunks.next();
+            res.writeHead(200, NDJSON_HEADERS);
+            const write = (line: ChatStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+            try {
+                for (let next = first; !next.done; next = await chunks.next()) {
+                    write({ chunk: next.value });
+                }
+            } catch (error) {
+                console.error('Chat stream failed:', error);
+                write(errorBody(error).body);
+            }
+            res.end();
+        },
+    },
+    [PROXY_ROUTES.tts]: {
+        handler: async (body, res, signal, provider) => {
+            const { text, language } = asTtsRequest(body);
+            sendJson(res, 200, { audio: await provider.getTextToSpeechAudio(text, language, signal) });
+        },
+    },
+    [PROXY_ROUTES.transcribe]: {
+        audio: true,
+        handler: async (body, res, signal, provider) => {
+            const { audio, languageHint } = asTranscribeRequest(body);
+            sendJson(res, 200, { text: await provider.transcribeAudio(audio, languageHint, signal) });
+        },
+    },
+    [PROXY_ROUTES.extractInputs]: {
+        handler: async (body, res, signal, provider) => {
+            const { transcript } = asExtractInputsRequest(body);
+            sendJson(res, 200, { inputs: await provider.extractAdviceInputs(transcript, signal) });
+        },
+    },
+    [PROXY_ROUTES.watchReview]: {
+        handler: async (body, res, signal, provider) => {
+            const { items, language } = asWatchReviewRequest(body);
+            sendJson(res, 200, await provider.reviewWatchItems(items, language, signal));
+        },
+    },
+}));
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded.trim() !== '') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * The HTTP server that holds the model credentials: every AdvisorProvider call
+ * the browser makes arrives here as a POST and is answered by the provider
+ * `providerFor` returns for the user's settings, sent along in the body.
+ */
+export function createProxyServer(providerFor: (settings: AdvisorSettings) => AdvisorProvider, options: Partial<ProxyServerOptions> = {}): Server {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const limiter = createRateLimiter(config.rateLimit);
+
+    return createServer(async (req, res) => {
+        if (config.corsOrigin) {
+            res.setHeader('Access-Control-Allow-Origin', config.corsOrigin);
+            res.setHeader('Vary', 'Origin');
+        }
+        const path = (req.url ?? '').split('?')[0];
+        try {
+            if (req.method === 'GET' && path === `${config.basePath}/health`) {
+                sendJson(res, 200, { status: 'ok' });
+                return;
+            }
+            const route = path.startsWith(`${config.basePath}/`) ? ROUTES.get(path.slice(config.basePath.length)) : undefined;
+            if (!route) {
+                throw new ProxyError('not_found', `No route for ${path}.`, 404);
+            }
+            if (req.method === 'OPTIONS' && config.corsOrigin) {
+                res.writeHead(204, { 'Access-Control-Allow-Methods': 'POST', 'Access-Control-Allow-Headers': 'Content-Type', 'Access-Control-Max-Age': '600' });
+                res.end();
+                return;
+            }
+            if (req.method !== 'POST') {
+                res.setHeader('Allow', 'POST');
+                throw new ProxyError('method_not_allowed', 'Use POST.', 405);
+            }
+
+            const retryAfter = limiter.take(clientIdOf(req, config.trustProxy));
+            if (retryAfter !== null) {
+                throw new ProxyError('rate_limited', 'Too many requests; try again shortly.', 429, retryAfter);
+            }
+
+            const body = await readJsonBody(req, route.audio ? config.audioBodyLimit : config.bodyLimit);
+            // Stops the model call (or stream) for a client that has gone away.
+            const controller = new AbortController();
+            res.on('close', () => controller.abort());
+            const settings = validateSettings(isRecord(body) ? body.settings : undefined);
+            await route.handler(body, res, controller.signal, providerFor(settings));
+        } catch (error) {
+            if (!(error instanceof ProxyError)) console.error(`Request to ${path} failed:`, error);
+            if (!res.headersSent) sendError(res, error);
+            else res.end();
+        }
+    });
+}
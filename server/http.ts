@@ -0,0 +1,69 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AdvisorError, AdvisorErrorKind, ProxyError, ProxyErrorCode, ResponseValidationError } from '../services/errors';
+import type { ProxyErrorBody } from '../services/proxyApi';
+
+/** Reads and parses a JSON body, refusing anything over `limitBytes`. */
+export async function readJsonBody(req: IncomingMessage, limitBytes: number): Promise<unknown> {
+    if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+        throw new ProxyError('unsupported_media_type', 'Send the request body as application/json.', 415);
+    }
+    const tooLarge = () => new ProxyError('payload_too_large', `The request body is over the ${limitBytes} byte limit.`, 413);
+    if (Number(req.headers['content-length']) > limitBytes) throw tooLarge();
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > limitBytes) throw tooLarge();
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new ProxyError('bad_request', 'The request body is not valid JSON.', 400);
+    }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+// How provider failures are reported; kinds not listed become 'upstream_error'.
+const CODE_OF_KIND: Partial<Record<AdvisorErrorKind, { code: ProxyErrorCode; status: number; message: string }>> = {
+    missingKey: { code: 'missing_key', status: 500, message: 'The server has no AI model key configured.' },
+    invalidKey: { code: 'invalid_key', status: 502, message: 'The AI model rejected the server\'s key.' },
+    rateLimited: { code: 'quota_exceeded', status: 429, message: 'The AI model quota is used up for now.' },
+    safetyBlocked: { code: 'safety_blocked', status: 422, message: 'The AI model declined to answer this request.' },
+    timeout: { code: 'timeout', status: 504, message: 'The AI model took too long to answer.' },
+    network: { code: 'upstream_unavailable', status: 503, message: 'The AI model could not be reached.' },
+};
+
+/**
+ * The error body for anything a route throws. Provider errors other than
+ * validation failures are reported by kind only so nothing upstream leaks.
+ */
+export function errorBody(error: unknown): { status: number; body: ProxyErrorBody } {
+    if (error instanceof ProxyError) {
+        return { status: error.status, body: { error: { code: error.code, message: error.message, retryAfter: error.retryAfter } } };
+    }
+    if (error instanceof ResponseValidationError) {
+        return {
+            status: 502,
+            body: { error: { code: 'validation_failed', message: error.message, errors: error.errors, attempts: error.attempts } },
+        };
+    }
+    const known = error instanceof AdvisorError ? CODE_OF_KIND[error.kind] : undefined;
+    if (known) {
+        return { status: known.status, body: { error: { code: known.code, message: known.message, retryAfter: (error as AdvisorError).retryAfter } } };
+    }
+    return { status: 502, body: { error: { code: 'upstream_error', message: 'The AI model request failed.' } } };
+}
+
+export function sendError(res: ServerResponse, error: unknown): void {
+    const { status, body } = errorBody(error);
+    if (body.error.retryAfter !== undefined) res.setHeader('Retry-After', String(body.error.retryAfter));
+    // The body may still be arriving (e.g. over the size limit); close rather than wait for it.
+    if (!res.req.complete) res.setHeader('Connection', 'close');
+    sendJson(res, status, body);
+}
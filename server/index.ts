@@ -0,0 +1,53 @@
+import type { AdvisorSettings } from '../types';
+import type { AdvisorProvider } from '../services/advisorProvider';
+import { createGeminiProvider } from '../services/geminiService';
+import { createMockProvider } from '../services/mockService';
+import { createProxyServer, DEFAULT_OPTIONS } from './app';
+
+// Reads the same env files as Vite; variables already set in the shell win.
+for (const file of ['.env.local', '.env']) {
+    try {
+        process.loadEnvFile(file);
+    } catch {
+        // The file is optional.
+    }
+}
+
+const numberFrom = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// AI_PROVIDER=mock serves the offline fixtures, so the server can be exercised
+// without a key; GEMINI_BASE_URL points the Gemini client at a local stub model.
+// Gemini providers are made per request, for the settings that came with it.
+const createProviderFactory = (): ((settings: AdvisorSettings) => AdvisorProvider) => {
+    const configured = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+    if (configured === 'mock') {
+        const mock = createMockProvider(undefined, numberFrom(process.env.MOCK_LATENCY_MS, 0));
+        return () => mock;
+    }
+    if (configured !== 'gemini') {
+        throw new Error(`Unknown AI_PROVIDER "${process.env.AI_PROVIDER}". Use "gemini" or "mock".`);
+    }
+    if (!process.env.GEMINI_API_KEY) {
+        console.warn('GEMINI_API_KEY is not set; model requests will fail with "missing_key".');
+    }
+    return settings => createGeminiProvider(process.env.GEMINI_API_KEY, { baseUrl: process.env.GEMINI_BASE_URL, settings });
+};
+
+const port = numberFrom(process.env.PROXY_PORT, 8787);
+const server = createProxyServer(createProviderFactory(), {
+    rateLimit: {
+        capacity: numberFrom(process.env.RATE_LIMIT_BURST, DEFAULT_OPTIONS.rateLimit.capacity),
+        refillPerMinute: numberFrom(process.env.RATE_LIMIT_PER_MINUTE, DEFAULT_OPTIONS.rateLimit.refillPerMinute),
+    },
+    bodyLimit: numberFrom(process.env.BODY_LIMIT_BYTES, DEFAULT_OPTIONS.bodyLimit),
+    audioBodyLimit: numberFrom(process.env.AUDIO_BODY_LIMIT_BYTES, DEFAULT_OPTIONS.audioBodyLimit),
+    trustProxy: process.env.TRUST_PROXY === '1',
+    corsOrigin: process.env.CORS_ORIGIN || undefined,
+});
+
+server.listen(port, () => {
+    console.log(`Advisor proxy listening on http://localhost:${port}${DEFAULT_OPTIONS.basePath}`);
+});
@@ -0,0 +1,50 @@
+export interface RateLimitOptions {
+    /** Requests a client can make in a burst. */
+    capacity: number;
+    /** Requests a client regains per minute, up to `capacity`. */
+    refillPerMinute: number;
+}
+
+export interface RateLimiter {
+    /** Spends one request; returns null if allowed, else the seconds until one is. */
+    take(clientId: string, now?: number): number | null;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// Buckets that have refilled are dropped once there are this many, so one
+// client per request (e.g. a scan) can't grow the map without bound.
+const PRUNE_AT = 10_000;
+
+/** A token bucket per client, kept in memory; limits reset when the server restarts. */
+export function createRateLimiter({ capacity, refillPerMinute }: RateLimitOptions): RateLimiter {
+    const buckets = new Map<string, Bucket>();
+    const perMs = refillPerMinute / 60_000;
+
+    const refill = (bucket: Bucket, now: number) =>
+        Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+
+    const prune = (now: number) => {
+        for (const [id, bucket] of buckets) {
+            if (refill(bucket, now) >= capacity) buckets.delete(id);
+        }
+    };
+
+    return {
+        take(clientId, now = Date.now()) {
+            if (buckets.size >= PRUNE_AT) prune(now);
+            const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now };
+            bucket.tokens = refill(bucket, now);
+            bucket.updatedAt = now;
+            buckets.set(clientId, bucket);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return null;
+            }
+            return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+        },
+    };
+}
@@ -0,0 +1,81 @@
+import type {
+    AdviceInputs, ChatMessage, FinancialAdvice, GroundingChunk, Holding, PartialFinancialAdvice, PartialPortfolioPrediction, PortfolioPrediction, Report,
+    RiskProfile, ValidationIssue, WatchItem, WatchReview,
+} from '../types';
+
+export interface AdviceResult {
+    advice: FinancialAdvice;
+    sources: GroundingChunk[];
+    issues: ValidationIssue[];
+}
+
+export interface PredictionResult {
+    prediction: PortfolioPrediction;
+    sources: GroundingChunk[];
+    issues: ValidationIssue[];
+}
+
+export interface WatchReviewResult {
+    reviews: WatchReview[];
+    sources: GroundingChunk[];
+    issues: ValidationIssue[];
+}
+
+/**
+ * Receives what has arrived of an answer while it is generated. Each call
+ * supersedes the last; a retried request starts again from nothing.
+ */
+export type ProgressListener<P> = (partial: P) => void;
+
+export interface ChatRequest {
+    // Earlier turns of the conversation, oldest first, excluding `message`.
+    history: ChatMessage[];
+    message: string;
+    context: Report | null;
+}
+
+export interface RecordedAudio {
+    /** Base64-encoded recording, e.g. from MediaRecorder. */
+    data: string;
+    mimeType: string;
+}
+
+/**
+ * A backend that can answer every AI request the app makes. The Gemini
+ * implementation talks to the live API; the mock one serves fixtures offline.
+ * Failures are AdvisorErrors; `signal` cancels the request where the backend can.
+ * With `onProgress`, advice and predictions are streamed and reported as they fill in.
+ */
+export interface AdvisorProvider {
+    getFinancialAdvice(
+        investmentAmount: number,
+        currency: string,
+        riskTolerance: string,
+        investmentHorizon: number,
+        language: string,
+        riskProfile?: RiskProfile,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener<PartialFinancialAdvice>
+    ): Promise<AdviceResult>;
+    /** `allocation` is a locally computed breakdown for the overall summary to draw on. */
+    getInvestmentPrediction(
+        holdings: Holding[],
+        language: string,
+        allocation?: string,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener<PartialPortfolioPrediction>
+    ): Promise<PredictionResult>;
+    getChatResponse(request: ChatRequest, signal?: AbortSignal): Promise<string>;
+    /** Yields the reply in chunks as they arrive; ends quietly once `signal` aborts. */
+    streamChatResponse(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string>;
+    /** Resolves to base64-encoded 16-bit PCM audio, mono at 24 kHz. */
+    getTextToSpeechAudio(text: string, language: string, signal?: AbortSignal): Promise<string>;
+    /** Transcribes speech in its original script; `languageHint` is what the user most likely spoke. */
+    transcribeAudio(audio: RecordedAudio, languageHint?: string, signal?: AbortSignal): Promise<string>;
+    /** Picks the advice form fields out of a sentence; fields it doesn't mention are omitted. */
+    extractAdviceInputs(transcript: string, signal?: AbortSignal): Promise<Partial<AdviceInputs>>;
+    /** A fresh outlook for each watched item, tagged with the item's id. */
+    reviewWatchItems(items: WatchItem[], language: string, signal?: AbortSignal): Promise<WatchReviewResult>;
+}
+
+export type AdvisorProviderName = 'gemini' | 'mock';
@@ -0,0 +1,148 @@
+import type { Holding, PartialFinancialAdvice, PartialPortfolioPrediction, PortfolioAnalysisItem, RiskProfile } from '../types';
+import { RetryPolicy, withRetry } from '../utils/retry';
+import type { AdviceResult, AdvisorProvider, AdvisorProviderName, ChatRequest, PredictionResult } from './advisorProvider';
+import { toAdvisorError } from './errors';
+import { createMockProvider } from './mockService';
+import { createProxyProvider } from './proxyService';
+import {
+    adviceCacheKey, CacheOptions, CacheResult, canonicalHoldings, createResponseCache, Freshness, idbResponseStore, loadCacheTtl,
+    predictionCacheKey, ResponseCache,
+} from './responseCache';
+import { loadSettings, modelConfigFor } from './settingsService';
+import { idbTtsStore, withTtsCache } from './ttsCache';
+import { voiceForLanguage } from './voices';
+
+// Grounded, long-thinking answers take minutes; the short calls get less time but another try.
+const RETRY_BACKOFF = { baseDelayMs: 1000, maxDelayMs: 8000 };
+const ANALYSIS_POLICY: RetryPolicy = { attempts: 2, timeoutMs: 240_000, ...RETRY_BACKOFF };
+const CONVERSATION_POLICY: RetryPolicy = { attempts: 3, timeoutMs: 60_000, ...RETRY_BACKOFF };
+const EXTRACTION_POLICY: RetryPolicy = { attempts: 3, timeoutMs: 30_000, ...RETRY_BACKOFF };
+
+let activeProvider: AdvisorProvider | null = null;
+let responseCache: ResponseCache = createResponseCache(idbResponseStore);
+
+const resolveProviderName = (): AdvisorProviderName => {
+    const configured = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+    if (configured !== 'gemini' && configured !== 'mock') {
+        throw new Error(`Unknown AI_PROVIDER "${process.env.AI_PROVIDER}". Use "gemini" or "mock".`);
+    }
+    return configured;
+};
+
+// Only real speech is worth caching; mock audio is generated instantly.
+const withCachedSpeech = (provider: AdvisorProvider): AdvisorProvider => ({
+    ...provider,
+    getTextToSpeechAudio: withTtsCache(provider.getTextToSpeechAudio, idbTtsStore, language => voiceForLanguage(language, loadSettings().voices)),
+});
+
+// Answers from another model or without search are not interchangeable, so they are cached apart.
+const cacheScope = (feature: 'advice' | 'prediction'): string =>
+    JSON.stringify([resolveProviderName(), modelConfigFor(loadSettings(), feature)]);
+
+/**
+ * Returns the configured provider, creating it on first use. Gemini is only
+ * reached through the proxy server, which holds the API key.
+ */
+export const getAdvisorProvider = (): AdvisorProvider => {
+    if (!activeProvider) {
+        activeProvider = resolveProviderName() === 'mock'
+            ? createMockProvider(undefined, 600)
+            : withCachedSpeech(createProxyProvider(process.env.API_BASE_URL || '/api', loadSettings));
+    }
+    return activeProvider;
+};
+
+/** Overrides the configured provider, e.g. with a mock in component tests. */
+export const setAdvisorProvider = (provider: AdvisorProvider | null) => {
+    activeProvider = provider;
+};
+
+/** Overrides the response cache, e.g. with a memory store in tests. */
+export const setResponseCache = (cache: ResponseCache) => {
+    responseCache = cache;
+};
+
+const withFreshness = <T>({ value, cachedAt }: CacheResult<T>): T & Freshness => ({ ...value, cachedAt });
+
+export type RequestOptions<P = unknown> = CacheOptions<P>;
+
+/*
+ * Every call below retries transient failures and times out per its policy,
+ * and rejects with an AdvisorError whose kind says what went wrong.
+ */
+
+/** Served from the response cache when the same normalised inputs ran within the TTL. */
+export const getFinancialAdvice = async (
+    investmentAmount: number,
+    currency: string,
+    riskTolerance: string,
+    investmentHorizon: number,
+    language: string,
+    riskProfile?: RiskProfile,
+    options: RequestOptions<PartialFinancialAdvice> = {}
+): Promise<AdviceResult & Freshness> => withFreshness(await responseCache.run({
+    key: adviceCacheKey(cacheScope('advice'), investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile),
+    load: (signal, onProgress) => withRetry(attemptSignal => getAdvisorProvider().getFinancialAdvice(
+        investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile, attemptSignal, onProgress
+    ), { ...ANALYSIS_POLICY, signal }),
+    ttlMinutes: loadCacheTtl(),
+}, options));
+
+/**
+ * Served from the response cache when the same portfolio, whatever its row
+ * order, ran within the TTL. Stored results point at holdings by their place
+ * in the canonical order, since row ids differ between runs.
+ */
+export const getInvestmentPrediction = async (
+    holdings: Holding[],
+    language: string,
+    allocation?: string,
+    options: RequestOptions<PartialPortfolioPrediction> = {}
+): Promise<PredictionResult & Freshness> => {
+    const ordered = canonicalHoldings(holdings);
+    const remap = (items: PortfolioAnalysisItem[], holdingId: (id: string) => string | undefined) => items.map(item => ({
+        ...item,
+        holdingId: item.holdingId === undefined ? undefined : holdingId(item.holdingId),
+    }));
+    const toIndex = (id: string) => {
+        const index = ordered.findIndex(holding => holding.id === id);
+        return index === -1 ? undefined : String(index);
+    };
+    const toId = (index: string) => ordered[Number(index)]?.id;
+    return withFreshness(await responseCache.run({
+        key: predictionCacheKey(cacheScope('prediction'), holdings, language, allocation),
+        load: (signal, onProgress) => withRetry(
+            attemptSignal => getAdvisorProvider().getInvestmentPrediction(holdings, language, allocation, attemptSignal, onProgress),
+            { ...ANALYSIS_POLICY, signal }
+        ),
+        ttlMinutes: loadCacheTtl(),
+        encode: result => ({ ...result, prediction: { ...result.prediction, portfolioAnalysis: remap(result.prediction.portfolioAnalysis, toIndex) } }),
+        decode: (stored: PredictionResult) => ({ ...stored, prediction: { ...stored.prediction, portfolioAnalysis: remap(stored.prediction.portfolioAnalysis, toId) } }),
+        encodePartial: partial => ({ ...partial, portfolioAnalysis: remap(partial.portfolioAnalysis, toIndex) }),
+        decodePartial: (shared: PartialPortfolioPrediction) => ({ ...shared, portfolioAnalysis: remap(shared.portfolioAnalysis, toId) }),
+    }, options));
+};
+
+export const getChatResponse: AdvisorProvider['getChatResponse'] = async (request, signal) =>
+    withRetry(attemptSignal => getAdvisorProvider().getChatResponse(request, attemptSignal), { ...CONVERSATION_POLICY, signal });
+
+/** Not retried, since chunks may already be on screen; failures are still AdvisorErrors. */
+export async function* streamChatResponse(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    try {
+        yield* getAdvisorProvider().streamChatResponse(request, signal);
+    } catch (error) {
+        throw toAdvisorError(error, signal);
+    }
+}
+
+export const getTextToSpeechAudio: AdvisorProvider['getTextToSpeechAudio'] = async (text, language, signal) =>
+    withRetry(attemptSignal => getAdvisorProvider().getTextToSpeechAudio(text, language, attemptSignal), { ...CONVERSATION_POLICY, signal });
+
+export const transcribeAudio: AdvisorProvider['transcribeAudio'] = async (audio, languageHint, signal) =>
+    withRetry(attemptSignal => getAdvisorProvider().transcribeAudio(audio, languageHint, attemptSignal), { ...CONVERSATION_POLICY, signal });
+
+export const extractAdviceInputs: AdvisorProvider['extractAdviceInputs'] = async (transcript, signal) =>
+    withRetry(attemptSignal => getAdvisorProvider().extractAdviceInputs(transcript, attemptSignal), { ...EXTRACTION_POLICY, signal });
+
+export const reviewWatchItems: AdvisorProvider['reviewWatchItems'] = async (items, language, signal) =>
+    withRetry(attemptSignal => getAdvisorProvider().reviewWatchItems(items, language, attemptSignal), { ...ANALYSIS_POLICY, signal });
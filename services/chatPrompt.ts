@@ -0,0 +1,40 @@
+import type { Report } from '../types';
+import { holdingLabel } from '../utils/portfolio';
+
+const FINANCE_SYSTEM_PROMPT = `You are the assistant inside a personal finance app used mostly by Indian retail investors.
+Help users understand mutual funds, SIPs, stocks, ETFs, asset allocation, risk and taxes in plain language.
+Keep answers concise and friendly, and reply in the language the user writes in.
+Explain the reasoning behind any suggestion, mention the main risks, and never promise returns.
+You are not a registered investment adviser; for decisions with large amounts, suggest consulting one.
+
+Format replies in Markdown: short paragraphs, bullet lists, **bold** for key figures and tables for comparisons. Do not use raw HTML.
+When a chart would help (growth over time, comparing returns), add a fenced block tagged chart containing only JSON:
+\`\`\`chart
+{"type": "line" or "bar", "title": "string", "labels": ["2021", "2022"], "series": [{"name": "string", "values": [10.5, 12.1]}]}
+\`\`\`
+Every series must have exactly one numeric value per label.`;
+
+const describeContext = (report: Report): string => {
+    const generated = new Date(report.createdAt).toISOString();
+    if (report.kind === 'advice') {
+        const { investmentAmount, currency, riskTolerance, investmentHorizon } = report.inputs;
+        return `The user is looking at a financial plan generated on ${generated} for an investment of ${investmentAmount} ${currency}, ` +
+            `${riskTolerance} risk tolerance and a ${investmentHorizon}-year horizon:\n${JSON.stringify(report.result)}`;
+    }
+    const holdings = report.inputs.holdings
+        .map(h => `${holdingLabel(h)}: ${h.quantity} units at ${h.averageCost} ${h.currency}`)
+        .join('; ');
+    return `The user is looking at a portfolio prediction generated on ${generated} for these holdings: ${holdings}.\n` +
+        `The prediction was:\n${JSON.stringify(report.result)}`;
+};
+
+/**
+ * System instruction for a conversation. When the user attached a result, it
+ * is included so questions like "why did you pick this fund?" can be answered.
+ */
+export const buildChatSystemInstruction = (context: Report | null): string => {
+    if (!context) return FINANCE_SYSTEM_PROMPT;
+    return `${FINANCE_SYSTEM_PROMPT}\n\n${describeContext(context)}\n\n` +
+        'When the user refers to "this plan", "this fund" or similar, they mean the items above. ' +
+        'Answer from that result and say so if it does not contain what they ask about.';
+};
@@ -0,0 +1,32 @@
+import type { ChatMessage, Conversation } from '../types';
+import { withAdviceCurrency } from '../utils/currency';
+import { idbDelete, idbGetAll, idbPut } from '../utils/idb';
+
+const STORE = 'conversations';
+
+// Stored as-is until the first message names the conversation; shown translated.
+export const UNTITLED = 'New conversation';
+
+export const createConversation = (greeting: string, title = UNTITLED): Conversation => {
+    const now = Date.now();
+    const messages: ChatMessage[] = [{ sender: 'bot', text: greeting }];
+    return { id: crypto.randomUUID(), title, createdAt: now, updatedAt: now, messages, context: null };
+};
+
+/** Most recently active first. */
+export const listConversations = async (): Promise<Conversation[]> => {
+    const conversations = await idbGetAll<Conversation>(STORE);
+    return conversations
+        .map(c => (c.context ? { ...c, context: withAdviceCurrency(c.context) } : c))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveConversation = (conversation: Conversation): Promise<void> => idbPut(STORE, conversation);
+
+export const deleteConversation = (id: string): Promise<void> => idbDelete(STORE, id);
+
+/** Names an untitled conversation after its first question. */
+export const titleFromMessage = (text: string): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > 40 ? `${singleLine.slice(0, 40)}…` : singleLine;
+};
@@ -0,0 +1,129 @@
+/** What went wrong with an AI request, in terms the UI can explain to the user. */
+export type AdvisorErrorKind =
+    | 'missingKey'
+    | 'invalidKey'
+    | 'rateLimited'
+    | 'safetyBlocked'
+    | 'timeout'
+    | 'network'
+    | 'malformedOutput'
+    | 'badRequest'
+    | 'cancelled'
+    | 'unknown';
+
+// Worth trying again after a pause; the others fail the same way every time.
+const TRANSIENT_KINDS: AdvisorErrorKind[] = ['rateLimited', 'timeout', 'network'];
+
+export class AdvisorError extends Error {
+    constructor(
+        public readonly kind: AdvisorErrorKind,
+        message: string,
+        /** Seconds the service asked us to wait before trying again. */
+        public readonly retryAfter?: number,
+    ) {
+        super(message);
+        this.name = 'AdvisorError';
+    }
+
+    get retryable(): boolean {
+        return TRANSIENT_KINDS.includes(this.kind);
+    }
+}
+
+/**
+ * Thrown when the model keeps returning JSON that does not match the expected
+ * shape, even after the bounded number of repair prompts.
+ */
+export class ResponseValidationError extends AdvisorError {
+    constructor(public readonly errors: string[], public readonly attempts: number) {
+        super('malformedOutput', `AI response failed validation after ${attempts} attempt(s): ${errors.join('; ')}`);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/** Machine-readable reasons the proxy server gives for a failed request. */
+export type ProxyErrorCode =
+    | 'bad_request'
+    | 'not_found'
+    | 'method_not_allowed'
+    | 'unsupported_media_type'
+    | 'payload_too_large'
+    | 'rate_limited'
+    | 'missing_key'
+    | 'invalid_key'
+    | 'quota_exceeded'
+    | 'safety_blocked'
+    | 'timeout'
+    | 'upstream_unavailable'
+    | 'validation_failed'
+    | 'upstream_error'
+    | 'internal';
+
+export const KIND_OF_CODE: Record<ProxyErrorCode, AdvisorErrorKind> = {
+    bad_request: 'badRequest',
+    not_found: 'badRequest',
+    method_not_allowed: 'badRequest',
+    unsupported_media_type: 'badRequest',
+    payload_too_large: 'badRequest',
+    rate_limited: 'rateLimited',
+    missing_key: 'missingKey',
+    invalid_key: 'invalidKey',
+    quota_exceeded: 'rateLimited',
+    safety_blocked: 'safetyBlocked',
+    timeout: 'timeout',
+    upstream_unavailable: 'network',
+    validation_failed: 'malformedOutput',
+    upstream_error: 'unknown',
+    internal: 'unknown',
+};
+
+/**
+ * A structured error from the proxy server. The server throws these to pick
+ * the status and code it answers with; the browser rebuilds them from the body.
+ */
+export class ProxyError extends AdvisorError {
+    constructor(
+        public readonly code: ProxyErrorCode,
+        message: string,
+        public readonly status: number,
+        retryAfter?: number,
+    ) {
+        super(KIND_OF_CODE[code], message, retryAfter);
+        this.name = 'ProxyError';
+    }
+}
+
+const KIND_OF_STATUS: Record<number, AdvisorErrorKind> = {
+    401: 'invalidKey',
+    403: 'invalidKey',
+    408: 'timeout',
+    429: 'rateLimited',
+    500: 'network',
+    502: 'network',
+    503: 'network',
+    504: 'timeout',
+};
+
+/**
+ * Sorts any thrown value into an AdvisorError: SDK errors by HTTP status, fetch
+ * failures as network errors and aborts as cancellations (or timeouts, when
+ * `signal` was aborted with an AdvisorError saying so).
+ */
+export function toAdvisorError(error: unknown, signal?: AbortSignal): AdvisorError {
+    if (error instanceof AdvisorError) return error;
+    if (signal?.aborted) {
+        return signal.reason instanceof AdvisorError ? signal.reason : new AdvisorError('cancelled', 'The request was cancelled.');
+    }
+    const { name, message = '', status } = (error ?? {}) as { name?: string; message?: string; status?: unknown };
+    if (name === 'AbortError') return new AdvisorError('cancelled', 'The request was cancelled.');
+    if (name === 'TimeoutError') return new AdvisorError('timeout', message || 'The request timed out.');
+    if (typeof status === 'number') {
+        // The Gemini API answers a bad key with a plain 400.
+        const kind = status === 400 && /api key/i.test(message) ? 'invalidKey' : KIND_OF_STATUS[status] ?? 'unknown';
+        return new AdvisorError(kind, message || `The AI service answered with status ${status}.`);
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new AdvisorError('network', message);
+    }
+    return new AdvisorError('unknown', message || String(error));
+}
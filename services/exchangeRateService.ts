@@ -0,0 +1,39 @@
+import { DEFAULT_EXCHANGE_RATES, ExchangeRateTable, isCurrencyCode } from '../utils/currency';
+
+const STORAGE_KEY = 'finance-advisor.exchange-rates';
+
+// Drops anything a hand-edited or outdated entry could have left behind.
+const sanitise = (input: unknown): ExchangeRateTable | null => {
+    if (typeof input !== 'object' || input === null) return null;
+    const { rates, updatedAt } = input as Partial<ExchangeRateTable>;
+    if (typeof rates !== 'object' || rates === null) return null;
+    const valid = Object.entries(rates).filter(([code, rate]) => isCurrencyCode(code) && Number.isFinite(rate) && rate > 0);
+    return { rates: Object.fromEntries(valid), updatedAt: typeof updatedAt === 'number' ? updatedAt : null };
+};
+
+/** The user's table, or the built-in defaults if none is stored or it can't be read. */
+export const loadExchangeRates = (): ExchangeRateTable => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return (stored && sanitise(JSON.parse(stored))) || DEFAULT_EXCHANGE_RATES;
+    } catch {
+        return DEFAULT_EXCHANGE_RATES;
+    }
+};
+
+export const saveExchangeRates = (table: ExchangeRateTable): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+    } catch {
+        // Storage may be disabled; edits then last for this visit only.
+    }
+};
+
+export const resetExchangeRates = (): ExchangeRateTable => {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Nothing stored to remove.
+    }
+    return DEFAULT_EXCHANGE_RATES;
+};
@@ -0,0 +1,76 @@
+import type { FinancialAdvice, GroundingChunk, PortfolioPrediction } from '../types';
+
+export interface MockFixtures {
+    advice: FinancialAdvice;
+    prediction: PortfolioPrediction;
+    sources: GroundingChunk[];
+    chatReplies: { keyword: string; reply: string }[];
+    defaultChatReply: string;
+    // Returned for every recording, since the mock can't hear anything.
+    transcript: string;
+}
+
+export const defaultFixtures: MockFixtures = {
+    advice: {
+        summary: 'A balanced strategy that pairs a broad index SIP with a large-cap mutual fund and a small allocation to quality blue-chip stocks, suited to a medium risk appetite over a five-year horizon.',
+        recommendations: [
+            {
+                category: 'Mutual Funds',
+                name: 'Nifty 50 Index Fund (Direct Growth)',
+                rationale: 'Low expense ratio and broad large-cap exposure that tracks the benchmark with minimal tracking error.',
+                confidence: 'High',
+                prediction: 'Up',
+            },
+            {
+                category: 'SIPs (Systematic Investment Plan)',
+                name: 'Flexi Cap Fund Monthly SIP',
+                rationale: 'Rupee-cost averaging into a diversified flexi-cap portfolio smooths entry points during volatile months.',
+                confidence: 'Medium',
+                prediction: 'Up',
+            },
+            {
+                category: 'Stocks',
+                name: 'HDFC Bank Ltd.',
+                rationale: 'Stable deposit franchise and improving margins after the merger, though near-term growth may stay muted.',
+                confidence: 'Medium',
+                prediction: 'Stable',
+            },
+        ],
+    },
+    prediction: {
+        portfolioAnalysis: [
+            {
+                name: 'Tesla Inc. (TSLA) Stock',
+                currentAnalysis: 'Trading at a high multiple with margins under pressure from price cuts.',
+                futureOutlook: 'Volatile; upside depends on autonomy and energy storage execution.',
+                confidence: 'Low',
+                prediction: 'Stable',
+            },
+            {
+                name: 'Nifty 50 Index Fund SIP',
+                currentAnalysis: 'Steady inflows and earnings growth across the index constituents.',
+                futureOutlook: 'Likely to compound with the broader Indian economy over the long term.',
+                confidence: 'High',
+                prediction: 'Up',
+            },
+            {
+                name: 'Bitcoin',
+                currentAnalysis: 'Prices are driven by ETF flows and macro liquidity.',
+                futureOutlook: 'Large swings in both directions remain likely; size the position accordingly.',
+                confidence: 'Low',
+                prediction: 'Down',
+            },
+        ],
+        overallSummary: 'The portfolio is anchored by a diversified index SIP, with two high-volatility positions that dominate its short-term risk.',
+    },
+    sources: [
+        { web: { uri: 'https://example.com/markets/offline-fixture', title: 'Offline fixture (mock provider)' } },
+    ],
+    chatReplies: [
+        { keyword: 'sip', reply: 'A SIP invests a fixed amount every month, which averages out your purchase price over time.' },
+        { keyword: 'mutual fund', reply: 'A mutual fund pools money from many investors and is managed by a professional fund manager.' },
+        { keyword: 'risk', reply: 'Higher expected returns usually come with higher volatility, so match your holdings to how long you can stay invested.' },
+    ],
+    defaultChatReply: 'This is the offline mock assistant. Switch AI_PROVIDER to "gemini" for live answers.',
+    transcript: 'I want to invest 2 lakh for 10 years with medium risk, advice in Hindi',
+};
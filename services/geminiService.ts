@@ -1,194 +1,449 @@
-import { GoogleGenAI, Type, GenerateContentResponse, Chat, Modality } from "@google/genai";
-import { FinancialAdvice, GroundingChunk, PortfolioPrediction } from '../types';
+import { GoogleGenAI, Type, GenerateContentResponse, Chat, Modality, Content } from "@google/genai";
+import { AdviceInputs, AdvisorSettings, ChatMessage, GroundingChunk, Holding, PartialFinancialAdvice, PartialPortfolioPrediction, Report, RiskProfile, RISK_TOLERANCES, ValidationIssue, WatchItem } from '../types';
+import { createJsonStreamParser, JsonStreamParser } from '../utils/partialJson';
+import { LANGUAGE_NAMES } from '../i18n/languages';
+import { formatHoldingsForPrompt } from '../utils/portfolio';
+import { describeRiskProfile } from '../utils/riskProfile';
+import {
+    parseModelJson, partialFinancialAdvice, partialPortfolioPrediction, validateFinancialAdvice, validatePortfolioPrediction, validateSpokenAdviceInputs,
+    validateWatchReviews, ValidationResult,
+} from '../utils/validation';
+import { AdvisorError, ResponseValidationError, toAdvisorError } from './errors';
+import type { AdvisorProvider, AdviceResult, ChatRequest, PredictionResult, ProgressListener, RecordedAudio, WatchReviewResult } from './advisorProvider';
+import { buildChatSystemInstruction } from './chatPrompt';
+import { DEFAULT_SETTINGS, ModelConfig, modelConfigFor, TTS_MODEL, UTILITY_MODEL } from './settingsService';
+import { voiceForLanguage } from './voices';
 
-const API_KEY = process.env.API_KEY;
+// Number of extra requests made when the model's JSON fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
 
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+const validateResponseText = <T>(
+    text: string,
+    validate: (input: unknown) => ValidationResult<T>
+): ValidationResult<T> => {
+    try {
+        return validate(parseModelJson(text));
+    } catch (error) {
+        return { value: null, issues: [], errors: [`response is not valid JSON: ${(error as Error).message}`] };
+    }
+};
+
+// Finish reasons meaning the answer was withheld rather than cut short.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/** Throws when Gemini refused the prompt or withheld the answer on safety grounds. */
+const ensureNotBlocked = (response: GenerateContentResponse): void => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AdvisorError('safetyBlocked', `The model declined to answer (${blockReason ?? finishReason}).`);
+    }
+};
+
+/** Turns the partly parsed response into what can be shown of it, and where to send that. */
+interface JsonProgress<P> {
+    extract: (parser: JsonStreamParser) => P;
+    onProgress: ProgressListener<P>;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const requestJson = async <P>(
+    ai: GoogleGenAI,
+    { model, thinkingBudget, search }: ModelConfig,
+    contents: Content[],
+    signal?: AbortSignal,
+    progress?: JsonProgress<P>
+): Promise<{ text: string, sources: GroundingChunk[] }> => {
+    const request = {
+        model,
+        contents,
+        config: {
+            ...(search && { tools: [{ googleSearch: {} }] }),
+            thinkingConfig: { thinkingBudget },
+            abortSignal: signal,
+        }
+    };
+    if (!progress) {
+        const response: GenerateContentResponse = await ai.models.generateContent(request);
+        ensureNotBlocked(response);
+        return { text: response.text ?? '', sources: response.candidates?.[0]?.groundingMetadata?.groundingChunks || [] };
+    }
+
+    let text = '';
+    let sources: GroundingChunk[] = [];
+    let parser: JsonStreamParser | null = createJsonStreamParser();
+    let reported = '';
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+        ensureNotBlocked(chunk);
+        text += chunk.text ?? '';
+        sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? sources;
+        try {
+            parser?.push(chunk.text ?? '');
+        } catch {
+            // Stop showing progress; the whole text still goes through validation and repair.
+            parser = null;
+        }
+        if (!parser) continue;
+        const partial = progress.extract(parser);
+        // Most chunks only extend a value that is not complete yet.
+        const serialized = JSON.stringify(partial);
+        if (serialized !== reported) {
+            reported = serialized;
+            progress.onProgress(partial);
+        }
+    }
+    return { text, sources };
+};
+
+const generateValidatedJson = async <T, P = never>(
+    ai: GoogleGenAI,
+    model: ModelConfig,
+    prompt: string,
+    validate: (input: unknown) => ValidationResult<T>,
+    signal?: AbortSignal,
+    progress?: JsonProgress<P>
+): Promise<{ value: T, issues: ValidationIssue[], sources: GroundingChunk[] }> => {
+    const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    let errors: string[] = [];
 
-let chatInstance: Chat | null = null;
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const { text: responseText, sources } = await requestJson(ai, model, contents, signal, progress);
+        const result = validateResponseText(responseText, validate);
+        if (result.value) {
+            return { value: result.value, issues: result.issues, sources };
+        }
 
-export const getFinancialAdvice = async (
-    investmentAmount: number,
-    riskTolerance: string,
-    investmentHorizon: number,
-    language: string
-): Promise<{ advice: FinancialAdvice, sources: GroundingChunk[] }> => {
-    try {
-        const prompt = `
-          Analyze the current financial market and provide investment advice in ${language} based on the following criteria:
-          - Investment Amount: $${investmentAmount}
-          - Risk Tolerance: ${riskTolerance}
-          - Investment Horizon: ${investmentHorizon} years
-
-          Your task is to:
-          1. Provide a concise summary of the investment strategy.
-          2. Recommend up to three options for each category: Mutual Funds, SIPs (Systematic Investment Plan), and Stocks.
-          3. For each recommendation, provide its name, a detailed rationale (including key metrics and performance insights), a confidence level (High, Medium, or Low), and a future trend prediction ('Up', 'Down', or 'Stable').
-          4. Use your search capabilities to ensure all information is up-to-date.
-
-          The final output MUST be a single, valid JSON object and nothing else. Do not include any text before or after it. Do not use markdown formatting like \`\`\`json.
-          The JSON structure must be:
-          {
-            "summary": "string",
-            "recommendations": [
+        errors = result.errors;
+        contents.push(
+            { role: 'model', parts: [{ text: responseText }] },
+            { role: 'user', parts: [{ text: `Your previous response did not match the required JSON structure:\n${errors.map(e => `- ${e}`).join('\n')}\nReply again with only the corrected JSON object, following the structure given above exactly.` }] }
+        );
+    }
+
+    throw new ResponseValidationError(errors, MAX_REPAIR_ATTEMPTS + 1);
+};
+
+const chatConfig = (context: Report | null, { thinkingBudget }: ModelConfig) => ({
+    systemInstruction: buildChatSystemInstruction(context),
+    thinkingConfig: { thinkingBudget },
+});
+
+// Gemini expects alternating turns that start with the user, so greetings and
+// empty (failed) bot messages are left out.
+const toGeminiHistory = (messages: ChatMessage[]): Content[] => {
+    const firstUser = messages.findIndex(m => m.sender === 'user');
+    if (firstUser === -1) return [];
+    return messages
+        .slice(firstUser)
+        .filter(m => m.text.trim() !== '')
+        .map(m => ({ role: m.sender === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+};
+
+export interface GeminiOptions {
+    /** Sends requests to another host, e.g. a local stub model in tests. */
+    baseUrl?: string;
+    /** Models, thinking, search and voices to use; validated by the caller. */
+    settings?: AdvisorSettings;
+}
+
+/**
+ * Calls Gemini directly. Every failure is rethrown as an AdvisorError; without
+ * a key the provider is still created, and each call fails with 'missingKey'.
+ */
+export const createGeminiProvider = (apiKey: string | undefined, options: GeminiOptions = {}): AdvisorProvider => {
+    if (!apiKey) {
+        const missingKey = async (): Promise<never> => {
+            throw new AdvisorError('missingKey', 'GEMINI_API_KEY environment variable not set');
+        };
+        return {
+            getFinancialAdvice: missingKey,
+            getInvestmentPrediction: missingKey,
+            getChatResponse: missingKey,
+            async *streamChatResponse() {
+                yield await missingKey();
+            },
+            getTextToSpeechAudio: missingKey,
+            transcribeAudio: missingKey,
+            extractAdviceInputs: missingKey,
+            reviewWatchItems: missingKey,
+        };
+    }
+
+    const ai = new GoogleGenAI({ apiKey, ...(options.baseUrl ? { httpOptions: { baseUrl: options.baseUrl } } : {}) });
+    const settings = options.settings ?? DEFAULT_SETTINGS;
+
+    const getFinancialAdvice = async (
+        investmentAmount: number,
+        currency: string,
+        riskTolerance: string,
+        investmentHorizon: number,
+        language: string,
+        riskProfile?: RiskProfile,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener<PartialFinancialAdvice>
+    ): Promise<AdviceResult> => {
+        try {
+            const profileSection = riskProfile ? `
+              The investor's risk questionnaire; tailor the plan to these circumstances as well as the tolerance above:
+${describeRiskProfile(riskProfile)}
+` : '';
+            const prompt = `
+              Analyze the current financial market and provide investment advice in ${language} based on the following criteria:
+              - Investment Amount: ${investmentAmount} ${currency}
+              - Risk Tolerance: ${riskTolerance}
+              - Investment Horizon: ${investmentHorizon} years
+${profileSection}
+              Your task is to:
+              1. Provide a concise summary of the investment strategy.
+              2. Recommend up to three options for each category: Mutual Funds, SIPs (Systematic Investment Plan), and Stocks.
+              3. For each recommendation, provide its name, a detailed rationale (including key metrics and performance insights), a confidence level (High, Medium, or Low), and a future trend prediction ('Up', 'Down', or 'Stable').
+              4. Use your search capabilities to ensure all information is up-to-date.
+
+              The final output MUST be a single, valid JSON object and nothing else. Do not include any text before or after it. Do not use markdown formatting like \`\`\`json.
+              The JSON structure must be:
               {
-                "category": "string",
-                "name": "string",
-                "rationale": "string",
-                "confidence": "string ('High', 'Medium', or 'Low')",
-                "prediction": "string ('Up', 'Down', or 'Stable')"
+                "summary": "string",
+                "recommendations": [
+                  {
+                    "category": "string",
+                    "name": "string",
+                    "rationale": "string",
+                    "confidence": "string ('High', 'Medium', or 'Low')",
+                    "prediction": "string ('Up', 'Down', or 'Stable')"
+                  }
+                ]
               }
-            ]
-          }
-        `;
+            `;
         
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                thinkingConfig: { thinkingBudget: 32768 },
-            }
-        });
+            const { value: advice, issues, sources } = await generateValidatedJson(ai, modelConfigFor(settings, 'advice'), prompt, validateFinancialAdvice, signal, onProgress && {
+                extract: parser => partialFinancialAdvice(parser.value, parser.isComplete),
+                onProgress,
+            });
 
-        let responseText = response.text.trim();
-        const jsonRegex = /```json\s*([\s\S]*?)\s*```/;
-        const match = responseText.match(jsonRegex);
-        if (match && match[1]) {
-          responseText = match[1];
+            return { advice, sources, issues };
+        } catch (error) {
+            console.error("Error getting financial advice:", error);
+            throw toAdvisorError(error, signal);
         }
+    };
 
-        const advice: FinancialAdvice = JSON.parse(responseText);
-        const sources: GroundingChunk[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-
-        return { advice, sources };
-    } catch (error) {
-        console.error("Error getting financial advice:", error);
-        throw new Error("Failed to fetch financial advice from the AI.");
-    }
-};
+    const getInvestmentPrediction = async (
+        holdings: Holding[],
+        language: string,
+        allocation?: string,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener<PartialPortfolioPrediction>
+    ): Promise<PredictionResult> => {
+        try {
+            const allocationSection = allocation ? `
+              The portfolio's allocation has already been calculated; use these figures as given rather than estimating them:
+              ---
+              ${allocation}
+              ---
+` : '';
+            const prompt = `
+              You are an expert financial analyst. Based on current market data and trends, analyze the following investment portfolio and provide a future outlook in ${language}.
+              User's portfolio (each line is one holding with its id, asset class, quantity, average cost and currency):
+              ---
+              ${formatHoldingsForPrompt(holdings)}
+              ---
+${allocationSection}
+              For each item in the portfolio, provide:
+              1. A brief analysis of its current standing.
+              2. A potential future outlook (e.g., potential for growth, stability, or risks).
+              3. A confidence score for your prediction (High, Medium, Low).
+              4. A future trend prediction ('Up', 'Down', or 'Stable').
+              5. The latest price of one unit in the holding's currency, if you can find it.
+              6. An overall summary of the portfolio's outlook, taking position sizes and cost basis into account${allocation ? ', and commenting on the allocation and the suggested rebalancing' : ''}.
 
-export const getInvestmentPrediction = async (
-    portfolio: string,
-    language: string
-): Promise<{ prediction: PortfolioPrediction, sources: GroundingChunk[] }> => {
-    try {
-        const prompt = `
-          You are an expert financial analyst. Based on current market data and trends, analyze the following investment portfolio and provide a future outlook in ${language}.
-          User's portfolio:
-          ---
-          ${portfolio}
-          ---
-
-          For each item in the portfolio, provide:
-          1. A brief analysis of its current standing.
-          2. A potential future outlook (e.g., potential for growth, stability, or risks).
-          3. A confidence score for your prediction (High, Medium, Low).
-          4. A future trend prediction ('Up', 'Down', or 'Stable').
-          5. An overall summary of the portfolio's outlook.
-
-          Use your search capabilities to find the most recent information. Your response must be a single, valid JSON object and nothing else. Do not use markdown. The structure should be:
-          {
-            "portfolioAnalysis": [
+              Use your search capabilities to find the most recent information. Your response must be a single, valid JSON object and nothing else. Do not use markdown. The structure should be:
               {
-                "name": "string (e.g., 'AAPL Stock', 'Vanguard S&P 500 ETF')",
-                "currentAnalysis": "string",
-                "futureOutlook": "string",
-                "confidence": "string ('High', 'Medium', or 'Low')",
-                "prediction": "string ('Up', 'Down', or 'Stable')"
+                "portfolioAnalysis": [
+                  {
+                    "holdingId": "string (the id given for the holding)",
+                    "name": "string (e.g., 'AAPL Stock', 'Vanguard S&P 500 ETF')",
+                    "currentPrice": "number (latest unit price in the holding's currency, or null if unknown)",
+                    "currentAnalysis": "string",
+                    "futureOutlook": "string",
+                    "confidence": "string ('High', 'Medium', or 'Low')",
+                    "prediction": "string ('Up', 'Down', or 'Stable')"
+                  }
+                ],
+                "overallSummary": "string"
               }
-            ],
-            "overallSummary": "string"
-          }
-        `;
-
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                thinkingConfig: { thinkingBudget: 32768 },
-            }
-        });
+            `;
+
+            const { value: prediction, issues, sources } = await generateValidatedJson(ai, modelConfigFor(settings, 'prediction'), prompt, validatePortfolioPrediction, signal, onProgress && {
+                extract: parser => partialPortfolioPrediction(parser.value, parser.isComplete),
+                onProgress,
+            });
+
+            return { prediction, sources, issues };
 
-        let responseText = response.text.trim();
-        const jsonRegex = /```json\s*([\s\S]*?)\s*```/;
-        const match = responseText.match(jsonRegex);
-        if (match && match[1]) {
-          responseText = match[1];
+        } catch (error) {
+            console.error("Error getting investment prediction:", error);
+            throw toAdvisorError(error, signal);
         }
-        
-        const prediction: PortfolioPrediction = JSON.parse(responseText);
-        const sources: GroundingChunk[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    };
+
+
+    // Each request starts a session from the stored history, so conversations
+    // can be resumed after a reload and switched freely.
+    const chatModel = modelConfigFor(settings, 'chat');
+    const createChat = ({ history, context }: ChatRequest): Chat => ai.chats.create({
+        model: chatModel.model,
+        history: toGeminiHistory(history),
+        config: chatConfig(context, chatModel),
+    });
 
-        return { prediction, sources };
+    const getChatResponse = async (request: ChatRequest, signal?: AbortSignal): Promise<string> => {
+        try {
+            const response: GenerateContentResponse = await createChat(request).sendMessage({
+                message: request.message,
+                config: { ...chatConfig(request.context, chatModel), abortSignal: signal },
+            });
+            ensureNotBlocked(response);
+            return response.text;
+        } catch (error) {
+            console.error("Error getting chat response:", error);
+            throw toAdvisorError(error, signal);
+        }
+    };
 
-    } catch (error)
-        {
-        console.error("Error getting investment prediction:", error);
-        throw new Error("Failed to fetch investment prediction from the AI.");
+    async function* streamChatResponse(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+        try {
+            // Per-request config replaces the chat's config, so the system instruction is repeated here.
+            const stream = await createChat(request).sendMessageStream({
+                message: request.message,
+                config: { ...chatConfig(request.context, chatModel), abortSignal: signal },
+            });
+            for await (const chunk of stream) {
+                if (signal?.aborted) return;
+                ensureNotBlocked(chunk);
+                if (chunk.text) yield chunk.text;
+            }
+        } catch (error) {
+            if (signal?.aborted) return;
+            console.error("Error streaming chat response:", error);
+            throw toAdvisorError(error);
+        }
     }
-};
 
+    const getTextToSpeechAudio = async (text: string, language: string, signal?: AbortSignal): Promise<string> => {
+        try {
+            const voiceName = voiceForLanguage(language, settings.voices);
 
-export const getChatResponse = async (message: string): Promise<string> => {
-    try {
-        if (!chatInstance) {
-            chatInstance = ai.chats.create({
-                model: 'gemini-2.5-flash',
+            const response = await ai.models.generateContent({
+                model: TTS_MODEL,
+                contents: [{ parts: [{ text: `In a clear, professional voice, say the following in ${language}: ${text}` }] }],
                 config: {
-                    systemInstruction: "You are a helpful assistant. Keep your answers concise and friendly.",
-                }
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: voiceName },
+                        },
+                    },
+                    abortSignal: signal,
+                },
             });
+            ensureNotBlocked(response);
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new ResponseValidationError(["no audio data in the response"], 1);
+            }
+            return base64Audio;
+        } catch (error) {
+            console.error("Error getting TTS audio:", error);
+            throw toAdvisorError(error, signal);
         }
-        const response: GenerateContentResponse = await chatInstance.sendMessage({ message });
-        return response.text;
-    } catch (error) {
-        console.error("Error getting chat response:", error);
-        throw new Error("Failed to get chat response from the AI.");
-    }
-};
+    };
 
-export const getTextToSpeechAudio = async (text: string, language: string): Promise<string> => {
-    try {
-        // Map language to a suitable voice. While specific language codes aren't used,
-        // we can select voices that may perform better for different languages.
-        let voiceName = 'Kore'; // Default voice with broad language support
-        switch (language.toLowerCase()) {
-            case 'english':
-                voiceName = 'Zephyr'; // A clear, standard voice often good for English.
-                break;
-            case 'hindi':
-                voiceName = 'Puck'; // Another voice with good multi-language support.
-                break;
-            case 'marathi':
-                voiceName = 'Kore'; // Known for its broad language capabilities.
-                break;
+    const transcribeAudio = async (audio: RecordedAudio, languageHint?: string, signal?: AbortSignal): Promise<string> => {
+        try {
+            const hint = languageHint ? ` The speaker is most likely using ${languageHint}.` : '';
+            const response = await ai.models.generateContent({
+                model: UTILITY_MODEL,
+                contents: [{
+                    parts: [
+                        { inlineData: { mimeType: audio.mimeType, data: audio.data } },
+                        { text: `Transcribe this recording exactly as spoken, in the script of the language spoken (Devanagari for Hindi and Marathi). Do not translate.${hint} Reply with the transcript only.` },
+                    ],
+                }],
+                config: { abortSignal: signal },
+            });
+            ensureNotBlocked(response);
+            return response.text.trim();
+        } catch (error) {
+            console.error("Error transcribing audio:", error);
+            throw toAdvisorError(error, signal);
         }
+    };
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: `In a clear, professional voice, say the following in ${language}: ${text}` }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: voiceName },
+    const extractAdviceInputs = async (transcript: string, signal?: AbortSignal): Promise<Partial<AdviceInputs>> => {
+        try {
+            const response = await ai.models.generateContent({
+                model: UTILITY_MODEL,
+                contents: `A user described what they want to invest, possibly in Hindi or Marathi: "${transcript}"
+                Extract the form fields they mentioned. Convert spoken amounts to plain numbers (e.g. "पाँच हज़ार" -> 5000, "2 lakh" -> 200000) and horizons to years.
+                Leave out any field that was not mentioned.`,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            investmentAmount: { type: Type.NUMBER },
+                            currency: { type: Type.STRING, description: 'ISO 4217 code of the amount, e.g. INR for rupees, lakh or crore, USD for dollars' },
+                            riskTolerance: { type: Type.STRING, enum: [...RISK_TOLERANCES] },
+                            investmentHorizon: { type: Type.NUMBER, description: 'Years' },
+                            language: { type: Type.STRING, enum: LANGUAGE_NAMES, description: 'Language the user wants the advice in' },
+                        },
                     },
+                    abortSignal: signal,
                 },
-            },
-        });
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received from API.");
+            });
+            ensureNotBlocked(response);
+            const { value, errors } = validateSpokenAdviceInputs(parseModelJson(response.text));
+            if (!value) throw new ResponseValidationError(errors, 1);
+            return value;
+        } catch (error) {
+            console.error("Error extracting advice inputs:", error);
+            throw toAdvisorError(error, signal);
         }
-        return base64Audio;
-    } catch (error) {
-        console.error("Error getting TTS audio:", error);
-        throw new Error("Failed to generate speech from the AI.");
-    }
-};
\ No newline at end of file
+    };
+
+    const reviewWatchItems = async (items: WatchItem[], language: string, signal?: AbortSignal): Promise<WatchReviewResult> => {
+        try {
+            const lines = items.map(item => {
+                const detail = item.holding ? formatHoldingsForPrompt([item.holding]).replace(/^- \[id: [^\]]*\] /, '') : `${item.name}, ${item.category}`;
+                return `- [id: ${item.id}] ${detail}. Previous outlook: ${item.prediction}, ${item.confidence} confidence.`;
+            });
+            const prompt = `
+              You are an expert financial analyst. The user is following these investments (each line has an id, the investment and your previous outlook):
+              ---
+              ${lines.join('\n')}
+              ---
+
+              Using the most recent information from your search capabilities, give a fresh outlook for each one in ${language}: a future trend prediction ('Up', 'Down', or 'Stable'), a confidence level (High, Medium, or Low) and a one or two sentence note on what changed or why it holds.
+              Your response must be a single, valid JSON object and nothing else. Do not use markdown. The structure should be:
+              {
+                "reviews": [
+                  {
+                    "itemId": "string (the id given for the item)",
+                    "prediction": "string ('Up', 'Down', or 'Stable')",
+                    "confidence": "string ('High', 'Medium', or 'Low')",
+                    "note": "string"
+                  }
+                ]
+              }
+            `;
+
+            const { value: reviews, issues, sources } = await generateValidatedJson(ai, modelConfigFor(settings, 'watch'), prompt, validateWatchReviews, signal);
+
+            return { reviews, sources, issues };
+        } catch (error) {
+            console.error("Error reviewing watchlist:", error);
+            throw toAdvisorError(error, signal);
+        }
+    };
+
+    return { getFinancialAdvice, getInvestmentPrediction, getChatResponse, streamChatResponse, getTextToSpeechAudio, transcribeAudio, extractAdviceInputs, reviewWatchItems };
+};
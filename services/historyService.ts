@@ -0,0 +1,21 @@
+import type { AdviceHistoryEntry, HistoryEntry, PredictionHistoryEntry } from '../types';
+import { withAdviceCurrency } from '../utils/currency';
+import { idbDelete, idbGetAll, idbPut } from '../utils/idb';
+
+const STORE = 'history';
+
+type NewHistoryEntry = Omit<AdviceHistoryEntry, 'id' | 'createdAt'> | Omit<PredictionHistoryEntry, 'id' | 'createdAt'>;
+
+export const saveHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+    const saved = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() } as HistoryEntry;
+    await idbPut(STORE, saved);
+    return saved;
+};
+
+/** Newest first. */
+export const listHistory = async <K extends HistoryEntry['kind']>(kind: K): Promise<Extract<HistoryEntry, { kind: K }>[]> => {
+    const entries = await idbGetAll<Extract<HistoryEntry, { kind: K }>>(STORE, 'kind', kind);
+    return entries.map(withAdviceCurrency).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<void> => idbDelete(STORE, id);
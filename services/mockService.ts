@@ -0,0 +1,139 @@
+import type { AdvisorProvider, ChatRequest, ProgressListener } from './advisorProvider';
+import { defaultFixtures, MockFixtures } from './fixtures';
+import { holdingLabel } from '../utils/portfolio';
+import { validateSpokenAdviceInputs } from '../utils/validation';
+
+const SAMPLE_RATE = 24000;
+
+// Rejects like fetch does when `signal` aborts, so cancelling can be exercised offline.
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+});
+
+// Spreads the latency over `steps`, reporting each as a streamed answer would.
+const streamSteps = async <P>(steps: P[], latencyMs: number, signal?: AbortSignal, onProgress?: ProgressListener<P>) => {
+    if (!onProgress) return wait(latencyMs, signal);
+    for (const step of steps) {
+        await wait(latencyMs / steps.length, signal);
+        onProgress(step);
+    }
+};
+
+// Silent 16-bit PCM, roughly as long as the text would take to read aloud.
+const silentPcmBase64 = (text: string): string => {
+    const seconds = Math.min(Math.max(text.length / 15, 0.5), 10);
+    const bytes = new Uint8Array(Math.round(seconds * SAMPLE_RATE) * 2);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// A keyword reply, else one naming the attached report's items, else the default.
+const chatReplyFor = (fixtures: MockFixtures, { message, context }: ChatRequest): string => {
+    const lower = message.toLowerCase();
+    const match = fixtures.chatReplies.find(entry => lower.includes(entry.keyword));
+    if (match) return match.reply;
+    if (context) {
+        const items = context.kind === 'advice' ? context.result.recommendations : context.result.portfolioAnalysis;
+        return `Looking at the attached ${context.kind === 'advice' ? 'plan' : 'prediction'}, it covers ${items.map(i => i.name).join(', ')}. ${fixtures.defaultChatReply}`;
+    }
+    return fixtures.defaultChatReply;
+};
+
+const MULTIPLIERS: Record<string, number> = { thousand: 1e3, k: 1e3, lakh: 1e5, lakhs: 1e5, crore: 1e7, crores: 1e7 };
+
+// Keyword matching is enough for the English fixture transcript.
+const adviceInputsFrom = (transcript: string) => {
+    const lower = transcript.toLowerCase();
+    const amount = lower.match(/(\d[\d,]*(?:\.\d+)?)\s*(thousand|k|lakhs?|crores?)?\b(?!\s*years?)/);
+    return validateSpokenAdviceInputs({
+        investmentAmount: amount ? Number(amount[1].replace(/,/g, '')) * (MULTIPLIERS[amount[2]] ?? 1) : undefined,
+        currency: /\b(lakhs?|crores?|rupees?|rs)\b|₹/.test(lower) ? 'INR' : /\b(dollars?|usd)\b|\$/.test(lower) ? 'USD' : undefined,
+        investmentHorizon: lower.match(/(\d+)\s*years?/)?.[1],
+        riskTolerance: lower.match(/\b(low|medium|high)\b/)?.[1],
+        language: lower.match(/\b(english|hindi|marathi)\b/)?.[1],
+    }).value ?? {};
+};
+
+/**
+ * Deterministic provider backed by fixtures, for offline development and
+ * component tests. Every call resolves with the same payload for the same input.
+ */
+export const createMockProvider = (fixtures: MockFixtures = defaultFixtures, latencyMs = 0): AdvisorProvider => ({
+    getFinancialAdvice: async (_amount, _currency, _risk, _horizon, _language, _riskProfile, signal, onProgress) => {
+        const advice = structuredClone(fixtures.advice);
+        const { summary, recommendations } = advice;
+        const steps = Array.from({ length: recommendations.length + 1 }, (_, count) => ({ summary, recommendations: recommendations.slice(0, count) }));
+        await streamSteps(steps, latencyMs, signal, onProgress);
+        return { advice, sources: [...fixtures.sources], issues: [] };
+    },
+
+    getInvestmentPrediction: async (holdings, _language, _allocation, signal, onProgress) => {
+        const prediction = structuredClone(fixtures.prediction);
+        if (holdings.length > 0) {
+            // Echo the user's holdings back so the cards line up with what was entered.
+            prediction.portfolioAnalysis = holdings.map((holding, index) => {
+                const template = fixtures.prediction.portfolioAnalysis[index % fixtures.prediction.portfolioAnalysis.length];
+                const drift = template.prediction === 'Up' ? 1.12 : template.prediction === 'Down' ? 0.9 : 1;
+                return {
+                    ...template,
+                    holdingId: holding.id,
+                    name: holdingLabel(holding),
+                    currentPrice: holding.averageCost > 0 ? Math.round(holding.averageCost * drift * 100) / 100 : undefined,
+                };
+            });
+        }
+        // The summary comes last, as the prompt asks the model for it.
+        const { portfolioAnalysis, overallSummary } = prediction;
+        const steps = [
+            ...portfolioAnalysis.map((_, index) => ({ portfolioAnalysis: portfolioAnalysis.slice(0, index + 1) })),
+            { portfolioAnalysis, overallSummary },
+        ];
+        await streamSteps(steps, latencyMs, signal, onProgress);
+        return { prediction, sources: [...fixtures.sources], issues: [] };
+    },
+
+    getChatResponse: async (request, signal) => {
+        await wait(latencyMs, signal);
+        return chatReplyFor(fixtures, request);
+    },
+
+    async *streamChatResponse(request, signal) {
+        await wait(latencyMs);
+        // One word at a time, so streaming UI can be exercised offline.
+        for (const word of chatReplyFor(fixtures, request).match(/\S+\s*/g) || []) {
+            if (signal?.aborted) return;
+            yield word;
+            await wait(latencyMs / 10);
+        }
+    },
+
+    getTextToSpeechAudio: async (text, _language, signal) => {
+        await wait(latencyMs, signal);
+        return silentPcmBase64(text);
+    },
+
+    transcribeAudio: async (_audio, _languageHint, signal) => {
+        await wait(latencyMs, signal);
+        return fixtures.transcript;
+    },
+
+    extractAdviceInputs: async (transcript, signal) => {
+        await wait(latencyMs, signal);
+        return adviceInputsFrom(transcript);
+    },
+
+    // Outlooks stay as they were, so a check offline never raises an alert.
+    reviewWatchItems: async (items, _language, signal) => {
+        await wait(latencyMs, signal);
+        const reviews = items.map(item => ({ itemId: item.id, prediction: item.prediction, confidence: item.confidence, note: item.note }));
+        return { reviews, sources: [...fixtures.sources], issues: [] };
+    },
+});
@@ -0,0 +1,180 @@
+import { decode, decodeAudioData } from '../utils/audio';
+
+const SAMPLE_RATE = 24000;
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export interface PlaybackSection {
+    // Lets the UI highlight whatever is being read, e.g. a recommendation card.
+    id: string;
+    text: string;
+    // Overrides the engine's language, e.g. for a chat reply in another script.
+    language?: string;
+}
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+    status: PlaybackStatus;
+    sections: PlaybackSection[];
+    currentIndex: number;
+    rate: number;
+    error: string | null;
+}
+
+export interface PlaybackEngine {
+    play(sections: PlaybackSection[], startIndex?: number): void;
+    pause(): void;
+    resume(): void;
+    stop(): void;
+    next(): void;
+    previous(): void;
+    setRate(rate: number): void;
+    subscribe(listener: () => void): () => void;
+    getState(): PlaybackState;
+    dispose(): void;
+}
+
+/**
+ * Reads a list of sections aloud one after another. Audio for the next few
+ * sections is requested while the current one plays, so there is no gap
+ * waiting for TTS between sections.
+ */
+export const createPlaybackEngine = (
+    fetchAudio: (section: PlaybackSection) => Promise<string>,
+    prefetchCount = 2
+): PlaybackEngine => {
+    let state: PlaybackState = { status: 'idle', sections: [], currentIndex: -1, rate: 1, error: null };
+    const listeners = new Set<() => void>();
+    let context: AudioContext | null = null;
+    let source: AudioBufferSourceNode | null = null;
+    let pending = new Map<number, Promise<string>>();
+    // Incremented on every play/skip/stop so late async results are ignored.
+    let generation = 0;
+
+    const setState = (patch: Partial<PlaybackState>) => {
+        state = { ...state, ...patch };
+        listeners.forEach(listener => listener());
+    };
+
+    const getContext = async (): Promise<AudioContext> => {
+        if (!context || context.state === 'closed') {
+            context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+        }
+        if (context.state === 'suspended') {
+            await context.resume();
+        }
+        return context;
+    };
+
+    const fetchSection = (index: number): Promise<string> => {
+        let request = pending.get(index);
+        if (!request) {
+            request = fetchAudio(state.sections[index]);
+            // Prefetch failures surface when the section is actually played.
+            request.catch(() => undefined);
+            pending.set(index, request);
+        }
+        return request;
+    };
+
+    const stopSource = () => {
+        if (!source) return;
+        source.onended = null;
+        try {
+            source.stop();
+        } catch {
+            // Already stopped.
+        }
+        source.disconnect();
+        source = null;
+    };
+
+    const playIndex = async (index: number) => {
+        const token = ++generation;
+        stopSource();
+        if (index < 0 || index >= state.sections.length) {
+            setState({ status: 'idle', currentIndex: -1 });
+            return;
+        }
+
+        setState({ status: 'loading', currentIndex: index, error: null });
+        for (let i = index; i < Math.min(index + 1 + prefetchCount, state.sections.length); i++) {
+            fetchSection(i);
+        }
+
+        try {
+            const audio = await fetchSection(index);
+            const ctx = await getContext();
+            const buffer = await decodeAudioData(decode(audio), ctx, SAMPLE_RATE, 1);
+            if (token !== generation) return;
+
+            const node = ctx.createBufferSource();
+            node.buffer = buffer;
+            node.playbackRate.value = state.rate;
+            node.connect(ctx.destination);
+            node.onended = () => {
+                if (token === generation) playIndex(index + 1);
+            };
+            node.start();
+            source = node;
+            setState({ status: 'playing' });
+        } catch (error) {
+            if (token !== generation) return;
+            console.error("Error playing audio section:", error);
+            pending.delete(index);
+            setState({ status: 'idle', currentIndex: -1, error: 'Failed to generate or play audio for a segment.' });
+        }
+    };
+
+    const stop = () => {
+        generation++;
+        stopSource();
+        if (context && context.state === 'running') {
+            context.suspend();
+        }
+        setState({ status: 'idle', currentIndex: -1 });
+    };
+
+    return {
+        play(sections, startIndex = 0) {
+            pending = new Map();
+            setState({ sections, error: null });
+            playIndex(startIndex);
+        },
+        pause() {
+            if (state.status !== 'playing' || !context) return;
+            context.suspend();
+            setState({ status: 'paused' });
+        },
+        resume() {
+            if (state.status !== 'paused' || !context) return;
+            context.resume();
+            setState({ status: 'playing' });
+        },
+        stop,
+        next() {
+            if (state.currentIndex === -1) return;
+            playIndex(state.currentIndex + 1);
+        },
+        previous() {
+            if (state.currentIndex === -1) return;
+            playIndex(Math.max(state.currentIndex - 1, 0));
+        },
+        setRate(rate) {
+            if (source) source.playbackRate.value = rate;
+            setState({ rate });
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        getState: () => state,
+        dispose() {
+            stop();
+            // A later play() creates a fresh context, so the engine stays usable.
+            context?.close();
+            context = null;
+        },
+    };
+};
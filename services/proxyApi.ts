@@ -0,0 +1,80 @@
+import type { AdviceInputs, Holding, PartialFinancialAdvice, PartialPortfolioPrediction, RiskProfile, WatchItem } from '../types';
+import type { AdviceResult, ChatRequest, PredictionResult, RecordedAudio } from './advisorProvider';
+import type { ProxyErrorCode } from './errors';
+
+// The wire format shared by the proxy server (server/) and the browser's proxy
+// provider. Every route takes a JSON POST body and answers with JSON, except
+// the streams, which answer with one JSON line each per update. Any body may
+// also carry the user's AdvisorSettings as `settings`; the server validates them.
+
+export const PROXY_ROUTES = {
+    advice: '/advice',
+    adviceStream: '/advice/stream',
+    prediction: '/prediction',
+    predictionStream: '/prediction/stream',
+    chat: '/chat',
+    chatStream: '/chat/stream',
+    tts: '/tts',
+    transcribe: '/transcribe',
+    extractInputs: '/extract-inputs',
+    watchReview: '/watch-review',
+} as const;
+
+export interface AdviceRequestBody {
+    investmentAmount: number;
+    currency: string;
+    riskTolerance: string;
+    investmentHorizon: number;
+    language: string;
+    riskProfile?: RiskProfile;
+}
+
+export interface PredictionRequestBody {
+    holdings: Holding[];
+    language: string;
+    allocation?: string;
+}
+
+export type ChatRequestBody = ChatRequest;
+
+export interface TtsRequestBody {
+    text: string;
+    language: string;
+}
+
+export interface TranscribeRequestBody {
+    audio: RecordedAudio;
+    languageHint?: string;
+}
+
+export interface ExtractInputsRequestBody {
+    transcript: string;
+}
+
+export interface WatchReviewRequestBody {
+    items: WatchItem[];
+    language: string;
+}
+
+export interface ChatReplyBody { reply: string }
+export interface TtsReplyBody { audio: string }
+export interface TranscribeReplyBody { text: string }
+export interface ExtractInputsReplyBody { inputs: Partial<AdviceInputs> }
+
+export interface ProxyErrorBody {
+    error: {
+        code: ProxyErrorCode;
+        message: string;
+        retryAfter?: number;
+        /** Set for validation_failed, so the browser can rebuild a ResponseValidationError. */
+        errors?: string[];
+        attempts?: number;
+    };
+}
+
+export type ChatStreamLine = { chunk: string } | ProxyErrorBody;
+
+/** Progress lines, then the result line; or an error line in their place. */
+export type AnalysisStreamLine<P, R> = { partial: P } | { result: R } | ProxyErrorBody;
+export type AdviceStreamLine = AnalysisStreamLine<PartialFinancialAdvice, AdviceResult>;
+export type PredictionStreamLine = AnalysisStreamLine<PartialPortfolioPrediction, PredictionResult>;
@@ -0,0 +1,142 @@
+import type { AdvisorSettings, PartialFinancialAdvice, PartialPortfolioPrediction } from '../types';
+import type { AdvisorProvider, AdviceResult, PredictionResult, ProgressListener, WatchReviewResult } from './advisorProvider';
+import { ProxyError, ResponseValidationError, toAdvisorError } from './errors';
+import {
+    AnalysisStreamLine, ChatReplyBody, ChatStreamLine, ExtractInputsReplyBody, PROXY_ROUTES, ProxyErrorBody, TranscribeReplyBody, TtsReplyBody,
+} from './proxyApi';
+
+// Rebuilds the server's error so callers can handle it as if the call were local.
+const errorFromBody = (body: ProxyErrorBody['error'] | undefined, status: number): Error => {
+    if (!body) return new ProxyError('upstream_error', `The advisor server answered with status ${status}.`, status);
+    if (body.code === 'validation_failed' && body.errors) {
+        return new ResponseValidationError(body.errors, body.attempts ?? 0);
+    }
+    return new ProxyError(body.code, body.message, status, body.retryAfter);
+};
+
+const readError = async (response: Response): Promise<Error> => {
+    try {
+        return errorFromBody(((await response.json()) as ProxyErrorBody).error, response.status);
+    } catch {
+        return errorFromBody(undefined, response.status);
+    }
+};
+
+// Yields each line of an NDJSON body as it arrives, throwing the error a line reports.
+async function* readLines<T extends object>(response: Response): AsyncGenerator<Exclude<T, ProxyErrorBody>> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim() === '') continue;
+                const parsed = JSON.parse(line) as T;
+                if ('error' in parsed) throw errorFromBody((parsed as ProxyErrorBody).error, response.status);
+                yield parsed as Exclude<T, ProxyErrorBody>;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Calls the proxy server in server/, which holds the Gemini API key, so the
+ * key never reaches the browser. `baseUrl` is where the server's routes live;
+ * `getSettings` is read for every request, so changes apply to the next call.
+ */
+export const createProxyProvider = (baseUrl: string = '/api', getSettings?: () => AdvisorSettings): AdvisorProvider => {
+    const request = (path: string, body: object, signal?: AbortSignal) =>
+        fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(getSettings ? { ...body, settings: getSettings() } : body),
+            signal,
+        });
+
+    // A failed fetch (server down, offline, aborted) becomes a 'network' or 'cancelled' AdvisorError.
+    const post = async <T>(path: string, body: object, signal?: AbortSignal): Promise<T> => {
+        try {
+            const response = await request(path, body, signal);
+            if (!response.ok) throw await readError(response);
+            return await (response.json() as Promise<T>);
+        } catch (error) {
+            throw toAdvisorError(error, signal);
+        }
+    };
+
+    async function* streamChatResponse(...[chat, signal]: Parameters<AdvisorProvider['streamChatResponse']>): AsyncGenerator<string> {
+        let response: Response;
+        try {
+            response = await request(PROXY_ROUTES.chatStream, chat, signal);
+        } catch (error) {
+            if (signal?.aborted) return;
+            throw toAdvisorError(error);
+        }
+        if (!response.ok || !response.body) throw await readError(response);
+
+        try {
+            for await (const line of readLines<ChatStreamLine>(response)) {
+                yield line.chunk;
+            }
+        } catch (error) {
+            if (signal?.aborted) return;
+            throw toAdvisorError(error);
+        }
+    }
+
+    // Without a listener the plain route is used; the stream route only pays off when progress is shown.
+    const postAnalysis = async <P, R>(
+        path: string,
+        streamPath: string,
+        body: object,
+        signal?: AbortSignal,
+        onProgress?: ProgressListener<P>
+    ): Promise<R> => {
+        if (!onProgress) return post<R>(path, body, signal);
+        try {
+            const response = await request(streamPath, body, signal);
+            if (!response.ok || !response.body) throw await readError(response);
+            for await (const line of readLines<AnalysisStreamLine<P, R>>(response)) {
+                if ('result' in line) return line.result;
+                onProgress(line.partial);
+            }
+            throw new ProxyError('upstream_error', 'The advisor server ended the stream without a result.', response.status);
+        } catch (error) {
+            throw toAdvisorError(error, signal);
+        }
+    };
+
+    return {
+        getFinancialAdvice: (investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile, signal, onProgress) =>
+            postAnalysis<PartialFinancialAdvice, AdviceResult>(
+                PROXY_ROUTES.advice,
+                PROXY_ROUTES.adviceStream,
+                { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile },
+                signal,
+                onProgress
+            ),
+        getInvestmentPrediction: (holdings, language, allocation, signal, onProgress) =>
+            postAnalysis<PartialPortfolioPrediction, PredictionResult>(
+                PROXY_ROUTES.prediction,
+                PROXY_ROUTES.predictionStream,
+                { holdings, language, allocation },
+                signal,
+                onProgress
+            ),
+        getChatResponse: async (chat, signal) => (await post<ChatReplyBody>(PROXY_ROUTES.chat, chat, signal)).reply,
+        streamChatResponse,
+        getTextToSpeechAudio: async (text, language, signal) => (await post<TtsReplyBody>(PROXY_ROUTES.tts, { text, language }, signal)).audio,
+        transcribeAudio: async (audio, languageHint, signal) =>
+            (await post<TranscribeReplyBody>(PROXY_ROUTES.transcribe, { audio, languageHint }, signal)).text,
+        extractAdviceInputs: async (transcript, signal) =>
+            (await post<ExtractInputsReplyBody>(PROXY_ROUTES.extractInputs, { transcript }, signal)).inputs,
+        reviewWatchItems: (items, language, signal) => post<WatchReviewResult>(PROXY_ROUTES.watchReview, { items, language }, signal),
+    };
+};
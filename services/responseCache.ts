@@ -0,0 +1,236 @@
+import type { Holding, RiskProfile } from '../types';
+import type { ProgressListener } from './advisorProvider';
+import { toAdvisorError } from './errors';
+import { createMemoryStore, getOrMiss, idbKeyedStore, KeyedStore } from '../utils/idb';
+
+const STORE = 'responses';
+const TTL_KEY = 'finance-advisor.cache-ttl';
+
+// Each entry is a whole advice or portfolio answer, a few KB of JSON.
+const MAX_ENTRIES = 50;
+
+/** Minutes a cached answer stays usable, as offered in the header; 0 turns the cache off. */
+export const CACHE_TTLS = [0, 15, 60, 360, 1440];
+export const DEFAULT_CACHE_TTL = 60;
+
+export interface CachedResponse {
+    key: string;
+    value: unknown;
+    createdAt: number;
+}
+
+export type ResponseCacheStore = KeyedStore<CachedResponse>;
+
+export const createMemoryResponseStore = (): ResponseCacheStore => createMemoryStore<CachedResponse>();
+
+export const idbResponseStore: ResponseCacheStore = idbKeyedStore<CachedResponse>(STORE);
+
+export const loadCacheTtl = (): number => {
+    try {
+        const stored = localStorage.getItem(TTL_KEY);
+        return stored !== null && CACHE_TTLS.includes(Number(stored)) ? Number(stored) : DEFAULT_CACHE_TTL;
+    } catch {
+        return DEFAULT_CACHE_TTL;
+    }
+};
+
+export const saveCacheTtl = (minutes: number): void => {
+    try {
+        localStorage.setItem(TTL_KEY, String(minutes));
+    } catch {
+        // Storage may be disabled; the choice then lasts for this visit only.
+    }
+};
+
+/**
+ * Amounts with the same two significant figures share advice (4,960 and
+ * 5,040 both become 5,000), so retyping a near-identical amount is a hit.
+ */
+export const bucketAmount = (amount: number): number =>
+    amount > 0 && Number.isFinite(amount) ? Number(amount.toPrecision(2)) : amount;
+
+/** `scope` names the provider and model settings, whose answers are cached apart. */
+export const adviceCacheKey = (
+    scope: string,
+    investmentAmount: number,
+    currency: string,
+    riskTolerance: string,
+    investmentHorizon: number,
+    language: string,
+    riskProfile?: RiskProfile,
+): string => JSON.stringify([
+    scope,
+    'advice',
+    bucketAmount(investmentAmount),
+    currency.trim().toUpperCase(),
+    riskTolerance,
+    investmentHorizon,
+    language.trim().toLowerCase(),
+    riskProfile ? Object.entries(riskProfile.answers).sort(([a], [b]) => a.localeCompare(b)) : null,
+]);
+
+// Ids are random per row, so they are left out and the rows put in a fixed order.
+const canonicalHolding = (holding: Holding): string => JSON.stringify([
+    holding.symbol.trim().toUpperCase(),
+    holding.name.trim().toLowerCase(),
+    holding.assetClass,
+    holding.quantity,
+    holding.averageCost,
+    holding.currency.trim().toUpperCase(),
+    holding.purchaseDate,
+    holding.sector?.trim().toLowerCase() ?? '',
+    holding.marketCap ?? '',
+    holding.geography ?? '',
+]);
+
+/** The holdings sorted by content, which is the order cached results refer to them by. */
+export const canonicalHoldings = (holdings: Holding[]): Holding[] =>
+    holdings
+        .map(holding => ({ holding, canonical: canonicalHolding(holding) }))
+        .sort((a, b) => a.canonical.localeCompare(b.canonical))
+        .map(({ holding }) => holding);
+
+export const predictionCacheKey = (scope: string, holdings: Holding[], language: string, allocation?: string): string =>
+    JSON.stringify([scope, 'prediction', language.trim().toLowerCase(), allocation ?? '', canonicalHoldings(holdings).map(canonicalHolding)]);
+
+export interface CacheOptions<P = unknown> {
+    /** Skips a cached answer and replaces it with a fresh one. */
+    forceRefresh?: boolean;
+    /** Cancels the request; it then rejects with an AdvisorError of kind 'cancelled'. */
+    signal?: AbortSignal;
+    /** Streams the answer, reporting it as it fills in. Not called for a cached answer. */
+    onProgress?: ProgressListener<P>;
+}
+
+export interface CacheRequest<T, P = unknown> {
+    key: string;
+    /** Aborted only once every caller sharing the load has cancelled. */
+    load: (signal: AbortSignal, onProgress: ProgressListener<P>) => Promise<T>;
+    /** Minutes a stored answer stays usable; 0 neither reads nor writes the store. */
+    ttlMinutes: number;
+    /**
+     * Converts to and from what is stored or shared with another caller, e.g.
+     * to replace ids that differ between runs; the partial pair does the same
+     * for progress.
+     */
+    encode?: (value: T) => unknown;
+    decode?: (stored: unknown) => T;
+    encodePartial?: (partial: P) => unknown;
+    decodePartial?: (shared: unknown) => P;
+}
+
+export interface Freshness {
+    /** When the stored answer was created; null when it was fetched for this call. */
+    cachedAt: number | null;
+}
+
+export interface CacheResult<T> extends Freshness {
+    value: T;
+}
+
+export interface ResponseCache {
+    run<T, P = unknown>(request: CacheRequest<T, P>, options?: CacheOptions<P>): Promise<CacheResult<T>>;
+}
+
+interface Sharer {
+    onProgress?: ProgressListener<unknown>;
+}
+
+// One load and everyone waiting on it; values and progress are kept encoded.
+interface Flight {
+    result: Promise<unknown>;
+    controller: AbortController;
+    sharers: Set<Sharer>;
+    latest: { partial: unknown } | null;
+}
+
+/**
+ * Serves repeated requests from `store` within their TTL and lets identical
+ * requests made while one is in flight share it, so a double-submit costs one
+ * model call. Each sharer keeps its own signal and progress listener; the load
+ * is aborted only when all of them have cancelled. Store failures (e.g. no
+ * IndexedDB) and a store that does not answer in time fall back to the network.
+ */
+export const createResponseCache = (store: ResponseCacheStore, maxEntries = MAX_ENTRIES, now = () => Date.now()): ResponseCache => {
+    const inFlight = new Map<string, Flight>();
+
+    const start = <T, P>({ key, load, ttlMinutes, encode = value => value, encodePartial = partial => partial }: CacheRequest<T, P>): Flight => {
+        const flight: Flight = { result: null, controller: new AbortController(), sharers: new Set(), latest: null };
+        flight.result = load(flight.controller.signal, partial => {
+            const shared = encodePartial(partial);
+            flight.latest = { partial: shared };
+            flight.sharers.forEach(sharer => sharer.onProgress?.(shared));
+        }).then(encode);
+        inFlight.set(key, flight);
+
+        // Rejections reach every sharer through `join`.
+        flight.result
+            .then(value => {
+                if (ttlMinutes <= 0) return;
+                store.put({ key, value, createdAt: now() })
+                    .then(() => store.prune(maxEntries))
+                    .catch(err => console.error("Error caching response:", err));
+            }, () => undefined)
+            .finally(() => {
+                if (inFlight.get(key) === flight) inFlight.delete(key);
+            });
+        return flight;
+    };
+
+    const join = <T, P>(
+        key: string,
+        flight: Flight,
+        decode: (stored: unknown) => T,
+        decodePartial: (shared: unknown) => P,
+        { signal, onProgress }: CacheOptions<P>,
+    ) => new Promise<CacheResult<T>>((resolve, reject) => {
+        const sharer: Sharer = { onProgress: onProgress && (shared => onProgress(decodePartial(shared))) };
+        // A caller joining late first catches up with what has arrived.
+        if (flight.latest) sharer.onProgress?.(flight.latest.partial);
+        flight.sharers.add(sharer);
+
+        const leave = () => {
+            flight.sharers.delete(sharer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            leave();
+            if (flight.sharers.size === 0) {
+                // Nobody is waiting any more; a new request starts afresh.
+                if (inFlight.get(key) === flight) inFlight.delete(key);
+                flight.controller.abort(signal.reason);
+            }
+            reject(toAdvisorError(signal.reason, signal));
+        };
+        signal?.addEventListener('abort', onAbort);
+
+        flight.result.then(
+            stored => {
+                leave();
+                resolve({ value: decode(stored), cachedAt: null });
+            },
+            error => {
+                leave();
+                reject(error);
+            },
+        );
+    });
+
+    return {
+        async run<T, P>(request: CacheRequest<T, P>, options: CacheOptions<P> = {}) {
+            const { key, ttlMinutes, decode = stored => stored as T, decodePartial = shared => shared as P } = request;
+            const { forceRefresh = false, signal } = options;
+            if (signal?.aborted) throw toAdvisorError(signal.reason, signal);
+
+            if (ttlMinutes > 0 && !forceRefresh) {
+                const cached = await getOrMiss(store, key);
+                if (cached && now() - cached.createdAt < ttlMinutes * 60 * 1000) {
+                    return { value: decode(cached.value), cachedAt: cached.createdAt };
+                }
+            }
+            if (signal?.aborted) throw toAdvisorError(signal.reason, signal);
+
+            return join(key, inFlight.get(key) ?? start(request), decode, decodePartial, options);
+        },
+    };
+};
@@ -0,0 +1,28 @@
+import type { RiskProfile } from '../types';
+import { createRiskProfile, isComplete } from '../utils/riskProfile';
+
+const STORAGE_KEY = 'finance-advisor.risk-profile';
+
+/**
+ * The saved questionnaire result, rescored from its answers so changes to the
+ * scoring apply. Null when none is stored or the answers no longer fit the questions.
+ */
+export const loadRiskProfile = (): RiskProfile | null => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return null;
+        const { answers, completedAt } = JSON.parse(stored) as Partial<RiskProfile>;
+        if (typeof answers !== 'object' || answers === null || !isComplete(answers)) return null;
+        return createRiskProfile(answers, typeof completedAt === 'number' ? completedAt : Date.now());
+    } catch {
+        return null;
+    }
+};
+
+export const saveRiskProfile = (profile: RiskProfile): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } catch {
+        // Storage may be disabled; the profile then lasts for this visit only.
+    }
+};
@@ -0,0 +1,127 @@
+import { AdvisorSettings, MODEL_FEATURES, MODEL_MODES, ModelFeature, ModelMode } from '../types';
+import { LANGUAGE_NAMES } from '../i18n/languages';
+import { TTS_VOICES } from './voices';
+
+const STORAGE_KEY = 'finance-advisor.settings';
+
+export const MODELS: Record<ModelMode, string> = {
+    fast: 'gemini-2.5-flash',
+    thorough: 'gemini-2.5-pro',
+};
+
+/** Speech, transcription and form filling have no setting; they need speed, not depth. */
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const UTILITY_MODEL = MODELS.fast;
+
+// The range gemini-2.5-pro accepts; it cannot switch thinking off.
+export const THINKING_BUDGET_MIN = 128;
+export const THINKING_BUDGET_MAX = 32768;
+
+// Answers about markets go stale; chat answers from the attached report.
+const GROUNDED_FEATURES: ModelFeature[] = ['advice', 'prediction', 'watch'];
+
+export const DEFAULT_SETTINGS: AdvisorSettings = {
+    models: { advice: 'thorough', prediction: 'thorough', watch: 'thorough', chat: 'fast' },
+    searchGrounding: true,
+    thinkingBudget: THINKING_BUDGET_MAX,
+    voices: {},
+};
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+    typeof input === 'object' && input !== null && !Array.isArray(input);
+
+/**
+ * Settings as stored or sent by the browser, with every unusable field reset
+ * to its default, so a bad value never reaches a model request.
+ */
+export function validateSettings(input: unknown): AdvisorSettings {
+    const settings = isRecord(input) ? input : {};
+    const models = isRecord(settings.models) ? settings.models : {};
+    const voices = isRecord(settings.voices) ? settings.voices : {};
+    const budget = settings.thinkingBudget;
+    return {
+        models: Object.fromEntries(MODEL_FEATURES.map(feature => [
+            feature,
+            (MODEL_MODES as readonly unknown[]).includes(models[feature]) ? models[feature] : DEFAULT_SETTINGS.models[feature],
+        ])) as Record<ModelFeature, ModelMode>,
+        searchGrounding: typeof settings.searchGrounding === 'boolean' ? settings.searchGrounding : DEFAULT_SETTINGS.searchGrounding,
+        thinkingBudget: typeof budget === 'number' && Number.isFinite(budget)
+            ? Math.min(Math.max(Math.round(budget), THINKING_BUDGET_MIN), THINKING_BUDGET_MAX)
+            : DEFAULT_SETTINGS.thinkingBudget,
+        voices: Object.fromEntries(Object.entries(voices).filter(([language, voice]) =>
+            LANGUAGE_NAMES.includes(language) && typeof voice === 'string' && TTS_VOICES.includes(voice))) as Record<string, string>,
+    };
+}
+
+export const loadSettings = (): AdvisorSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return validateSettings(stored ? JSON.parse(stored) : null);
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: AdvisorSettings): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Storage may be disabled; the settings then last for this visit only.
+    }
+};
+
+export interface ModelConfig {
+    model: string;
+    /** 0 switches thinking off, which only the fast model allows. */
+    thinkingBudget: number;
+    search: boolean;
+}
+
+/** What a request for `feature` should be sent with under `settings`. */
+export const modelConfigFor = (settings: AdvisorSettings, feature: ModelFeature): ModelConfig => {
+    const mode = settings.models[feature];
+    return {
+        model: MODELS[mode],
+        thinkingBudget: mode === 'thorough' ? settings.thinkingBudget : 0,
+        search: settings.searchGrounding && GROUNDED_FEATURES.includes(feature),
+    };
+};
+
+// Typical prompt and answer sizes per request, from the prompts in geminiService.
+const TYPICAL_TOKENS: Record<ModelFeature, { input: number; output: number }> = {
+    advice: { input: 1500, output: 1500 },
+    prediction: { input: 2500, output: 2000 },
+    watch: { input: 1500, output: 800 },
+    chat: { input: 2000, output: 400 },
+};
+
+// US$ per million tokens from the Gemini API price list; thinking is billed as output.
+const PRICES: Record<ModelMode, { input: number; output: number }> = {
+    fast: { input: 0.3, output: 2.5 },
+    thorough: { input: 1.25, output: 10 },
+};
+// Per grounded request once the free daily allowance is used up.
+const SEARCH_PRICE = 0.035;
+const SEARCH_SECONDS = 3;
+const TOKENS_PER_SECOND: Record<ModelMode, number> = { fast: 200, thorough: 80 };
+// Models seldom use their whole budget.
+const THINKING_USED = 0.5;
+
+export interface UsageEstimate {
+    costUsd: number;
+    /** Likely range of seconds until the whole answer has arrived. */
+    seconds: [number, number];
+}
+
+/** A rough price and wait for one `feature` request, to compare settings by rather than to budget with. */
+export const estimateUsage = (settings: AdvisorSettings, feature: ModelFeature): UsageEstimate => {
+    const mode = settings.models[feature];
+    const { thinkingBudget, search } = modelConfigFor(settings, feature);
+    const { input, output } = TYPICAL_TOKENS[feature];
+    const generated = output + thinkingBudget * THINKING_USED;
+    const seconds = 1 + generated / TOKENS_PER_SECOND[mode] + (search ? SEARCH_SECONDS : 0);
+    return {
+        costUsd: (input * PRICES[mode].input + generated * PRICES[mode].output) / 1e6 + (search ? SEARCH_PRICE : 0),
+        seconds: [Math.max(1, Math.round(seconds / 2)), Math.round(seconds * 1.5)],
+    };
+};
@@ -0,0 +1,42 @@
+import { runSimulation, SimulationInput, SimulationResult } from '../utils/simulation';
+
+type WorkerReply = { ok: true; result: SimulationResult } | { ok: false; error: string };
+
+/**
+ * Runs the simulation in a Web Worker, or inline where workers are missing.
+ * Aborting terminates the worker; the promise then rejects with an AbortError.
+ */
+export const simulate = (input: SimulationInput, signal?: AbortSignal): Promise<SimulationResult> => {
+    if (typeof Worker === 'undefined') {
+        return Promise.resolve().then(() => runSimulation(input));
+    }
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            reject(new DOMException('Simulation aborted', 'AbortError'));
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort);
+        worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+            finish();
+            if (event.data.ok === true) {
+                resolve(event.data.result);
+            } else {
+                reject(new Error(event.data.error));
+            }
+        };
+        worker.onerror = event => {
+            finish();
+            reject(new Error(event.message || 'Simulation worker failed'));
+        };
+        worker.postMessage(input);
+    });
+};
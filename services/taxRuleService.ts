@@ -0,0 +1,64 @@
+import { DEFAULT_TAX_RULES, TAX_CATEGORIES, TaxRule, TaxRuleTable } from '../utils/tax';
+
+const STORAGE_KEY = 'finance-advisor.tax-rules';
+
+const isRate = (value: unknown) => value === null || (typeof value === 'number' && value >= 0 && value <= 1);
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const sanitiseRule = (input: unknown): TaxRule | null => {
+    if (typeof input !== 'object' || input === null) return null;
+    const rule = input as TaxRule;
+    const monthsValid = rule.longTermAfterMonths === null || isNonNegative(rule.longTermAfterMonths);
+    if (!monthsValid || !isRate(rule.shortTermRate) || !isRate(rule.longTermRate) || !isNonNegative(rule.longTermExemption) || typeof rule.setOffAllowed !== 'boolean') {
+        return null;
+    }
+    return {
+        longTermAfterMonths: rule.longTermAfterMonths,
+        shortTermRate: rule.shortTermRate,
+        longTermRate: rule.longTermRate,
+        longTermExemption: rule.longTermExemption,
+        setOffAllowed: rule.setOffAllowed,
+    };
+};
+
+// A table missing any category, or with one malformed rule, is dropped whole.
+const sanitise = (input: unknown): TaxRuleTable[] | null => {
+    if (!Array.isArray(input)) return null;
+    const tables = input.flatMap((entry): TaxRuleTable[] => {
+        if (typeof entry !== 'object' || entry === null) return [];
+        const { version, effectiveFrom, cess, rules } = entry as TaxRuleTable;
+        if (typeof version !== 'string' || typeof effectiveFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom) || !isRate(cess) || cess === null) return [];
+        if (typeof rules !== 'object' || rules === null) return [];
+        const clean = TAX_CATEGORIES.map(category => [category, sanitiseRule(rules[category])] as const);
+        if (clean.some(([, rule]) => rule === null)) return [];
+        return [{ version, effectiveFrom, cess, rules: Object.fromEntries(clean) as TaxRuleTable['rules'] }];
+    });
+    return tables.length > 0 ? tables : null;
+};
+
+/** The user's rule tables, or the built-in ones if none are stored or they can't be read. */
+export const loadTaxRules = (): TaxRuleTable[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return (stored && sanitise(JSON.parse(stored))) || DEFAULT_TAX_RULES;
+    } catch {
+        return DEFAULT_TAX_RULES;
+    }
+};
+
+export const saveTaxRules = (tables: TaxRuleTable[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+    } catch {
+        // Storage may be disabled; edits then last for this visit only.
+    }
+};
+
+export const resetTaxRules = (): TaxRuleTable[] => {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Nothing stored to remove.
+    }
+    return DEFAULT_TAX_RULES;
+};
@@ -0,0 +1,50 @@
+import { createMemoryStore, getOrMiss, idbKeyedStore, KeyedStore } from '../utils/idb';
+import { voiceForLanguage } from './voices';
+
+const STORE = 'tts-audio';
+
+// Roughly 10–20 MB of base64 PCM at typical section lengths.
+const MAX_ENTRIES = 200;
+
+export interface CachedAudio {
+    key: string;
+    text: string;
+    language: string;
+    voice: string;
+    /** Base64 16-bit PCM, as returned by the provider. */
+    audio: string;
+    createdAt: number;
+}
+
+export type TtsCacheStore = KeyedStore<CachedAudio>;
+
+export const ttsCacheKey = (text: string, language: string, voice: string): string =>
+    [voice, language.trim().toLowerCase(), text.trim()].join('\u0000');
+
+export const createMemoryTtsStore = (): TtsCacheStore => createMemoryStore<CachedAudio>();
+
+export const idbTtsStore: TtsCacheStore = idbKeyedStore<CachedAudio>(STORE);
+
+/**
+ * Wraps a TTS call so repeated text in the same language and voice is served
+ * from the store. Store failures (e.g. no IndexedDB) and a store that does not
+ * answer in time fall back to the network.
+ */
+export const withTtsCache = (
+    fetchAudio: (text: string, language: string, signal?: AbortSignal) => Promise<string>,
+    store: TtsCacheStore,
+    voiceFor: (language: string) => string = voiceForLanguage,
+    maxEntries = MAX_ENTRIES
+) => async (text: string, language: string, signal?: AbortSignal): Promise<string> => {
+    const voice = voiceFor(language);
+    const key = ttsCacheKey(text, language, voice);
+
+    const cached = await getOrMiss(store, key);
+    if (cached) return cached.audio;
+
+    const audio = await fetchAudio(text, language, signal);
+    store.put({ key, text, language, voice, audio, createdAt: Date.now() })
+        .then(() => store.prune(maxEntries))
+        .catch(err => console.error("Error caching speech audio:", err));
+    return audio;
+};
@@ -0,0 +1,17 @@
+import { findLanguage } from '../i18n/languages';
+
+const DEFAULT_VOICE = 'Kore'; // Broad language support.
+
+/** The prebuilt voices of the Gemini TTS model. */
+export const TTS_VOICES = [
+    'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+    'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+    'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+// The TTS model takes no language code, so the voice is the only per-language knob.
+// `chosen` holds the user's picks by language name, from the settings.
+export const voiceForLanguage = (language: string, chosen: Record<string, string> = {}): string => {
+    const info = findLanguage(language);
+    return (info && chosen[info.name]) ?? info?.voice ?? DEFAULT_VOICE;
+};
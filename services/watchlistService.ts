@@ -0,0 +1,149 @@
+import type { Holding, PortfolioAnalysisItem, Recommendation, ValidationIssue, WatchAlert, WatchItem } from '../types';
+import { idbClear, idbDelete, idbGetAll, idbPut } from '../utils/idb';
+import { holdingLabel } from '../utils/portfolio';
+import { reviewWatchItems } from './advisorService';
+
+const ITEMS = 'watchlist';
+const ALERTS = 'watch-alerts';
+const INTERVAL_KEY = 'finance-advisor.watch-interval';
+
+/** Hours between checks that the user can choose; 0 pauses the scheduler. */
+export const WATCH_INTERVALS = [0, 1, 6, 24, 168];
+export const DEFAULT_WATCH_INTERVAL = 24;
+
+const HOUR = 60 * 60 * 1000;
+// First wait after a failed check; it doubles with each further failure.
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Ids are derived from what is watched, so pinning the same thing twice keeps one entry.
+export const recommendationWatchId = (recommendation: Recommendation): string =>
+    `recommendation:${recommendation.category}:${recommendation.name}`.toLowerCase();
+
+export const analysisWatchId = (item: PortfolioAnalysisItem, holding: Holding | null): string =>
+    holding ? `holding:${holding.id}` : `holding:${item.name.toLowerCase()}`;
+
+export const recommendationWatchItem = (recommendation: Recommendation, language: string): WatchItem => ({
+    id: recommendationWatchId(recommendation),
+    kind: 'recommendation',
+    name: recommendation.name,
+    category: recommendation.category,
+    language,
+    prediction: recommendation.prediction,
+    confidence: recommendation.confidence,
+    note: recommendation.rationale,
+    addedAt: Date.now(),
+    lastCheckedAt: null,
+});
+
+export const analysisWatchItem = (item: PortfolioAnalysisItem, holding: Holding | null, language: string): WatchItem => ({
+    id: analysisWatchId(item, holding),
+    kind: 'holding',
+    name: holding ? holdingLabel(holding) : item.name,
+    category: holding?.assetClass ?? '',
+    ...(holding ? { holding } : {}),
+    language,
+    prediction: item.prediction,
+    confidence: item.confidence,
+    note: item.futureOutlook,
+    addedAt: Date.now(),
+    lastCheckedAt: null,
+});
+
+/** Oldest first, in the order they were pinned. */
+export const listWatchItems = async (): Promise<WatchItem[]> => {
+    const items = await idbGetAll<WatchItem>(ITEMS);
+    return items.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const saveWatchItem = (item: WatchItem): Promise<void> => idbPut(ITEMS, item);
+
+export const removeWatchItem = (id: string): Promise<void> => idbDelete(ITEMS, id);
+
+/** Newest first. */
+export const listWatchAlerts = async (): Promise<WatchAlert[]> => {
+    const alerts = await idbGetAll<WatchAlert>(ALERTS);
+    return alerts.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const markWatchAlertsRead = async (alerts: WatchAlert[]): Promise<void> => {
+    await Promise.all(alerts.filter(alert => !alert.read).map(alert => idbPut(ALERTS, { ...alert, read: true })));
+};
+
+export const clearWatchAlerts = (): Promise<void> => idbClear(ALERTS);
+
+export const loadWatchInterval = (): number => {
+    try {
+        const stored = Number(localStorage.getItem(INTERVAL_KEY));
+        return localStorage.getItem(INTERVAL_KEY) !== null && WATCH_INTERVALS.includes(stored) ? stored : DEFAULT_WATCH_INTERVAL;
+    } catch {
+        return DEFAULT_WATCH_INTERVAL;
+    }
+};
+
+export const saveWatchInterval = (hours: number): void => {
+    try {
+        localStorage.setItem(INTERVAL_KEY, String(hours));
+    } catch {
+        // Storage may be disabled; the interval then lasts for this visit only.
+    }
+};
+
+/** Items not checked (or, if never checked, not pinned) within the interval. */
+export const dueWatchItems = (items: WatchItem[], intervalHours: number, now = Date.now()): WatchItem[] =>
+    intervalHours > 0 ? items.filter(item => (item.lastCheckedAt ?? item.addedAt) + intervalHours * HOUR <= now) : [];
+
+/**
+ * When the scheduler may try again after `failures` checks in a row failed,
+ * the last at `failedAt`. Failed items stay due, so without this a lasting
+ * outage would re-run the check every minute.
+ */
+export const nextRetryAt = (failures: number, failedAt: number, intervalHours: number): number =>
+    failedAt + Math.min(intervalHours * HOUR, RETRY_AFTER_MS * 2 ** Math.max(failures - 1, 0));
+
+export interface WatchCheckResult {
+    items: WatchItem[];
+    alerts: WatchAlert[];
+    issues: ValidationIssue[];
+}
+
+/**
+ * Re-analyses the items, one request per language they were pinned in, and
+ * stores an alert for every prediction or confidence that changed. Items the
+ * model skipped are still marked checked so they aren't retried every minute.
+ */
+export async function checkWatchlist(items: WatchItem[], now = Date.now()): Promise<WatchCheckResult> {
+    const languages = [...new Set(items.map(item => item.language))];
+    const updated: WatchItem[] = [];
+    const alerts: WatchAlert[] = [];
+    const issues: ValidationIssue[] = [];
+
+    for (const language of languages) {
+        const group = items.filter(item => item.language === language);
+        const result = await reviewWatchItems(group, language);
+        issues.push(...result.issues);
+        for (const item of group) {
+            const review = result.reviews.find(r => r.itemId === item.id);
+            if (!review) {
+                updated.push({ ...item, lastCheckedAt: now });
+                continue;
+            }
+            for (const field of ['prediction', 'confidence'] as const) {
+                if (review[field] === item[field]) continue;
+                alerts.push({
+                    id: crypto.randomUUID(),
+                    itemId: item.id,
+                    itemName: item.name,
+                    field,
+                    from: item[field],
+                    to: review[field],
+                    createdAt: now,
+                    read: false,
+                });
+            }
+            updated.push({ ...item, prediction: review.prediction, confidence: review.confidence, note: review.note, lastCheckedAt: now });
+        }
+    }
+
+    await Promise.all([...updated.map(item => idbPut(ITEMS, item)), ...alerts.map(alert => idbPut(ALERTS, alert))]);
+    return { items: updated, alerts, issues };
+}
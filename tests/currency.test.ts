@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Report } from '../types';
+import { convertAmount, currenciesIn, DEFAULT_EXCHANGE_RATES, ExchangeRateTable, roundMoney, withAdviceCurrency } from '../utils/currency';
+
+const table: ExchangeRateTable = { rates: { USD: 83, EUR: 90, JPY: 0.55, XYZ: 0, ABC: NaN }, updatedAt: 1 };
+
+describe('roundMoney', () => {
+    it('rounds halves away from zero, including binary near-halves', () => {
+        expect(roundMoney(1.005)).toBe(1.01);
+        expect(roundMoney(-1.005)).toBe(-1.01);
+        expect(roundMoney(2.675)).toBe(2.68);
+        expect(roundMoney(0.125)).toBe(0.13);
+        expect(roundMoney(-0.125)).toBe(-0.13);
+    });
+
+    it('leaves two-decimal values alone and rounds the rest to nearest', () => {
+        expect(roundMoney(12.34)).toBe(12.34);
+        expect(roundMoney(12.344)).toBe(12.34);
+        expect(roundMoney(-12.346)).toBe(-12.35);
+        expect(roundMoney(0)).toBe(0);
+    });
+});
+
+describe('convertAmount', () => {
+    it('returns the amount unrounded for the same currency, even without a rate', () => {
+        expect(convertAmount(10.005, 'USD', 'USD', table)).toBe(10.005);
+        expect(convertAmount(5, 'XYZ', 'XYZ', table)).toBe(5);
+    });
+
+    it('converts to and from the pivot', () => {
+        expect(convertAmount(10, 'USD', 'INR', table)).toBe(830);
+        expect(convertAmount(830, 'INR', 'USD', table)).toBe(10);
+    });
+
+    it('converts cross pairs through the pivot', () => {
+        // 100 USD = 8300 INR = 92.222... EUR
+        expect(convertAmount(100, 'USD', 'EUR', table)).toBe(92.22);
+        expect(convertAmount(1000, 'JPY', 'USD', table)).toBe(6.63);
+        expect(convertAmount(-100, 'USD', 'EUR', table)).toBe(-92.22);
+    });
+
+    it('returns null for a missing, zero or invalid rate', () => {
+        expect(convertAmount(1, 'GBP', 'INR', table)).toBeNull();
+        expect(convertAmount(1, 'INR', 'GBP', table)).toBeNull();
+        expect(convertAmount(1, 'XYZ', 'USD', table)).toBeNull();
+        expect(convertAmount(1, 'USD', 'ABC', table)).toBeNull();
+    });
+});
+
+describe('currenciesIn', () => {
+    it('lists the pivot first, then the rest alphabetically', () => {
+        expect(currenciesIn(DEFAULT_EXCHANGE_RATES)).toEqual(['INR', 'AED', 'EUR', 'GBP', 'SGD', 'USD']);
+        expect(currenciesIn({ rates: { USD: 83, INR: 1 }, updatedAt: null })).toEqual(['INR', 'USD']);
+    });
+});
+
+describe('withAdviceCurrency', () => {
+    it('gives legacy advice runs the dollar currency they were entered in', () => {
+        const legacy = { kind: 'advice', inputs: { investmentAmount: 1000 } } as unknown as Report;
+        expect(withAdviceCurrency(legacy).inputs).toMatchObject({ currency: 'USD', investmentAmount: 1000 });
+
+        const current = { kind: 'advice', inputs: { currency: 'INR' } } as unknown as Report;
+        expect(withAdviceCurrency(current)).toBe(current);
+    });
+});
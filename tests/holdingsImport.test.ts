@@ -0,0 +1,162 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+    BROKER_LAYOUTS, detectLayout, importWithLayout, importWithMapping, parseAmount, parseCsv, parseDate,
+} from '../utils/holdingsImport';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+const defaults = { assetClass: 'Stock' as const, currency: 'INR' };
+
+describe('parseCsv', () => {
+    it('keeps delimiters, quotes and line breaks inside quoted fields', () => {
+        expect(parseCsv('a,b,c\n"x, y","say ""hi""","two\nlines"\n')).toEqual([
+            ['a', 'b', 'c'],
+            ['x, y', 'say "hi"', 'two\nlines'],
+        ]);
+    });
+
+    it('sniffs semicolon and tab delimiters from the first line', () => {
+        expect(parseCsv('a;b;c\n1,5;2;3')).toEqual([['a', 'b', 'c'], ['1,5', '2', '3']]);
+        expect(parseCsv('a\tb\n1,000\t2')).toEqual([['a', 'b'], ['1,000', '2']]);
+    });
+
+    it('strips a byte order mark, trims cells and drops blank rows', () => {
+        expect(parseCsv('\uFEFFa , b\r\n\r\n,\r\n 1 ,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('keeps a last row without a trailing newline', () => {
+        expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('parseAmount', () => {
+    it('ignores currency symbols and Indian or Western grouping', () => {
+        expect(parseAmount('₹1,23,456.50')).toBe(123456.5);
+        expect(parseAmount('$ 1,234')).toBe(1234);
+        expect(parseAmount(' 42 ')).toBe(42);
+    });
+
+    it('reads accounting parentheses and a leading minus as negative', () => {
+        expect(parseAmount('(250.00)')).toBe(-250);
+        expect(parseAmount('-12.5')).toBe(-12.5);
+    });
+
+    it('returns NaN when there is no number', () => {
+        expect(parseAmount('')).toBeNaN();
+        expect(parseAmount('  ')).toBeNaN();
+        expect(parseAmount('N/A')).toBeNaN();
+        expect(parseAmount('1.2.3')).toBeNaN();
+    });
+});
+
+describe('parseDate', () => {
+    it('reads ISO, day-first and month-name dates', () => {
+        expect(parseDate('2023-01-15')).toBe('2023-01-15');
+        expect(parseDate('2023-1-5T10:00:00Z')).toBe('2023-01-05');
+        expect(parseDate('15/01/2023')).toBe('2023-01-15');
+        expect(parseDate('5-1-2023')).toBe('2023-01-05');
+        expect(parseDate('15.01.2023')).toBe('2023-01-15');
+        expect(parseDate('15 Jan 2023')).toBe('2023-01-15');
+        expect(parseDate('15-January-2023')).toBe('2023-01-15');
+        expect(parseDate('1 Mar, 2024')).toBe('2024-03-01');
+    });
+
+    it('returns an empty string for an empty cell', () => {
+        expect(parseDate('')).toBe('');
+        expect(parseDate('   ')).toBe('');
+    });
+
+    it('rejects impossible and unrecognised dates', () => {
+        expect(parseDate('31/02/2023')).toBeNull();
+        expect(parseDate('2023-13-01')).toBeNull();
+        expect(parseDate('29/02/2023')).toBeNull();
+        expect(parseDate('29/02/2024')).toBe('2024-02-29');
+        expect(parseDate('15 Foo 2023')).toBeNull();
+        expect(parseDate('01/15/23')).toBeNull();
+        expect(parseDate('yesterday')).toBeNull();
+    });
+});
+
+describe('detectLayout', () => {
+    it('finds a header on the first row', () => {
+        const detected = detectLayout(parseCsv(fixture('kite-holdings.csv')));
+        expect(detected?.layout.id).toBe('zerodha-kite');
+        expect(detected?.headerRow).toBe(0);
+    });
+
+    it('looks past preamble rows of account details', () => {
+        const groww = detectLayout(parseCsv(fixture('groww-holdings.csv')));
+        expect(groww?.layout.id).toBe('groww-stocks');
+        expect(groww?.headerRow).toBe(2);
+
+        const cas = detectLayout(parseCsv(fixture('cas-summary.csv')));
+        expect(cas?.layout.id).toBe('cas-summary');
+        expect(cas?.headerRow).toBe(3);
+    });
+
+    it('returns null for an unknown layout or a header beyond the search depth', () => {
+        expect(detectLayout(parseCsv('Symbol,Units\nINFY,10'))).toBeNull();
+        const deep = [...Array.from({ length: 25 }, (_, i) => [`note ${i}`]), ['Instrument', 'Qty.', 'Avg. cost']];
+        expect(detectLayout(deep)).toBeNull();
+    });
+});
+
+describe('importWithLayout', () => {
+    const importFixture = (name: string) => {
+        const rows = parseCsv(fixture(name));
+        const detected = detectLayout(rows)!;
+        return importWithLayout(rows, detected.layout, detected.headerRow, defaults);
+    };
+
+    it('imports Kite rows and rejects zero quantities and the total footer', () => {
+        const { holdings, rejected } = importFixture('kite-holdings.csv');
+        expect(holdings.map(h => [h.symbol, h.quantity, h.averageCost, h.currency])).toEqual([
+            ['INFY', 10, 1450.25, 'INR'],
+            ['TCS', 5, 3200, 'INR'],
+        ]);
+        expect(rejected.map(r => [r.line, r.reason])).toEqual([
+            [4, 'import.reason.quantity'],
+            [5, 'import.reason.quantity'],
+        ]);
+        expect(rejected[1].raw[0]).toBe('Total');
+    });
+
+    it('reads Groww rows after the preamble, keeping names and ISINs', () => {
+        const { holdings, rejected } = importFixture('groww-holdings.csv');
+        expect(rejected).toEqual([]);
+        expect(holdings.map(h => [h.symbol, h.name, h.quantity, h.averageCost])).toEqual([
+            ['INE009A01021', 'Infosys Ltd', 12, 1450],
+            ['INE002A01018', 'Reliance Industries; Ltd', 4, 2500.5],
+        ]);
+    });
+
+    it('derives CAS average cost from cost value and units, and rejects the total row', () => {
+        const { holdings, rejected } = importFixture('cas-summary.csv');
+        expect(holdings.map(h => [h.name, h.assetClass, h.quantity, h.averageCost])).toEqual([
+            ['Parag Parikh Flexi Cap Fund - Direct Plan, Growth', 'Mutual Fund', 1234.567, 64.8],
+            ['HDFC Index Fund - Nifty 50 Plan "Direct"', 'Mutual Fund', 300, 166.6667],
+        ]);
+        expect(rejected).toHaveLength(1);
+        expect(rejected[0]).toMatchObject({ line: 7, raw: ['Total', '', '', '', '', '1,30,000.00', '1,59,594.37'] });
+    });
+
+    it('rejects footer rows with fewer cells than the layout needs', () => {
+        const rows = [['Instrument', 'Qty.', 'Avg. cost'], ['INFY', '1', '1500'], ['Total', '1500']];
+        const kite = BROKER_LAYOUTS.find(l => l.id === 'zerodha-kite')!;
+        const { holdings, rejected } = importWithLayout(rows, kite, 0, defaults);
+        expect(holdings).toHaveLength(1);
+        expect(rejected).toEqual([{ line: 3, raw: ['Total', '1500'], reason: 'import.reason.layout' }]);
+    });
+});
+
+describe('importWithMapping', () => {
+    it('applies defaults to unmapped fields and rejects unreadable dates', () => {
+        const rows = parseCsv('Ticker\tUnits\tBought\nvoo\t3\t15/01/2023\nQQQ\t2\tlast year');
+        const { holdings, rejected } = importWithMapping(rows, { symbol: 0, quantity: 1, purchaseDate: 2 }, { assetClass: 'ETF', currency: 'usd' });
+        expect(holdings).toHaveLength(1);
+        expect(holdings[0]).toMatchObject({ symbol: 'VOO', quantity: 3, averageCost: 0, assetClass: 'ETF', currency: 'USD', purchaseDate: '2023-01-15' });
+        expect(rejected).toEqual([
+            { line: 3, raw: ['QQQ', '2', 'last year'], reason: 'import.reason.purchaseDate', params: { value: 'last year' } },
+        ]);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { parseChartSpec, parseInline, parseMarkdown, toSpeechText } from '../utils/markdown';
+
+const chart = (spec: unknown) => ['```chart', JSON.stringify(spec), '```'].join('\n');
+const SPEC = { type: 'line', title: 'Growth', labels: ['2021', '2022'], series: [{ name: 'Fund', values: [10.5, 12.1] }] };
+
+describe('parseInline', () => {
+    it('keeps web and mail links', () => {
+        expect(parseInline('[Fund page](https://example.com/fund)')).toEqual([
+            { type: 'link', href: 'https://example.com/fund', children: [{ type: 'text', text: 'Fund page' }] },
+        ]);
+        expect(parseInline('[Mail us](MAILTO:help@example.com)')[0]).toMatchObject({ type: 'link', href: 'MAILTO:help@example.com' });
+    });
+
+    it('renders script, data and relative links as their plain label', () => {
+        for (const href of ['javascript:alert%28document.cookie%29', 'JavaScript:void', 'data:text/html;base64,PHNjcmlwdD4=', '//evil.example', 'vbscript:msgbox']) {
+            expect(parseInline(`see [the fund](${href}) here`)).toEqual([
+                { type: 'text', text: 'see ' },
+                { type: 'text', text: 'the fund' },
+                { type: 'text', text: ' here' },
+            ]);
+        }
+    });
+
+    it('leaves markup inside code spans alone', () => {
+        expect(parseInline('`[x](javascript:y) **bold**`')).toEqual([{ type: 'code', text: '[x](javascript:y) **bold**' }]);
+    });
+
+    it('marks amounts and percentages as numbers', () => {
+        expect(parseInline('Put ₹5,000 or 12.5% in')).toEqual([
+            { type: 'text', text: 'Put ' },
+            { type: 'number', text: '₹5,000' },
+            { type: 'text', text: ' or ' },
+            { type: 'number', text: '12.5%' },
+            { type: 'text', text: ' in' },
+        ]);
+    });
+});
+
+describe('parseMarkdown tables', () => {
+    it('pads short rows and drops extra cells to the header width', () => {
+        const [table] = parseMarkdown('| Fund | Risk | Term |\n| :--- | :---: | ---: |\n| Gilt | Low |\n| Index | High | Long | extra |');
+        expect(table).toEqual({
+            type: 'table',
+            header: [[{ type: 'text', text: 'Fund' }], [{ type: 'text', text: 'Risk' }], [{ type: 'text', text: 'Term' }]],
+            align: ['left', 'center', 'right'],
+            rows: [
+                [[{ type: 'text', text: 'Gilt' }], [{ type: 'text', text: 'Low' }], []],
+                [[{ type: 'text', text: 'Index' }], [{ type: 'text', text: 'High' }], [{ type: 'text', text: 'Long' }]],
+            ],
+        });
+    });
+
+    it('ends a table at a blank line or a line without a pipe', () => {
+        const blocks = parseMarkdown('A | B\n--- | ---\nx | y\nAfter the table');
+        expect(blocks.map(block => block.type)).toEqual(['table', 'paragraph']);
+        expect(blocks[0]).toMatchObject({ align: [null, null], rows: [[[{ type: 'text', text: 'x' }], [{ type: 'text', text: 'y' }]]] });
+    });
+
+    it('needs a separator row to be a table', () => {
+        expect(parseMarkdown('A | B\nx | y').map(block => block.type)).toEqual(['paragraph']);
+    });
+});
+
+describe('parseMarkdown charts', () => {
+    it('turns a valid chart block into a chart', () => {
+        expect(parseMarkdown(chart(SPEC))).toEqual([{ type: 'chart', spec: SPEC }]);
+    });
+
+    it('falls back to a code block for malformed or unclosed chart JSON', () => {
+        expect(parseMarkdown('```chart\n{"type": "line", labels: }\n```')).toEqual([
+            { type: 'code', language: 'chart', text: '{"type": "line", labels: }' },
+        ]);
+        expect(parseMarkdown(`\`\`\`chart\n${JSON.stringify(SPEC)}`)[0]).toMatchObject({ type: 'code', language: 'chart' });
+    });
+
+    it('falls back to a code block for charts that are too big or do not add up', () => {
+        const labels = Array.from({ length: 61 }, (_, i) => String(i));
+        const rejected = [
+            { ...SPEC, labels, series: [{ name: 'Fund', values: labels.map(Number) }] },
+            { ...SPEC, series: Array.from({ length: 7 }, (_, i) => ({ name: `S${i}`, values: [1, 2] })) },
+            { ...SPEC, series: [{ name: 'Fund', values: [1] }] },
+            { ...SPEC, series: [{ name: 'Fund', values: [1, '2'] }] },
+            { ...SPEC, type: 'pie' },
+            { ...SPEC, labels: [] },
+        ];
+        for (const spec of rejected) {
+            expect(parseMarkdown(chart(spec))).toEqual([{ type: 'code', language: 'chart', text: JSON.stringify(spec) }]);
+        }
+    });
+});
+
+describe('parseChartSpec', () => {
+    it('accepts the limits and stringifies labels and names', () => {
+        const labels = Array.from({ length: 60 }, (_, i) => i);
+        const spec = parseChartSpec(JSON.stringify({ type: 'bar', labels, series: [{ values: labels }], title: 5 }));
+        expect(spec).toEqual({ type: 'bar', title: undefined, labels: labels.map(String), series: [{ name: '', values: labels }] });
+    });
+
+    it('rejects anything but an object', () => {
+        expect(parseChartSpec('null')).toBeNull();
+        expect(parseChartSpec('[1, 2]')).toBeNull();
+        expect(parseChartSpec('')).toBeNull();
+    });
+});
+
+describe('toSpeechText', () => {
+    it('reads text, lists and tables but skips code and charts', () => {
+        expect(toSpeechText(`# Plan\n\n- **Gilt** fund\n- Index\n\n\`\`\`js\nrun()\n\`\`\`\n\n${chart(SPEC)}\n\n| A | B |\n| - | - |\n| x | y |`))
+            .toBe('Plan\nGilt fund. Index\nx, y');
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createJsonStreamParser } from '../utils/partialJson';
+import { partialFinancialAdvice, partialPortfolioPrediction } from '../utils/validation';
+
+const DOCUMENT = JSON.stringify({
+    summary: 'Balanced "core" plan\nwith a tilt to ₹ debt',
+    recommendations: [
+        { name: 'Nifty 50 index fund', weight: 0.4, tags: ['equity', 'passive'], live: true },
+        { name: 'Gilt fund', weight: -1.5e-2, nested: { empty: [], none: null, off: false } },
+    ],
+}, null, 2);
+
+// Splits `text` into pieces of `size` characters, as a model stream might.
+const chunks = (text: string, size: number) =>
+    Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+const parse = (...pieces: string[]) => {
+    const parser = createJsonStreamParser();
+    pieces.forEach(piece => parser.push(piece));
+    return parser;
+};
+
+describe('createJsonStreamParser', () => {
+    it.each([1, 3, 7])('ends with what JSON.parse gives when fed %i characters at a time', size => {
+        const parser = parse(...chunks(DOCUMENT, size));
+        expect(parser.done).toBe(true);
+        expect(parser.value).toEqual(JSON.parse(DOCUMENT));
+    });
+
+    it('decodes escapes and \\u sequences split across chunks', () => {
+        const text = '{"quote":"say \\"hi\\"","path":"a\\\\b","tab":"x\\ty","rupee":"\\u20b9 5","emoji":"\\ud83d\\ude00"}';
+        for (const size of [1, 2, 5]) {
+            expect(parse(...chunks(text, size)).value).toEqual(JSON.parse(text));
+        }
+    });
+
+    it('keeps containers as soon as they open and values only once whole', () => {
+        const parser = parse('{"name":"Nif');
+        expect(parser.value).toEqual({});
+        parser.push('ty","items":[12');
+        expect(parser.value).toEqual({ name: 'Nifty', items: [] });
+        parser.push('3');
+        expect(parser.value).toEqual({ name: 'Nifty', items: [] });
+        parser.push('4,tr');
+        expect(parser.value).toEqual({ name: 'Nifty', items: [1234] });
+        parser.push('ue]');
+        expect(parser.value).toEqual({ name: 'Nifty', items: [1234, true] });
+        expect(parser.done).toBe(false);
+    });
+
+    it('skips text before the root and anything after it closes', () => {
+        const parser = parse('Here you go:\n```json\n{"a":', '1}\n```\nHope this helps {"b":2}');
+        expect(parser.done).toBe(true);
+        expect(parser.value).toEqual({ a: 1 });
+    });
+
+    it('has no value until the root opens', () => {
+        const parser = parse('```json\n');
+        expect(parser.value).toBeUndefined();
+        expect(parser.done).toBe(false);
+    });
+
+    it('tells closed nodes from open ones', () => {
+        const parser = parse('{"items":[{"a":1},{"b":');
+        const { items } = parser.value as { items: object[] };
+        expect(parser.isComplete(items[0])).toBe(true);
+        expect(parser.isComplete(items[1])).toBe(false);
+        expect(parser.isComplete(items)).toBe(false);
+        expect(parser.isComplete(parser.value)).toBe(false);
+
+        parser.push('2}]}');
+        expect(parser.isComplete(items[1])).toBe(true);
+        expect(parser.isComplete(parser.value)).toBe(true);
+        expect(parser.isComplete('text')).toBe(false);
+        expect(parser.isComplete(null)).toBe(false);
+    });
+
+    it('throws a SyntaxError once the text can no longer be JSON', () => {
+        expect(() => parse('{"a" 1}')).toThrow(SyntaxError);
+        expect(() => parse('{a:1}')).toThrow(SyntaxError);
+        expect(() => parse('[1,]')).toThrow(SyntaxError);
+        expect(() => parse('{"a":1', '.2.3}')).toThrow(/Invalid JSON value 1\.2\.3/);
+        expect(() => parse('[tru', 'ly]')).toThrow(SyntaxError);
+    });
+});
+
+describe('partial answers', () => {
+    const recommendation = (name: string) => ({ category: 'Equity', name, rationale: 'Diversified.', confidence: 'High', prediction: 'Up' });
+    const analysis = (holdingId: string) => ({
+        holdingId, name: holdingId, currentAnalysis: 'Steady.', futureOutlook: 'Good.', confidence: 'Medium', prediction: 'Stable',
+    });
+
+    it('shows advice items once they close and validate, and the summary once whole', () => {
+        const text = JSON.stringify({ summary: 'Stay the course.', recommendations: [recommendation('A'), { name: 'B' }, recommendation('C')] });
+        const cut = text.indexOf('"name":"C"');
+
+        const parser = parse(text.slice(0, cut));
+        expect(partialFinancialAdvice(parser.value, parser.isComplete)).toEqual({
+            summary: 'Stay the course.',
+            recommendations: [recommendation('A')],
+        });
+
+        parser.push(text.slice(cut));
+        expect(partialFinancialAdvice(parser.value, parser.isComplete)).toEqual({
+            summary: 'Stay the course.',
+            recommendations: [recommendation('A'), recommendation('C')],
+        });
+    });
+
+    it('leaves out a summary still arriving', () => {
+        const parser = parse('{"recommendations":[],"summary":"Stay the');
+        expect(partialFinancialAdvice(parser.value, parser.isComplete)).toEqual({ summary: undefined, recommendations: [] });
+        expect(partialFinancialAdvice(undefined, parser.isComplete)).toEqual({ recommendations: [] });
+    });
+
+    it('shows portfolio items once they close, with the summary after them', () => {
+        const text = JSON.stringify({ portfolioAnalysis: [analysis('h1'), analysis('h2')], overallSummary: 'Well spread.' });
+        const parser = parse(text.slice(0, text.indexOf('"h2"') + 10));
+        expect(partialPortfolioPrediction(parser.value, parser.isComplete)).toEqual({
+            portfolioAnalysis: [analysis('h1')],
+            overallSummary: undefined,
+        });
+
+        parser.push(text.slice(text.indexOf('"h2"') + 10));
+        expect(partialPortfolioPrediction(parser.value, parser.isComplete)).toEqual({
+            portfolioAnalysis: [analysis('h1'), analysis('h2')],
+            overallSummary: 'Well spread.',
+        });
+        expect(partialPortfolioPrediction([], parser.isComplete)).toEqual({ portfolioAnalysis: [] });
+    });
+});
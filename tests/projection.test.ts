@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { inflateTarget, monthlyRate, projectInvestment, requiredMonthlySip } from '../utils/projection';
+
+const base = { lumpSum: 0, monthlySip: 0, years: 1, annualReturn: 0, inflation: 0 };
+
+describe('monthlyRate', () => {
+    it('compounds back to the annual rate over 12 months', () => {
+        expect(Math.pow(1 + monthlyRate(0.12), 12)).toBeCloseTo(1.12, 12);
+        expect(monthlyRate(0)).toBe(0);
+    });
+});
+
+describe('projectInvestment', () => {
+    it('adds up a SIP with no growth at a zero rate', () => {
+        const projection = projectInvestment({ ...base, monthlySip: 1000 });
+        expect(projection.invested).toBe(12000);
+        expect(projection.futureValue).toBe(12000);
+        expect(projection.realValue).toBe(12000);
+    });
+
+    it('compounds a lump sum by the annual rate each year', () => {
+        const { schedule, futureValue, invested } = projectInvestment({ ...base, lumpSum: 100000, years: 3, annualReturn: 0.1 });
+        expect(schedule.map(row => row.value)).toEqual([
+            expect.closeTo(110000, 6),
+            expect.closeTo(121000, 6),
+            expect.closeTo(133100, 6),
+        ]);
+        expect(schedule.every(row => row.invested === 100000)).toBe(true);
+        expect(invested).toBe(100000);
+        expect(futureValue).toBeCloseTo(133100, 6);
+    });
+
+    it('grows each SIP instalment from the start of its month', () => {
+        const rate = monthlyRate(0.12);
+        // The first instalment grows 12 months, the last one 1 month.
+        const expected = Array.from({ length: 12 }, (_, i) => 1000 * Math.pow(1 + rate, 12 - i)).reduce((a, b) => a + b);
+        expect(projectInvestment({ ...base, monthlySip: 1000, annualReturn: 0.12 }).futureValue).toBeCloseTo(expected, 6);
+    });
+
+    it("deflates each year's value into today's money", () => {
+        const { schedule } = projectInvestment({ ...base, lumpSum: 1000, years: 2, annualReturn: 0.06, inflation: 0.06 });
+        expect(schedule[0].realValue).toBeCloseTo(1000, 6);
+        expect(schedule[1].realValue).toBeCloseTo(1000, 6);
+    });
+
+    it('floors fractional years and treats none as the lump sum today', () => {
+        expect(projectInvestment({ ...base, monthlySip: 100, years: 2.9 }).schedule).toHaveLength(2);
+        const none = projectInvestment({ ...base, lumpSum: 500, monthlySip: 100, years: 0.5, annualReturn: 0.1 });
+        expect(none).toEqual({ schedule: [], invested: 500, futureValue: 500, realValue: 500 });
+        expect(projectInvestment({ ...base, years: -3 }).schedule).toEqual([]);
+    });
+});
+
+describe('inflateTarget', () => {
+    it('inflates over whole years only', () => {
+        expect(inflateTarget(100, 0.1, 2)).toBeCloseTo(121, 10);
+        expect(inflateTarget(100, 0.1, 2.7)).toBeCloseTo(121, 10);
+        expect(inflateTarget(100, 0.1, 0)).toBe(100);
+    });
+});
+
+describe('requiredMonthlySip', () => {
+    it('finds the SIP whose projection reaches the inflated target', () => {
+        const inputs = { lumpSum: 100000, years: 10, annualReturn: 0.1, inflation: 0.06 };
+        const sip = requiredMonthlySip(2000000, inputs)!;
+        expect(sip).toBeGreaterThan(0);
+        expect(projectInvestment({ ...inputs, monthlySip: sip }).realValue).toBeCloseTo(2000000, 4);
+    });
+
+    it('divides the target evenly at a zero rate', () => {
+        expect(requiredMonthlySip(12000, { ...base, years: 1 })).toBe(1000);
+    });
+
+    it('returns 0 when the lump sum alone reaches the target', () => {
+        expect(requiredMonthlySip(100000, { ...base, lumpSum: 100000, years: 5, annualReturn: 0.08 })).toBe(0);
+        expect(requiredMonthlySip(0, { ...base, years: 5 })).toBe(0);
+    });
+
+    it('returns null when there is no whole year to invest over', () => {
+        expect(requiredMonthlySip(100000, { ...base, years: 0 })).toBeNull();
+        expect(requiredMonthlySip(100000, { ...base, years: 0.9 })).toBeNull();
+    });
+
+    it('floors fractional years', () => {
+        const inputs = { ...base, annualReturn: 0.1, inflation: 0.05 };
+        expect(requiredMonthlySip(500000, { ...inputs, years: 3.8 })).toBe(requiredMonthlySip(500000, { ...inputs, years: 3 }));
+    });
+});
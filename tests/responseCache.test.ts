@@ -0,0 +1,276 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Holding, RiskProfile } from '../types';
+import { AdvisorError } from '../services/errors';
+import {
+    adviceCacheKey, CacheRequest, createMemoryResponseStore, createResponseCache, predictionCacheKey, ResponseCacheStore,
+} from '../services/responseCache';
+
+const MINUTE = 60 * 1000;
+
+// Caching happens after the answer is returned; let it finish.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const deferred = <T>() => {
+    let resolve: (value: T) => void;
+    let reject: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+const clock = (start = 1_000_000) => {
+    const now = { time: start, read: () => now.time };
+    return now;
+};
+
+const answer = (key: string, load: CacheRequest<string>['load'], ttlMinutes = 60): CacheRequest<string> => ({ key, load, ttlMinutes });
+
+describe('createResponseCache', () => {
+    it('serves a stored answer until its TTL has passed', async () => {
+        const now = clock();
+        const cache = createResponseCache(createMemoryResponseStore(), 50, now.read);
+        const load = vi.fn(async () => 'fresh');
+
+        expect(await cache.run(answer('a', load))).toEqual({ value: 'fresh', cachedAt: null });
+        await settle();
+        const storedAt = now.time;
+
+        now.time += 59 * MINUTE;
+        expect(await cache.run(answer('a', load))).toEqual({ value: 'fresh', cachedAt: storedAt });
+        expect(load).toHaveBeenCalledTimes(1);
+
+        now.time += MINUTE;
+        expect((await cache.run(answer('a', load))).cachedAt).toBeNull();
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('neither reads nor writes the store with a TTL of 0', async () => {
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store);
+        const load = vi.fn(async () => 'fresh');
+        await cache.run(answer('a', load, 0));
+        await settle();
+        await cache.run(answer('a', load, 0));
+        expect(load).toHaveBeenCalledTimes(2);
+        expect(await store.get('a')).toBeUndefined();
+    });
+
+    it('replaces a stored answer when forced to refresh', async () => {
+        const now = clock();
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store, 50, now.read);
+        await cache.run(answer('a', async () => 'old'));
+        await settle();
+
+        now.time += MINUTE;
+        expect(await cache.run(answer('a', async () => 'new'), { forceRefresh: true })).toEqual({ value: 'new', cachedAt: null });
+        await settle();
+        expect(await store.get('a')).toEqual({ key: 'a', value: 'new', createdAt: now.time });
+    });
+
+    it('loads the store through encode and reads it through decode', async () => {
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store);
+        const request: CacheRequest<{ id: string }> = {
+            key: 'a',
+            load: async () => ({ id: 'row-7' }),
+            ttlMinutes: 60,
+            encode: value => ({ index: Number(value.id.slice(4)) }),
+            decode: stored => ({ id: `row-${(stored as { index: number }).index}` }),
+        };
+        expect((await cache.run(request)).value).toEqual({ id: 'row-7' });
+        await settle();
+        expect((await store.get('a'))?.value).toEqual({ index: 7 });
+        expect((await cache.run(request)).value).toEqual({ id: 'row-7' });
+    });
+
+    it('keeps only the newest maxEntries', async () => {
+        const now = clock();
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store, 2, now.read);
+        for (const key of ['one', 'two', 'three']) {
+            now.time += 1;
+            await cache.run(answer(key, async () => key));
+            await settle();
+        }
+        expect(await store.get('one')).toBeUndefined();
+        expect((await store.get('two'))?.value).toBe('two');
+        expect((await store.get('three'))?.value).toBe('three');
+    });
+
+    it('falls back to loading when the store fails', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const broken: ResponseCacheStore = {
+            get: async () => { throw new Error('No IndexedDB'); },
+            put: async () => { throw new Error('No IndexedDB'); },
+            prune: async () => undefined,
+        };
+        const load = vi.fn(async () => 'fresh');
+        expect(await createResponseCache(broken).run(answer('a', load))).toEqual({ value: 'fresh', cachedAt: null });
+        await settle();
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(error).toHaveBeenCalled();
+        error.mockRestore();
+    });
+
+    it('falls back to loading when the store does not answer', async () => {
+        vi.useFakeTimers();
+        try {
+            const stuck: ResponseCacheStore = { ...createMemoryResponseStore(), get: () => new Promise(() => undefined) };
+            const load = vi.fn(async () => 'fresh');
+            const result = createResponseCache(stuck).run(answer('a', load));
+            await vi.advanceTimersByTimeAsync(1999);
+            expect(load).not.toHaveBeenCalled();
+            await vi.advanceTimersByTimeAsync(1);
+            expect(await result).toEqual({ value: 'fresh', cachedAt: null });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('rejects every caller when the load fails, and stores nothing', async () => {
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store);
+        const failure = new AdvisorError('network', 'offline');
+        const load = async () => { throw failure; };
+        const results = await Promise.allSettled([cache.run(answer('a', load)), cache.run(answer('a', load))]);
+        expect(results).toEqual([{ status: 'rejected', reason: failure }, { status: 'rejected', reason: failure }]);
+        await settle();
+        expect(await store.get('a')).toBeUndefined();
+    });
+});
+
+describe('createResponseCache in-flight sharing', () => {
+    it('lets concurrent identical requests share one load', async () => {
+        const cache = createResponseCache(createMemoryResponseStore());
+        const pending = deferred<string>();
+        const load = vi.fn(() => pending.promise);
+
+        const first = cache.run(answer('a', load));
+        const second = cache.run(answer('a', load));
+        await settle();
+        pending.resolve('shared');
+
+        expect(await first).toEqual({ value: 'shared', cachedAt: null });
+        expect(await second).toEqual({ value: 'shared', cachedAt: null });
+        expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports progress to each sharer, replaying the latest to one joining late', async () => {
+        const cache = createResponseCache(createMemoryResponseStore());
+        const pending = deferred<string>();
+        let report: (partial: string) => void;
+        const request: CacheRequest<string, string> = {
+            key: 'a',
+            load: (_signal, onProgress) => {
+                report = onProgress;
+                return pending.promise;
+            },
+            ttlMinutes: 60,
+            encodePartial: partial => partial.toUpperCase(),
+            decodePartial: shared => `${shared}!`,
+        };
+        const firstProgress = vi.fn();
+        const secondProgress = vi.fn();
+
+        const first = cache.run(request, { onProgress: firstProgress });
+        await settle();
+        report('he');
+        const second = cache.run(request, { onProgress: secondProgress });
+        await settle();
+        report('hello');
+        pending.resolve('hello world');
+        await Promise.all([first, second]);
+
+        expect(firstProgress.mock.calls).toEqual([['HE!'], ['HELLO!']]);
+        expect(secondProgress.mock.calls).toEqual([['HE!'], ['HELLO!']]);
+    });
+
+    it('rejects only the caller that cancels while another still waits', async () => {
+        const cache = createResponseCache(createMemoryResponseStore());
+        const pending = deferred<string>();
+        let loadSignal: AbortSignal;
+        const load = (signal: AbortSignal) => {
+            loadSignal = signal;
+            return pending.promise;
+        };
+        const controller = new AbortController();
+
+        const first = cache.run(answer('a', load), { signal: controller.signal });
+        const second = cache.run(answer('a', load));
+        await settle();
+        controller.abort();
+
+        await expect(first).rejects.toMatchObject({ kind: 'cancelled' });
+        expect(loadSignal.aborted).toBe(false);
+        pending.resolve('still wanted');
+        expect(await second).toEqual({ value: 'still wanted', cachedAt: null });
+    });
+
+    it('aborts the load once every sharer has cancelled, and starts afresh after', async () => {
+        const store = createMemoryResponseStore();
+        const cache = createResponseCache(store);
+        const signals: AbortSignal[] = [];
+        const load = vi.fn((signal: AbortSignal) => {
+            signals.push(signal);
+            return new Promise<string>((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+        });
+        const firstController = new AbortController();
+        const secondController = new AbortController();
+
+        const first = cache.run(answer('a', load), { signal: firstController.signal });
+        const second = cache.run(answer('a', load), { signal: secondController.signal });
+        await settle();
+        firstController.abort();
+        expect(signals[0].aborted).toBe(false);
+        secondController.abort();
+        expect(signals[0].aborted).toBe(true);
+        await expect(first).rejects.toBeInstanceOf(AdvisorError);
+        await expect(second).rejects.toMatchObject({ kind: 'cancelled' });
+
+        const third = cache.run(answer('a', async () => 'again'));
+        expect(await third).toEqual({ value: 'again', cachedAt: null });
+        await settle();
+        expect((await store.get('a'))?.value).toBe('again');
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+        const cache = createResponseCache(createMemoryResponseStore());
+        const load = vi.fn(async () => 'fresh');
+        await expect(cache.run(answer('a', load), { signal: AbortSignal.abort() })).rejects.toMatchObject({ kind: 'cancelled' });
+        expect(load).not.toHaveBeenCalled();
+    });
+});
+
+describe('cache keys', () => {
+    const holding = (id: string, symbol: string, quantity: number): Holding => ({
+        id, symbol, name: symbol, assetClass: 'Stock', quantity, averageCost: 100, currency: 'INR', purchaseDate: '',
+    });
+
+    it('buckets advice amounts to two significant figures and normalises text', () => {
+        const key = (amount: number, currency = 'INR', language = 'English') =>
+            adviceCacheKey('scope', amount, currency, 'Medium', 5, language);
+        expect(key(4960)).toBe(key(5040));
+        expect(key(4960, ' inr ', ' english ')).toBe(key(5000));
+        expect(key(4940)).not.toBe(key(5000));
+        expect(key(5000)).not.toBe(adviceCacheKey('other scope', 5000, 'INR', 'Medium', 5, 'English'));
+    });
+
+    it('keys advice by the risk answers, not when they were given', () => {
+        const profile = (completedAt: number, answers: Partial<RiskProfile['answers']>): RiskProfile =>
+            ({ answers: answers as RiskProfile['answers'], score: 50, tolerance: 'Medium', completedAt });
+        const key = (riskProfile: RiskProfile) => adviceCacheKey('scope', 5000, 'INR', 'Medium', 5, 'English', riskProfile);
+        expect(key(profile(1, { age: 'under30', experience: 'none' }))).toBe(key(profile(2, { experience: 'none', age: 'under30' })));
+        expect(key(profile(1, { age: 'under30' }))).not.toBe(key(profile(1, { age: '30to44' })));
+    });
+
+    it('keys predictions by holdings whatever their order and ids', () => {
+        const key = (holdings: Holding[]) => predictionCacheKey('scope', holdings, 'English');
+        expect(key([holding('1', 'INFY', 10), holding('2', 'TCS', 5)])).toBe(key([holding('b', 'tcs', 5), holding('a', 'INFY', 10)]));
+        expect(key([holding('1', 'INFY', 10)])).not.toBe(key([holding('1', 'INFY', 11)]));
+        expect(predictionCacheKey('scope', [holding('1', 'INFY', 10)], 'English', 'equity'))
+            .not.toBe(key([holding('1', 'INFY', 10)]));
+    });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdvisorError, toAdvisorError } from '../services/errors';
+import { RetryOptions, withRetry } from '../utils/retry';
+
+// No jitter: random() of 1 keeps the full backoff.
+const POLICY: RetryOptions = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000, timeoutMs: 30_000, random: () => 1 };
+
+const failing = (...errors: unknown[]) => {
+    const operation = vi.fn(async (_signal: AbortSignal) => {
+        const error = errors[Math.min(operation.mock.calls.length - 1, errors.length - 1)];
+        if (error === undefined) return 'done';
+        throw error;
+    });
+    return operation;
+};
+
+const never = () => vi.fn((_signal: AbortSignal) => new Promise<string>(() => undefined));
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('withRetry', () => {
+    it('returns the first success without waiting', async () => {
+        const operation = failing(undefined);
+        expect(await withRetry(operation, POLICY)).toBe('done');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries transient failures after a doubling backoff', async () => {
+        const operation = failing(new AdvisorError('network', 'offline'), new AdvisorError('timeout', 'slow'), undefined);
+        const result = withRetry(operation, POLICY);
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(operation).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(operation).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await result).toBe('done');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the last attempt with its error', async () => {
+        const last = new AdvisorError('rateLimited', 'still busy');
+        const operation = failing(new AdvisorError('rateLimited', 'busy'), new AdvisorError('network', 'offline'), last);
+        const outcome = expect(withRetry(operation, POLICY)).rejects.toBe(last);
+        await vi.advanceTimersByTimeAsync(3000);
+        await outcome;
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry failures that would repeat', async () => {
+        for (const kind of ['invalidKey', 'safetyBlocked', 'malformedOutput', 'badRequest', 'unknown'] as const) {
+            const operation = failing(new AdvisorError(kind, kind));
+            await expect(withRetry(operation, POLICY)).rejects.toMatchObject({ kind });
+            expect(operation).toHaveBeenCalledTimes(1);
+        }
+    });
+
+    it('caps the backoff at maxDelayMs and applies jitter', async () => {
+        const offline = new AdvisorError('network', 'offline');
+        const operation = failing(offline, offline, offline, offline, undefined);
+        const result = withRetry(operation, { ...POLICY, attempts: 5, maxDelayMs: 3000, random: () => 0 });
+        // Half of 1000, 2000, 3000 and 3000.
+        for (const [wait, calls] of [[500, 2], [1000, 3], [1500, 4], [1500, 5]]) {
+            await vi.advanceTimersByTimeAsync(wait - 1);
+            expect(operation).toHaveBeenCalledTimes(calls - 1);
+            await vi.advanceTimersByTimeAsync(1);
+            expect(operation).toHaveBeenCalledTimes(calls);
+        }
+        expect(await result).toBe('done');
+    });
+
+    it('waits for a longer Retry-After', async () => {
+        const operation = failing(new AdvisorError('rateLimited', 'quota', 5), undefined);
+        const result = withRetry(operation, POLICY);
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await result).toBe('done');
+    });
+
+    it('times out a try that does not answer, aborting its signal', async () => {
+        const operation = never();
+        const outcome = expect(withRetry(operation, { ...POLICY, attempts: 2, timeoutMs: 10_000 })).rejects.toMatchObject({
+            kind: 'timeout', message: 'No answer within 10 seconds.',
+        });
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(operation.mock.calls[0][0].aborted).toBe(true);
+        expect(operation).toHaveBeenCalledTimes(1);
+        // A timeout is transient, so it is tried once more.
+        await vi.advanceTimersByTimeAsync(1000 + 10_000);
+        await outcome;
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects at once as cancelled when aborted during a try or a backoff', async () => {
+        const duringTry = new AbortController();
+        const operation = never();
+        const outcome = expect(withRetry(operation, { ...POLICY, signal: duringTry.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+        duringTry.abort();
+        await outcome;
+        expect(operation.mock.calls[0][0].aborted).toBe(true);
+
+        const duringBackoff = new AbortController();
+        const offline = failing(new AdvisorError('network', 'offline'));
+        const retried = expect(withRetry(offline, { ...POLICY, signal: duringBackoff.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+        await vi.advanceTimersByTimeAsync(500);
+        duringBackoff.abort();
+        await retried;
+        expect(offline).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+        const operation = failing(undefined);
+        await expect(withRetry(operation, { ...POLICY, signal: AbortSignal.abort() })).rejects.toMatchObject({ kind: 'cancelled' });
+        expect(operation).not.toHaveBeenCalled();
+    });
+});
+
+describe('toAdvisorError', () => {
+    const withStatus = (status: number, message = '') => Object.assign(new Error(message), { status });
+
+    it('passes AdvisorErrors through', () => {
+        const error = new AdvisorError('safetyBlocked', 'Blocked');
+        expect(toAdvisorError(error)).toBe(error);
+    });
+
+    it('sorts HTTP statuses by what the user can do about them', () => {
+        expect(toAdvisorError(withStatus(429)).kind).toBe('rateLimited');
+        expect(toAdvisorError(withStatus(401)).kind).toBe('invalidKey');
+        expect(toAdvisorError(withStatus(400, 'API key not valid. Please pass a valid API key.')).kind).toBe('invalidKey');
+        expect(toAdvisorError(withStatus(400, 'Bad field')).kind).toBe('unknown');
+        expect(toAdvisorError(withStatus(503)).kind).toBe('network');
+        expect(toAdvisorError(withStatus(504)).kind).toBe('timeout');
+        expect(toAdvisorError(withStatus(418)).message).toBe('The AI service answered with status 418.');
+    });
+
+    it('treats fetch failures as network errors and the rest as unknown', () => {
+        expect(toAdvisorError(new TypeError('Failed to fetch')).kind).toBe('network');
+        expect(toAdvisorError(new TypeError('x is not a function')).kind).toBe('unknown');
+        expect(toAdvisorError('boom')).toMatchObject({ kind: 'unknown', message: 'boom' });
+    });
+
+    it('turns aborts into cancellations and timeouts by their reason', () => {
+        expect(toAdvisorError(new DOMException('Aborted', 'AbortError')).kind).toBe('cancelled');
+        expect(toAdvisorError(new DOMException('Too slow', 'TimeoutError')).kind).toBe('timeout');
+
+        const cancelled = new AbortController();
+        cancelled.abort();
+        expect(toAdvisorError(new Error('socket closed'), cancelled.signal).kind).toBe('cancelled');
+
+        const timedOut = new AbortController();
+        const reason = new AdvisorError('timeout', 'No answer within 30 seconds.');
+        timedOut.abort(reason);
+        expect(toAdvisorError(new Error('socket closed'), timedOut.signal)).toBe(reason);
+    });
+
+    it('marks only rate limits, timeouts and network errors as retryable', () => {
+        const retryable = (['rateLimited', 'timeout', 'network', 'invalidKey', 'cancelled', 'unknown'] as const)
+            .filter(kind => new AdvisorError(kind, kind).retryable);
+        expect(retryable).toEqual(['rateLimited', 'timeout', 'network']);
+    });
+});
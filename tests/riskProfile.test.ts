@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { RiskQuestionId } from '../types';
+import {
+    createRiskProfile, describeRiskProfile, HIGH_FROM, isComplete, LOW_BELOW, scoreRiskAnswers, toleranceForScore,
+} from '../utils/riskProfile';
+
+const BEST: Record<RiskQuestionId, string> = {
+    age: 'under30',
+    incomeStability: 'veryStable',
+    dependents: 'none',
+    emergencyFund: 'sixPlus',
+    drawdownReaction: 'buyMore',
+    experience: 'extensive',
+};
+
+describe('toleranceForScore', () => {
+    it('is Medium from LOW_BELOW up to, not including, HIGH_FROM', () => {
+        expect(toleranceForScore(LOW_BELOW - 1)).toBe('Low');
+        expect(toleranceForScore(LOW_BELOW)).toBe('Medium');
+        expect(toleranceForScore(HIGH_FROM - 1)).toBe('Medium');
+        expect(toleranceForScore(HIGH_FROM)).toBe('High');
+        expect(toleranceForScore(0)).toBe('Low');
+        expect(toleranceForScore(100)).toBe('High');
+    });
+});
+
+describe('scoreRiskAnswers', () => {
+    it('scores the best answers 100', () => {
+        const result = scoreRiskAnswers(BEST);
+        expect(result).toMatchObject({ score: 100, scoreTolerance: 'High', tolerance: 'High', caps: [] });
+        expect(result.lines.reduce((sum, line) => sum + line.share, 0)).toBeCloseTo(1, 10);
+    });
+
+    it('weights the drawdown reaction double', () => {
+        // 3 + 1 + 2 + 3 + 3x2 + 3 = 18 of 28 weighted points.
+        const result = scoreRiskAnswers({
+            age: '30to44', incomeStability: 'variable', dependents: 'oneOrTwo',
+            emergencyFund: 'threeToSix', drawdownReaction: 'hold', experience: 'some',
+        });
+        expect(result.score).toBe(64);
+        expect(result.tolerance).toBe('Medium');
+        const drawdown = result.lines.find(line => line.question === 'drawdownReaction')!;
+        expect(drawdown).toMatchObject({ option: 'hold', points: 3, weight: 2 });
+        expect(drawdown.share).toBeCloseTo(6 / 28, 10);
+    });
+
+    it('places scores either side of the boundaries', () => {
+        // 11 of 28 is 39.
+        const low = {
+            age: '45to59', incomeStability: 'variable', dependents: 'none',
+            emergencyFund: 'underThree', drawdownReaction: 'sellSome', experience: 'depositsOnly',
+        };
+        expect(scoreRiskAnswers(low)).toMatchObject({ score: 39, tolerance: 'Low' });
+        // 12 of 28 is 43.
+        expect(scoreRiskAnswers({ ...low, age: '30to44' })).toMatchObject({ score: 43, tolerance: 'Medium' });
+        // 19 of 28 is 68; 20 of 28 is 71.
+        const medium = { ...BEST, incomeStability: 'stable', dependents: 'oneOrTwo', drawdownReaction: 'hold', experience: 'depositsOnly' };
+        expect(scoreRiskAnswers({ ...medium, age: '30to44' })).toMatchObject({ score: 68, tolerance: 'Medium' });
+        expect(scoreRiskAnswers({ ...medium, age: 'under30' })).toMatchObject({ score: 71, tolerance: 'High' });
+    });
+
+    it('caps a high score at Medium without an emergency fund', () => {
+        const result = scoreRiskAnswers({ ...BEST, emergencyFund: 'none' });
+        expect(result).toMatchObject({ score: 86, scoreTolerance: 'High', tolerance: 'Medium', caps: ['noEmergencyFund'] });
+    });
+
+    it('caps at Low for someone who would sell everything', () => {
+        const result = scoreRiskAnswers({ ...BEST, drawdownReaction: 'sellAll' });
+        expect(result).toMatchObject({ score: 71, scoreTolerance: 'High', tolerance: 'Low', caps: ['wouldSellAll'] });
+    });
+
+    it('applies the tighter cap when both apply', () => {
+        const result = scoreRiskAnswers({ ...BEST, drawdownReaction: 'sellAll', emergencyFund: 'none' });
+        expect(result.tolerance).toBe('Low');
+        expect(result.caps).toEqual(['wouldSellAll', 'noEmergencyFund']);
+    });
+
+    it('throws on missing or unknown answers', () => {
+        const { experience: _, ...missing } = BEST;
+        expect(() => scoreRiskAnswers(missing as Record<RiskQuestionId, string>)).toThrow('No answer for experience');
+        expect(() => scoreRiskAnswers({ ...BEST, age: 'ancient' })).toThrow('No answer for age');
+        expect(isComplete(missing)).toBe(false);
+        expect(isComplete({ ...BEST, age: 'ancient' })).toBe(false);
+        expect(isComplete(BEST)).toBe(true);
+    });
+});
+
+describe('describeRiskProfile', () => {
+    it('lists the answers and explains a cap', () => {
+        const profile = createRiskProfile({ ...BEST, emergencyFund: 'none' }, 1);
+        expect(profile).toMatchObject({ score: 86, tolerance: 'Medium', completedAt: 1 });
+        const text = describeRiskProfile(profile);
+        expect(text).toContain('- Questionnaire score: 86/100, suggesting Medium risk');
+        expect(text).toContain('- Emergency fund: none');
+        expect(text).toContain('- Limited to Medium because they have no emergency fund');
+    });
+});
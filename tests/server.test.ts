@@ -0,0 +1,273 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AdvisorSettings } from '../types';
+import type { AdvisorProvider } from '../services/advisorProvider';
+import { AdvisorError } from '../services/errors';
+import { defaultFixtures } from '../services/fixtures';
+import { createGeminiProvider } from '../services/geminiService';
+import { createMockProvider } from '../services/mockService';
+import { DEFAULT_SETTINGS } from '../services/settingsService';
+import { createProxyServer, ProxyServerOptions } from '../server/app';
+
+const ADVICE = { investmentAmount: 100000, currency: 'INR', riskTolerance: 'Medium', investmentHorizon: 5, language: 'English' };
+const CHAT = { message: 'Hello', history: [], context: null };
+
+const servers: Server[] = [];
+
+const listen = async (server: Server): Promise<string> => {
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const startProxy = (provider: AdvisorProvider = createMockProvider(), options: Partial<ProxyServerOptions> = {}) =>
+    listen(createProxyServer(() => provider, options));
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+const ndjsonLines = async (response: Response) => {
+    const text = await response.text();
+    expect(text.endsWith('\n')).toBe(true);
+    return text.trimEnd().split('\n').map(line => JSON.parse(line));
+};
+
+beforeEach(() => {
+    // Failed requests are logged by the server.
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+        server.closeAllConnections();
+        server.close(resolve);
+    })));
+});
+
+describe('proxy server requests', () => {
+    it('answers the health check', async () => {
+        const base = await startProxy();
+        const response = await fetch(`${base}/api/health`);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: 'ok' });
+    });
+
+    it('answers an unknown route with 404', async () => {
+        const base = await startProxy();
+        const response = await post(`${base}/api/nothing`, {});
+        expect(response.status).toBe(404);
+        expect((await response.json()).error.code).toBe('not_found');
+        expect((await post(`${base}/advice`, ADVICE)).status).toBe(404);
+        for (const path of ['/api__proto__', '/apiconstructor', '/api/__proto__', '/api/toString', '/apiadvice']) {
+            const unknown = await post(`${base}${path}`, ADVICE);
+            expect(unknown.status).toBe(404);
+            expect((await unknown.json()).error.code).toBe('not_found');
+        }
+    });
+
+    it('answers anything but POST with 405', async () => {
+        const base = await startProxy();
+        const response = await fetch(`${base}/api/advice`);
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe('POST');
+        expect((await response.json()).error.code).toBe('method_not_allowed');
+    });
+
+    it('refuses bodies that are not JSON with 415', async () => {
+        const base = await startProxy();
+        const response = await post(`${base}/api/advice`, JSON.stringify(ADVICE), { 'Content-Type': 'text/plain' });
+        expect(response.status).toBe(415);
+        expect((await response.json()).error.code).toBe('unsupported_media_type');
+    });
+
+    it('refuses bodies over the limit with 413, allowing audio more', async () => {
+        const base = await startProxy(undefined, { bodyLimit: 200, audioBodyLimit: 2000 });
+        const response = await post(`${base}/api/chat`, { ...CHAT, message: 'x'.repeat(500) });
+        expect(response.status).toBe(413);
+        expect((await response.json()).error.code).toBe('payload_too_large');
+
+        const audio = { audio: { data: 'A'.repeat(500), mimeType: 'audio/wav' } };
+        expect((await post(`${base}/api/transcribe`, audio)).status).toBe(200);
+    });
+
+    it('answers malformed bodies with 400 and what is wrong', async () => {
+        const base = await startProxy();
+        const invalid = await post(`${base}/api/advice`, '{"investmentAmount":');
+        expect(invalid.status).toBe(400);
+        expect((await invalid.json()).error).toEqual({ code: 'bad_request', message: 'The request body is not valid JSON.' });
+
+        const notObject = await post(`${base}/api/advice`, [ADVICE]);
+        expect((await notObject.json()).error.message).toBe('The request body must be a JSON object.');
+
+        const negative = await post(`${base}/api/advice`, { ...ADVICE, investmentAmount: -5 });
+        expect(negative.status).toBe(400);
+        expect((await negative.json()).error.message).toBe('"investmentAmount" must be a positive number.');
+
+        const noHoldings = await post(`${base}/api/prediction`, { holdings: [], language: 'English' });
+        expect((await noHoldings.json()).error.message).toBe('"holdings" must be a non-empty array of objects.');
+
+        const badHistory = await post(`${base}/api/chat`, { ...CHAT, history: ['hi'] });
+        expect((await badHistory.json()).error.message).toBe('"history" must be an array of messages.');
+
+        const badProfile = await post(`${base}/api/advice`, { ...ADVICE, riskProfile: {} });
+        expect(badProfile.status).toBe(400);
+        expect((await badProfile.json()).error).toEqual({ code: 'bad_request', message: '"riskProfile" must have an answer to every question.' });
+
+        const badContext = await post(`${base}/api/chat`, { ...CHAT, context: { kind: 'prediction' } });
+        expect(badContext.status).toBe(400);
+        expect((await badContext.json()).error).toEqual({
+            code: 'bad_request', message: '"context" must be an advice or prediction report, or null.',
+        });
+    });
+
+    it('limits each client with 429 and Retry-After', async () => {
+        const base = await startProxy(undefined, { rateLimit: { capacity: 2, refillPerMinute: 1 } });
+        expect((await post(`${base}/api/chat`, CHAT)).status).toBe(200);
+        expect((await post(`${base}/api/chat`, CHAT)).status).toBe(200);
+        const limited = await post(`${base}/api/chat`, CHAT);
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect((await limited.json()).error.code).toBe('rate_limited');
+    });
+
+    it('reports provider failures by kind', async () => {
+        const base = await startProxy({
+            ...createMockProvider(),
+            getChatResponse: async () => { throw new AdvisorError('rateLimited', 'Quota exceeded for key AIza...', 30); },
+        });
+        const response = await post(`${base}/api/chat`, CHAT);
+        expect(response.status).toBe(429);
+        expect(response.headers.get('retry-after')).toBe('30');
+        expect(await response.json()).toEqual({
+            error: { code: 'quota_exceeded', message: 'The AI model quota is used up for now.', retryAfter: 30 },
+        });
+    });
+
+    it('hands the provider factory validated settings', async () => {
+        const providerFor = vi.fn((_settings: AdvisorSettings) => createMockProvider());
+        const base = await listen(createProxyServer(providerFor));
+        await post(`${base}/api/chat`, { ...CHAT, settings: { models: { chat: 'thorough' }, thinkingBudget: 10 ** 9 } });
+        await post(`${base}/api/chat`, CHAT);
+        expect(providerFor.mock.calls[0][0]).toEqual({
+            ...DEFAULT_SETTINGS,
+            models: { ...DEFAULT_SETTINGS.models, chat: 'thorough' },
+            thinkingBudget: 32768,
+        });
+        expect(providerFor.mock.calls[1][0]).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('answers JSON routes from the provider', async () => {
+        const base = await startProxy();
+        const advice = await post(`${base}/api/advice`, ADVICE);
+        expect(advice.status).toBe(200);
+        expect((await advice.json()).advice).toEqual(defaultFixtures.advice);
+
+        const report = { kind: 'advice', createdAt: Date.UTC(2025, 0, 1), inputs: ADVICE, result: defaultFixtures.advice, sources: [] };
+        expect((await post(`${base}/api/chat`, { ...CHAT, context: report })).status).toBe(200);
+
+        const transcript = await post(`${base}/api/transcribe`, { audio: { data: 'AAAA', mimeType: 'audio/wav' } });
+        expect(await transcript.json()).toEqual({ text: defaultFixtures.transcript });
+    });
+});
+
+describe('proxy server streams', () => {
+    it('sends progress lines, then the result line, as NDJSON', async () => {
+        const base = await startProxy();
+        const response = await post(`${base}/api/advice/stream`, ADVICE);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('application/x-ndjson; charset=utf-8');
+        const lines = await ndjsonLines(response);
+        const { recommendations } = defaultFixtures.advice;
+        expect(lines).toHaveLength(recommendations.length + 2);
+        expect(lines[0]).toEqual({ partial: { summary: defaultFixtures.advice.summary, recommendations: [] } });
+        expect(lines.at(-2)).toEqual({ partial: defaultFixtures.advice });
+        expect(lines.at(-1).result.advice).toEqual(defaultFixtures.advice);
+    });
+
+    it('sends the chat reply a line per chunk', async () => {
+        const base = await startProxy();
+        const lines = await ndjsonLines(await post(`${base}/api/chat/stream`, CHAT));
+        expect(lines.length).toBeGreaterThan(1);
+        expect(lines.every(line => typeof line.chunk === 'string')).toBe(true);
+        expect(lines.map(line => line.chunk).join('')).toBe(defaultFixtures.defaultChatReply);
+    });
+
+    it('ends with an error line when the chat fails after the first chunk', async () => {
+        const base = await startProxy({
+            ...createMockProvider(),
+            async *streamChatResponse() {
+                yield 'Hello ';
+                throw new AdvisorError('timeout', 'Deadline exceeded');
+            },
+        });
+        const response = await post(`${base}/api/chat/stream`, CHAT);
+        expect(response.status).toBe(200);
+        expect(await ndjsonLines(response)).toEqual([
+            { chunk: 'Hello ' },
+            { error: { code: 'timeout', message: 'The AI model took too long to answer.' } },
+        ]);
+    });
+
+    it('ends with an error line when an analysis fails after progress', async () => {
+        const base = await startProxy({
+            ...createMockProvider(),
+            getFinancialAdvice: async (_amount, _currency, _risk, _horizon, _language, _profile, _signal, onProgress) => {
+                onProgress?.({ summary: 'Partly', recommendations: [] });
+                throw new AdvisorError('network', 'socket hang up');
+            },
+        });
+        const response = await post(`${base}/api/advice/stream`, ADVICE);
+        expect(response.status).toBe(200);
+        expect(await ndjsonLines(response)).toEqual([
+            { partial: { summary: 'Partly', recommendations: [] } },
+            { error: { code: 'upstream_unavailable', message: 'The AI model could not be reached.' } },
+        ]);
+    });
+
+    it('answers a failure before the first line with a plain error status', async () => {
+        const base = await startProxy({
+            ...createMockProvider(),
+            getInvestmentPrediction: async () => { throw new AdvisorError('safetyBlocked', 'Blocked'); },
+            async *streamChatResponse() {
+                throw new AdvisorError('invalidKey', 'API key not valid');
+            },
+        });
+        const prediction = await post(`${base}/api/prediction/stream`, { holdings: [{ symbol: 'INFY' }], language: 'English' });
+        expect(prediction.status).toBe(422);
+        expect(prediction.headers.get('content-type')).toBe('application/json; charset=utf-8');
+        expect((await prediction.json()).error.code).toBe('safety_blocked');
+
+        const chat = await post(`${base}/api/chat/stream`, CHAT);
+        expect(chat.status).toBe(502);
+        expect((await chat.json()).error.code).toBe('invalid_key');
+    });
+});
+
+describe('proxy server with the Gemini provider', () => {
+    it('forwards a chat to the model at baseUrl with the server key and chosen model', async () => {
+        const received: { url: string; key: string | undefined; body: { contents: unknown[] } }[] = [];
+        const model = await listen(createServer(async (req, res) => {
+            let body = '';
+            for await (const chunk of req) body += chunk;
+            received.push({ url: req.url ?? '', key: req.headers['x-goog-api-key'] as string | undefined, body: JSON.parse(body) });
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                candidates: [{ content: { role: 'model', parts: [{ text: 'Namaste from the stub.' }] }, finishReason: 'STOP' }],
+            }));
+        }));
+        const base = await listen(createProxyServer(settings => createGeminiProvider('test-key', { baseUrl: model, settings })));
+
+        const response = await post(`${base}/api/chat`, { ...CHAT, settings: { models: { chat: 'thorough' } } });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ reply: 'Namaste from the stub.' });
+        expect(received).toHaveLength(1);
+        expect(received[0].url).toMatch(/\/models\/gemini-2\.5-pro:generateContent$/);
+        expect(received[0].key).toBe('test-key');
+        expect(received[0].body.contents.at(-1)).toEqual({ role: 'user', parts: [{ text: 'Hello' }] });
+    });
+});
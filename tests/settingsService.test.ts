@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_SETTINGS, estimateUsage, modelConfigFor, THINKING_BUDGET_MAX, THINKING_BUDGET_MIN, validateSettings,
+} from '../services/settingsService';
+
+describe('validateSettings', () => {
+    it('keeps valid settings as they are', () => {
+        const settings = {
+            models: { advice: 'fast', prediction: 'thorough', watch: 'fast', chat: 'thorough' },
+            searchGrounding: false,
+            thinkingBudget: 1024,
+            voices: { Hindi: 'Kore', English: 'Puck' },
+        };
+        expect(validateSettings(settings)).toEqual(settings);
+    });
+
+    it('falls back to the defaults for anything that is not an object', () => {
+        for (const input of [undefined, null, 'fast', 42, [DEFAULT_SETTINGS]]) {
+            expect(validateSettings(input)).toEqual(DEFAULT_SETTINGS);
+        }
+        expect(validateSettings({ models: 'fast', voices: ['Kore'] })).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('clamps the thinking budget to the range the model accepts', () => {
+        const budget = (thinkingBudget: unknown) => validateSettings({ thinkingBudget }).thinkingBudget;
+        expect(budget(0)).toBe(THINKING_BUDGET_MIN);
+        expect(budget(-500)).toBe(THINKING_BUDGET_MIN);
+        expect(budget(THINKING_BUDGET_MIN)).toBe(THINKING_BUDGET_MIN);
+        expect(budget(THINKING_BUDGET_MAX)).toBe(THINKING_BUDGET_MAX);
+        expect(budget(THINKING_BUDGET_MAX + 1)).toBe(THINKING_BUDGET_MAX);
+        expect(budget(2047.6)).toBe(2048);
+    });
+
+    it('resets a thinking budget that is not a finite number', () => {
+        for (const thinkingBudget of ['1024', NaN, Infinity, null, true]) {
+            expect(validateSettings({ thinkingBudget }).thinkingBudget).toBe(DEFAULT_SETTINGS.thinkingBudget);
+        }
+    });
+
+    it('resets unknown model modes per feature and ignores unknown features', () => {
+        expect(validateSettings({ models: { advice: 'fast', chat: 'turbo', prediction: 1, extra: 'fast' } }).models).toEqual({
+            ...DEFAULT_SETTINGS.models,
+            advice: 'fast',
+        });
+    });
+
+    it('keeps search grounding only as a boolean', () => {
+        expect(validateSettings({ searchGrounding: false }).searchGrounding).toBe(false);
+        expect(validateSettings({ searchGrounding: 'false' }).searchGrounding).toBe(DEFAULT_SETTINGS.searchGrounding);
+    });
+
+    it('drops voices for unknown languages and unknown voices', () => {
+        expect(validateSettings({ voices: { Hindi: 'Kore', Klingon: 'Puck', Marathi: 'Robot', English: 7 } }).voices).toEqual({ Hindi: 'Kore' });
+    });
+});
+
+describe('modelConfigFor', () => {
+    it('thinks only in thorough mode and searches only for grounded features', () => {
+        expect(modelConfigFor(DEFAULT_SETTINGS, 'advice')).toEqual({ model: 'gemini-2.5-pro', thinkingBudget: THINKING_BUDGET_MAX, search: true });
+        expect(modelConfigFor(DEFAULT_SETTINGS, 'chat')).toEqual({ model: 'gemini-2.5-flash', thinkingBudget: 0, search: false });
+        expect(modelConfigFor({ ...DEFAULT_SETTINGS, searchGrounding: false }, 'watch').search).toBe(false);
+    });
+});
+
+describe('estimateUsage', () => {
+    it('makes the thorough, grounded setup dearer and slower than the fast one', () => {
+        const thorough = estimateUsage(DEFAULT_SETTINGS, 'advice');
+        const fast = estimateUsage({ ...DEFAULT_SETTINGS, models: { ...DEFAULT_SETTINGS.models, advice: 'fast' }, searchGrounding: false }, 'advice');
+        expect(thorough.costUsd).toBeGreaterThan(fast.costUsd);
+        expect(thorough.seconds[1]).toBeGreaterThan(fast.seconds[1]);
+        expect(fast.seconds[0]).toBeGreaterThanOrEqual(1);
+        expect(fast.seconds[0]).toBeLessThanOrEqual(fast.seconds[1]);
+    });
+});
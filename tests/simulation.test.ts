@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { HoldingAnalysis, Recommendation } from '../types';
+import {
+    allocationFromHoldings, allocationFromRecommendations, createRandom, percentile, runSimulation, SimulationInput,
+} from '../utils/simulation';
+
+const input: SimulationInput = {
+    allocation: [{ assetClass: 'Stock', weight: 0.6 }, { assetClass: 'Bond', weight: 0.4 }],
+    initialValue: 100000,
+    years: 5,
+    paths: 400,
+    seed: 42,
+    goal: 150000,
+};
+
+describe('createRandom', () => {
+    it('repeats its sequence for a seed and stays in [0, 1)', () => {
+        const a = createRandom(7);
+        const b = createRandom(7);
+        const values = Array.from({ length: 1000 }, () => a());
+        expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+        expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+        expect(createRandom(8)()).not.toBe(values[0]);
+    });
+});
+
+describe('percentile', () => {
+    it('interpolates between closest ranks', () => {
+        expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+        expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+        expect(percentile([10, 20], 0.1)).toBe(11);
+        expect(percentile([], 0.5)).toBeNaN();
+    });
+});
+
+describe('runSimulation', () => {
+    it('gives the same result for the same seed and a different one for another', () => {
+        const first = runSimulation(input);
+        expect(runSimulation(input)).toEqual(first);
+        expect(runSimulation({ ...input, seed: 43 })).not.toEqual(first);
+    });
+
+    it('orders the percentile bands in every year', () => {
+        const { bands } = runSimulation(input);
+        expect(bands.map(band => band.year)).toEqual([1, 2, 3, 4, 5]);
+        for (const band of bands) {
+            expect(band.p10).toBeLessThanOrEqual(band.p50);
+            expect(band.p50).toBeLessThanOrEqual(band.p90);
+        }
+    });
+
+    it('skips the goal probability when there is no goal', () => {
+        expect(runSimulation({ ...input, goal: 0 }).goalProbability).toBeNull();
+        const { goalProbability } = runSimulation(input);
+        expect(goalProbability).toBeGreaterThan(0);
+        expect(goalProbability).toBeLessThan(1);
+    });
+
+    it('barely draws down an all-cash portfolio', () => {
+        const { maxDrawdown, drawdownHistogram, bands } = runSimulation({ ...input, allocation: [{ assetClass: 'Cash', weight: 1 }] });
+        expect(maxDrawdown.p90).toBeLessThan(0.01);
+        expect(drawdownHistogram[0]).toBe(1);
+        // 4% a year for 5 years, give or take very little.
+        expect(bands[4].p50).toBeCloseTo(100000 * 1.04 ** 5, -3);
+    });
+
+    it('spreads drawdowns into a histogram that sums to 1', () => {
+        const { drawdownHistogram, maxDrawdown } = runSimulation({ ...input, allocation: [{ assetClass: 'Crypto', weight: 1 }] });
+        expect(drawdownHistogram).toHaveLength(10);
+        expect(drawdownHistogram.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+        expect(maxDrawdown.p10).toBeLessThanOrEqual(maxDrawdown.p50);
+        expect(maxDrawdown.p50).toBeLessThanOrEqual(maxDrawdown.p90);
+        expect(maxDrawdown.p50).toBeGreaterThan(0.3);
+    });
+
+    it('simulates at least one whole year', () => {
+        expect(runSimulation({ ...input, years: 0.4 }).bands).toHaveLength(1);
+        expect(runSimulation({ ...input, years: 2.9 }).bands).toHaveLength(2);
+    });
+});
+
+describe('allocations', () => {
+    it('splits a plan equally, merging recommendations of the same class', () => {
+        const recommendations = ['Large-cap equity', 'Index ETF', 'Flexi-cap SIP', 'Nifty stock basket']
+            .map(category => ({ category }) as Recommendation);
+        expect(allocationFromRecommendations(recommendations)).toEqual([
+            { assetClass: 'Stock', weight: 0.5 },
+            { assetClass: 'ETF', weight: 0.25 },
+            { assetClass: 'Mutual Fund', weight: 0.25 },
+        ]);
+        expect(allocationFromRecommendations([])).toEqual([]);
+    });
+
+    it('weights holdings by reporting value and leaves out unconverted ones', () => {
+        const row = (assetClass: string, reportingValue: number | null) =>
+            ({ holding: { assetClass }, reportingValue }) as HoldingAnalysis;
+        expect(allocationFromHoldings([row('Stock', 300), row('Gold', 100), row('Crypto', null), row('Stock', 0)])).toEqual([
+            { assetClass: 'Stock', weight: 0.75 },
+            { assetClass: 'Gold', weight: 0.25 },
+        ]);
+    });
+});
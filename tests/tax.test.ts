@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetClass, Holding } from '../types';
+import {
+    DEFAULT_TAX_RULES, estimateTax, findHarvestCandidates, gainTerm, ruleTableFor, SaleLot, TaxCategory, unusedEquityExemption,
+} from '../utils/tax';
+
+const FY24 = '2024-03-01';
+const FY25 = '2025-03-01';
+
+let nextId = 0;
+const holding = (assetClass: AssetClass, purchaseDate: string, averageCost = 100, currency = 'INR'): Holding => ({
+    id: String(++nextId), symbol: `H${nextId}`, name: '', assetClass, quantity: 10000, averageCost, currency, purchaseDate,
+});
+
+// Sells `quantity` units bought at 100 for a rupee gain (or loss) of `gain`.
+const sale = (h: Holding, gain: number, quantity = 1000): SaleLot => ({ holding: h, quantity, salePrice: h.averageCost + gain / quantity });
+
+const options = (saleDate: string) => ({ saleDate, slabRate: 0.3, toRupees: (amount: number) => amount });
+const estimate = (sales: SaleLot[], saleDate = FY25) => estimateTax(sales, DEFAULT_TAX_RULES, options(saleDate));
+
+const LONG_AGO = '2019-01-01';
+const RECENT = { [FY24]: '2024-02-01', [FY25]: '2025-02-01' };
+
+const CATEGORY_HOLDING: Record<TaxCategory, [AssetClass, string]> = {
+    listedEquity: ['Stock', 'INR'],
+    foreignEquity: ['Stock', 'USD'],
+    debt: ['Bond', 'INR'],
+    gold: ['Gold', 'INR'],
+    crypto: ['Crypto', 'INR'],
+    other: ['Other', 'INR'],
+};
+
+// Tax with 4% cess on a 1,00,000 gain at a 30% slab: [short-term, long-term].
+const EXPECTED: Record<string, Record<TaxCategory, [number, number]>> = {
+    [FY24]: {
+        listedEquity: [15600, 0],
+        foreignEquity: [31200, 20800],
+        debt: [31200, 31200],
+        gold: [31200, 20800],
+        crypto: [31200, 31200],
+        other: [31200, 20800],
+    },
+    [FY25]: {
+        listedEquity: [20800, 0],
+        foreignEquity: [31200, 13000],
+        debt: [31200, 31200],
+        gold: [31200, 13000],
+        crypto: [31200, 31200],
+        other: [31200, 13000],
+    },
+};
+
+describe('estimateTax per category', () => {
+    for (const saleDate of [FY24, FY25]) {
+        describe(ruleTableFor(DEFAULT_TAX_RULES, saleDate).version, () => {
+            for (const [category, [shortTax, longTax]] of Object.entries(EXPECTED[saleDate])) {
+                const [assetClass, currency] = CATEGORY_HOLDING[category as TaxCategory];
+                it(`taxes ${category} gains`, () => {
+                    const short = estimate([sale(holding(assetClass, RECENT[saleDate], 100, currency), 100000)], saleDate);
+                    const long = estimate([sale(holding(assetClass, LONG_AGO, 100, currency), 100000)], saleDate);
+                    expect(short.lots[0].category).toBe(category);
+                    expect(short.tax).toBeCloseTo(shortTax, 6);
+                    expect(long.tax).toBeCloseTo(longTax, 6);
+                });
+            }
+        });
+    }
+});
+
+describe('ruleTableFor', () => {
+    it('switches tables on the effective date', () => {
+        expect(ruleTableFor(DEFAULT_TAX_RULES, '2024-07-22').version).toBe('FY 2023-24');
+        expect(ruleTableFor(DEFAULT_TAX_RULES, '2024-07-23').version).toBe('FY 2024-25 (Budget July 2024)');
+        expect(ruleTableFor(DEFAULT_TAX_RULES, '2020-01-01').version).toBe('FY 2023-24');
+    });
+});
+
+describe('gainTerm', () => {
+    const { rules } = DEFAULT_TAX_RULES[1];
+
+    it('is long-term only after more than N months', () => {
+        expect(gainTerm(rules.listedEquity, '2023-01-15', '2024-01-15')).toBe('short');
+        expect(gainTerm(rules.listedEquity, '2023-01-15', '2024-01-16')).toBe('long');
+        expect(gainTerm(rules.gold, '2022-06-30', '2024-06-30')).toBe('short');
+        expect(gainTerm(rules.gold, '2022-06-30', '2024-07-01')).toBe('long');
+    });
+
+    it('is always short-term without a holding period or a purchase date', () => {
+        expect(gainTerm(rules.debt, LONG_AGO, FY25)).toBe('short');
+        expect(gainTerm(rules.crypto, LONG_AGO, FY25)).toBe('short');
+        expect(gainTerm(rules.listedEquity, '', FY25)).toBe('short');
+    });
+});
+
+describe('estimateTax', () => {
+    it('exempts the first 1.25 lakh of equity LTCG and adds cess', () => {
+        // (2,00,000 - 1,25,000) x 12.5% x 1.04
+        const result = estimate([sale(holding('Stock', LONG_AGO), 200000)]);
+        expect(result.exemptionUsed).toBe(125000);
+        expect(result.longTermGains).toBe(200000);
+        expect(result.tax).toBeCloseTo(9750, 6);
+    });
+
+    it('exempted only 1 lakh before July 2024', () => {
+        // (2,00,000 - 1,00,000) x 10% x 1.04
+        const result = estimate([sale(holding('Stock', LONG_AGO), 200000)], FY24);
+        expect(result.exemptionUsed).toBe(100000);
+        expect(result.tax).toBeCloseTo(10400, 6);
+    });
+
+    it('adds cess from the table on top of the tax', () => {
+        const lots = [sale(holding('Gold', LONG_AGO), 100000)];
+        const noCess = DEFAULT_TAX_RULES.map(table => ({ ...table, cess: 0 }));
+        expect(estimateTax(lots, noCess, options(FY25)).tax).toBeCloseTo(12500, 6);
+        expect(estimate(lots).tax).toBeCloseTo(12500 * 1.04, 6);
+    });
+
+    it('sets long-term losses off against long-term gains only', () => {
+        const result = estimate([
+            sale(holding('Stock', RECENT[FY25]), 100000),
+            sale(holding('Stock', LONG_AGO), -50000),
+        ]);
+        expect(result.lossesSetOff).toBe(0);
+        expect(result.lossesCarried).toBe(50000);
+        expect(result.tax).toBeCloseTo(20800, 6);
+
+        const againstLong = estimate([
+            sale(holding('Gold', LONG_AGO), 100000),
+            sale(holding('Stock', LONG_AGO), -50000),
+        ]);
+        expect(againstLong.lossesSetOff).toBe(50000);
+        expect(againstLong.tax).toBeCloseTo(6500, 6);
+    });
+
+    it('sets short-term losses off against any gain, highest-taxed first, before the exemption', () => {
+        const againstLong = estimate([
+            sale(holding('Stock', LONG_AGO), 200000),
+            sale(holding('Stock', RECENT[FY25]), -50000),
+        ]);
+        // (2,00,000 - 50,000 - 1,25,000) x 12.5% x 1.04
+        expect(againstLong.tax).toBeCloseTo(3250, 6);
+
+        const mixed = estimate([
+            sale(holding('Stock', RECENT[FY25]), 50000),
+            sale(holding('Gold', RECENT[FY25]), 50000),
+            sale(holding('Stock', RECENT[FY25]), -50000),
+        ]);
+        // The loss clears the slab-rate gold gain, leaving equity at 20%.
+        expect(mixed.tax).toBeCloseTo(10400, 6);
+        expect(mixed.lossesCarried).toBe(0);
+    });
+
+    it('neither sets crypto losses off nor other losses against crypto gains', () => {
+        const cryptoLoss = estimate([
+            sale(holding('Stock', RECENT[FY25]), 100000),
+            sale(holding('Crypto', RECENT[FY25]), -50000),
+        ]);
+        expect(cryptoLoss.lossesSetOff).toBe(0);
+        expect(cryptoLoss.lossesCarried).toBe(0);
+        expect(cryptoLoss.tax).toBeCloseTo(20800, 6);
+
+        const cryptoGain = estimate([
+            sale(holding('Crypto', RECENT[FY25]), 100000),
+            sale(holding('Stock', RECENT[FY25]), -50000),
+        ]);
+        expect(cryptoGain.lossesCarried).toBe(50000);
+        expect(cryptoGain.tax).toBeCloseTo(31200, 6);
+    });
+
+    it('treats a missing purchase date as short-term and skips unconvertible lots', () => {
+        const undated = holding('Stock', '');
+        const foreign = holding('Stock', LONG_AGO, 100, 'USD');
+        const cash = holding('Cash', LONG_AGO);
+        const result = estimateTax([sale(undated, 1000), sale(foreign, 1000), sale(cash, 1000)], DEFAULT_TAX_RULES, {
+            ...options(FY25),
+            toRupees: (amount, currency) => (currency === 'INR' ? amount : null),
+        });
+        expect(result.lots).toHaveLength(1);
+        expect(result.lots[0]).toMatchObject({ term: 'short', unknownDate: true, gain: 1000 });
+        expect(result.skipped).toEqual([foreign]);
+    });
+});
+
+describe('findHarvestCandidates', () => {
+    const sold = holding('Stock', RECENT[FY25]);
+    const sales = [sale(sold, 20000)];
+
+    it('reports the tax a short-term loss would save on a short-term gain', () => {
+        const loser = holding('Stock', RECENT[FY25], 100);
+        const [candidate] = findHarvestCandidates([{ holding: loser, price: 97 }], sales, DEFAULT_TAX_RULES, options(FY25));
+        // 20,000 of STCG at 20% plus cess, all cleared by the 30,000 loss.
+        expect(candidate.loss).toBe(30000);
+        expect(candidate.term).toBe('short');
+        expect(candidate.taxSaved).toBeCloseTo(4160, 6);
+    });
+
+    it('leaves out losses that cannot reduce the tax or are too small', () => {
+        const candidates = findHarvestCandidates([
+            { holding: holding('Stock', LONG_AGO, 100), price: 97 },
+            { holding: holding('Crypto', RECENT[FY25], 100), price: 97 },
+            { holding: holding('Stock', RECENT[FY25], 100), price: 99.95 },
+            { holding: holding('Stock', RECENT[FY25], 100), price: 101 },
+            { holding: sold, price: 50 },
+        ], [{ ...sales[0], quantity: 10000 }], DEFAULT_TAX_RULES, options(FY25));
+        expect(candidates).toEqual([]);
+    });
+
+    it('sorts candidates by tax saved', () => {
+        const small = holding('Stock', RECENT[FY25], 100);
+        const large = holding('Stock', RECENT[FY25], 100);
+        const candidates = findHarvestCandidates([
+            { holding: small, price: 99.5 },
+            { holding: large, price: 98 },
+        ], sales, DEFAULT_TAX_RULES, options(FY25));
+        expect(candidates.map(c => c.holding)).toEqual([large, small]);
+        expect(candidates[1].taxSaved).toBeCloseTo(5000 * 0.2 * 1.04, 6);
+    });
+});
+
+describe('unusedEquityExemption', () => {
+    it('is what is left of the exemption after long-term equity gains', () => {
+        expect(unusedEquityExemption(estimate([sale(holding('Stock', LONG_AGO), 100000)]))).toBe(25000);
+        expect(unusedEquityExemption(estimate([sale(holding('Stock', LONG_AGO), 300000)]))).toBe(0);
+        expect(unusedEquityExemption(estimate([sale(holding('Stock', LONG_AGO), -50000)]))).toBe(125000);
+    });
+});
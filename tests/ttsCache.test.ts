@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryTtsStore, TtsCacheStore, ttsCacheKey, withTtsCache } from '../services/ttsCache';
+
+const voiceFor = (language: string) => (language === 'Hindi' ? 'Kore' : 'Puck');
+
+// Caching happens after the audio is returned; let it finish.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('withTtsCache', () => {
+    it('fetches once per text, language and voice', async () => {
+        const fetchAudio = vi.fn(async (text: string, language: string) => `${language}:${text}`);
+        const speak = withTtsCache(fetchAudio, createMemoryTtsStore(), voiceFor);
+
+        expect(await speak('Hello', 'English')).toBe('English:Hello');
+        await settle();
+        expect(await speak('  Hello ', 'english')).toBe('English:Hello');
+        expect(fetchAudio).toHaveBeenCalledTimes(1);
+
+        expect(await speak('Hello', 'Hindi')).toBe('Hindi:Hello');
+        expect(await speak('Goodbye', 'English')).toBe('English:Goodbye');
+        expect(fetchAudio).toHaveBeenCalledTimes(3);
+    });
+
+    it('misses when the voice for a language changes', async () => {
+        const store = createMemoryTtsStore();
+        const fetchAudio = vi.fn(async () => 'audio');
+        await withTtsCache(fetchAudio, store, () => 'Puck')('Hello', 'English');
+        await settle();
+        await withTtsCache(fetchAudio, store, () => 'Kore')('Hello', 'English');
+        expect(fetchAudio).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps only the newest maxEntries', async () => {
+        const store = createMemoryTtsStore();
+        const speak = withTtsCache(async text => text, store, voiceFor, 2);
+        for (const text of ['one', 'two', 'three']) {
+            await speak(text, 'English');
+            await settle();
+        }
+        expect(await store.get(ttsCacheKey('one', 'English', 'Puck'))).toBeUndefined();
+        expect((await store.get(ttsCacheKey('three', 'English', 'Puck')))?.audio).toBe('three');
+    });
+
+    it('falls back to the network when the store fails', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const broken: TtsCacheStore = {
+            get: () => Promise.reject(new Error('no IndexedDB')),
+            put: () => Promise.reject(new Error('no IndexedDB')),
+            prune: () => Promise.reject(new Error('no IndexedDB')),
+        };
+        const fetchAudio = vi.fn(async () => 'audio');
+        const speak = withTtsCache(fetchAudio, broken, voiceFor);
+
+        expect(await speak('Hello', 'English')).toBe('audio');
+        expect(await speak('Hello', 'English')).toBe('audio');
+        await settle();
+        expect(fetchAudio).toHaveBeenCalledTimes(2);
+        expect(error).toHaveBeenCalled();
+        error.mockRestore();
+    });
+
+    it('passes the abort signal through and caches nothing on failure', async () => {
+        const store = createMemoryTtsStore();
+        const controller = new AbortController();
+        const fetchAudio = vi.fn(async (_text: string, _language: string, signal?: AbortSignal) => {
+            expect(signal).toBe(controller.signal);
+            throw new Error('cancelled');
+        });
+        await expect(withTtsCache(fetchAudio, store, voiceFor)('Hello', 'English', controller.signal)).rejects.toThrow('cancelled');
+        expect(await store.get(ttsCacheKey('Hello', 'English', 'Puck'))).toBeUndefined();
+    });
+});
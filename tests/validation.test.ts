@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+    parseModelJson, validateFinancialAdvice, validatePortfolioPrediction, validateSpokenAdviceInputs, validateWatchReviews,
+} from '../utils/validation';
+
+const recommendation = { category: 'Equity', name: 'Index fund', rationale: 'Low cost.', confidence: 'High', prediction: 'Up' };
+const analysisItem = { name: 'Infosys', currentAnalysis: 'Steady.', futureOutlook: 'Good.', confidence: 'Medium', prediction: 'Stable' };
+
+describe('parseModelJson', () => {
+    it('reads plain, fenced and prose-wrapped JSON', () => {
+        expect(parseModelJson(' {"a":1} ')).toEqual({ a: 1 });
+        expect(parseModelJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+        expect(parseModelJson('```\n[1,2]\n```')).toEqual([1, 2]);
+        expect(parseModelJson('Here it is: {"a":{"b":2}} Hope that helps.')).toEqual({ a: { b: 2 } });
+    });
+
+    it('throws a SyntaxError when nothing parses', () => {
+        expect(() => parseModelJson('no JSON here')).toThrow(SyntaxError);
+        expect(() => parseModelJson('} backwards {')).toThrow(SyntaxError);
+        expect(() => parseModelJson('{"a": }')).toThrow(SyntaxError);
+    });
+});
+
+describe('validateFinancialAdvice', () => {
+    it('accepts a valid answer, trimming text, without issues', () => {
+        expect(validateFinancialAdvice({ summary: '  Plan  ', recommendations: [recommendation] })).toEqual({
+            value: { summary: 'Plan', recommendations: [recommendation] },
+            issues: [],
+            errors: [],
+        });
+    });
+
+    it('normalises enum casing and converts numbers to text, reporting each', () => {
+        const { value, issues } = validateFinancialAdvice({
+            summary: 42,
+            recommendations: [{ ...recommendation, confidence: ' high ', prediction: 'UP' }],
+        });
+        expect(value).toEqual({ summary: '42', recommendations: [recommendation] });
+        expect(issues.map(issue => [issue.path, issue.action])).toEqual([
+            ['recommendations[0].confidence', 'coerced'],
+            ['recommendations[0].prediction', 'coerced'],
+            ['summary', 'coerced'],
+        ]);
+    });
+
+    it('drops invalid items but keeps the valid ones', () => {
+        const { value, issues, errors } = validateFinancialAdvice({
+            summary: 'Plan',
+            recommendations: [{ ...recommendation, prediction: 'Sideways' }, 'text', recommendation],
+        });
+        expect(value?.recommendations).toEqual([recommendation]);
+        expect(errors).toEqual([]);
+        expect(issues).toEqual([
+            { path: 'recommendations[0]', action: 'dropped', detail: `recommendations[0].prediction: expected one of 'Up', 'Down', 'Stable', got "Sideways"` },
+            { path: 'recommendations[1]', action: 'dropped', detail: 'recommendations[1]: expected an object' },
+        ]);
+    });
+
+    it('rejects a missing summary, an empty list or a non-object', () => {
+        expect(validateFinancialAdvice({ summary: ' ', recommendations: [recommendation] }).errors)
+            .toEqual(['summary: expected a non-empty string']);
+        expect(validateFinancialAdvice({ summary: 'Plan', recommendations: [] }).errors)
+            .toEqual(['recommendations: expected at least one valid item']);
+        expect(validateFinancialAdvice({ summary: 'Plan', recommendations: {} }).errors)
+            .toEqual(['recommendations: expected an array']);
+        expect(validateFinancialAdvice([recommendation])).toEqual({ value: null, issues: [], errors: ['response: expected a JSON object'] });
+        expect(validateFinancialAdvice(null).value).toBeNull();
+    });
+});
+
+describe('validatePortfolioPrediction', () => {
+    it('keeps usable prices and ignores unusable ones', () => {
+        const { value, issues } = validatePortfolioPrediction({
+            overallSummary: 'Fine',
+            portfolioAnalysis: [
+                { ...analysisItem, holdingId: 'h1', currentPrice: 1500 },
+                { ...analysisItem, currentPrice: '₹1,520.50' },
+                { ...analysisItem, currentPrice: 0, holdingId: '' },
+                { ...analysisItem, currentPrice: 'unknown' },
+            ],
+        });
+        expect(value?.portfolioAnalysis.map(item => [item.holdingId, item.currentPrice])).toEqual([
+            ['h1', 1500], [undefined, 1520.5], [undefined, undefined], [undefined, undefined],
+        ]);
+        expect(issues.map(issue => issue.detail)).toEqual([
+            'parsed number from "₹1,520.50"', 'ignored unusable value 0', 'ignored unusable value "unknown"',
+        ]);
+    });
+
+    it('rejects an answer whose every item is invalid', () => {
+        const { value, errors, issues } = validatePortfolioPrediction({ overallSummary: 'Fine', portfolioAnalysis: [{ name: 'X' }] });
+        expect(value).toBeNull();
+        expect(errors).toEqual(['portfolioAnalysis: expected at least one valid item']);
+        expect(issues).toHaveLength(1);
+        expect(validatePortfolioPrediction({ portfolioAnalysis: [analysisItem] }).errors).toEqual(['overallSummary: expected a non-empty string']);
+    });
+});
+
+describe('validateSpokenAdviceInputs', () => {
+    it('keeps what was said and normalises it', () => {
+        expect(validateSpokenAdviceInputs({
+            investmentAmount: '₹50,000', currency: 'inr', riskTolerance: 'medium', investmentHorizon: 5, language: 'hindi',
+        }).value).toEqual({ investmentAmount: 50000, currency: 'INR', riskTolerance: 'Medium', investmentHorizon: 5, language: 'Hindi' });
+    });
+
+    it('drops values out of range instead of failing', () => {
+        const { value, errors, issues } = validateSpokenAdviceInputs({
+            investmentAmount: -5, currency: 'rupees', riskTolerance: 'extreme', investmentHorizon: 0, language: 'Klingon',
+        });
+        expect(value).toEqual({});
+        expect(errors).toEqual([]);
+        expect(issues).toHaveLength(5);
+        expect(validateSpokenAdviceInputs({}).value).toEqual({});
+        expect(validateSpokenAdviceInputs('fifty thousand').errors).toEqual(['response: expected an object']);
+    });
+});
+
+describe('validateWatchReviews', () => {
+    it('keeps valid reviews and needs at least one', () => {
+        const review = { itemId: 'w1', prediction: 'Down', confidence: 'Low', note: 'Weaker results.' };
+        expect(validateWatchReviews({ reviews: [review, { itemId: 'w2' }] }).value).toEqual([review]);
+        expect(validateWatchReviews({ reviews: [] }).errors).toEqual(['reviews: expected at least one valid item']);
+        expect(validateWatchReviews('none').errors).toEqual(['response: expected a JSON object']);
+    });
+});
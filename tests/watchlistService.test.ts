@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { WatchItem } from '../types';
+import { dueWatchItems, nextRetryAt } from '../services/watchlistService';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+describe('dueWatchItems', () => {
+    const item = (id: string, addedAt: number, lastCheckedAt: number | null) => ({ id, addedAt, lastCheckedAt }) as WatchItem;
+
+    it('picks items not checked, or if never checked not pinned, within the interval', () => {
+        const items = [item('old', 0, null), item('fresh', 0, 23 * HOUR), item('stale', 0, HOUR), item('new', 20 * HOUR, null)];
+        expect(dueWatchItems(items, 24, 25 * HOUR).map(i => i.id)).toEqual(['old', 'stale']);
+    });
+
+    it('picks nothing while paused', () => {
+        expect(dueWatchItems([item('old', 0, null)], 0, 1000 * HOUR)).toEqual([]);
+    });
+});
+
+describe('nextRetryAt', () => {
+    it('doubles the wait after each failure in a row', () => {
+        expect(nextRetryAt(1, 0, 24)).toBe(5 * MINUTE);
+        expect(nextRetryAt(2, 0, 24)).toBe(10 * MINUTE);
+        expect(nextRetryAt(4, 1000, 24)).toBe(1000 + 40 * MINUTE);
+    });
+
+    it('never waits longer than the check interval', () => {
+        expect(nextRetryAt(10, 0, 1)).toBe(HOUR);
+        expect(nextRetryAt(30, 0, 24)).toBe(24 * HOUR);
+    });
+});
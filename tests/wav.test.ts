@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { encodePcm16, encodeWav } from '../utils/wav';
+
+const ascii = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+describe('encodePcm16', () => {
+    it('scales samples to signed 16-bit little-endian and clips the rest', () => {
+        const view = new DataView(encodePcm16(Float32Array.of(0, 1, -1, 0.5, 2, -3)).buffer);
+        expect([0, 2, 4, 6, 8, 10].map(offset => view.getInt16(offset, true))).toEqual([0, 32767, -32768, 16384, 32767, -32768]);
+    });
+});
+
+describe('encodeWav', () => {
+    it('writes a 16-bit PCM RIFF header for the given format', () => {
+        const wav = encodeWav([new Uint8Array(8)], { sampleRate: 16000, channels: 2 });
+        const view = new DataView(wav.buffer);
+        expect(ascii(wav, 0)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(36 + 8);
+        expect(ascii(wav, 8)).toBe('WAVE');
+        expect(ascii(wav, 12)).toBe('fmt ');
+        expect(view.getUint32(16, true)).toBe(16);
+        expect(view.getUint16(20, true)).toBe(1);
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(16000);
+        expect(view.getUint32(28, true)).toBe(16000 * 4);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(ascii(wav, 36)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(8);
+        expect(wav.length).toBe(44 + 8);
+    });
+
+    it('defaults to 24 kHz mono, the TTS output format', () => {
+        const view = new DataView(encodeWav([new Uint8Array(2)]).buffer);
+        expect(view.getUint16(22, true)).toBe(1);
+        expect(view.getUint32(24, true)).toBe(24000);
+        expect(view.getUint32(28, true)).toBe(48000);
+        expect(view.getUint16(32, true)).toBe(2);
+    });
+
+    it('drops a trailing partial frame from each chunk', () => {
+        const wav = encodeWav([Uint8Array.of(1, 2, 3), Uint8Array.of(4, 5, 6, 7, 8)], { gapSeconds: 0 });
+        expect(new DataView(wav.buffer).getUint32(40, true)).toBe(6);
+        expect([...wav.subarray(44)]).toEqual([1, 2, 4, 5, 6, 7]);
+    });
+
+    it('puts silence between chunks but not before the first or after the last', () => {
+        const wav = encodeWav([Uint8Array.of(1, 1), Uint8Array.of(2, 2), Uint8Array.of(3, 3)], { sampleRate: 10, gapSeconds: 0.2 });
+        // 0.2 s at 10 Hz is 2 frames, 4 bytes, per gap.
+        expect(new DataView(wav.buffer).getUint32(40, true)).toBe(6 + 2 * 4);
+        expect([...wav.subarray(44)]).toEqual([1, 1, 0, 0, 0, 0, 2, 2, 0, 0, 0, 0, 3, 3]);
+    });
+
+    it('produces a header-only file for no audio', () => {
+        const wav = encodeWav([]);
+        expect(wav.length).toBe(44);
+        expect(new DataView(wav.buffer).getUint32(4, true)).toBe(36);
+    });
+});
@@ -1,9 +1,17 @@
+export const CONFIDENCE_LEVELS = ['High', 'Medium', 'Low'] as const;
+export const TREND_PREDICTIONS = ['Up', 'Down', 'Stable'] as const;
+export const RISK_TOLERANCES = ['Low', 'Medium', 'High'] as const;
+
+export type Confidence = typeof CONFIDENCE_LEVELS[number];
+export type TrendPrediction = typeof TREND_PREDICTIONS[number];
+export type RiskTolerance = typeof RISK_TOLERANCES[number];
+
 export interface Recommendation {
   category: string;
   name: string;
   rationale: string;
-  confidence: 'High' | 'Medium' | 'Low';
-  prediction: 'Up' | 'Down' | 'Stable';
+  confidence: Confidence;
+  prediction: TrendPrediction;
 }
 
 export interface FinancialAdvice {
@@ -11,9 +19,18 @@ export interface FinancialAdvice {
   recommendations: Recommendation[];
 }
 
+// What has arrived of an answer still being generated: the summary once it is
+// whole, and each list item once it is complete and valid.
+export interface PartialFinancialAdvice {
+  summary?: string;
+  recommendations: Recommendation[];
+}
+
 export interface ChatMessage {
   sender: 'user' | 'bot';
   text: string;
+  // Set when the user stopped the reply before it finished streaming.
+  interrupted?: boolean;
 }
 
 export interface GroundingChunk {
@@ -24,15 +41,194 @@ export interface GroundingChunk {
   };
 }
 
+export const ASSET_CLASSES = ['Stock', 'Mutual Fund', 'ETF', 'Bond', 'Crypto', 'Gold', 'Cash', 'Other'] as const;
+
+export type AssetClass = typeof ASSET_CLASSES[number];
+
+export const MARKET_CAPS = ['Large', 'Mid', 'Small'] as const;
+
+export type MarketCap = typeof MARKET_CAPS[number];
+
+export const GEOGRAPHIES = ['India', 'International'] as const;
+
+export type Geography = typeof GEOGRAPHIES[number];
+
+export interface Holding {
+  id: string;
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  quantity: number;
+  averageCost: number;
+  currency: string;
+  // ISO date (YYYY-MM-DD); empty when unknown.
+  purchaseDate: string;
+  // Optional classification for the allocation breakdown. Geography is
+  // inferred from the currency when left out.
+  sector?: string;
+  marketCap?: MarketCap;
+  geography?: Geography;
+}
+
 export interface PortfolioAnalysisItem {
+  // Echoes Holding.id so results can be joined back to the user's positions.
+  holdingId?: string;
   name: string;
+  // Latest unit price in the holding's currency, if the model could find one.
+  currentPrice?: number;
   currentAnalysis: string;
   futureOutlook: string;
-  confidence: 'High' | 'Medium' | 'Low';
-  prediction: 'Up' | 'Down' | 'Stable';
+  confidence: Confidence;
+  prediction: TrendPrediction;
 }
 
 export interface PortfolioPrediction {
   portfolioAnalysis: PortfolioAnalysisItem[];
   overallSummary: string;
-}
\ No newline at end of file
+}
+
+export interface PartialPortfolioPrediction {
+  portfolioAnalysis: PortfolioAnalysisItem[];
+  overallSummary?: string;
+}
+
+export interface HoldingAnalysis {
+  item: PortfolioAnalysisItem;
+  holding: Holding | null;
+  costBasis: number | null;
+  marketValue: number | null;
+  // Market value in the reporting currency; null when there is no rate for the holding's currency.
+  reportingValue: number | null;
+  // Share of the portfolio's total reporting value (0-1).
+  weight: number | null;
+  unrealizedGain: number | null;
+  unrealizedGainPercent: number | null;
+}
+
+export interface ValidationIssue {
+  path: string;
+  action: 'coerced' | 'dropped';
+  detail: string;
+}
+
+export const RISK_QUESTION_IDS = ['age', 'incomeStability', 'dependents', 'emergencyFund', 'drawdownReaction', 'experience'] as const;
+
+export type RiskQuestionId = typeof RISK_QUESTION_IDS[number];
+
+export interface RiskProfile {
+  // Option id chosen for each question.
+  answers: Record<RiskQuestionId, string>;
+  // 0-100; higher means more room for risk.
+  score: number;
+  tolerance: RiskTolerance;
+  completedAt: number;
+}
+
+export interface AdviceInputs {
+  investmentAmount: number;
+  // ISO 4217 code the amount is in.
+  currency: string;
+  riskTolerance: string;
+  investmentHorizon: number;
+  language: string;
+  // The questionnaire result the advice was based on, when there was one.
+  riskProfile?: RiskProfile;
+}
+
+export interface PredictionInputs {
+  holdings: Holding[];
+  language: string;
+  // Sets the target allocation; missing on runs saved before it was asked for.
+  riskTolerance?: RiskTolerance;
+}
+
+interface HistoryEntryBase {
+  id: string;
+  createdAt: number;
+  sources: GroundingChunk[];
+}
+
+export interface AdviceHistoryEntry extends HistoryEntryBase {
+  kind: 'advice';
+  inputs: AdviceInputs;
+  result: FinancialAdvice;
+}
+
+export interface PredictionHistoryEntry extends HistoryEntryBase {
+  kind: 'prediction';
+  inputs: PredictionInputs;
+  result: PortfolioPrediction;
+}
+
+export type HistoryEntry = AdviceHistoryEntry | PredictionHistoryEntry;
+
+/** A finished run: what was asked, what came back, and when. */
+export type Report = Omit<AdviceHistoryEntry, 'id'> | Omit<PredictionHistoryEntry, 'id'>;
+
+export type WatchItemKind = 'recommendation' | 'holding';
+
+/** A pinned recommendation or holding, with the outlook it had when last checked. */
+export interface WatchItem {
+  id: string;
+  kind: WatchItemKind;
+  name: string;
+  // Recommendation category, or the holding's asset class.
+  category: string;
+  // Set for holdings so re-analysis sees the position, not just the name.
+  holding?: Holding;
+  language: string;
+  prediction: TrendPrediction;
+  confidence: Confidence;
+  // Latest rationale or outlook in a sentence or two.
+  note: string;
+  addedAt: number;
+  lastCheckedAt: number | null;
+}
+
+/** A fresh outlook for one watched item, as returned by re-analysis. */
+export interface WatchReview {
+  itemId: string;
+  prediction: TrendPrediction;
+  confidence: Confidence;
+  note: string;
+}
+
+export interface WatchAlert {
+  id: string;
+  itemId: string;
+  itemName: string;
+  field: 'prediction' | 'confidence';
+  from: string;
+  to: string;
+  createdAt: number;
+  read: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  // Result the user attached so follow-up questions can refer to it.
+  context: Report | null;
+}
+
+export const MODEL_MODES = ['fast', 'thorough'] as const;
+
+export type ModelMode = typeof MODEL_MODES[number];
+
+// Features whose model the user picks; speech and transcription always use the fast one.
+export const MODEL_FEATURES = ['advice', 'prediction', 'watch', 'chat'] as const;
+
+export type ModelFeature = typeof MODEL_FEATURES[number];
+
+export interface AdvisorSettings {
+  models: Record<ModelFeature, ModelMode>;
+  // Lets advice, predictions and watchlist checks look up current market data.
+  searchGrounding: boolean;
+  // Tokens the thorough model may spend reasoning before it answers.
+  thinkingBudget: number;
+  // TTS voice by language name; languages left out use their default voice.
+  voices: Record<string, string>;
+}
@@ -0,0 +1,153 @@
+import type { AssetClass, Geography, Holding, HoldingAnalysis, RiskTolerance } from '../types';
+
+export const ALLOCATION_CLASSES = ['Equity', 'Debt', 'Gold', 'Cash', 'Alternatives'] as const;
+export type AllocationClass = typeof ALLOCATION_CLASSES[number];
+
+// Funds and ETFs are treated as equity; a debt fund can be entered as a Bond.
+export const ALLOCATION_CLASS_OF: Record<AssetClass, AllocationClass> = {
+    'Stock': 'Equity',
+    'Mutual Fund': 'Equity',
+    'ETF': 'Equity',
+    'Bond': 'Debt',
+    'Gold': 'Gold',
+    'Cash': 'Cash',
+    'Crypto': 'Alternatives',
+    'Other': 'Alternatives',
+};
+
+// Common rules of thumb for an Indian investor; each row sums to 1.
+export const TARGET_ALLOCATIONS: Record<RiskTolerance, Record<AllocationClass, number>> = {
+    Low: { Equity: 0.30, Debt: 0.50, Gold: 0.10, Cash: 0.10, Alternatives: 0 },
+    Medium: { Equity: 0.60, Debt: 0.25, Gold: 0.10, Cash: 0.05, Alternatives: 0 },
+    High: { Equity: 0.80, Debt: 0.05, Gold: 0.05, Cash: 0.05, Alternatives: 0.05 },
+};
+
+/** Bucket for positions whose sector or market cap was not given. */
+export const UNCLASSIFIED = 'Unclassified';
+
+/** A holding and its value in the reporting currency. */
+export interface Position {
+    holding: Holding;
+    value: number;
+}
+
+export interface AllocationShare {
+    key: string;
+    value: number;
+    /** Share of the breakdown's total, 0-1. */
+    weight: number;
+}
+
+export interface PortfolioBreakdown {
+    total: number;
+    assetClass: AllocationShare[];
+    /** Sector and market cap cover equity positions only. */
+    sector: AllocationShare[];
+    marketCap: AllocationShare[];
+    geography: AllocationShare[];
+}
+
+export interface RebalanceTrade {
+    assetClass: AllocationClass;
+    current: number;
+    target: number;
+    /** Positive to buy, negative to sell, in the reporting currency. */
+    amount: number;
+    /** For sells: how much to take from each holding, in proportion to its size. */
+    fromHoldings: { holding: Holding; amount: number }[];
+}
+
+export const geographyOf = (holding: Holding): Geography =>
+    holding.geography ?? (holding.currency === 'INR' ? 'India' : 'International');
+
+const isEquity = (holding: Holding) => ALLOCATION_CLASS_OF[holding.assetClass] === 'Equity';
+
+// Sums values per key, largest first. Keys differing only in case are merged
+// under the first spelling seen.
+const shares = (entries: { key: string; value: number }[]): AllocationShare[] => {
+    const totals = new Map<string, { key: string; value: number }>();
+    for (const { key, value } of entries) {
+        const id = key.toLowerCase();
+        const existing = totals.get(id);
+        if (existing) {
+            existing.value += value;
+        } else {
+            totals.set(id, { key, value });
+        }
+    }
+    const total = entries.reduce((sum, entry) => sum + entry.value, 0);
+    return [...totals.values()]
+        .map(({ key, value }) => ({ key, value, weight: total > 0 ? value / total : 0 }))
+        .sort((a, b) => b.value - a.value);
+};
+
+/** Positions at cost, for when there are no current prices yet. Holdings without a rate are left out. */
+export const positionsAtCost = (
+    holdings: Holding[],
+    toReporting: (amount: number, currency: string) => number | null,
+): Position[] => holdings.flatMap(holding => {
+    const value = toReporting(holding.quantity * holding.averageCost, holding.currency);
+    return value !== null && value > 0 ? [{ holding, value }] : [];
+});
+
+/** Positions at market value from an analysed portfolio. */
+export const positionsFromAnalysis = (rows: HoldingAnalysis[]): Position[] =>
+    rows.flatMap(row => (row.holding && row.reportingValue !== null && row.reportingValue > 0
+        ? [{ holding: row.holding, value: row.reportingValue }]
+        : []));
+
+export function classifyPortfolio(positions: Position[]): PortfolioBreakdown {
+    const equity = positions.filter(p => isEquity(p.holding));
+    return {
+        total: positions.reduce((sum, p) => sum + p.value, 0),
+        assetClass: shares(positions.map(p => ({ key: ALLOCATION_CLASS_OF[p.holding.assetClass], value: p.value }))),
+        sector: shares(equity.map(p => ({ key: p.holding.sector?.trim() || UNCLASSIFIED, value: p.value }))),
+        marketCap: shares(equity.map(p => ({ key: p.holding.marketCap ?? UNCLASSIFIED, value: p.value }))),
+        geography: shares(positions.map(p => ({ key: geographyOf(p.holding), value: p.value }))),
+    };
+}
+
+/**
+ * Buy and sell amounts that move each asset class to its target weight,
+ * keeping the total unchanged. Differences smaller than `tolerance` of the
+ * total are ignored so small drift doesn't produce trades.
+ */
+export function planRebalance(positions: Position[], risk: RiskTolerance, tolerance = 0.01): RebalanceTrade[] {
+    const total = positions.reduce((sum, p) => sum + p.value, 0);
+    if (total <= 0) return [];
+    const targets = TARGET_ALLOCATIONS[risk];
+    return ALLOCATION_CLASSES.flatMap((assetClass): RebalanceTrade[] => {
+        const inClass = positions.filter(p => ALLOCATION_CLASS_OF[p.holding.assetClass] === assetClass);
+        const current = inClass.reduce((sum, p) => sum + p.value, 0);
+        const target = total * targets[assetClass];
+        const amount = target - current;
+        if (Math.abs(amount) < total * tolerance) return [];
+        const fromHoldings = amount < 0
+            ? inClass.map(p => ({ holding: p.holding, amount: (amount * p.value) / current }))
+            : [];
+        return [{ assetClass, current, target, amount, fromHoldings }];
+    });
+}
+
+/** Plain-text summary of positions valued at cost, for the prediction prompt, so the model doesn't estimate these itself. */
+export function describeAllocation(
+    breakdown: PortfolioBreakdown,
+    trades: RebalanceTrade[],
+    risk: RiskTolerance,
+    currency: string,
+): string {
+    const percent = (weight: number) => `${(weight * 100).toFixed(1)}%`;
+    const list = (items: AllocationShare[]) => items.map(s => `${s.key} ${percent(s.weight)}`).join(', ') || 'none';
+    const targets = TARGET_ALLOCATIONS[risk];
+    const lines = [
+        `Total value at cost: ${Math.round(breakdown.total)} ${currency}`,
+        `Asset classes (target for ${risk} risk in brackets): ${ALLOCATION_CLASSES
+            .map(c => `${c} ${percent(breakdown.assetClass.find(s => s.key === c)?.weight ?? 0)} (${percent(targets[c])})`)
+            .join(', ')}`,
+        `Equity by sector: ${list(breakdown.sector)}`,
+        `Equity by market cap: ${list(breakdown.marketCap)}`,
+        `Geography: ${list(breakdown.geography)}`,
+        `Rebalancing: ${trades.map(trade => `${trade.amount > 0 ? 'buy' : 'sell'} ${Math.round(Math.abs(trade.amount))} ${currency} of ${trade.assetClass}`).join('; ') || 'none needed'}`,
+    ];
+    return lines.join('\n');
+}
@@ -1,4 +1,9 @@
 
+import { encodePcm16, encodeWav } from './wav';
+
+// Speech needs no more; it keeps a minute of recording under 2 MB.
+const SPEECH_SAMPLE_RATE = 16000;
+
 // Do not use js-base64.
 export function decode(base64: string) {
     const binaryString = atob(base64);
@@ -28,3 +33,32 @@ export async function decodeAudioData(
     }
     return buffer;
 }
+
+export function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        // Result is a data URL; keep only the payload after the comma.
+        reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Re-encodes a recording (webm, ogg or whatever the browser produced) as
+ * 16 kHz mono WAV, a format every transcription model accepts.
+ */
+export async function recordingToWav(blob: Blob): Promise<Blob> {
+    // An offline context decodes without needing a user gesture and resamples to its own rate.
+    const ctx = new OfflineAudioContext(1, 1, SPEECH_SAMPLE_RATE);
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < buffer.length; i++) {
+            mono[i] += data[i] / buffer.numberOfChannels;
+        }
+    }
+    const wav = encodeWav([encodePcm16(mono)], { sampleRate: buffer.sampleRate, gapSeconds: 0 });
+    return new Blob([wav], { type: 'audio/wav' });
+}
@@ -0,0 +1,55 @@
+import type { Report } from '../types';
+
+// Every rate is stored against this currency, so any pair converts through it.
+export const RATE_PIVOT = 'INR';
+
+// Runs saved before the base currency setting existed were entered in dollars.
+export const LEGACY_ADVICE_CURRENCY = 'USD';
+
+export interface ExchangeRateTable {
+    /** Units of RATE_PIVOT per one unit of each currency, e.g. { USD: 83 }. */
+    rates: Record<string, number>;
+    /** When the user last edited the table; null for the built-in defaults. */
+    updatedAt: number | null;
+}
+
+// Rough starting values; the user is expected to keep them current.
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+    rates: { USD: 83, EUR: 90, GBP: 105, AED: 22.6, SGD: 62 },
+    updatedAt: null,
+};
+
+export const isCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(code);
+
+/** The pivot first, then the table's currencies alphabetically. */
+export const currenciesIn = (table: ExchangeRateTable): string[] =>
+    [RATE_PIVOT, ...Object.keys(table.rates).filter(code => code !== RATE_PIVOT).sort()];
+
+const rateOf = (currency: string, table: ExchangeRateTable): number | null => {
+    if (currency === RATE_PIVOT) return 1;
+    const rate = table.rates[currency];
+    return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+// Rounds half away from zero to two decimals. The small nudge keeps values
+// like 1.005, which are stored as 1.00499..., from rounding down.
+export const roundMoney = (value: number): number =>
+    Math.sign(value) * Math.round(Math.abs(value) * 100 + 1e-9) / 100;
+
+/**
+ * Converts through the pivot and rounds to two decimals, so the same amount,
+ * pair and table always give the same result. Null when a rate is missing.
+ */
+export function convertAmount(amount: number, from: string, to: string, table: ExchangeRateTable): number | null {
+    if (from === to) return amount;
+    const fromRate = rateOf(from, table);
+    const toRate = rateOf(to, table);
+    if (fromRate === null || toRate === null) return null;
+    return roundMoney((amount * fromRate) / toRate);
+}
+
+/** Fills in the currency on advice runs stored before it was recorded. */
+export function withAdviceCurrency<T extends Report>(report: T): T {
+    if (report.kind !== 'advice' || report.inputs.currency) return report;
+    return { ...report, inputs: { ...report.inputs, currency: LEGACY_ADVICE_CURRENCY } };
+}
@@ -0,0 +1,24 @@
+import type { MessageKey } from '../i18n/messages/en';
+import { AdvisorErrorKind, toAdvisorError } from '../services/errors';
+
+// Each says what happened and what the user can do about it.
+const MESSAGE_OF_KIND: Partial<Record<AdvisorErrorKind, MessageKey>> = {
+    missingKey: 'error.missingKey',
+    invalidKey: 'error.invalidKey',
+    rateLimited: 'error.rateLimited',
+    safetyBlocked: 'error.safetyBlocked',
+    timeout: 'error.timeout',
+    network: 'error.network',
+    malformedOutput: 'common.invalidResponse',
+    badRequest: 'error.badRequest',
+};
+
+/**
+ * The message key explaining a failed AI request, or `fallback` when there is
+ * nothing more specific to say. Null for a cancellation, which the user asked for.
+ */
+export function errorMessageKey(error: unknown, fallback: MessageKey): MessageKey | null {
+    const { kind } = toAdvisorError(error);
+    if (kind === 'cancelled') return null;
+    return MESSAGE_OF_KIND[kind] ?? fallback;
+}
@@ -0,0 +1,21 @@
+// `locale` undefined means the browser's default locale.
+export function formatCurrency(value: number, currency: string, locale?: string): string {
+    try {
+        return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+    } catch {
+        // Unknown currency codes make Intl throw; fall back to a plain number.
+        return `${formatNumber(value, locale)} ${currency}`;
+    }
+}
+
+export function formatNumber(value: number, locale?: string): string {
+    return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+}
+
+export function formatPercent(ratio: number, locale?: string): string {
+    return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(ratio);
+}
+
+export function formatDateTime(timestamp: number, locale?: string): string {
+    return new Date(timestamp).toLocaleString(locale);
+}
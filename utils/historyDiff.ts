@@ -0,0 +1,45 @@
+import type { Confidence, TrendPrediction } from '../types';
+
+/** The fields shared by Recommendation and PortfolioAnalysisItem. */
+interface ComparableItem {
+    name: string;
+    confidence: Confidence;
+    prediction: TrendPrediction;
+}
+
+export type ItemChange<T extends ComparableItem> =
+    | { status: 'added'; after: T }
+    | { status: 'removed'; before: T }
+    | { status: 'changed'; before: T; after: T; fields: ('confidence' | 'prediction')[] }
+    | { status: 'unchanged'; before: T; after: T };
+
+// Models vary punctuation and suffixes between runs ("Fund - Direct Growth"
+// vs "Fund (Direct-Growth)"), so match on letters and digits only.
+const itemKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Compares two runs item by item. Order follows the newer run, with removed
+ * items appended at the end.
+ */
+export function diffRuns<T extends ComparableItem>(before: T[], after: T[]): ItemChange<T>[] {
+    const previous = new Map(before.map(item => [itemKey(item.name), item]));
+    const changes: ItemChange<T>[] = [];
+
+    for (const item of after) {
+        const key = itemKey(item.name);
+        const old = previous.get(key);
+        if (!old) {
+            changes.push({ status: 'added', after: item });
+            continue;
+        }
+        previous.delete(key);
+        const fields = (['prediction', 'confidence'] as const).filter(field => old[field] !== item[field]);
+        changes.push(fields.length
+            ? { status: 'changed', before: old, after: item, fields }
+            : { status: 'unchanged', before: old, after: item });
+    }
+    for (const old of previous.values()) {
+        changes.push({ status: 'removed', before: old });
+    }
+    return changes;
+}
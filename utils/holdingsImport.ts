@@ -0,0 +1,324 @@
+import { ASSET_CLASSES } from '../types';
+import type { AssetClass, Holding } from '../types';
+import type { MessageKey } from '../i18n/messages/en';
+import type { TranslationParams } from '../i18n/translate';
+import { createEmptyHolding } from './portfolio';
+
+// Classification fields are set in the editor, not imported.
+export type ImportField = Exclude<keyof Holding, 'id' | 'sector' | 'marketCap' | 'geography'>;
+
+// Labels come from the holding.* message keys.
+export const IMPORT_FIELDS: ImportField[] = ['symbol', 'name', 'assetClass', 'quantity', 'averageCost', 'currency', 'purchaseDate'];
+
+/** Column index for each holding field; unmapped fields use the import defaults. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportDefaults {
+    assetClass: AssetClass;
+    currency: string;
+}
+
+// Why a row was rejected, as a message key and its placeholders.
+export interface RejectReason {
+    reason: MessageKey;
+    params?: TranslationParams;
+}
+
+export interface RejectedRow extends RejectReason {
+    line: number;
+    raw: string[];
+}
+
+export interface ImportResult {
+    holdings: Holding[];
+    rejected: RejectedRow[];
+}
+
+/**
+ * A known export format. `toHolding` receives a lookup by (normalised) header
+ * name and may derive fields, e.g. average cost from total cost and units.
+ */
+export interface BrokerLayout {
+    id: string;
+    label: string;
+    requiredHeaders: string[];
+    toHolding: (cell: (header: string) => string) => Partial<Holding>;
+}
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Parses delimited text, honouring quoted fields. The delimiter is sniffed from the first line. */
+export function parseCsv(text: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    , ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field.trim());
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field.trim());
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+/** Accepts "₹1,23,456.50", "$ 1,234", "(250.00)" and similar broker formats. */
+export function parseAmount(value: string): number {
+    const trimmed = value.trim();
+    if (!trimmed) return NaN;
+    const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+    const digits = trimmed.replace(/[^0-9.]/g, '');
+    if (!digits) return NaN;
+    const amount = Number(digits);
+    return negative ? -amount : amount;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Returns an ISO date (YYYY-MM-DD), '' for an empty cell, or null if unrecognised. */
+export function parseDate(value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) return '';
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const build = (year: number, month: number, day: number) => {
+        const date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+        return `${year}-${pad(month)}-${pad(day)}`;
+    };
+
+    let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) return build(Number(match[1]), Number(match[2]), Number(match[3]));
+
+    // Indian exports use day-first dates: 15/01/2023, 15-01-2023.
+    match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (match) return build(Number(match[3]), Number(match[2]), Number(match[1]));
+
+    match = trimmed.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s,-]+(\d{4})$/);
+    if (match) {
+        const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+        return month > 0 ? build(Number(match[3]), month, Number(match[1])) : null;
+    }
+    return null;
+}
+
+const parseAssetClass = (value: string): AssetClass | null => {
+    const lower = value.trim().toLowerCase();
+    if (!lower) return null;
+    const exact = ASSET_CLASSES.find(c => c.toLowerCase() === lower);
+    if (exact) return exact;
+    if (/equity|share|stock/.test(lower)) return 'Stock';
+    if (/\betf\b/.test(lower)) return 'ETF';
+    if (/mutual|\bmf\b|scheme|fund/.test(lower)) return 'Mutual Fund';
+    if (/bond|debt|debenture|gsec/.test(lower)) return 'Bond';
+    if (/crypto|bitcoin|\bbtc\b|\beth\b/.test(lower)) return 'Crypto';
+    if (/gold|sgb/.test(lower)) return 'Gold';
+    return 'Other';
+};
+
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+    symbol: ['symbol', 'ticker', 'tradingsymbol', 'instrument', 'scrip', 'isin', 'code'],
+    name: ['name', 'stockname', 'schemename', 'scheme', 'security', 'description', 'companyname', 'fundname'],
+    assetClass: ['assetclass', 'assettype', 'type', 'category', 'instrumenttype', 'segment'],
+    quantity: ['quantity', 'qty', 'units', 'shares', 'balanceunits', 'closingunitbalance', 'holdingqty'],
+    averageCost: ['averagecost', 'avgcost', 'averageprice', 'avgprice', 'buyprice', 'averagebuyprice', 'costprice', 'purchaseprice', 'pricepaid', 'avgnav', 'purchasenav'],
+    currency: ['currency', 'ccy', 'curr'],
+    purchaseDate: ['purchasedate', 'buydate', 'date', 'tradedate', 'acquisitiondate', 'investmentdate', 'bought', 'purchased'],
+};
+
+/** Best-effort mapping from arbitrary headers, used to pre-fill the mapping step. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const normalised = headers.map(normaliseHeader);
+    const mapping: ColumnMapping = {};
+    const taken = new Set<number>();
+    for (const field of IMPORT_FIELDS) {
+        for (const synonym of HEADER_SYNONYMS[field]) {
+            const index = normalised.findIndex((h, i) => !taken.has(i) && h === synonym);
+            if (index !== -1) {
+                mapping[field] = index;
+                taken.add(index);
+                break;
+            }
+        }
+    }
+    return mapping;
+}
+
+export const BROKER_LAYOUTS: BrokerLayout[] = [
+    {
+        id: 'zerodha-kite',
+        label: 'Zerodha Kite holdings',
+        requiredHeaders: ['Instrument', 'Qty.', 'Avg. cost'],
+        toHolding: cell => ({
+            symbol: cell('Instrument').toUpperCase(),
+            assetClass: 'Stock',
+            quantity: parseAmount(cell('Qty.')),
+            averageCost: parseAmount(cell('Avg. cost')),
+            currency: 'INR',
+        }),
+    },
+    {
+        id: 'groww-stocks',
+        label: 'Groww stock holdings',
+        requiredHeaders: ['Stock Name', 'Quantity', 'Average buy price'],
+        toHolding: cell => ({
+            symbol: cell('ISIN').toUpperCase(),
+            name: cell('Stock Name'),
+            assetClass: 'Stock',
+            quantity: parseAmount(cell('Quantity')),
+            averageCost: parseAmount(cell('Average buy price')),
+            currency: 'INR',
+        }),
+    },
+    {
+        // Consolidated Account Statement summary from CAMS / KFintech.
+        id: 'cas-summary',
+        label: 'Mutual fund CAS summary (CAMS / KFintech)',
+        requiredHeaders: ['Scheme Name', 'Closing Unit Balance', 'Cost Value'],
+        toHolding: cell => {
+            const units = parseAmount(cell('Closing Unit Balance'));
+            const costValue = parseAmount(cell('Cost Value'));
+            return {
+                symbol: cell('ISIN').toUpperCase(),
+                name: cell('Scheme Name'),
+                assetClass: 'Mutual Fund',
+                quantity: units,
+                averageCost: units > 0 ? Math.round((costValue / units) * 10000) / 10000 : NaN,
+                currency: 'INR',
+            };
+        },
+    },
+];
+
+/**
+ * Looks through the first rows for a header matching a known layout; CAS and
+ * broker exports often start with a few lines of account details.
+ */
+export function detectLayout(rows: string[][]): { layout: BrokerLayout; headerRow: number } | null {
+    const searchDepth = Math.min(rows.length, 25);
+    for (let r = 0; r < searchDepth; r++) {
+        const headers = new Set(rows[r].map(normaliseHeader));
+        const layout = BROKER_LAYOUTS.find(l => l.requiredHeaders.every(h => headers.has(normaliseHeader(h))));
+        if (layout) return { layout, headerRow: r };
+    }
+    return null;
+}
+
+const finishRow = (
+    partial: Partial<Holding>,
+    defaults: ImportDefaults,
+    line: number,
+    raw: string[]
+): Holding | RejectedRow => {
+    const holding = { ...createEmptyHolding(defaults.currency), assetClass: defaults.assetClass, ...partial };
+    holding.symbol = (holding.symbol || '').trim();
+    holding.name = (holding.name || '').trim();
+    holding.currency = (holding.currency || defaults.currency).trim().toUpperCase();
+
+    if (!holding.symbol && !holding.name) {
+        return { line, raw, reason: 'import.reason.noName' };
+    }
+    if (!Number.isFinite(holding.quantity) || holding.quantity <= 0) {
+        return { line, raw, reason: 'import.reason.quantity' };
+    }
+    if (!Number.isFinite(holding.averageCost) || holding.averageCost < 0) {
+        return { line, raw, reason: 'import.reason.averageCost' };
+    }
+    return holding;
+};
+
+const collect = (
+    rows: string[][],
+    headerRow: number,
+    toPartial: (row: string[]) => Partial<Holding> | RejectReason,
+    defaults: ImportDefaults
+): ImportResult => {
+    const result: ImportResult = { holdings: [], rejected: [] };
+    rows.slice(headerRow + 1).forEach((row, offset) => {
+        // Line numbers are 1-based and count the header, matching a spreadsheet view.
+        const line = headerRow + offset + 2;
+        const partial = toPartial(row);
+        if ('reason' in partial) {
+            result.rejected.push({ line, raw: row, ...partial });
+            return;
+        }
+        const outcome = finishRow(partial, defaults, line, row);
+        if ('reason' in outcome) {
+            result.rejected.push(outcome);
+        } else {
+            result.holdings.push(outcome);
+        }
+    });
+    return result;
+};
+
+export function importWithLayout(rows: string[][], layout: BrokerLayout, headerRow: number, defaults: ImportDefaults): ImportResult {
+    const headers = rows[headerRow].map(normaliseHeader);
+    return collect(rows, headerRow, row => {
+        // Totals and footers in broker exports have fewer cells than the header.
+        if (row.length < layout.requiredHeaders.length) return { reason: 'import.reason.layout' };
+        const cell = (header: string) => {
+            const index = headers.indexOf(normaliseHeader(header));
+            return index === -1 ? '' : row[index] || '';
+        };
+        return layout.toHolding(cell);
+    }, defaults);
+}
+
+export function importWithMapping(rows: string[][], mapping: ColumnMapping, defaults: ImportDefaults, headerRow = 0): ImportResult {
+    return collect(rows, headerRow, row => {
+        const cell = (field: ImportField) => {
+            const index = mapping[field];
+            return index === undefined ? '' : row[index] || '';
+        };
+        const partial: Partial<Holding> = {
+            symbol: cell('symbol').toUpperCase(),
+            name: cell('name'),
+            quantity: parseAmount(cell('quantity')),
+            averageCost: mapping.averageCost === undefined ? 0 : parseAmount(cell('averageCost')),
+        };
+        if (mapping.currency !== undefined && cell('currency')) {
+            partial.currency = cell('currency');
+        }
+        const assetClass = parseAssetClass(cell('assetClass'));
+        if (assetClass) {
+            partial.assetClass = assetClass;
+        }
+        const purchaseDate = parseDate(cell('purchaseDate'));
+        if (purchaseDate === null) {
+            return { reason: 'import.reason.purchaseDate', params: { value: cell('purchaseDate') } };
+        }
+        partial.purchaseDate = purchaseDate;
+        return partial;
+    }, defaults);
+}
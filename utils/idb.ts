@@ -0,0 +1,154 @@
+const DB_NAME = 'finance-advisor';
+
+// Bump DB_VERSION whenever a store is added; the upgrade creates missing stores.
+const DB_VERSION = 5;
+const STORES: { name: string; keyPath: string; indexes?: string[] }[] = [
+    { name: 'history', keyPath: 'id', indexes: ['kind', 'createdAt'] },
+    { name: 'conversations', keyPath: 'id', indexes: ['updatedAt'] },
+    { name: 'tts-audio', keyPath: 'key', indexes: ['createdAt'] },
+    { name: 'watchlist', keyPath: 'id', indexes: ['addedAt'] },
+    { name: 'watch-alerts', keyPath: 'id', indexes: ['createdAt'] },
+    { name: 'responses', keyPath: 'key', indexes: ['createdAt'] },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            let gaveUp = false;
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of STORES) {
+                    if (db.objectStoreNames.contains(store.name)) continue;
+                    const objectStore = db.createObjectStore(store.name, { keyPath: store.keyPath });
+                    for (const index of store.indexes || []) {
+                        objectStore.createIndex(index, index);
+                    }
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                if (gaveUp) {
+                    db.close();
+                    return;
+                }
+                // Step aside when a newer version opens in another tab; the next call reopens.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            // A tab still on the old version holds the upgrade up; fail rather than wait for it.
+            request.onblocked = () => {
+                gaveUp = true;
+                reject(new Error('The database upgrade is blocked by another open tab.'));
+            };
+        });
+        // Allow a later call to retry if opening failed (e.g. private mode).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+export async function idbPut<T>(storeName: string, value: T): Promise<void> {
+    const db = await openDatabase();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+}
+
+export async function idbGet<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+export async function idbGetAll<T>(storeName: string, index?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return promisify(index ? store.index(index).getAll(query) : store.getAll(query));
+}
+
+/** Primary keys only, so large values (e.g. audio) aren't loaded just to be counted. */
+export async function idbGetAllKeys(storeName: string, index?: string): Promise<IDBValidKey[]> {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return promisify(index ? store.index(index).getAllKeys() : store.getAllKeys());
+}
+
+export async function idbDelete(storeName: string, key: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+}
+
+export async function idbClear(storeName: string): Promise<void> {
+    const db = await openDatabase();
+    await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+}
+
+export interface KeyedEntry {
+    key: string;
+    createdAt: number;
+}
+
+/** Where a cache keeps its entries; swappable so the cache works without IndexedDB. */
+export interface KeyedStore<T extends KeyedEntry> {
+    get(key: string): Promise<T | undefined>;
+    /** Adds the entry, replacing any with the same key. */
+    put(entry: T): Promise<void>;
+    /** Removes the oldest entries, by createdAt, beyond maxEntries. */
+    prune(maxEntries: number): Promise<void>;
+}
+
+/**
+ * Looks `key` up in `store`, treating a failure or no answer within timeoutMs
+ * as a miss, so a cache never holds up the request it sits in front of.
+ */
+export const getOrMiss = <T extends KeyedEntry>(store: KeyedStore<T>, key: string, timeoutMs = 2000): Promise<T | undefined> => {
+    let stopTimer = () => {};
+    const timeout = new Promise<undefined>(resolve => {
+        const timer = setTimeout(() => resolve(undefined), timeoutMs);
+        stopTimer = () => clearTimeout(timer);
+    });
+    return Promise.race([store.get(key).catch(() => undefined), timeout]).finally(() => stopTimer());
+};
+
+/** A KeyedStore over one of the STORES above, which must be keyed by `key` and indexed by `createdAt`. */
+export const idbKeyedStore = <T extends KeyedEntry>(storeName: string): KeyedStore<T> => ({
+    get: key => idbGet<T>(storeName, key),
+    put: entry => idbPut(storeName, entry),
+    prune: async maxEntries => {
+        // Keys come back ordered by createdAt, oldest first.
+        const keys = await idbGetAllKeys(storeName, 'createdAt');
+        await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map(key => idbDelete(storeName, key)));
+    },
+});
+
+/** A KeyedStore that lasts as long as the page, for tests and browsers without IndexedDB. */
+export const createMemoryStore = <T extends KeyedEntry>(): KeyedStore<T> => {
+    const entries = new Map<string, T>();
+    return {
+        get: async key => entries.get(key),
+        put: async entry => {
+            entries.set(entry.key, entry);
+        },
+        prune: async maxEntries => {
+            // A stable sort, so entries created in the same millisecond go in the order they were put.
+            const oldestFirst = [...entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+            for (const entry of oldestFirst.slice(0, Math.max(entries.size - maxEntries, 0))) {
+                entries.delete(entry.key);
+            }
+        },
+    };
+};
@@ -0,0 +1,258 @@
+/**
+ * A small Markdown parser for chat replies. It produces a tree that is
+ * rendered with React elements, so model output can never inject HTML.
+ */
+
+export type Inline =
+    | { type: 'text'; text: string }
+    | { type: 'number'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong'; children: Inline[] }
+    | { type: 'em'; children: Inline[] }
+    | { type: 'link'; href: string; children: Inline[] };
+
+export type Alignment = 'left' | 'center' | 'right' | null;
+
+export interface ChartSeries {
+    name: string;
+    values: number[];
+}
+
+export interface ChartSpec {
+    type: 'line' | 'bar';
+    title?: string;
+    labels: string[];
+    series: ChartSeries[];
+}
+
+export type Block =
+    | { type: 'heading'; level: number; children: Inline[] }
+    | { type: 'paragraph'; children: Inline[] }
+    | { type: 'blockquote'; children: Inline[] }
+    | { type: 'list'; ordered: boolean; items: Inline[][] }
+    | { type: 'table'; header: Inline[][]; align: Alignment[]; rows: Inline[][][] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'chart'; spec: ChartSpec }
+    | { type: 'rule' };
+
+const MAX_CHART_POINTS = 60;
+const MAX_CHART_SERIES = 6;
+
+/** Validates the JSON body of a ```chart block; returns null if it is unusable. */
+export function parseChartSpec(source: string): ChartSpec | null {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(source);
+    } catch {
+        return null;
+    }
+    if (typeof raw !== 'object' || raw === null) return null;
+    const { type, title, labels, series } = raw as Record<string, unknown>;
+    if (type !== 'line' && type !== 'bar') return null;
+    if (!Array.isArray(labels) || labels.length === 0 || labels.length > MAX_CHART_POINTS) return null;
+    if (!Array.isArray(series) || series.length === 0 || series.length > MAX_CHART_SERIES) return null;
+
+    const parsedSeries: ChartSeries[] = [];
+    for (const entry of series) {
+        if (typeof entry !== 'object' || entry === null) return null;
+        const { name, values } = entry as Record<string, unknown>;
+        if (!Array.isArray(values) || values.length !== labels.length) return null;
+        if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+        parsedSeries.push({ name: String(name ?? ''), values: values as number[] });
+    }
+    return {
+        type,
+        title: typeof title === 'string' ? title : undefined,
+        labels: labels.map(label => String(label)),
+        series: parsedSeries,
+    };
+}
+
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+// Order matters: code spans first so their contents are not re-parsed.
+const INLINE_PATTERN = new RegExp([
+    '(`[^`]+`)',
+    '(\\*\\*[^*]+\\*\\*|__[^_]+__)',
+    '(\\*[^*\\s][^*]*\\*|(?<![\\w])_[^_\\s][^_]*_(?![\\w]))',
+    '(\\[[^\\]]+\\]\\([^)\\s]+\\))',
+    '((?<![\\w.])(?:[₹$€£]\\s?)?[-+]?\\d[\\d,]*(?:\\.\\d+)?(?:\\s?(?:%|(?:crore|cr|lakh|L|K|M|B|bn)\\b))?)',
+].join('|'));
+
+export function parseInline(text: string): Inline[] {
+    const nodes: Inline[] = [];
+    let rest = text;
+    while (rest) {
+        const match = INLINE_PATTERN.exec(rest);
+        if (!match) {
+            nodes.push({ type: 'text', text: rest });
+            break;
+        }
+        if (match.index > 0) {
+            nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+        }
+        const [token, code, strong, em, link] = match;
+        if (code) {
+            nodes.push({ type: 'code', text: code.slice(1, -1) });
+        } else if (strong) {
+            nodes.push({ type: 'strong', children: parseInline(strong.slice(2, -2)) });
+        } else if (em) {
+            nodes.push({ type: 'em', children: parseInline(em.slice(1, -1)) });
+        } else if (link) {
+            const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+            nodes.push(SAFE_HREF.test(href)
+                ? { type: 'link', href, children: parseInline(label) }
+                : { type: 'text', text: label });
+        } else {
+            nodes.push({ type: 'number', text: token });
+        }
+        rest = rest.slice(match.index + token.length);
+    }
+    return nodes;
+}
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const alignmentOf = (cell: string): Alignment => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+};
+
+const startsBlock = (line: string, next: string | undefined) =>
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) ||
+    (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+export function parseMarkdown(source: string): Block[] {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const language = fence[1].toLowerCase();
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE.test(lines[i])) {
+                body.push(lines[i]);
+                i++;
+            }
+            const closed = i < lines.length;
+            i++;
+            const text = body.join('\n');
+            const spec = language === 'chart' && closed ? parseChartSpec(text) : null;
+            blocks.push(spec ? { type: 'chart', spec } : { type: 'code', language, text });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+            const header = splitRow(line);
+            const align = splitRow(lines[i + 1]).map(alignmentOf);
+            const rows: Inline[][][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+                const cells = splitRow(lines[i]);
+                rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+                i++;
+            }
+            blocks.push({ type: 'table', header: header.map(parseInline), align, rows });
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM);
+        if (item) {
+            const ordered = /\d/.test(item[1]);
+            const items: string[] = [];
+            while (i < lines.length) {
+                const current = lines[i].match(LIST_ITEM);
+                if (current && /\d/.test(current[1]) === ordered) {
+                    items.push(current[2]);
+                } else if (!current && lines[i].trim() !== '' && /^\s+/.test(lines[i]) && items.length > 0) {
+                    // Indented continuation of the previous item.
+                    items[items.length - 1] += ` ${lines[i].trim()}`;
+                } else {
+                    break;
+                }
+                i++;
+            }
+            blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) {
+                quoted.push(lines[i].match(QUOTE)![1]);
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseInline(quoted.join(' ')) });
+            continue;
+        }
+
+        const paragraph: string[] = [line.trim()];
+        i++;
+        while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines[i], lines[i + 1])) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+    }
+
+    return blocks;
+}
+
+const inlineText = (nodes: Inline[]): string =>
+    nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+/** Plain text of a reply for reading aloud; code and chart blocks are skipped. */
+export function toSpeechText(source: string): string {
+    return parseMarkdown(source)
+        .map(block => {
+            switch (block.type) {
+                case 'heading':
+                case 'paragraph':
+                case 'blockquote':
+                    return inlineText(block.children);
+                case 'list':
+                    return block.items.map(inlineText).join('. ');
+                case 'table':
+                    return block.rows.map(row => row.map(inlineText).join(', ')).join('. ');
+                default:
+                    return '';
+            }
+        })
+        .filter(Boolean)
+        .join('\n');
+}
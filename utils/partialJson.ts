@@ -0,0 +1,166 @@
+type Container = unknown[] | Record<string, unknown>;
+
+// What the innermost open container expects next. Arrays use 'start', 'value'
+// and 'comma'; objects use all five.
+type FrameState = 'start' | 'key' | 'colon' | 'value' | 'comma';
+
+interface Frame {
+    node: Container;
+    state: FrameState;
+    /** The key whose value comes next, in an object. */
+    key: string | null;
+}
+
+// A string, number or literal whose text has started but not ended.
+type Token =
+    | { kind: 'string'; raw: string; escaped: boolean; isKey: boolean }
+    | { kind: 'number' | 'literal'; raw: string };
+
+export interface JsonStreamParser {
+    /** Feeds the next piece of text. Throws a SyntaxError once it can no longer be JSON; the parser is then unusable. */
+    push(chunk: string): void;
+    /** The root object or array as parsed so far; undefined until its opening bracket arrives. */
+    readonly value: unknown;
+    /** True once the root has closed; anything after it is ignored. */
+    readonly done: boolean;
+    /** Whether `node`, an object or array inside `value`, has closed. */
+    isComplete(node: unknown): boolean;
+}
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+/**
+ * Parses a JSON document as it arrives, for showing a model's answer before
+ * it has finished. Objects and arrays appear in `value` as soon as they open
+ * and fill in as their members complete; strings, numbers and literals appear
+ * only once whole, so nothing shown is cut off mid-value. Text before the root
+ * object or array (such as a ```json fence) and after it is skipped.
+ */
+export function createJsonStreamParser(): JsonStreamParser {
+    const stack: Frame[] = [];
+    const open = new WeakSet<object>();
+    let root: Container | undefined;
+    let done = false;
+    let token: Token | null = null;
+    let position = 0;
+
+    const fail = (char: string): never => {
+        throw new SyntaxError(`Unexpected ${JSON.stringify(char)} in JSON at position ${position}`);
+    };
+
+    // Puts a finished value (or a just-opened container) into the current container.
+    const attach = (value: unknown) => {
+        const frame = stack[stack.length - 1];
+        if (Array.isArray(frame.node)) frame.node.push(value);
+        else frame.node[frame.key as string] = value;
+        frame.key = null;
+        frame.state = 'comma';
+    };
+
+    const openContainer = (node: Container) => {
+        if (stack.length === 0) root = node;
+        else attach(node);
+        open.add(node);
+        stack.push({ node, state: 'start', key: null });
+    };
+
+    const closeContainer = () => {
+        open.delete(stack.pop()!.node);
+        if (stack.length === 0) done = true;
+    };
+
+    const finishToken = (finished: Token) => {
+        token = null;
+        if (finished.kind === 'string' && finished.isKey) {
+            const frame = stack[stack.length - 1];
+            frame.key = JSON.parse(`"${finished.raw}"`);
+            frame.state = 'colon';
+            return;
+        }
+        const text = finished.kind === 'string' ? `"${finished.raw}"` : finished.raw;
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            throw new SyntaxError(`Invalid JSON value ${text} before position ${position}`);
+        }
+        attach(value);
+    };
+
+    const startValue = (char: string) => {
+        if (char === '{') openContainer({});
+        else if (char === '[') openContainer([]);
+        else if (char === '"') token = { kind: 'string', raw: '', escaped: false, isKey: false };
+        else if (char === '-' || (char >= '0' && char <= '9')) token = { kind: 'number', raw: char };
+        else if (char === 't' || char === 'f' || char === 'n') token = { kind: 'literal', raw: char };
+        else fail(char);
+    };
+
+    const step = (char: string) => {
+        if (token?.kind === 'string') {
+            if (token.escaped) token.escaped = false;
+            else if (char === '\\') token.escaped = true;
+            else if (char === '"') return finishToken(token);
+            token.raw += char;
+            return;
+        }
+        if (token) {
+            const continues = token.kind === 'number' ? /[0-9+\-.eE]/.test(char) : char >= 'a' && char <= 'z';
+            if (continues) {
+                token.raw += char;
+                return;
+            }
+            finishToken(token);
+        }
+
+        if (stack.length === 0) {
+            // Before the root opens; `done` covers after it closes.
+            if (char === '{' || char === '[') openContainer(char === '{' ? {} : []);
+            return;
+        }
+        if (isWhitespace(char)) return;
+
+        const frame = stack[stack.length - 1];
+        const isArray = Array.isArray(frame.node);
+        switch (frame.state) {
+            case 'start':
+                if (char === (isArray ? ']' : '}')) return closeContainer();
+                if (isArray) return startValue(char);
+                if (char === '"') token = { kind: 'string', raw: '', escaped: false, isKey: true };
+                else fail(char);
+                return;
+            case 'key':
+                if (char === '"') token = { kind: 'string', raw: '', escaped: false, isKey: true };
+                else fail(char);
+                return;
+            case 'colon':
+                if (char === ':') frame.state = 'value';
+                else fail(char);
+                return;
+            case 'value':
+                return startValue(char);
+            case 'comma':
+                if (char === ',') frame.state = isArray ? 'value' : 'key';
+                else if (char === (isArray ? ']' : '}')) closeContainer();
+                else fail(char);
+                return;
+        }
+    };
+
+    return {
+        push(chunk: string) {
+            for (const char of chunk) {
+                if (done) return;
+                step(char);
+                position++;
+            }
+        },
+        get value() {
+            return root;
+        },
+        get done() {
+            return done;
+        },
+        isComplete: (node: unknown) => typeof node === 'object' && node !== null && !open.has(node),
+    };
+}
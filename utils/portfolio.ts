@@ -0,0 +1,129 @@
+import type { Holding, HoldingAnalysis, PortfolioAnalysisItem } from '../types';
+import type { MessageKey } from '../i18n/messages/en';
+
+// Message keys, translated where the errors are shown.
+export type HoldingErrors = Partial<Record<keyof Holding, MessageKey>>;
+
+export function createEmptyHolding(currency = 'INR'): Holding {
+    return {
+        id: crypto.randomUUID(),
+        symbol: '',
+        name: '',
+        assetClass: 'Stock',
+        quantity: 0,
+        averageCost: 0,
+        currency,
+        purchaseDate: '',
+    };
+}
+
+export function holdingLabel(holding: Holding): string {
+    if (holding.symbol && holding.name) return `${holding.name} (${holding.symbol})`;
+    return holding.name || holding.symbol;
+}
+
+/** Returns a message per invalid field; an empty object means the row is valid. */
+export function validateHolding(holding: Holding, today = new Date()): HoldingErrors {
+    const errors: HoldingErrors = {};
+    if (!holding.symbol.trim() && !holding.name.trim()) {
+        errors.symbol = 'holding.error.symbolOrName';
+    }
+    if (!Number.isFinite(holding.quantity) || holding.quantity <= 0) {
+        errors.quantity = 'holding.error.quantity';
+    }
+    if (!Number.isFinite(holding.averageCost) || holding.averageCost < 0) {
+        errors.averageCost = 'holding.error.averageCost';
+    }
+    if (!/^[A-Z]{3}$/.test(holding.currency)) {
+        errors.currency = 'holding.error.currency';
+    }
+    if (holding.purchaseDate) {
+        const date = new Date(`${holding.purchaseDate}T00:00:00`);
+        if (Number.isNaN(date.getTime())) {
+            errors.purchaseDate = 'holding.error.invalidDate';
+        } else if (date > today) {
+            errors.purchaseDate = 'holding.error.futureDate';
+        }
+    }
+    return errors;
+}
+
+/** One line per holding, tagged with its id so the model can echo it back. */
+export function formatHoldingsForPrompt(holdings: Holding[]): string {
+    return holdings.map(holding => {
+        const parts = [
+            `[id: ${holding.id}] ${holdingLabel(holding)}`,
+            holding.assetClass,
+            `${holding.quantity} units at an average cost of ${holding.averageCost} ${holding.currency}`,
+        ];
+        if (holding.purchaseDate) {
+            parts.push(`purchased on ${holding.purchaseDate}`);
+        }
+        if (holding.sector) {
+            parts.push(`sector ${holding.sector}`);
+        }
+        if (holding.marketCap) {
+            parts.push(`${holding.marketCap} cap`);
+        }
+        return `- ${parts.join(', ')}`;
+    }).join('\n');
+}
+
+const findHolding = (item: PortfolioAnalysisItem, holdings: Holding[]): Holding | null => {
+    if (item.holdingId) {
+        const byId = holdings.find(h => h.id === item.holdingId);
+        if (byId) return byId;
+    }
+    const name = item.name.toLowerCase();
+    return holdings.find(h =>
+        (h.symbol && name.includes(h.symbol.toLowerCase())) ||
+        (h.name && name.includes(h.name.toLowerCase()))
+    ) || null;
+};
+
+/**
+ * Joins each analysed item back to the holding it describes and derives
+ * position metrics. Market value falls back to cost basis when the model did
+ * not return a current price, in which case the gain is left unknown.
+ * `toReporting` converts a holding's market value so positions in different
+ * currencies can be weighted against one total.
+ */
+export function joinAnalysisWithHoldings(
+    items: PortfolioAnalysisItem[],
+    holdings: Holding[],
+    toReporting: (amount: number, currency: string) => number | null,
+): HoldingAnalysis[] {
+    const rows = items.map((item): HoldingAnalysis => {
+        const holding = findHolding(item, holdings);
+        if (!holding) {
+            return { item, holding: null, costBasis: null, marketValue: null, reportingValue: null, weight: null, unrealizedGain: null, unrealizedGainPercent: null };
+        }
+        const costBasis = holding.quantity * holding.averageCost;
+        const marketValue = item.currentPrice !== undefined ? holding.quantity * item.currentPrice : costBasis;
+        const unrealizedGain = item.currentPrice !== undefined ? marketValue - costBasis : null;
+        return {
+            item,
+            holding,
+            costBasis,
+            marketValue,
+            reportingValue: toReporting(marketValue, holding.currency),
+            weight: null,
+            unrealizedGain,
+            unrealizedGainPercent: unrealizedGain !== null && costBasis > 0 ? unrealizedGain / costBasis : null,
+        };
+    });
+
+    const total = portfolioTotal(rows);
+    return rows.map(row => (row.reportingValue === null ? row : { ...row, weight: total > 0 ? row.reportingValue / total : null }));
+}
+
+/** Sum of the positions that could be converted to the reporting currency. */
+export function portfolioTotal(rows: HoldingAnalysis[]): number {
+    return rows.reduce((sum, row) => sum + (row.reportingValue ?? 0), 0);
+}
+
+/** Currencies of joined holdings that had no exchange rate, in first-seen order. */
+export function unconvertedCurrencies(rows: HoldingAnalysis[]): string[] {
+    const missing = rows.filter(row => row.holding && row.reportingValue === null).map(row => row.holding!.currency);
+    return [...new Set(missing)];
+}
@@ -0,0 +1,101 @@
+import type { RiskTolerance } from '../types';
+
+export interface ReturnAssumptions {
+    /** Expected yearly return, e.g. 0.1 for 10%. */
+    annualReturn: number;
+    /** Expected yearly inflation, e.g. 0.06 for 6%. */
+    inflation: number;
+}
+
+// Long-run averages for an Indian portfolio leaning on debt, balanced and
+// equity funds respectively. Starting points only; the user can change them.
+export const RISK_ASSUMPTIONS: Record<RiskTolerance, ReturnAssumptions> = {
+    Low: { annualReturn: 0.07, inflation: 0.06 },
+    Medium: { annualReturn: 0.10, inflation: 0.06 },
+    High: { annualReturn: 0.12, inflation: 0.06 },
+};
+
+export const GOALS = ['retirement', 'education', 'home'] as const;
+export type Goal = typeof GOALS[number];
+
+export interface ProjectionInputs extends ReturnAssumptions {
+    /** Invested once, at the start. */
+    lumpSum: number;
+    /** Invested at the start of every month. */
+    monthlySip: number;
+    years: number;
+}
+
+export interface ProjectionYear {
+    year: number;
+    /** Total put in by the end of the year. */
+    invested: number;
+    /** Portfolio value at the end of the year. */
+    value: number;
+    /** `value` in today's money. */
+    realValue: number;
+}
+
+export interface Projection {
+    schedule: ProjectionYear[];
+    invested: number;
+    futureValue: number;
+    realValue: number;
+}
+
+// The monthly rate that compounds to the annual one, so 12 months at it
+// give exactly `annualReturn` rather than the slightly higher nominal/12.
+export const monthlyRate = (annualReturn: number): number => Math.pow(1 + annualReturn, 1 / 12) - 1;
+
+// Value after `months` of investing 1 at the start of each month (annuity due).
+const sipFactor = (rate: number, months: number): number =>
+    rate === 0 ? months : ((Math.pow(1 + rate, months) - 1) / rate) * (1 + rate);
+
+const deflate = (value: number, inflation: number, years: number): number => value / Math.pow(1 + inflation, years);
+
+/**
+ * Year-by-year growth of a lump sum plus a monthly SIP with monthly
+ * compounding. Partial years are not modelled; `years` is rounded down.
+ */
+export function projectInvestment({ lumpSum, monthlySip, years, annualReturn, inflation }: ProjectionInputs): Projection {
+    const rate = monthlyRate(annualReturn);
+    const wholeYears = Math.max(0, Math.floor(years));
+    const schedule: ProjectionYear[] = [];
+    for (let year = 1; year <= wholeYears; year++) {
+        const months = year * 12;
+        const value = lumpSum * Math.pow(1 + rate, months) + monthlySip * sipFactor(rate, months);
+        schedule.push({
+            year,
+            invested: lumpSum + monthlySip * months,
+            value,
+            realValue: deflate(value, inflation, year),
+        });
+    }
+    const last = schedule[schedule.length - 1];
+    return {
+        schedule,
+        invested: last ? last.invested : lumpSum,
+        futureValue: last ? last.value : lumpSum,
+        realValue: last ? last.realValue : lumpSum,
+    };
+}
+
+/** What a target stated in today's money will cost after `years` of inflation. */
+export const inflateTarget = (targetToday: number, inflation: number, years: number): number =>
+    targetToday * Math.pow(1 + inflation, Math.max(0, Math.floor(years)));
+
+/**
+ * Monthly SIP needed, on top of the lump sum, to reach `targetToday` (in
+ * today's money) after `years`. Zero when the lump sum alone gets there;
+ * null when there is no whole year to invest over.
+ */
+export function requiredMonthlySip(
+    targetToday: number,
+    { lumpSum, years, annualReturn, inflation }: Omit<ProjectionInputs, 'monthlySip'>,
+): number | null {
+    const months = Math.max(0, Math.floor(years)) * 12;
+    if (months === 0) return null;
+    const rate = monthlyRate(annualReturn);
+    const shortfall = inflateTarget(targetToday, inflation, years) - lumpSum * Math.pow(1 + rate, months);
+    return shortfall > 0 ? shortfall / sipFactor(rate, months) : 0;
+}
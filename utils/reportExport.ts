@@ -0,0 +1,219 @@
+import type { GroundingChunk, Holding, Report } from '../types';
+import type { I18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import { holdingLabel } from './portfolio';
+
+// Exports are written in the app language, like the screen they came from.
+const reportTitle = (report: Report, { t }: I18n) =>
+    t(report.kind === 'advice' ? 'advisor.title' : 'predictor.title');
+
+const disclaimer = (report: Report, { t }: I18n) =>
+    t(report.kind === 'advice' ? 'advisor.disclaimer' : 'predictor.disclaimer');
+
+const parameterRows = (report: Report, { t, formatCurrency, formatNumber }: I18n): [string, string][] => {
+    if (report.kind === 'advice') {
+        const { investmentAmount, currency, riskTolerance, investmentHorizon, language, riskProfile } = report.inputs;
+        return [
+            [t('export.amount'), formatCurrency(investmentAmount, currency)],
+            [t('advisor.risk'), t(`risk.${riskTolerance}` as MessageKey)],
+            ...(riskProfile ? [[t('export.riskScore'), `${riskProfile.score}/100`] as [string, string]] : []),
+            [t('export.horizon'), t('export.years', { count: formatNumber(investmentHorizon) })],
+            [t('app.language'), language],
+        ];
+    }
+    return [
+        [t('export.holdingCount'), formatNumber(report.inputs.holdings.length)],
+        [t('app.language'), report.inputs.language],
+    ];
+};
+
+const holdingHeaders = ({ t }: I18n) => [
+    t('export.holding'), t('holding.assetClass'), t('holding.quantity'), t('holding.averageCost'), t('holding.currency'), t('holding.purchaseDate'),
+];
+
+const holdingCells = (holding: Holding, { t }: I18n) => [
+    holdingLabel(holding), t(`assetClass.${holding.assetClass}` as MessageKey), String(holding.quantity), String(holding.averageCost), holding.currency, holding.purchaseDate || '—',
+];
+
+const trendText = (prediction: string, { t }: I18n) => t(`trend.${prediction}` as MessageKey);
+const confidenceText = (confidence: string, { t }: I18n) => t(`confidence.${confidence}` as MessageKey);
+
+const sourceLinks = (sources: GroundingChunk[]) =>
+    sources.filter(s => s.web?.uri).map(s => ({ uri: s.web!.uri!, title: s.web!.title || s.web!.uri! }));
+
+export function reportFileName(report: Report, extension: string): string {
+    const stamp = new Date(report.createdAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    return `${report.kind === 'advice' ? 'financial-plan' : 'portfolio-prediction'}-${stamp}.${extension}`;
+}
+
+/** Machine-readable, so field names and values stay in English whatever the app language. */
+export function toJson(report: Report): string {
+    return JSON.stringify({
+        type: report.kind,
+        generatedAt: new Date(report.createdAt).toISOString(),
+        inputs: report.inputs,
+        result: report.result,
+        sources: sourceLinks(report.sources),
+    }, null, 2);
+}
+
+const mdEscape = (text: string) => text.replace(/([\\`*_[\]|])/g, '\\$1').replace(/\n+/g, ' ');
+
+export function toMarkdown(report: Report, i18n: I18n): string {
+    const { t } = i18n;
+    const lines: string[] = [
+        `# ${reportTitle(report, i18n)}`,
+        '',
+        `_${t('export.generated', { date: i18n.formatDateTime(report.createdAt) })}_`,
+        '',
+        `## ${t('export.parameters')}`,
+        '',
+        `| ${t('export.parameter')} | ${t('export.value')} |`,
+        '| --- | --- |',
+        ...parameterRows(report, i18n).map(([label, value]) => `| ${label} | ${mdEscape(value)} |`),
+        '',
+    ];
+
+    if (report.kind === 'advice') {
+        lines.push(`## ${t('export.summary')}`, '', report.result.summary, '', `## ${t('export.recommendations')}`, '');
+        for (const item of report.result.recommendations) {
+            lines.push(
+                `### ${mdEscape(item.name)}`,
+                '',
+                `- **${t('export.category')}** ${mdEscape(item.category)}`,
+                `- **${t('common.prediction')}** ${trendText(item.prediction, i18n)}`,
+                `- **${t('common.confidence')}** ${confidenceText(item.confidence, i18n)}`,
+                '',
+                item.rationale,
+                '',
+            );
+        }
+    } else {
+        const headers = holdingHeaders(i18n);
+        lines.push(`## ${t('predictor.holdings')}`, '', `| ${headers.join(' | ')} |`, `|${' --- |'.repeat(headers.length)}`);
+        for (const h of report.inputs.holdings) {
+            lines.push(`| ${holdingCells(h, i18n).map(mdEscape).join(' | ')} |`);
+        }
+        lines.push('', `## ${t('export.overallSummary')}`, '', report.result.overallSummary, '', `## ${t('export.analysis')}`, '');
+        for (const item of report.result.portfolioAnalysis) {
+            lines.push(
+                `### ${mdEscape(item.name)}`,
+                '',
+                `- **${t('common.prediction')}** ${trendText(item.prediction, i18n)}`,
+                `- **${t('common.confidence')}** ${confidenceText(item.confidence, i18n)}`,
+                ...(item.currentPrice !== undefined ? [`- **${t('export.latestPrice')}** ${item.currentPrice}`] : []),
+                '',
+                `**${t('predictor.analysis')}** ${item.currentAnalysis}`,
+                '',
+                `**${t('predictor.outlook')}** ${item.futureOutlook}`,
+                '',
+            );
+        }
+    }
+
+    const links = sourceLinks(report.sources);
+    if (links.length > 0) {
+        lines.push(`## ${t('export.sources')}`, '', ...links.map(link => `- [${mdEscape(link.title)}](${link.uri})`), '');
+    }
+    lines.push('---', '', `_${disclaimer(report, i18n)}_`, '');
+    return lines.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const card = (title: string, meta: string[], paragraphs: string[]) => `
+    <section class="card">
+        <h3>${escapeHtml(title)}</h3>
+        <p class="meta">${meta.map(escapeHtml).join(' &middot; ')}</p>
+        ${paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('')}
+    </section>`;
+
+/** A standalone, print-styled HTML document; printing it to PDF gives the PDF report. */
+export function toPrintableHtml(report: Report, i18n: I18n): string {
+    const { t } = i18n;
+    const title = reportTitle(report, i18n);
+    const predictionMeta = (item: { prediction: string; confidence: string }) => [
+        `${t('common.prediction')} ${trendText(item.prediction, i18n)}`,
+        `${t('common.confidence')} ${confidenceText(item.confidence, i18n)}`,
+    ];
+    const body = report.kind === 'advice'
+        ? `<h2>${escapeHtml(t('export.summary'))}</h2><p>${escapeHtml(report.result.summary)}</p>
+           <h2>${escapeHtml(t('export.recommendations'))}</h2>
+           ${report.result.recommendations.map(item => card(item.name, [item.category, ...predictionMeta(item)], [item.rationale])).join('')}`
+        : `<h2>${escapeHtml(t('predictor.holdings'))}</h2>
+           <table><thead><tr>${holdingHeaders(i18n).map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead><tbody>
+           ${report.inputs.holdings.map(h => `<tr>${holdingCells(h, i18n).map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+           </tbody></table>
+           <h2>${escapeHtml(t('export.overallSummary'))}</h2><p>${escapeHtml(report.result.overallSummary)}</p>
+           <h2>${escapeHtml(t('export.analysis'))}</h2>
+           ${report.result.portfolioAnalysis.map(item => card(item.name, predictionMeta(item), [
+               `${t('predictor.analysis')} ${item.currentAnalysis}`,
+               `${t('predictor.outlook')} ${item.futureOutlook}`,
+           ])).join('')}`;
+
+    const links = sourceLinks(report.sources);
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(i18n.language.locale)}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+    body { font-family: system-ui, -apple-system, "Segoe UI", "Noto Sans", "Noto Sans Devanagari", sans-serif; color: #111827; margin: 2rem; line-height: 1.5; }
+    h1 { color: #047857; margin-bottom: 0; }
+    h2 { color: #065f46; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; margin-top: 2rem; }
+    h3 { margin: 0 0 0.25rem; }
+    .generated, .meta { color: #6b7280; font-size: 0.875rem; }
+    .card { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 0.75rem; break-inside: avoid; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.5rem; text-align: left; }
+    .disclaimer { margin-top: 2rem; font-size: 0.75rem; color: #6b7280; font-style: italic; }
+    a { color: #047857; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="generated">${escapeHtml(t('export.generated', { date: i18n.formatDateTime(report.createdAt) }))}</p>
+<h2>${escapeHtml(t('export.parameters'))}</h2>
+<table><tbody>${parameterRows(report, i18n).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>
+${body}
+${links.length > 0 ? `<h2>${escapeHtml(t('export.sources'))}</h2><ul>${links.map(link => `<li><a href="${escapeHtml(link.uri)}">${escapeHtml(link.title)}</a></li>`).join('')}</ul>` : ''}
+<p class="disclaimer">${escapeHtml(disclaimer(report, i18n))}</p>
+</body>
+</html>`;
+}
+
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Opens the report in a hidden frame and invokes the browser's print dialog,
+ * where "Save as PDF" produces the file. Going through the browser keeps
+ * Devanagari and other scripts rendering correctly.
+ */
+export function printReport(report: Report, i18n: I18n) {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.srcdoc = toPrintableHtml(report, i18n);
+    frame.onload = () => {
+        const win = frame.contentWindow;
+        if (!win) return;
+        win.document.title = reportFileName(report, 'pdf').replace(/\.pdf$/, '');
+        win.onafterprint = () => frame.remove();
+        win.focus();
+        win.print();
+    };
+    document.body.appendChild(frame);
+}
@@ -0,0 +1,68 @@
+import { AdvisorError, toAdvisorError } from '../services/errors';
+
+export interface RetryPolicy {
+    /** Tries in total, including the first. */
+    attempts: number;
+    /** Delay before the second try; doubles for each one after, up to maxDelayMs. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** Limit for each try; the call's signal is aborted when it passes. */
+    timeoutMs: number;
+}
+
+export interface RetryOptions extends RetryPolicy {
+    /** Cancels the current try and any that would follow. */
+    signal?: AbortSignal;
+    /** Source of the jitter; swappable for deterministic tests. */
+    random?: () => number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(toAdvisorError(signal?.reason, signal));
+    };
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation` with a timeout per try, retrying transient failures (rate
+ * limits, timeouts, network errors) with exponential backoff and jitter. A
+ * service's Retry-After wins when it is longer. Every failure is rethrown as an
+ * AdvisorError; aborting `signal` rejects at once with kind 'cancelled'.
+ */
+export async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+    const { attempts, baseDelayMs, maxDelayMs, timeoutMs, signal, random = Math.random } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw toAdvisorError(signal.reason, signal);
+        const controller = new AbortController();
+        const forward = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', forward, { once: true });
+        const timer = setTimeout(() => controller.abort(new AdvisorError('timeout', `No answer within ${Math.round(timeoutMs / 1000)} seconds.`)), timeoutMs);
+        // Settles on abort even if the operation ignores its signal.
+        const aborted = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+        aborted.catch(() => undefined);
+
+        try {
+            return await Promise.race([operation(controller.signal), aborted]);
+        } catch (caught) {
+            const error = signal?.aborted
+                ? toAdvisorError(signal.reason, signal)
+                : toAdvisorError(caught, controller.signal.aborted ? controller.signal : undefined);
+            if (!error.retryable || attempt >= attempts) throw error;
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + random() / 2);
+            await sleep(Math.max(backoff, (error.retryAfter ?? 0) * 1000), signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forward);
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import { RISK_QUESTION_IDS } from '../types';
+import type { RiskProfile, RiskQuestionId, RiskTolerance } from '../types';
+
+export interface RiskOption {
+    id: string;
+    /** 0-4; higher means more room for risk. */
+    points: number;
+    /** English wording for the prompt; the UI uses the riskQuiz.* message keys. */
+    label: string;
+}
+
+export interface RiskQuestion {
+    id: RiskQuestionId;
+    weight: number;
+    /** English wording for the prompt. */
+    label: string;
+    options: RiskOption[];
+}
+
+export const MAX_POINTS = 4;
+
+// The first four questions measure capacity for risk, the last two willingness.
+// Reaction to a fall counts double: it predicts panic selling best.
+export const RISK_QUESTIONS: RiskQuestion[] = [
+    {
+        id: 'age', weight: 1, label: 'Age', options: [
+            { id: 'under30', points: 4, label: 'under 30' },
+            { id: '30to44', points: 3, label: '30-44' },
+            { id: '45to59', points: 2, label: '45-59' },
+            { id: '60plus', points: 0, label: '60 or over' },
+        ],
+    },
+    {
+        id: 'incomeStability', weight: 1, label: 'Income stability', options: [
+            { id: 'veryStable', points: 4, label: 'very stable (e.g. permanent salaried job)' },
+            { id: 'stable', points: 3, label: 'mostly stable' },
+            { id: 'variable', points: 1, label: 'variable (business, freelance, commission)' },
+            { id: 'none', points: 0, label: 'no regular income' },
+        ],
+    },
+    {
+        id: 'dependents', weight: 1, label: 'Financial dependents', options: [
+            { id: 'none', points: 4, label: 'none' },
+            { id: 'oneOrTwo', points: 2, label: 'one or two' },
+            { id: 'threePlus', points: 1, label: 'three or more' },
+        ],
+    },
+    {
+        id: 'emergencyFund', weight: 1, label: 'Emergency fund', options: [
+            { id: 'sixPlus', points: 4, label: 'six months of expenses or more' },
+            { id: 'threeToSix', points: 3, label: 'three to six months of expenses' },
+            { id: 'underThree', points: 1, label: 'less than three months of expenses' },
+            { id: 'none', points: 0, label: 'none' },
+        ],
+    },
+    {
+        id: 'drawdownReaction', weight: 2, label: 'Reaction if the portfolio fell 20%', options: [
+            { id: 'buyMore', points: 4, label: 'would invest more' },
+            { id: 'hold', points: 3, label: 'would hold and wait' },
+            { id: 'sellSome', points: 1, label: 'would sell some' },
+            { id: 'sellAll', points: 0, label: 'would sell everything' },
+        ],
+    },
+    {
+        id: 'experience', weight: 1, label: 'Investing experience', options: [
+            { id: 'extensive', points: 4, label: 'several years of stocks or equity funds' },
+            { id: 'some', points: 3, label: 'some mutual funds or stocks' },
+            { id: 'depositsOnly', points: 1, label: 'only FDs and savings accounts' },
+            { id: 'none', points: 0, label: 'none' },
+        ],
+    },
+];
+
+/** Answers that limit the tolerance whatever the score, and the highest tolerance they allow. */
+export const RISK_CAPS = [
+    { id: 'wouldSellAll', question: 'drawdownReaction', option: 'sellAll', limit: 'Low' },
+    { id: 'noEmergencyFund', question: 'emergencyFund', option: 'none', limit: 'Medium' },
+] as const satisfies readonly { id: string; question: RiskQuestionId; option: string; limit: RiskTolerance }[];
+
+export type RiskCapId = typeof RISK_CAPS[number]['id'];
+
+// Scores from LOW_BELOW up to HIGH_FROM are Medium.
+export const LOW_BELOW = 40;
+export const HIGH_FROM = 70;
+
+export interface ScoreLine {
+    question: RiskQuestionId;
+    option: string;
+    points: number;
+    weight: number;
+    /** Share of the maximum score this answer could have added, 0-1. */
+    share: number;
+}
+
+export interface RiskScore {
+    score: number;
+    /** Tolerance from the score alone, before any cap. */
+    scoreTolerance: RiskTolerance;
+    tolerance: RiskTolerance;
+    lines: ScoreLine[];
+    caps: RiskCapId[];
+}
+
+const TOLERANCE_ORDER: RiskTolerance[] = ['Low', 'Medium', 'High'];
+
+const totalWeight = RISK_QUESTIONS.reduce((sum, q) => sum + q.weight, 0);
+
+export const questionById = (id: RiskQuestionId): RiskQuestion => RISK_QUESTIONS.find(q => q.id === id)!;
+
+export const isComplete = (answers: Partial<Record<RiskQuestionId, string>>): answers is Record<RiskQuestionId, string> =>
+    RISK_QUESTION_IDS.every(id => questionById(id).options.some(option => option.id === answers[id]));
+
+export const toleranceForScore = (score: number): RiskTolerance =>
+    score < LOW_BELOW ? 'Low' : score < HIGH_FROM ? 'Medium' : 'High';
+
+/**
+ * Weighted score out of 100 with the contribution of each answer, then capped
+ * where a single answer rules out more risk. Answers must be complete.
+ */
+export function scoreRiskAnswers(answers: Record<RiskQuestionId, string>): RiskScore {
+    const lines = RISK_QUESTIONS.map((question): ScoreLine => {
+        const option = question.options.find(o => o.id === answers[question.id]);
+        if (!option) throw new Error(`No answer for ${question.id}`);
+        return {
+            question: question.id,
+            option: option.id,
+            points: option.points,
+            weight: question.weight,
+            share: (option.points * question.weight) / (MAX_POINTS * totalWeight),
+        };
+    });
+    const score = Math.round(lines.reduce((sum, line) => sum + line.share, 0) * 100);
+    const scoreTolerance = toleranceForScore(score);
+    const caps = RISK_CAPS.filter(cap => answers[cap.question] === cap.option);
+    const tolerance = caps.reduce<RiskTolerance>((current, cap) =>
+        TOLERANCE_ORDER.indexOf(cap.limit) < TOLERANCE_ORDER.indexOf(current) ? cap.limit : current
+    , scoreTolerance);
+    return { score, scoreTolerance, tolerance, lines, caps: caps.map(cap => cap.id) };
+}
+
+export const createRiskProfile = (answers: Record<RiskQuestionId, string>, now = Date.now()): RiskProfile => {
+    const { score, tolerance } = scoreRiskAnswers(answers);
+    return { answers, score, tolerance, completedAt: now };
+};
+
+const CAP_REASONS: Record<RiskCapId, string> = {
+    wouldSellAll: 'they would sell everything after a 20% fall',
+    noEmergencyFund: 'they have no emergency fund',
+};
+
+/** The score and answers in plain English, for the advice prompt. */
+export function describeRiskProfile(profile: RiskProfile): string {
+    const { caps } = scoreRiskAnswers(profile.answers);
+    const answers = RISK_QUESTIONS.map(question =>
+        `${question.label}: ${question.options.find(o => o.id === profile.answers[question.id])?.label ?? 'not answered'}`);
+    const lines = [`Questionnaire score: ${profile.score}/100, suggesting ${profile.tolerance} risk`, ...answers];
+    if (caps.length > 0) {
+        lines.push(`Limited to ${profile.tolerance} because ${caps.map(cap => CAP_REASONS[cap]).join(' and ')}`);
+    }
+    return lines.map(line => `- ${line}`).join('\n');
+}
@@ -0,0 +1,172 @@
+import type { AssetClass, HoldingAnalysis, Recommendation } from '../types';
+
+export interface AssetAssumption {
+    /** Expected yearly return, e.g. 0.12 for 12%. */
+    annualReturn: number;
+    /** Yearly standard deviation of returns. */
+    volatility: number;
+}
+
+// Rough long-run figures for Indian markets; enough to show spread, not to forecast.
+export const ASSET_CLASS_ASSUMPTIONS: Record<AssetClass, AssetAssumption> = {
+    'Stock': { annualReturn: 0.13, volatility: 0.25 },
+    'Mutual Fund': { annualReturn: 0.11, volatility: 0.16 },
+    'ETF': { annualReturn: 0.11, volatility: 0.17 },
+    'Bond': { annualReturn: 0.07, volatility: 0.04 },
+    'Crypto': { annualReturn: 0.15, volatility: 0.70 },
+    'Gold': { annualReturn: 0.08, volatility: 0.14 },
+    'Cash': { annualReturn: 0.04, volatility: 0.005 },
+    'Other': { annualReturn: 0.08, volatility: 0.15 },
+};
+
+export interface AllocationSlice {
+    assetClass: AssetClass;
+    /** Share of the portfolio, 0-1. Slices of one allocation sum to 1. */
+    weight: number;
+}
+
+export interface SimulationInput {
+    allocation: AllocationSlice[];
+    initialValue: number;
+    years: number;
+    paths: number;
+    seed: number;
+    /** Target value at the horizon; 0 skips the goal probability. */
+    goal: number;
+    assumptions?: Record<AssetClass, AssetAssumption>;
+}
+
+export interface PercentileBand {
+    year: number;
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface SimulationResult {
+    bands: PercentileBand[];
+    /** Share of paths ending at or above the goal; null when no goal was set. */
+    goalProbability: number | null;
+    /** Largest peak-to-trough fall along each path, as a fraction of the peak. */
+    maxDrawdown: { p10: number; p50: number; p90: number };
+    /** Share of paths whose worst fall lands in each 10%-wide bucket, from 0-10% up. */
+    drawdownHistogram: number[];
+}
+
+/** mulberry32: small, fast and good enough for simulation; not for anything secret. */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Box-Muller; 1 - random() keeps the log argument away from zero.
+const standardNormal = (random: () => number): number =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending. */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+    if (sorted.length === 0) return NaN;
+    const rank = (sorted.length - 1) * p;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Monte Carlo over monthly steps. Each asset class follows its own lognormal
+ * path (no correlation between classes) and the portfolio is rebalanced to
+ * the allocation every month. The same input and seed give the same result.
+ */
+export function runSimulation({
+    allocation, initialValue, years, paths, seed, goal, assumptions = ASSET_CLASS_ASSUMPTIONS,
+}: SimulationInput): SimulationResult {
+    const random = createRandom(seed);
+    const wholeYears = Math.max(1, Math.floor(years));
+    const months = wholeYears * 12;
+    const monthly = allocation.map(({ assetClass, weight }) => {
+        const { annualReturn, volatility } = assumptions[assetClass];
+        const sigma = volatility / Math.sqrt(12);
+        // Drift chosen so the median yearly growth is ln(1 + annualReturn) minus the usual volatility drag.
+        return { weight, drift: Math.log(1 + annualReturn) / 12 - (sigma * sigma) / 2, sigma };
+    });
+
+    const yearEnd = Array.from({ length: wholeYears }, () => new Float64Array(paths));
+    const drawdowns = new Float64Array(paths);
+
+    for (let path = 0; path < paths; path++) {
+        let value = initialValue;
+        let peak = initialValue;
+        let worst = 0;
+        for (let month = 1; month <= months; month++) {
+            let growth = 0;
+            for (const slice of monthly) {
+                growth += slice.weight * Math.exp(slice.drift + slice.sigma * standardNormal(random));
+            }
+            value *= growth;
+            if (value > peak) {
+                peak = value;
+            } else if (peak > 0) {
+                worst = Math.max(worst, (peak - value) / peak);
+            }
+            if (month % 12 === 0) yearEnd[month / 12 - 1][path] = value;
+        }
+        drawdowns[path] = worst;
+    }
+
+    const bands = yearEnd.map((values, index) => {
+        values.sort();
+        return { year: index + 1, p10: percentile(values, 0.1), p50: percentile(values, 0.5), p90: percentile(values, 0.9) };
+    });
+    const final = yearEnd[wholeYears - 1];
+    let reached = 0;
+    for (const value of final) if (value >= goal) reached++;
+
+    drawdowns.sort();
+    const histogram = new Array(10).fill(0);
+    for (const drawdown of drawdowns) histogram[Math.min(9, Math.floor(drawdown * 10))]++;
+
+    return {
+        bands,
+        goalProbability: goal > 0 && paths > 0 ? reached / paths : null,
+        maxDrawdown: { p10: percentile(drawdowns, 0.1), p50: percentile(drawdowns, 0.5), p90: percentile(drawdowns, 0.9) },
+        drawdownHistogram: histogram.map(count => (paths > 0 ? count / paths : 0)),
+    };
+}
+
+// Merges repeated classes and scales the weights to sum to 1.
+const normalise = (slices: AllocationSlice[]): AllocationSlice[] => {
+    const totals = new Map<AssetClass, number>();
+    for (const { assetClass, weight } of slices) {
+        if (weight > 0) totals.set(assetClass, (totals.get(assetClass) || 0) + weight);
+    }
+    const sum = [...totals.values()].reduce((a, b) => a + b, 0);
+    return sum > 0 ? [...totals].map(([assetClass, weight]) => ({ assetClass, weight: weight / sum })) : [];
+};
+
+const categoryToAssetClass = (category: string): AssetClass => {
+    const lower = category.toLowerCase();
+    if (lower.includes('stock') || lower.includes('equity') || lower.includes('share')) return 'Stock';
+    if (lower.includes('etf')) return 'ETF';
+    if (lower.includes('bond') || lower.includes('debt')) return 'Bond';
+    if (lower.includes('gold')) return 'Gold';
+    if (lower.includes('crypto')) return 'Crypto';
+    // Mutual funds and SIPs, which the advice prompt asks for by name.
+    if (lower.includes('fund') || lower.includes('sip')) return 'Mutual Fund';
+    return 'Other';
+};
+
+/** Splits the plan equally across its recommendations. */
+export const allocationFromRecommendations = (recommendations: Recommendation[]): AllocationSlice[] =>
+    normalise(recommendations.map(r => ({ assetClass: categoryToAssetClass(r.category), weight: 1 })));
+
+/** Weights positions by value in the reporting currency; unconverted ones are left out. */
+export const allocationFromHoldings = (rows: HoldingAnalysis[]): AllocationSlice[] =>
+    normalise(rows.flatMap(row => (row.holding && row.reportingValue !== null
+        ? [{ assetClass: row.holding.assetClass, weight: row.reportingValue }]
+        : [])));
@@ -0,0 +1,267 @@
+import type { Holding } from '../types';
+import { geographyOf } from './allocation';
+
+export const TAX_CATEGORIES = ['listedEquity', 'foreignEquity', 'debt', 'gold', 'crypto', 'other'] as const;
+export type TaxCategory = typeof TAX_CATEGORIES[number];
+
+export type GainTerm = 'short' | 'long';
+
+export interface TaxRule {
+    /** Held for more than this many months counts as long-term; null means gains are never long-term. */
+    longTermAfterMonths: number | null;
+    /** Rates as fractions, e.g. 0.2; null means the investor's income-tax slab rate. */
+    shortTermRate: number | null;
+    longTermRate: number | null;
+    /** Long-term gains exempt each financial year, in rupees. */
+    longTermExemption: number;
+    /** Whether losses here can be set off against other gains, and other losses against gains here. */
+    setOffAllowed: boolean;
+}
+
+/**
+ * The rules in force for sales on or after `effectiveFrom` (ISO date), until
+ * the next table starts. Amounts are in rupees; `cess` is added on the tax.
+ */
+export interface TaxRuleTable {
+    version: string;
+    effectiveFrom: string;
+    cess: number;
+    rules: Record<TaxCategory, TaxRule>;
+}
+
+// Simplified from the Income-tax Act for resident individuals. Debt here means
+// debt funds bought from April 2023, which are taxed at slab rate however long
+// they are held. Surcharge and grandfathering of pre-2018 equity are left out.
+export const DEFAULT_TAX_RULES: TaxRuleTable[] = [
+    {
+        version: 'FY 2023-24',
+        effectiveFrom: '2023-04-01',
+        cess: 0.04,
+        rules: {
+            listedEquity: { longTermAfterMonths: 12, shortTermRate: 0.15, longTermRate: 0.10, longTermExemption: 100000, setOffAllowed: true },
+            foreignEquity: { longTermAfterMonths: 24, shortTermRate: null, longTermRate: 0.20, longTermExemption: 0, setOffAllowed: true },
+            debt: { longTermAfterMonths: null, shortTermRate: null, longTermRate: null, longTermExemption: 0, setOffAllowed: true },
+            gold: { longTermAfterMonths: 36, shortTermRate: null, longTermRate: 0.20, longTermExemption: 0, setOffAllowed: true },
+            crypto: { longTermAfterMonths: null, shortTermRate: 0.30, longTermRate: 0.30, longTermExemption: 0, setOffAllowed: false },
+            other: { longTermAfterMonths: 36, shortTermRate: null, longTermRate: 0.20, longTermExemption: 0, setOffAllowed: true },
+        },
+    },
+    {
+        version: 'FY 2024-25 (Budget July 2024)',
+        effectiveFrom: '2024-07-23',
+        cess: 0.04,
+        rules: {
+            listedEquity: { longTermAfterMonths: 12, shortTermRate: 0.20, longTermRate: 0.125, longTermExemption: 125000, setOffAllowed: true },
+            foreignEquity: { longTermAfterMonths: 24, shortTermRate: null, longTermRate: 0.125, longTermExemption: 0, setOffAllowed: true },
+            debt: { longTermAfterMonths: null, shortTermRate: null, longTermRate: null, longTermExemption: 0, setOffAllowed: true },
+            gold: { longTermAfterMonths: 24, shortTermRate: null, longTermRate: 0.125, longTermExemption: 0, setOffAllowed: true },
+            crypto: { longTermAfterMonths: null, shortTermRate: 0.30, longTermRate: 0.30, longTermExemption: 0, setOffAllowed: false },
+            other: { longTermAfterMonths: 24, shortTermRate: null, longTermRate: 0.125, longTermExemption: 0, setOffAllowed: true },
+        },
+    },
+];
+
+/** Rupees per rupee-equivalent; gains are converted before any rule is applied. */
+export type ToRupees = (amount: number, currency: string) => number | null;
+
+/** Units of a holding sold at `salePrice`, in the holding's currency. */
+export interface SaleLot {
+    holding: Holding;
+    quantity: number;
+    salePrice: number;
+}
+
+export interface LotTax {
+    holding: Holding;
+    quantity: number;
+    category: TaxCategory;
+    term: GainTerm;
+    /** No purchase date, so the lot was treated as short-term. */
+    unknownDate: boolean;
+    /** In rupees; negative for a loss. */
+    gain: number;
+}
+
+export interface TaxEstimate {
+    table: TaxRuleTable;
+    lots: LotTax[];
+    /** Sold holdings that could not be converted to rupees. */
+    skipped: Holding[];
+    shortTermGains: number;
+    longTermGains: number;
+    /** Losses set off against gains in this sale. */
+    lossesSetOff: number;
+    /** Losses left over, which the law lets you carry forward. */
+    lossesCarried: number;
+    exemptionUsed: number;
+    /** Including cess. */
+    tax: number;
+}
+
+export function taxCategoryOf(holding: Holding): TaxCategory | null {
+    switch (holding.assetClass) {
+        case 'Stock':
+        case 'Mutual Fund':
+        case 'ETF':
+            return geographyOf(holding) === 'India' ? 'listedEquity' : 'foreignEquity';
+        case 'Bond': return 'debt';
+        case 'Gold': return 'gold';
+        case 'Crypto': return 'crypto';
+        case 'Other': return 'other';
+        // Cash has no capital gain.
+        default: return null;
+    }
+}
+
+/** The table in force on `saleDate`, or the earliest one for dates before any table. */
+export function ruleTableFor(tables: TaxRuleTable[], saleDate: string): TaxRuleTable {
+    const sorted = [...tables].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    return sorted.filter(table => table.effectiveFrom <= saleDate).pop() ?? sorted[0];
+}
+
+/** "More than N months": long-term only once the sale date is past the N-month anniversary. */
+export function gainTerm(rule: TaxRule, purchaseDate: string, saleDate: string): GainTerm {
+    if (rule.longTermAfterMonths === null || !purchaseDate) return 'short';
+    const [year, month, day] = purchaseDate.split('-').map(Number);
+    const anniversary = new Date(Date.UTC(year, month - 1 + rule.longTermAfterMonths, day));
+    return new Date(`${saleDate}T00:00:00Z`) > anniversary ? 'long' : 'short';
+}
+
+const rateFor = (rule: TaxRule, term: GainTerm, slabRate: number) =>
+    (term === 'long' ? rule.longTermRate : rule.shortTermRate) ?? slabRate;
+
+interface Bucket {
+    category: TaxCategory;
+    term: GainTerm;
+    amount: number;
+    rate: number;
+}
+
+/**
+ * Tax on selling the given lots on `saleDate`, as if nothing else were sold
+ * that financial year. Short-term losses are set off against any gain and
+ * long-term losses only against long-term gains, highest-taxed first; the
+ * long-term exemption then applies to what is left.
+ */
+export function estimateTax(
+    sales: SaleLot[],
+    tables: TaxRuleTable[],
+    { saleDate, slabRate, toRupees }: { saleDate: string; slabRate: number; toRupees: ToRupees },
+): TaxEstimate {
+    const table = ruleTableFor(tables, saleDate);
+    const lots: LotTax[] = [];
+    const skipped: Holding[] = [];
+    for (const { holding, quantity, salePrice } of sales) {
+        const category = taxCategoryOf(holding);
+        if (category === null || quantity <= 0) continue;
+        const gain = toRupees(quantity * (salePrice - holding.averageCost), holding.currency);
+        if (gain === null) {
+            skipped.push(holding);
+            continue;
+        }
+        lots.push({
+            holding,
+            quantity,
+            category,
+            term: gainTerm(table.rules[category], holding.purchaseDate, saleDate),
+            unknownDate: !holding.purchaseDate,
+            gain,
+        });
+    }
+
+    const buckets: Bucket[] = [];
+    let shortTermLoss = 0;
+    let longTermLoss = 0;
+    for (const lot of lots) {
+        const rule = table.rules[lot.category];
+        if (lot.gain < 0) {
+            // Losses that can't be set off (crypto) are simply lost.
+            if (!rule.setOffAllowed) continue;
+            if (lot.term === 'short') shortTermLoss -= lot.gain;
+            else longTermLoss -= lot.gain;
+            continue;
+        }
+        const existing = buckets.find(b => b.category === lot.category && b.term === lot.term);
+        if (existing) existing.amount += lot.gain;
+        else buckets.push({ category: lot.category, term: lot.term, amount: lot.gain, rate: rateFor(rule, lot.term, slabRate) });
+    }
+    const shortTermGains = buckets.filter(b => b.term === 'short').reduce((sum, b) => sum + b.amount, 0);
+    const longTermGains = buckets.filter(b => b.term === 'long').reduce((sum, b) => sum + b.amount, 0);
+
+    const offsettable = buckets.filter(b => table.rules[b.category].setOffAllowed).sort((a, b) => b.rate - a.rate);
+    const setOff = (loss: number, eligible: Bucket[]) => {
+        let left = loss;
+        for (const bucket of eligible) {
+            const used = Math.min(left, bucket.amount);
+            bucket.amount -= used;
+            left -= used;
+        }
+        return left;
+    };
+    const longTermLeft = setOff(longTermLoss, offsettable.filter(b => b.term === 'long'));
+    const shortTermLeft = setOff(shortTermLoss, offsettable);
+
+    let exemptionUsed = 0;
+    for (const bucket of buckets) {
+        if (bucket.term !== 'long') continue;
+        const exempt = Math.min(bucket.amount, table.rules[bucket.category].longTermExemption);
+        bucket.amount -= exempt;
+        exemptionUsed += exempt;
+    }
+
+    const tax = buckets.reduce((sum, b) => sum + b.amount * b.rate, 0) * (1 + table.cess);
+    return {
+        table,
+        lots,
+        skipped,
+        shortTermGains,
+        longTermGains,
+        lossesSetOff: shortTermLoss + longTermLoss - shortTermLeft - longTermLeft,
+        lossesCarried: shortTermLeft + longTermLeft,
+        exemptionUsed,
+        tax,
+    };
+}
+
+export interface HarvestCandidate {
+    holding: Holding;
+    term: GainTerm;
+    /** Unrealised loss in rupees, as a positive number. */
+    loss: number;
+    /** How much less tax the sale would attract if this loss were booked alongside it. */
+    taxSaved: number;
+}
+
+/**
+ * Loss-making holdings, not already sold in `sales`, whose loss would reduce
+ * the tax on them. Candidates below `minLoss` rupees are not worth the trade.
+ */
+export function findHarvestCandidates(
+    holdings: { holding: Holding; price: number }[],
+    sales: SaleLot[],
+    tables: TaxRuleTable[],
+    options: { saleDate: string; slabRate: number; toRupees: ToRupees },
+    minLoss = 1000,
+): HarvestCandidate[] {
+    const base = estimateTax(sales, tables, options);
+    return holdings.flatMap(({ holding, price }): HarvestCandidate[] => {
+        const sold = sales.filter(s => s.holding.id === holding.id).reduce((sum, s) => sum + s.quantity, 0);
+        const remaining = holding.quantity - sold;
+        if (remaining <= 0 || price >= holding.averageCost) return [];
+        const lot = { holding, quantity: remaining, salePrice: price };
+        const withLoss = estimateTax([...sales, lot], tables, options);
+        const booked = withLoss.lots[withLoss.lots.length - 1];
+        if (!booked || booked.holding.id !== holding.id || -booked.gain < minLoss) return [];
+        const taxSaved = base.tax - withLoss.tax;
+        return taxSaved > 0 ? [{ holding, term: booked.term, loss: -booked.gain, taxSaved }] : [];
+    }).sort((a, b) => b.taxSaved - a.taxSaved);
+}
+
+/** Long-term listed-equity gains that could still be booked tax-free alongside this sale. */
+export const unusedEquityExemption = (estimate: TaxEstimate): number => {
+    const exemption = estimate.table.rules.listedEquity.longTermExemption;
+    const used = estimate.lots
+        .filter(lot => lot.category === 'listedEquity' && lot.term === 'long')
+        .reduce((sum, lot) => sum + lot.gain, 0);
+    return Math.max(0, exemption - Math.max(0, used));
+};
@@ -0,0 +1,294 @@
+import { CONFIDENCE_LEVELS, RISK_TOLERANCES, TREND_PREDICTIONS } from '../types';
+import { LANGUAGE_NAMES } from '../i18n/languages';
+import type {
+    AdviceInputs, FinancialAdvice, PartialFinancialAdvice, PartialPortfolioPrediction, PortfolioPrediction, Recommendation, PortfolioAnalysisItem,
+    ValidationIssue, WatchReview,
+} from '../types';
+
+type FieldResult<T> =
+    | { ok: true; value: T; coerced?: string }
+    | { ok: false; error: string };
+
+type FieldValidator<T> = (input: unknown) => FieldResult<T>;
+
+// One validator per property, so adding a field to an interface in types.ts
+// fails the type-check until the matching schema below is updated.
+type ObjectSchema<T> = { [K in keyof T]-?: FieldValidator<T[K]> };
+
+export interface ValidationResult<T> {
+    value: T | null;
+    issues: ValidationIssue[];
+    errors: string[];
+}
+
+const requiredString: FieldValidator<string> = (input) => {
+    if (typeof input === 'string' && input.trim() !== '') {
+        return { ok: true, value: input.trim() };
+    }
+    if (typeof input === 'number' || typeof input === 'boolean') {
+        return { ok: true, value: String(input), coerced: `converted ${typeof input} to string` };
+    }
+    return { ok: false, error: 'expected a non-empty string' };
+};
+
+const optionalString: FieldValidator<string | undefined> = (input) => {
+    if (input === undefined || input === null || input === '') {
+        return { ok: true, value: undefined };
+    }
+    const result = requiredString(input);
+    return result.ok ? result : { ok: true, value: undefined, coerced: `ignored unusable value ${JSON.stringify(input)}` };
+};
+
+const optionalPositiveNumber: FieldValidator<number | undefined> = (input) => {
+    if (input === undefined || input === null || input === '') {
+        return { ok: true, value: undefined };
+    }
+    if (typeof input === 'number' && Number.isFinite(input) && input > 0) {
+        return { ok: true, value: input };
+    }
+    const parsed = typeof input === 'string' ? Number(input.replace(/[^0-9.\-]/g, '')) : NaN;
+    if (Number.isFinite(parsed) && parsed > 0) {
+        return { ok: true, value: parsed, coerced: `parsed number from ${JSON.stringify(input)}` };
+    }
+    return { ok: true, value: undefined, coerced: `ignored unusable value ${JSON.stringify(input)}` };
+};
+
+const oneOf = <T extends string>(allowed: readonly T[]): FieldValidator<T> => (input) => {
+    if (typeof input === 'string') {
+        if ((allowed as readonly string[]).includes(input)) {
+            return { ok: true, value: input as T };
+        }
+        const match = allowed.find(option => option.toLowerCase() === input.trim().toLowerCase());
+        if (match) {
+            return { ok: true, value: match, coerced: `normalised "${input}" to "${match}"` };
+        }
+    }
+    return { ok: false, error: `expected one of ${allowed.map(a => `'${a}'`).join(', ')}, got ${JSON.stringify(input)}` };
+};
+
+// Unlike oneOf, an unrecognised value is dropped rather than failing the object.
+const optionalOneOf = <T extends string>(allowed: readonly T[]): FieldValidator<T | undefined> => (input) => {
+    if (input === undefined || input === null || input === '') {
+        return { ok: true, value: undefined };
+    }
+    const result = oneOf(allowed)(input);
+    return result.ok ? result : { ok: true, value: undefined, coerced: `ignored unusable value ${JSON.stringify(input)}` };
+};
+
+const optionalCurrencyCode: FieldValidator<string | undefined> = (input) => {
+    if (input === undefined || input === null || input === '') {
+        return { ok: true, value: undefined };
+    }
+    const code = typeof input === 'string' ? input.trim().toUpperCase() : '';
+    if (/^[A-Z]{3}$/.test(code)) {
+        return code === input ? { ok: true, value: code } : { ok: true, value: code, coerced: `normalised "${input}" to "${code}"` };
+    }
+    return { ok: true, value: undefined, coerced: `ignored unusable value ${JSON.stringify(input)}` };
+};
+
+const recommendationSchema: ObjectSchema<Recommendation> = {
+    category: requiredString,
+    name: requiredString,
+    rationale: requiredString,
+    confidence: oneOf(CONFIDENCE_LEVELS),
+    prediction: oneOf(TREND_PREDICTIONS),
+};
+
+const portfolioAnalysisItemSchema: ObjectSchema<PortfolioAnalysisItem> = {
+    holdingId: optionalString,
+    name: requiredString,
+    currentPrice: optionalPositiveNumber,
+    currentAnalysis: requiredString,
+    futureOutlook: requiredString,
+    confidence: oneOf(CONFIDENCE_LEVELS),
+    prediction: oneOf(TREND_PREDICTIONS),
+};
+
+const watchReviewSchema: ObjectSchema<WatchReview> = {
+    itemId: requiredString,
+    prediction: oneOf(TREND_PREDICTIONS),
+    confidence: oneOf(CONFIDENCE_LEVELS),
+    note: requiredString,
+};
+
+// Every field is optional: a spoken sentence may mention only some of them.
+// The risk profile only comes from the questionnaire.
+const spokenAdviceInputsSchema: ObjectSchema<Partial<Omit<AdviceInputs, 'riskProfile'>>> = {
+    investmentAmount: optionalPositiveNumber,
+    currency: optionalCurrencyCode,
+    riskTolerance: optionalOneOf(RISK_TOLERANCES),
+    investmentHorizon: optionalPositiveNumber,
+    language: optionalOneOf(LANGUAGE_NAMES),
+};
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+    typeof input === 'object' && input !== null && !Array.isArray(input);
+
+function validateObject<T>(
+    schema: ObjectSchema<T>,
+    input: unknown,
+    path: string,
+    issues: ValidationIssue[],
+): { value: T | null; errors: string[] } {
+    if (!isRecord(input)) {
+        return { value: null, errors: [`${path || 'response'}: expected an object`] };
+    }
+    const value = {} as T;
+    const errors: string[] = [];
+    for (const key of Object.keys(schema) as (keyof T & string)[]) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const result = schema[key](input[key]);
+        if (result.ok === false) {
+            errors.push(`${fieldPath}: ${result.error}`);
+            continue;
+        }
+        if (result.coerced) {
+            issues.push({ path: fieldPath, action: 'coerced', detail: result.coerced });
+        }
+        if (result.value !== undefined) {
+            value[key] = result.value;
+        }
+    }
+    return errors.length ? { value: null, errors } : { value, errors };
+}
+
+// Invalid list items are dropped (and reported) instead of failing the whole
+// response; only an empty or missing list is treated as an error.
+function validateList<T>(
+    schema: ObjectSchema<T>,
+    input: unknown,
+    path: string,
+    issues: ValidationIssue[],
+): { value: T[] | null; errors: string[] } {
+    if (!Array.isArray(input)) {
+        return { value: null, errors: [`${path}: expected an array`] };
+    }
+    const items: T[] = [];
+    input.forEach((entry, index) => {
+        const itemPath = `${path}[${index}]`;
+        const itemIssues: ValidationIssue[] = [];
+        const result = validateObject(schema, entry, itemPath, itemIssues);
+        if (result.value) {
+            items.push(result.value);
+            issues.push(...itemIssues);
+        } else {
+            issues.push({ path: itemPath, action: 'dropped', detail: result.errors.join('; ') });
+        }
+    });
+    if (items.length === 0) {
+        return { value: null, errors: [`${path}: expected at least one valid item`] };
+    }
+    return { value: items, errors: [] };
+}
+
+// Items of a response still being parsed that have closed and validate; the
+// rest are left for the full validation once the response is complete.
+function completeItems<T>(schema: ObjectSchema<T>, input: unknown, isComplete: (node: unknown) => boolean): T[] {
+    if (!Array.isArray(input)) return [];
+    return input
+        .filter(isComplete)
+        .map(entry => validateObject(schema, entry, '', []).value)
+        .filter((item): item is T => item !== null);
+}
+
+const completeString = (input: unknown): string | undefined => {
+    const result = requiredString(input);
+    return result.ok === false ? undefined : result.value;
+};
+
+/**
+ * Extracts the JSON payload from a model response, tolerating a ```json fence
+ * or stray prose around the object. Throws a SyntaxError if nothing parses.
+ */
+export function parseModelJson(text: string): unknown {
+    let candidate = text.trim();
+    const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (fenced && fenced[1]) {
+        candidate = fenced[1];
+    }
+    try {
+        return JSON.parse(candidate);
+    } catch (error) {
+        const start = candidate.indexOf('{');
+        const end = candidate.lastIndexOf('}');
+        if (start === -1 || end <= start) {
+            throw error;
+        }
+        return JSON.parse(candidate.slice(start, end + 1));
+    }
+}
+
+export function validateFinancialAdvice(input: unknown): ValidationResult<FinancialAdvice> {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(input)) {
+        return { value: null, issues, errors: ['response: expected a JSON object'] };
+    }
+    const summary = requiredString(input.summary);
+    const recommendations = validateList(recommendationSchema, input.recommendations, 'recommendations', issues);
+
+    const errors = [...recommendations.errors];
+    if (summary.ok === false) {
+        errors.unshift(`summary: ${summary.error}`);
+    } else if (summary.coerced) {
+        issues.push({ path: 'summary', action: 'coerced', detail: summary.coerced });
+    }
+    if (errors.length || summary.ok === false || !recommendations.value) {
+        return { value: null, issues, errors };
+    }
+    return { value: { summary: summary.value, recommendations: recommendations.value }, issues, errors };
+}
+
+export function validatePortfolioPrediction(input: unknown): ValidationResult<PortfolioPrediction> {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(input)) {
+        return { value: null, issues, errors: ['response: expected a JSON object'] };
+    }
+    const overallSummary = requiredString(input.overallSummary);
+    const portfolioAnalysis = validateList(portfolioAnalysisItemSchema, input.portfolioAnalysis, 'portfolioAnalysis', issues);
+
+    const errors = [...portfolioAnalysis.errors];
+    if (overallSummary.ok === false) {
+        errors.unshift(`overallSummary: ${overallSummary.error}`);
+    } else if (overallSummary.coerced) {
+        issues.push({ path: 'overallSummary', action: 'coerced', detail: overallSummary.coerced });
+    }
+    if (errors.length || overallSummary.ok === false || !portfolioAnalysis.value) {
+        return { value: null, issues, errors };
+    }
+    return { value: { portfolioAnalysis: portfolioAnalysis.value, overallSummary: overallSummary.value }, issues, errors };
+}
+
+/**
+ * What can be shown of advice still streaming in. `input` is the partly parsed
+ * response and `isComplete` tells which of its objects have closed.
+ */
+export function partialFinancialAdvice(input: unknown, isComplete: (node: unknown) => boolean): PartialFinancialAdvice {
+    if (!isRecord(input)) return { recommendations: [] };
+    return {
+        summary: completeString(input.summary),
+        recommendations: completeItems(recommendationSchema, input.recommendations, isComplete),
+    };
+}
+
+export function partialPortfolioPrediction(input: unknown, isComplete: (node: unknown) => boolean): PartialPortfolioPrediction {
+    if (!isRecord(input)) return { portfolioAnalysis: [] };
+    return {
+        portfolioAnalysis: completeItems(portfolioAnalysisItemSchema, input.portfolioAnalysis, isComplete),
+        overallSummary: completeString(input.overallSummary),
+    };
+}
+
+export function validateSpokenAdviceInputs(input: unknown): ValidationResult<Partial<Omit<AdviceInputs, 'riskProfile'>>> {
+    const issues: ValidationIssue[] = [];
+    const { value, errors } = validateObject(spokenAdviceInputsSchema, input, '', issues);
+    return { value, issues, errors };
+}
+
+export function validateWatchReviews(input: unknown): ValidationResult<WatchReview[]> {
+    const issues: ValidationIssue[] = [];
+    if (!isRecord(input)) {
+        return { value: null, issues, errors: ['response: expected a JSON object'] };
+    }
+    const { value, errors } = validateList(watchReviewSchema, input.reviews, 'reviews', issues);
+    return { value, issues, errors };
+}
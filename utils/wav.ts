@@ -0,0 +1,66 @@
+const HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+
+export interface WavOptions {
+    sampleRate?: number;
+    channels?: number;
+    /** Silence inserted between chunks so sections don't run together. */
+    gapSeconds?: number;
+}
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+};
+
+/**
+ * Converts samples in [-1, 1] to 16-bit little-endian PCM, the format
+ * encodeWav expects. Out-of-range samples are clipped.
+ */
+export function encodePcm16(samples: Float32Array): Uint8Array {
+    const bytes = new Uint8Array(samples.length * BYTES_PER_SAMPLE);
+    const view = new DataView(bytes.buffer);
+    samples.forEach((sample, i) => {
+        const clipped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(i * BYTES_PER_SAMPLE, Math.round(clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff), true);
+    });
+    return bytes;
+}
+
+/**
+ * Joins raw 16-bit little-endian PCM chunks (the TTS output) into a single
+ * WAV file. Pure byte manipulation, so it needs no AudioContext.
+ */
+export function encodeWav(chunks: Uint8Array[], { sampleRate = 24000, channels = 1, gapSeconds = 0.4 }: WavOptions = {}): Uint8Array {
+    const frameBytes = BYTES_PER_SAMPLE * channels;
+    const gapBytes = Math.round(gapSeconds * sampleRate) * frameBytes;
+    // Drop a trailing odd byte so every chunk holds whole frames.
+    const trimmed = chunks.map(chunk => chunk.subarray(0, chunk.length - (chunk.length % frameBytes)));
+    const dataBytes = trimmed.reduce((sum, chunk) => sum + chunk.length, 0) + gapBytes * Math.max(trimmed.length - 1, 0);
+
+    const bytes = new Uint8Array(HEADER_BYTES + dataBytes);
+    const view = new DataView(bytes.buffer);
+    writeAscii(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataBytes, true);
+    writeAscii(view, 8, 'WAVE');
+    writeAscii(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * frameBytes, true); // byte rate
+    view.setUint16(32, frameBytes, true); // block align
+    view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+    writeAscii(view, 36, 'data');
+    view.setUint32(40, dataBytes, true);
+
+    // The gaps are already zero, i.e. silence.
+    let offset = HEADER_BYTES;
+    trimmed.forEach((chunk, index) => {
+        if (index > 0) offset += gapBytes;
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return bytes;
+}
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The proxy server (npm run server) holds the API key; the browser only sees /api.
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL)
       },
       resolve: {
         alias: {
@@ -0,0 +1,230 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { WatchAlert, WatchItem } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n/messages/en';
+import {
+    checkWatchlist, clearWatchAlerts, dueWatchItems, listWatchAlerts, listWatchItems, loadWatchInterval,
+    markWatchAlertsRead, nextRetryAt, removeWatchItem, saveWatchInterval, saveWatchItem,
+} from '../services/watchlistService';
+
+const WORKER_URL = 'watchlist-sw.js';
+const SYNC_TAG = 'watchlist-check';
+const TICK_MS = 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+export type NotificationState = 'unsupported' | NotificationPermission;
+
+export interface WatchlistState {
+    items: WatchItem[];
+    alerts: WatchAlert[];
+    unreadCount: number;
+    isWatched: (id: string) => boolean;
+    /** Pins the item, or unpins it when it is already watched. */
+    toggle: (item: WatchItem) => void;
+    remove: (id: string) => void;
+    /** Hours between checks; 0 pauses them. */
+    intervalHours: number;
+    setIntervalHours: (hours: number) => void;
+    isChecking: boolean;
+    lastError: MessageKey | null;
+    checkNow: () => void;
+    markAllRead: () => void;
+    clearAlerts: () => void;
+    notifications: NotificationState;
+    enableNotifications: () => void;
+}
+
+const WatchlistContext = createContext<WatchlistState | null>(null);
+
+const currentPermission = (): NotificationState =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+// Periodic Background Sync is only in Chromium and missing from the DOM typings.
+interface PeriodicSyncManager {
+    register(tag: string, options?: { minInterval: number }): Promise<void>;
+    unregister(tag: string): Promise<void>;
+}
+
+const registerPeriodicCheck = async (registration: ServiceWorkerRegistration, intervalHours: number) => {
+    if (!('periodicSync' in registration)) return;
+    const periodicSync = registration.periodicSync as PeriodicSyncManager;
+    try {
+        if (intervalHours > 0) {
+            await periodicSync.register(SYNC_TAG, { minInterval: intervalHours * HOUR });
+        } else {
+            await periodicSync.unregister(SYNC_TAG);
+        }
+    } catch {
+        // Refused unless the app is installed and engaged; the in-page scheduler still runs.
+    }
+};
+
+/**
+ * Keeps the watchlist and alert history, and re-checks due items every minute
+ * while the app is open, waiting longer after each check that failed. A
+ * service worker, where the browser has one, asks an open tab to check or
+ * reminds the user when none is open.
+ */
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { t } = useI18n();
+    const [items, setItems] = useState<WatchItem[]>([]);
+    const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+    const [intervalHours, setStoredInterval] = useState(loadWatchInterval);
+    const [isChecking, setIsChecking] = useState(false);
+    const [lastError, setLastError] = useState<MessageKey | null>(null);
+    const [notifications, setNotifications] = useState<NotificationState>(currentPermission);
+    const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+    // Read by the timer and worker messages without re-subscribing them on every change.
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+    const checkingRef = useRef(false);
+    // Failed checks in a row and when the last one failed; kept for this visit only.
+    const failuresRef = useRef({ count: 0, at: 0 });
+
+    useEffect(() => {
+        Promise.all([listWatchItems(), listWatchAlerts()])
+            .then(([storedItems, storedAlerts]) => {
+                setItems(storedItems);
+                setAlerts(storedAlerts);
+            })
+            .catch(() => setLastError('watch.unavailable'));
+    }, []);
+
+    useEffect(() => {
+        if (!('serviceWorker' in navigator)) return;
+        navigator.serviceWorker.register(WORKER_URL)
+            .then(() => navigator.serviceWorker.ready)
+            .then(setRegistration)
+            .catch(err => console.error("Error registering the watchlist service worker:", err));
+    }, []);
+
+    useEffect(() => {
+        if (registration) registerPeriodicCheck(registration, intervalHours);
+    }, [registration, intervalHours]);
+
+    // The worker can't translate, so it is sent the reminder text in the current language.
+    useEffect(() => {
+        registration?.active?.postMessage({
+            type: 'watchlist-config',
+            title: t('watch.reminderTitle'),
+            body: t('watch.reminderBody'),
+        });
+    }, [registration, t]);
+
+    const notify = useCallback((newAlerts: WatchAlert[]) => {
+        if (newAlerts.length === 0 || currentPermission() !== 'granted') return;
+        const title = newAlerts.length === 1
+            ? t('watch.notifyOne', { name: newAlerts[0].itemName })
+            : t('watch.notifyMany', { count: newAlerts.length });
+        const body = newAlerts.map(alert => `${alert.itemName}: ${t(`watch.change.${alert.field}`, {
+            from: t(`${alert.field === 'prediction' ? 'trend' : 'confidence'}.${alert.from}` as MessageKey),
+            to: t(`${alert.field === 'prediction' ? 'trend' : 'confidence'}.${alert.to}` as MessageKey),
+        })}`).join('\n');
+        const onError = (err: unknown) => console.error("Error showing watchlist notification:", err);
+        if (registration) {
+            registration.showNotification(title, { body, tag: SYNC_TAG }).catch(onError);
+            return;
+        }
+        try {
+            new Notification(title, { body, tag: SYNC_TAG });
+        } catch (err) {
+            // Some mobile browsers only allow notifications from a service worker.
+            onError(err);
+        }
+    }, [registration, t]);
+
+    const runCheck = useCallback(async (toCheck: WatchItem[]) => {
+        if (checkingRef.current || toCheck.length === 0) return;
+        checkingRef.current = true;
+        setIsChecking(true);
+        try {
+            const result = await checkWatchlist(toCheck);
+            // An item unpinned while the check ran was written back with its result.
+            result.items
+                .filter(updated => !itemsRef.current.some(item => item.id === updated.id))
+                .forEach(updated => removeWatchItem(updated.id).catch(() => setLastError('watch.unavailable')));
+            setItems(prev => prev.map(item => result.items.find(u => u.id === item.id) ?? item));
+            setAlerts(prev => [...result.alerts, ...prev]);
+            setLastError(null);
+            failuresRef.current = { count: 0, at: 0 };
+            notify(result.alerts);
+        } catch (err) {
+            console.error("Error checking watchlist:", err);
+            setLastError('watch.checkFailed');
+            failuresRef.current = { count: failuresRef.current.count + 1, at: Date.now() };
+        } finally {
+            checkingRef.current = false;
+            setIsChecking(false);
+        }
+    }, [notify]);
+
+    useEffect(() => {
+        const checkDue = () => {
+            const failures = failuresRef.current;
+            if (failures.count > 0 && Date.now() < nextRetryAt(failures.count, failures.at, intervalHours)) return;
+            runCheck(dueWatchItems(itemsRef.current, intervalHours));
+        };
+        const timer = setInterval(checkDue, TICK_MS);
+        const onVisible = () => document.visibilityState === 'visible' && checkDue();
+        const onMessage = (event: MessageEvent) => event.data?.type === SYNC_TAG && checkDue();
+        document.addEventListener('visibilitychange', onVisible);
+        navigator.serviceWorker?.addEventListener('message', onMessage);
+        return () => {
+            clearInterval(timer);
+            document.removeEventListener('visibilitychange', onVisible);
+            navigator.serviceWorker?.removeEventListener('message', onMessage);
+        };
+    }, [intervalHours, runCheck]);
+
+    const value = useMemo<WatchlistState>(() => {
+        const persist = (action: Promise<void>) => action.catch(() => setLastError('watch.unavailable'));
+        return {
+            items,
+            alerts,
+            unreadCount: alerts.filter(alert => !alert.read).length,
+            isWatched: id => items.some(item => item.id === id),
+            toggle: item => {
+                if (items.some(existing => existing.id === item.id)) {
+                    setItems(prev => prev.filter(existing => existing.id !== item.id));
+                    persist(removeWatchItem(item.id));
+                } else {
+                    setItems(prev => [...prev, item]);
+                    persist(saveWatchItem(item));
+                }
+            },
+            remove: id => {
+                setItems(prev => prev.filter(item => item.id !== id));
+                persist(removeWatchItem(id));
+            },
+            intervalHours,
+            setIntervalHours: hours => {
+                setStoredInterval(hours);
+                saveWatchInterval(hours);
+            },
+            isChecking,
+            lastError,
+            checkNow: () => runCheck(items),
+            markAllRead: () => {
+                persist(markWatchAlertsRead(alerts));
+                setAlerts(prev => prev.map(alert => ({ ...alert, read: true })));
+            },
+            clearAlerts: () => {
+                setAlerts([]);
+                persist(clearWatchAlerts());
+            },
+            notifications,
+            enableNotifications: () => {
+                if (typeof Notification === 'undefined') return;
+                Notification.requestPermission().then(setNotifications);
+            },
+        };
+    }, [items, alerts, intervalHours, isChecking, lastError, runCheck, notifications]);
+
+    return <WatchlistContext.Provider value={value}>{children}</WatchlistContext.Provider>;
+};
+
+export const useWatchlist = (): WatchlistState => {
+    const context = useContext(WatchlistContext);
+    if (!context) throw new Error('useWatchlist must be used inside <WatchlistProvider>.');
+    return context;
+};
@@ -0,0 +1,10 @@
+import { runSimulation, SimulationInput } from '../utils/simulation';
+
+// Keeps thousands of paths off the main thread so the page stays responsive.
+self.onmessage = (event: MessageEvent<SimulationInput>) => {
+    try {
+        self.postMessage({ ok: true, result: runSimulation(event.data) });
+    } catch (error) {
+        self.postMessage({ ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+};